@@ -7,6 +7,8 @@ import { ThemeProvider } from "next-themes";
 import { AuthProvider, useAuth } from "@/hooks/useAuth";
 import { FacilityProvider } from "@/contexts/FacilityContext";
 import { SyncProvider } from "@/contexts/SyncContext";
+import { MedicalDictionaryProvider } from "@/contexts/MedicalDictionaryContext";
+import { SmartPhraseProvider } from "@/contexts/SmartPhraseContext";
 import AdminRoute from "@/components/auth/AdminRoute";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
@@ -101,7 +103,11 @@ const App = () => (
           <AuthProvider>
             <SyncProvider>
               <FacilityProvider>
-                <AppRoutes />
+                <MedicalDictionaryProvider>
+                  <SmartPhraseProvider>
+                    <AppRoutes />
+                  </SmartPhraseProvider>
+                </MedicalDictionaryProvider>
               </FacilityProvider>
             </SyncProvider>
           </AuthProvider>
@@ -29,6 +29,7 @@ import virtualisLogo from '@/assets/virtualis-logo.png';
 import { useAdminDashboard, SpecialtyMetrics, FacilityMetrics, ProviderMetrics, DatePreset } from '@/hooks/useAdminDashboard';
 import PrintableReport from './admin/PrintableReport';
 import AuditLogViewer from './admin/AuditLogViewer';
+import AiUsagePanel from './admin/AiUsagePanel';
 
 // Date Range Presets
 const DATE_PRESETS: { id: DatePreset; label: string }[] = [
@@ -720,6 +721,11 @@ export default function AdminDashboard() {
         )}
       </AnimatePresence>
 
+      {/* AI Usage Section */}
+      <div className="glass-card p-4 mt-6 print:hidden">
+        <AiUsagePanel from={dateRange.from} to={dateRange.to} />
+      </div>
+
       {/* Audit Logs Section */}
       <div className="glass-card p-4 mt-6 print:hidden">
         <AuditLogViewer />
@@ -125,6 +125,7 @@ export default function AnalyticsDashboard() {
         { name: 'H&P', value: typeCounts['hp'] || 0 },
         { name: 'Progress', value: typeCounts['progress'] || 0 },
         { name: 'Consult', value: typeCounts['consult'] || 0 },
+        { name: 'Discharge', value: typeCounts['discharge'] || 0 },
       ].filter(d => d.value > 0));
 
     } catch (e) {
@@ -1,14 +1,20 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useFacility } from '@/contexts/FacilityContext';
-import useSpeech from '@/hooks/useSpeech';
-import AI from '@/services/ai';
+import useTranscription from '@/hooks/useTranscription';
+import useSmartPhraseExpansion from '@/hooks/useSmartPhraseExpansion';
+import AI, { SectionRefineRequest } from '@/services/ai';
+import { fetchPatientSummary, refreshPatientSummary } from '@/services/patientSummary';
+import { saveVerification } from '@/services/noteSigning';
+import { linkGenerationsToNote } from '@/services/aiGenerations';
+import type { Json } from '@/integrations/supabase/types';
+import { confirmFlag, unresolvedFlags, verifyNote, NoteVerification, VerificationSources } from '@/lib/noteVerification';
 import AppLayout from '@/components/layout/AppLayout';
 import AnalyticsDashboard from './AnalyticsDashboard';
-import { Waveform, NoteSection, Modal, Toast, copyToClipboard, parseNoteSections } from './elyn/index';
+import { Waveform, NoteSection, Modal, Toast, copyToClipboard, extractNoteFields, parseNoteSections, replaceNoteSection } from './elyn/index';
 import { RadiologyContextInput, ModalitySelector } from './elyn/RadiologyContext';
 import elynLogo from '@/assets/elyn-logo.png';
 import { Button } from '@/components/ui/button';
@@ -17,7 +23,7 @@ import { Menu, X, Mic, MicOff, AlertCircle, ChevronDown, ChevronUp, Building2, S
 import { useSync } from '@/contexts/SyncContext';
 import SyncStatusIndicator from '@/components/sync/SyncStatusIndicator';
 
-import type { BillingCodes, DocumentMode, RadiologyModality, RadiologyContext } from '@/types/medical';
+import type { BillingCodes, DocumentMode, PatientContext, RadiologyModality, RadiologyContext } from '@/types/medical';
 
 interface ElynPatientData {
   id: string | null;
@@ -52,7 +58,6 @@ export default function Elyn() {
   const navigate = useNavigate();
   const { user, signOut } = useAuth();
   const { facilities, selectedFacilityId, selectedFacility } = useFacility();
-  const speech = useSpeech();
   const { status: syncStatus, lastSyncTime, connectedDevices, forceSync } = useSync();
 
   const [activeTab, setActiveTab] = useState('document');
@@ -70,6 +75,8 @@ export default function Elyn() {
   const [generatedNote, setGeneratedNote] = useState('');
   const [codes, setCodes] = useState<BillingCodes | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const [refiningSection, setRefiningSection] = useState<number | null>(null);
   const [toast, setToast] = useState('');
   
   // Get default facility for new patients
@@ -86,6 +93,18 @@ export default function Elyn() {
     facility_id: defaultFacilityId,
   });
   const [showPatientModal, setShowPatientModal] = useState(false);
+  const patientContext = useMemo((): PatientContext | null => patient.name
+    ? {
+        name: patient.name,
+        mrn: patient.mrn,
+        dob: patient.dob,
+        room: patient.room,
+        diagnosis: patient.diagnosis,
+        allergies: patient.allergies?.split(',').map((a) => a.trim()) || [],
+      }
+    : null, [patient.name, patient.mrn, patient.dob, patient.room, patient.diagnosis, patient.allergies]);
+  const speech = useTranscription({ mode: 'dictation', patientContext });
+  const smartPhrases = useSmartPhraseExpansion(patientContext);
   const [handoffSummary, setHandoffSummary] = useState('');
   const [showHandoff, setShowHandoff] = useState(false);
   const [todayStats, setTodayStats] = useState<TodayStats>({
@@ -97,6 +116,9 @@ export default function Elyn() {
   const [savedPatients, setSavedPatients] = useState<ElynSavedPatient[]>([]);
   const [savedNotes, setSavedNotes] = useState<any[]>([]);
   const [currentNoteId, setCurrentNoteId] = useState<string | null>(null);
+  const [verification, setVerification] = useState<NoteVerification | null>(null);
+  const [verificationSources, setVerificationSources] = useState<VerificationSources | null>(null);
+  const verificationFlags = unresolvedFlags(verification, generatedNote);
   const [isLoading, setIsLoading] = useState(true);
   const [showPatientList, setShowPatientList] = useState(false);
   const [editableTranscript, setEditableTranscript] = useState('');
@@ -109,9 +131,13 @@ export default function Elyn() {
     if (user) loadData();
   }, [user]);
 
+  // Stop a note still streaming when leaving the page
+  useEffect(() => () => generationAbortRef.current?.abort(), []);
+
+  const { expandSpoken } = smartPhrases;
   useEffect(() => {
-    if (speech.transcript) setEditableTranscript(speech.transcript);
-  }, [speech.transcript]);
+    if (speech.transcript) setEditableTranscript(expandSpoken(speech.transcript));
+  }, [speech.transcript, expandSpoken]);
 
   const loadData = async () => {
     setIsLoading(true);
@@ -236,35 +262,53 @@ export default function Elyn() {
 
   const generateNote = async () => {
     if (!editableTranscript.trim()) return;
+    // A smart phrase typed at the very end has not been expanded yet
+    const transcriptForNote = smartPhrases.expandAll(editableTranscript);
+    if (transcriptForNote !== editableTranscript) setEditableTranscript(transcriptForNote);
     setIsGenerating(true);
+    setGeneratedNote('');
+    setCodes(null);
+    setCurrentNoteId(null);
+    setVerification(null);
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
     const startTime = Date.now();
     try {
       const isRadiology = documentMode === 'radiology';
       
-      const patientCtx = patient.name
-        ? {
-            name: patient.name,
-            mrn: patient.mrn,
-            dob: patient.dob,
-            room: patient.room,
-            diagnosis: patient.diagnosis,
-            allergies: patient.allergies?.split(',').map((a) => a.trim()) || [],
-          }
-        : null;
-      
       // Combined API call - generates note AND extracts billing in single request
       const currentNoteType = isRadiology ? radiologyModality : noteType;
       const radCtx = isRadiology ? radiologyContext : null;
+      const summary = patient.id ? await fetchPatientSummary(patient.id) : null;
       
-      const { note, billing, structured_category } = await AI.generateNoteWithBilling(
-        editableTranscript, 
-        currentNoteType, 
-        patientCtx,
-        radCtx
+      // Sections render as they are written; billing arrives with the finished note
+      const { note, billing, structured_category, structured, generationId } = await AI.streamNoteWithBilling(
+        {
+          transcript: transcriptForNote,
+          noteType: currentNoteType,
+          patientContext: patientContext && { ...patientContext, summary },
+          radiologyContext: radCtx,
+        },
+        { onNote: setGeneratedNote, signal: abortController.signal }
       );
       setGeneratedNote(note);
       setCodes(billing);
 
+      // Statements the transcript does not support must be confirmed before the note can be signed
+      const sources: VerificationSources | null = isRadiology ? null : {
+        transcript: transcriptForNote,
+        context: [
+          patient.diagnosis,
+          patient.allergies,
+          summary?.narrative || '',
+          ...(summary?.keyDiagnoses || []).map(dx => `${dx.description} ${dx.code}`),
+          ...(summary?.activeMedications || []).map(med => `${med.name} ${med.dose || ''}`),
+        ].filter(Boolean),
+      };
+      const noteVerification = sources && verifyNote(parseNoteSections(note), sources);
+      setVerificationSources(sources);
+      setVerification(noteVerification);
+
       const noteTypeMap: Record<string, string> = {
         'H&P': 'hp',
         Consult: 'consult',
@@ -285,8 +329,11 @@ export default function Elyn() {
         user_id: user?.id as string,
         patient_id: patient.id || null,
         note_type: noteTypeValue,
-        transcript: editableTranscript,
+        transcript: transcriptForNote,
         generated_note: note,
+        ...extractNoteFields(note),
+        structured_data: structured,
+        verification: noteVerification,
       };
       
       // Add radiology-specific fields if applicable
@@ -305,6 +352,10 @@ export default function Elyn() {
         .select()
         .single();
       setCurrentNoteId(savedNote?.id);
+      if (savedNote) {
+        void refreshPatientSummary(savedNote.patient_id);
+        void linkGenerationsToNote(savedNote.id, [generationId]);
+      }
 
       await supabase.from('billing_records').insert({
         user_id: user?.id as string,
@@ -364,13 +415,95 @@ export default function Elyn() {
       setToast(isRadiology ? 'Report saved' : 'Note saved');
       setTimeout(() => setToast(''), 2000);
     } catch (e) {
-      setGeneratedNote('Error generating. Please try again.');
-      setToast('Error generating');
+      if (abortController.signal.aborted) {
+        setGeneratedNote('');
+        setToast('Generation cancelled');
+      } else {
+        setGeneratedNote('Error generating. Please try again.');
+        setToast('Error generating');
+      }
       setTimeout(() => setToast(''), 2000);
     }
+    generationAbortRef.current = null;
     setIsGenerating(false);
   };
 
+  const cancelGeneration = () => generationAbortRef.current?.abort();
+
+  // Rewrite one section in place; billing only changes when the clinician asks for it
+  const refineSection = async (index: number, section: { title: string; content: string }, request: SectionRefineRequest) => {
+    setRefiningSection(index);
+    try {
+      const isRadiology = documentMode === 'radiology';
+      const { content, billing } = await AI.refineNoteSection({
+        ...request,
+        note: generatedNote,
+        section,
+        transcript: editableTranscript,
+        noteType: isRadiology ? radiologyModality : noteType,
+        patientContext,
+        noteId: currentNoteId,
+      });
+      const note = replaceNoteSection(generatedNote, index, content);
+
+      if (currentNoteId) {
+        // The rewritten section is checked again; statements already confirmed stay confirmed
+        const nextVerification = verificationSources && verifyNote(parseNoteSections(note), verificationSources, verification);
+        const { error: saveError } = await supabase
+          .from('clinical_notes')
+          .update({
+            generated_note: note,
+            ...extractNoteFields(note),
+            edit_source: 'section_regenerate',
+            ...(nextVerification && { verification: nextVerification as unknown as Json }),
+          })
+          .eq('id', currentNoteId);
+
+        // A rejected save (e.g. the note was signed meanwhile) leaves the note as stored
+        if (saveError) {
+          console.error('Error saving refined section:', saveError);
+          setToast(`Could not save ${section.title}: ${saveError.message}`);
+          return;
+        }
+
+        setVerification(nextVerification);
+        void refreshPatientSummary(patient.id);
+        if (billing) {
+          await supabase
+            .from('billing_records')
+            .update({
+              icd10_codes: billing.icd10?.map((c) => c.code) || [],
+              cpt_codes: billing.cpt?.map((c) => c.code) || [],
+              em_level: billing.em || null,
+              rvu: billing.rvu || null,
+              mdm_complexity: billing.mdm || null,
+            })
+            .eq('note_id', currentNoteId);
+        }
+      }
+      setGeneratedNote(note);
+      if (billing) setCodes(billing);
+      setToast(`${section.title} updated`);
+    } catch (e) {
+      console.error('Error refining section:', e);
+      setToast('Error refining section');
+    } finally {
+      setTimeout(() => setToast(''), 2000);
+      setRefiningSection(null);
+    }
+  };
+
+  const confirmVerificationFlag = async (id: string) => {
+    if (!currentNoteId || !verification) return;
+    const result = await saveVerification(currentNoteId, confirmFlag(verification, id));
+    if (result.error !== null) {
+      setToast(result.error);
+      setTimeout(() => setToast(''), 2000);
+    } else {
+      setVerification(result.data);
+    }
+  };
+
   const generateHandoff = async () => {
     if (!generatedNote && !editableTranscript) return;
     setIsGenerating(true);
@@ -819,7 +952,7 @@ export default function Elyn() {
                 <div className="p-4">
                   <textarea
                     value={editableTranscript}
-                    onChange={(e) => setEditableTranscript(e.target.value)}
+                    onChange={(e) => smartPhrases.handleTextareaChange(e, setEditableTranscript)}
                     placeholder="Start recording or type your clinical notes here..."
                     className="w-full min-h-[120px] p-3 rounded-xl bg-muted/50 border border-border text-foreground placeholder:text-muted-foreground resize-y text-sm focus:outline-none focus:border-primary/50 focus:ring-2 focus:ring-primary/20"
                   />
@@ -848,7 +981,16 @@ export default function Elyn() {
                         </span>
                       )}
                     </div>
-                    {generatedNote && (
+                    {isGenerating ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={cancelGeneration}
+                        className="h-7 px-3 text-xs text-muted-foreground"
+                      >
+                        Cancel
+                      </Button>
+                    ) : generatedNote && (
                       <Button
                         size="sm"
                         onClick={() => copyToClipboard(generatedNote, setToast)}
@@ -861,7 +1003,7 @@ export default function Elyn() {
                   <div className="p-4">
                     {generatedNote ? (
                       <div className="space-y-3 max-h-[400px] overflow-auto">
-                        {parseNoteSections(generatedNote).map((section, i) => (
+                        {parseNoteSections(generatedNote).map((section, i, sections) => (
                           <NoteSection
                             key={i}
                             title={section.title}
@@ -869,6 +1011,11 @@ export default function Elyn() {
                             onCopy={(text) =>
                               copyToClipboard(`${section.title}:\n${text}`, setToast)
                             }
+                            streaming={isGenerating && i === sections.length - 1}
+                            onRefine={isGenerating || (refiningSection !== null && refiningSection !== i) ? undefined : (request) => refineSection(i, section, request)}
+                            isRefining={refiningSection === i}
+                            flags={verificationFlags.filter(flag => section.content.includes(flag.statement))}
+                            onConfirmFlag={currentNoteId ? confirmVerificationFlag : undefined}
                           />
                         ))}
                       </div>
@@ -1104,7 +1251,7 @@ export default function Elyn() {
                   <div className="p-5">
                     <textarea
                       value={editableTranscript}
-                      onChange={(e) => setEditableTranscript(e.target.value)}
+                      onChange={(e) => smartPhrases.handleTextareaChange(e, setEditableTranscript)}
                       placeholder="Start recording or type your clinical notes here..."
                       className="w-full min-h-[140px] p-4 rounded-xl bg-muted/50 border border-border text-foreground placeholder:text-muted-foreground resize-y font-mono text-sm focus:outline-none focus:border-primary/50 focus:ring-2 focus:ring-primary/20 transition-all"
                     />
@@ -1133,7 +1280,16 @@ export default function Elyn() {
                         </span>
                       )}
                     </div>
-                    {generatedNote && (
+                    {isGenerating ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={cancelGeneration}
+                        className="h-7 px-3 text-xs text-muted-foreground hover:bg-muted rounded-lg"
+                      >
+                        ⏹ Cancel
+                      </Button>
+                    ) : generatedNote && (
                       <div className="flex gap-2">
                         <Button
                           size="sm"
@@ -1157,7 +1313,7 @@ export default function Elyn() {
                   <div className="p-5 min-h-[350px]">
                     {generatedNote ? (
                       <div className="space-y-4 max-h-[400px] overflow-auto pr-2">
-                        {parseNoteSections(generatedNote).map((section, i) => (
+                        {parseNoteSections(generatedNote).map((section, i, sections) => (
                           <NoteSection
                             key={i}
                             title={section.title}
@@ -1165,6 +1321,11 @@ export default function Elyn() {
                             onCopy={(text) =>
                               copyToClipboard(`${section.title}:\n${text}`, setToast)
                             }
+                            streaming={isGenerating && i === sections.length - 1}
+                            onRefine={isGenerating || (refiningSection !== null && refiningSection !== i) ? undefined : (request) => refineSection(i, section, request)}
+                            isRefining={refiningSection === i}
+                            flags={verificationFlags.filter(flag => section.content.includes(flag.statement))}
+                            onConfirmFlag={currentNoteId ? confirmVerificationFlag : undefined}
                           />
                         ))}
                       </div>
@@ -1449,7 +1610,7 @@ export default function Elyn() {
 
 // Helper Components
 
-function VoiceStatusBadge({ speech, compact = false }: { speech: ReturnType<typeof useSpeech>; compact?: boolean }) {
+function VoiceStatusBadge({ speech, compact = false }: { speech: ReturnType<typeof useTranscription>; compact?: boolean }) {
   if (speech.error) {
     return (
       <span className={cn(
@@ -1496,7 +1657,7 @@ function VoiceStatusBadge({ speech, compact = false }: { speech: ReturnType<type
   );
 }
 
-function VoiceRecorderSection({ speech }: { speech: ReturnType<typeof useSpeech> }) {
+function VoiceRecorderSection({ speech }: { speech: ReturnType<typeof useTranscription> }) {
   return (
     <div className="space-y-4">
       {/* Error Message */}
@@ -1524,7 +1685,7 @@ function VoiceRecorderSection({ speech }: { speech: ReturnType<typeof useSpeech>
 
       {/* Record Button */}
       <Button
-        onClick={speech.isRecording ? speech.stop : speech.start}
+        onClick={speech.isRecording ? speech.stop : () => speech.start()}
         disabled={!speech.isSupported && !speech.error}
         className={cn(
           'w-full h-12 text-base font-semibold rounded-xl transition-all',
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useState } from 'react';
+import { endOfDay, format } from 'date-fns';
+import { AlertTriangle, Cpu, Loader2, RefreshCw, Timer, Zap } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { fetchAiUsage, type AiUsage } from '@/services/aiGenerations';
+
+interface AiUsagePanelProps {
+  from: Date;
+  to: Date;
+}
+
+const formatMs = (ms: number | null): string => {
+  if (ms === null) return '–';
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+};
+
+const formatCount = (n: number): string => {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return String(n);
+};
+
+const failureRate = (failures: number, calls: number): string =>
+  calls > 0 ? `${((failures / calls) * 100).toFixed(1)}%` : '–';
+
+/**
+ * AI usage for the admin dashboard: call volume and failures per day, and
+ * latency percentiles and token spend per function, provider and model,
+ * from the ai_generations rows the edge functions record.
+ */
+export default function AiUsagePanel({ from, to }: AiUsagePanelProps) {
+  const [usage, setUsage] = useState<AiUsage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setUsage(await fetchAiUsage(from, endOfDay(to)));
+    } catch (err) {
+      console.error('Failed to fetch AI usage:', err);
+      setError('Failed to load AI usage');
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const totals = (usage?.byModel || []).reduce(
+    (sum, row) => ({
+      calls: sum.calls + row.calls,
+      failures: sum.failures + row.failures,
+      tokens: sum.tokens + row.promptTokens + row.completionTokens,
+    }),
+    { calls: 0, failures: 0, tokens: 0 }
+  );
+  const maxDailyCalls = Math.max(...(usage?.byDay || []).map(day => day.calls), 1);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Cpu className="w-5 h-5 text-cyan-400" />
+          <span className="font-medium text-foreground">AI Usage</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={loadUsage} disabled={loading}>
+          {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {usage && (
+        <>
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="p-3 rounded-lg bg-muted/20">
+              <div className="text-lg font-bold text-foreground">{formatCount(totals.calls)}</div>
+              <div className="text-xs text-muted-foreground">AI calls</div>
+            </div>
+            <div className="p-3 rounded-lg bg-muted/20">
+              <div className={cn('text-lg font-bold', totals.failures > 0 ? 'text-amber-400' : 'text-success')}>
+                {failureRate(totals.failures, totals.calls)}
+              </div>
+              <div className="text-xs text-muted-foreground">Failure rate</div>
+            </div>
+            <div className="p-3 rounded-lg bg-muted/20">
+              <div className="text-lg font-bold text-primary">{formatCount(totals.tokens)}</div>
+              <div className="text-xs text-muted-foreground">Tokens</div>
+            </div>
+          </div>
+
+          {/* Daily volume, with failed calls in amber */}
+          {usage.byDay.length > 0 && (
+            <div>
+              <div className="flex items-end gap-1 h-24">
+                {usage.byDay.map(day => (
+                  <div
+                    key={day.day}
+                    className="flex-1 flex flex-col justify-end min-w-0"
+                    title={`${day.day}: ${day.calls} calls, ${day.failures} failed, p50 ${formatMs(day.p50Ms)}, p95 ${formatMs(day.p95Ms)}`}
+                  >
+                    <div className="w-full bg-amber-500/70 rounded-t" style={{ height: `${(day.failures / maxDailyCalls) * 80}px` }} />
+                    <div
+                      className={cn('w-full bg-gradient-to-t from-cyan-500 to-cyan-500/50', day.failures === 0 && 'rounded-t')}
+                      style={{ height: `${((day.calls - day.failures) / maxDailyCalls) * 80}px`, minHeight: '2px' }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="mt-1 flex justify-between text-[10px] text-muted-foreground">
+                <span>{format(new Date(`${usage.byDay[0].day}T00:00:00`), 'MMM d')}</span>
+                <span>{format(new Date(`${usage.byDay[usage.byDay.length - 1].day}T00:00:00`), 'MMM d')}</span>
+              </div>
+            </div>
+          )}
+
+          {usage.byModel.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No AI calls in this period</p>
+          ) : (
+            <div className="space-y-2">
+              {usage.byModel.map(row => (
+                <div key={`${row.functionName}-${row.provider}-${row.model}`} className="p-3 rounded-lg bg-muted/20">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-foreground truncate">{row.functionName}</div>
+                      <div className="text-xs text-muted-foreground truncate">{row.provider} · {row.model}</div>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <div className="text-sm font-bold text-foreground">{formatCount(row.calls)} calls</div>
+                      {row.failures > 0 && (
+                        <div className="text-xs text-amber-400 flex items-center justify-end gap-1">
+                          <AlertTriangle className="w-3 h-3" />
+                          {failureRate(row.failures, row.calls)} failed
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Timer className="w-3 h-3" />
+                      p50 {formatMs(row.p50Ms)} · p95 {formatMs(row.p95Ms)}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Zap className="w-3 h-3" />
+                      {formatCount(row.promptTokens)} in · {formatCount(row.completionTokens)} out
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Check, Trash2, Plus, DollarSign, AlertCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { X, Check, Trash2, Plus, DollarSign, AlertCircle, ChevronDown, ChevronUp, FileText } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { NoteSection, parseNoteSections } from '@/components/elyn/index';
 import { cn } from '@/lib/utils';
+import type { SectionRefineRequest } from '@/services/ai';
+import type { VerificationFlag } from '@/lib/noteVerification';
 import { CodeConfidenceBadge, AIReasoningPopover, ValidationWarnings, DenialRiskIndicator } from './BillingInsights';
 import MDMCalculator, { MDMResult } from './MDMCalculator';
 import HCCCodeDisplay from './HCCCodeDisplay';
@@ -104,6 +107,12 @@ interface BillingConfirmationModalProps {
   billing: ExtractedBilling;
   patientName?: string;
   noteType: string;
+  note?: string; // Shown for review, with per-section refinement when onRefineSection is given
+  onRefineSection?: (index: number, section: { title: string; content: string }, request: SectionRefineRequest) => void;
+  refiningSection?: number | null;
+  verificationFlags?: VerificationFlag[]; // Unconfirmed statements the transcript does not support
+  onConfirmFlag?: (id: string) => void;
+  onRemoveFlag?: (id: string) => void;
   onConfirm: (billing: ExtractedBilling) => void;
   onDiscard: () => void;
 }
@@ -114,10 +123,17 @@ export default function BillingConfirmationModal({
   billing,
   patientName,
   noteType,
+  note,
+  onRefineSection,
+  refiningSection = null,
+  verificationFlags = [],
+  onConfirmFlag,
+  onRemoveFlag,
   onConfirm,
   onDiscard,
 }: BillingConfirmationModalProps) {
   const [editedBilling, setEditedBilling] = useState<ExtractedBilling>(billing);
+  const [noteExpanded, setNoteExpanded] = useState(false);
   const [newIcd10, setNewIcd10] = useState('');
   const [newCpt, setNewCpt] = useState('');
   const [mdmExpanded, setMdmExpanded] = useState(false);
@@ -234,6 +250,46 @@ export default function BillingConfirmationModal({
 
               {/* Content */}
               <div className="p-4 overflow-y-auto flex-1 space-y-4">
+                {/* Note review */}
+                {note && (
+                  <div className="rounded-xl border border-border">
+                    <button
+                      onClick={() => setNoteExpanded(!noteExpanded)}
+                      className="w-full p-3 flex items-center justify-between text-sm font-semibold text-foreground"
+                    >
+                      <span className="flex items-center gap-2">
+                        <FileText className="w-4 h-4 text-primary" />
+                        Review Note
+                        {verificationFlags.length > 0 && (
+                          <span className="px-2 py-0.5 rounded-full bg-amber-500/15 text-amber-600 dark:text-amber-400 text-xs font-medium">
+                            {verificationFlags.length} to verify before signing
+                          </span>
+                        )}
+                      </span>
+                      {noteExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                    </button>
+                    {noteExpanded && (
+                      <div className="px-3 pb-1 max-h-[40vh] overflow-y-auto">
+                        {parseNoteSections(note).map((section, i) => (
+                          <NoteSection
+                            key={i}
+                            title={section.title}
+                            content={section.content.trim()}
+                            onCopy={(text) => navigator.clipboard.writeText(text)}
+                            onRefine={onRefineSection && (refiningSection === null || refiningSection === i)
+                              ? (request) => onRefineSection(i, section, request)
+                              : undefined}
+                            isRefining={refiningSection === i}
+                            flags={verificationFlags.filter(flag => section.content.includes(flag.statement))}
+                            onConfirmFlag={onConfirmFlag}
+                            onRemoveFlag={onRemoveFlag}
+                          />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* MDM Calculator - Interactive */}
                 <MDMCalculator
                   initialProblems={getMDMLevel(billing.mdmComplexity)}
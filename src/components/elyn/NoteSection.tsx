@@ -1,35 +1,187 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { AlertTriangle, Check, Loader2, Wand2, Send, Trash2, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { SectionRefineAction, SectionRefineRequest } from '@/services/ai';
+import type { VerificationFlag } from '@/lib/noteVerification';
 
 interface NoteSectionProps {
   title: string;
   content: string;
   onCopy: (text: string) => void;
+  streaming?: boolean; // Still being written
+  onRefine?: (request: SectionRefineRequest) => void; // Enables the Refine menu
+  isRefining?: boolean;
+  flags?: VerificationFlag[]; // Unconfirmed statements the transcript does not support
+  onConfirmFlag?: (id: string) => void;
+  onRemoveFlag?: (id: string) => void;
 }
 
+const REFINE_ACTIONS: Array<{ action: Exclude<SectionRefineAction, 'custom'>; label: string }> = [
+  { action: 'regenerate', label: 'Regenerate' },
+  { action: 'concise', label: 'More concise' },
+  { action: 'expand_differential', label: 'Expand differential' },
+  { action: 'problem_based', label: 'Convert to problem-based plan' },
+];
+
+// Content with each flagged statement marked, in the order they appear
+const highlightFlags = (content: string, flags: VerificationFlag[]): React.ReactNode[] => {
+  const ranges = flags
+    .map(flag => ({ flag, start: content.indexOf(flag.statement) }))
+    .filter(({ start }) => start !== -1)
+    .sort((a, b) => a.start - b.start);
+
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  for (const { flag, start } of ranges) {
+    if (start < at) continue;
+    parts.push(content.slice(at, start));
+    parts.push(
+      <mark key={flag.id} title={flag.reasons.join('; ')} className="bg-amber-500/20 text-foreground rounded px-0.5 underline decoration-amber-500 decoration-wavy underline-offset-2">
+        {flag.statement}
+      </mark>
+    );
+    at = start + flag.statement.length;
+  }
+  parts.push(content.slice(at));
+  return parts;
+};
+
 /**
  * Component for displaying a section of a clinical note.
- * Includes a title, content, and copy button.
+ * Includes a title, content, and copy button (hidden while the section is streaming),
+ * plus a Refine menu that rewrites just this section when `onRefine` is given.
+ * Statements the transcript does not support are highlighted, each with Confirm and Remove actions.
  */
-const NoteSection = ({ title, content, onCopy }: NoteSectionProps) => (
-  <div className="mb-4">
-    <div className="flex justify-between items-center mb-2">
-      <span className="text-xs font-semibold text-cyan-400 uppercase tracking-wider">
-        {title}
-      </span>
-      <Button
-        variant="ghost"
-        size="sm"
-        onClick={() => onCopy(content)}
-        className="text-xs h-6 px-2"
-      >
-        Copy
-      </Button>
-    </div>
-    <div className="text-sm leading-relaxed text-foreground/90 whitespace-pre-wrap">
-      {content}
+const NoteSection = ({
+  title,
+  content,
+  onCopy,
+  streaming = false,
+  onRefine,
+  isRefining = false,
+  flags = [],
+  onConfirmFlag,
+  onRemoveFlag,
+}: NoteSectionProps) => {
+  const [updateBilling, setUpdateBilling] = useState(false);
+  const [isInstructionOpen, setIsInstructionOpen] = useState(false);
+  const [instruction, setInstruction] = useState('');
+
+  const submitInstruction = () => {
+    if (!instruction.trim() || !onRefine) return;
+    onRefine({ action: 'custom', instruction: instruction.trim(), updateBilling });
+    setInstruction('');
+    setIsInstructionOpen(false);
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-xs font-semibold text-cyan-400 uppercase tracking-wider">
+          {title}
+        </span>
+        {!streaming && (
+          <div className="flex items-center">
+            {onRefine && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" className="text-xs h-6 px-2" disabled={isRefining}>
+                    {isRefining ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Wand2 className="w-3 h-3 mr-1" />}
+                    Refine
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="bg-popover border-border">
+                  {REFINE_ACTIONS.map(({ action, label }) => (
+                    <DropdownMenuItem key={action} onSelect={() => onRefine({ action, updateBilling })}>
+                      {label}
+                    </DropdownMenuItem>
+                  ))}
+                  <DropdownMenuItem onSelect={() => setIsInstructionOpen(true)}>
+                    Custom instruction…
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuCheckboxItem
+                    checked={updateBilling}
+                    onCheckedChange={(checked) => setUpdateBilling(checked === true)}
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    Also update billing codes
+                  </DropdownMenuCheckboxItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onCopy(content)}
+              className="text-xs h-6 px-2"
+            >
+              Copy
+            </Button>
+          </div>
+        )}
+      </div>
+      {isInstructionOpen && (
+        <div className="flex items-center gap-1 mb-2">
+          <Input
+            autoFocus
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && submitInstruction()}
+            placeholder={`How should ${title.toLowerCase()} change?`}
+            className="h-8 text-sm bg-background/50"
+          />
+          <Button size="icon" variant="ghost" className="h-8 w-8 flex-shrink-0" onClick={submitInstruction} disabled={!instruction.trim()}>
+            <Send className="h-4 w-4" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-8 w-8 flex-shrink-0" onClick={() => setIsInstructionOpen(false)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+      <div className={`text-sm leading-relaxed text-foreground/90 whitespace-pre-wrap ${isRefining ? 'opacity-50' : ''}`}>
+        {flags.length > 0 ? highlightFlags(content, flags) : content}
+        {streaming && <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-cyan-400 animate-pulse" />}
+      </div>
+      {!streaming && flags.length > 0 && (
+        <div className="mt-2 space-y-1.5">
+          {flags.map(flag => (
+            <div key={flag.id} className="flex items-start gap-2 p-2 rounded-lg border border-amber-500/30 bg-amber-500/5">
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 text-amber-500 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-xs text-foreground line-clamp-2">{flag.statement}</p>
+                <p className="text-[11px] text-muted-foreground mt-0.5">
+                  {flag.reasons.join(' · ')}
+                  {flag.source && <> · Closest: “{flag.source}”</>}
+                </p>
+              </div>
+              {onConfirmFlag && (
+                <Button variant="ghost" size="sm" className="text-xs h-6 px-2 flex-shrink-0" onClick={() => onConfirmFlag(flag.id)}>
+                  <Check className="w-3 h-3 mr-1" />
+                  Confirm
+                </Button>
+              )}
+              {onRemoveFlag && (
+                <Button variant="ghost" size="sm" className="text-xs h-6 px-2 flex-shrink-0 text-destructive hover:text-destructive" onClick={() => onRemoveFlag(flag.id)}>
+                  <Trash2 className="w-3 h-3 mr-1" />
+                  Remove
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
-  </div>
-);
+  );
+};
 
 export default NoteSection;
@@ -4,35 +4,49 @@ import { cn } from '@/lib/utils';
 
 interface WaveformProps {
   active: boolean;
+  level?: number | null; // Measured input level 0-1; bars animate freely without it
   barCount?: number;
   className?: string;
 }
 
 /**
  * Audio waveform visualization component.
- * Animates bars when active (recording).
+ * Animates bars when active (recording); with a `level` the bars follow the
+ * microphone, so a silent input shows as flat.
  */
-const Waveform = ({ active, barCount = 20, className }: WaveformProps) => (
+const Waveform = ({ active, level = null, barCount = 20, className }: WaveformProps) => (
   <div className={cn("flex items-center justify-center gap-0.5 h-12", className)}>
-    {[...Array(barCount)].map((_, i) => (
-      <motion.div
-        key={i}
-        animate={
-          active
-            ? { height: [4, Math.random() * 32 + 8, 4] }
-            : { height: 4 }
-        }
-        transition={{
-          duration: 0.5,
-          repeat: active ? Infinity : 0,
-          delay: i * 0.02,
-        }}
-        className={cn(
-          "w-0.5 rounded-full",
-          active ? "bg-cyan-400" : "bg-muted"
-        )}
-      />
-    ))}
+    {[...Array(barCount)].map((_, i) => {
+      const isMetered = active && level !== null;
+      // Taller in the middle so the meter reads as a single shape
+      const profile = 0.4 + 0.6 * Math.sin(((i + 0.5) / barCount) * Math.PI);
+
+      return (
+        <motion.div
+          key={i}
+          animate={
+            isMetered
+              ? { height: 4 + level * 36 * profile }
+              : active
+                ? { height: [4, Math.random() * 32 + 8, 4] }
+                : { height: 4 }
+          }
+          transition={
+            isMetered
+              ? { duration: 0.1 }
+              : {
+                  duration: 0.5,
+                  repeat: active ? Infinity : 0,
+                  delay: i * 0.02,
+                }
+          }
+          className={cn(
+            "w-0.5 rounded-full",
+            active ? "bg-cyan-400" : "bg-muted"
+          )}
+        />
+      );
+    })}
   </div>
 );
 
@@ -10,13 +10,15 @@ export const copyToClipboard = async (
   setTimeout(() => setToast(''), 2000);
 };
 
-/**
- * Parse a generated clinical note into sections based on common headers.
- */
-export const parseNoteSections = (
-  note: string
-): Array<{ title: string; content: string }> => {
-  const sections: Array<{ title: string; content: string }> = [];
+interface NoteSectionRange {
+  title: string;
+  content: string;
+  start: number; // First content line
+  end: number; // Line after the last content line
+}
+
+const splitNoteSections = (note: string): NoteSectionRange[] => {
+  const sections: NoteSectionRange[] = [];
   const sectionPatterns = [
     'CHIEF COMPLAINT',
     'HISTORY OF PRESENT ILLNESS',
@@ -40,22 +42,29 @@ export const parseNoteSections = (
     'RISK STRATIFICATION',
   ];
 
-  let currentSection = { title: 'Note', content: '' };
+  const lines = note.split('\n');
+  let currentSection: NoteSectionRange = { title: 'Note', content: '', start: 0, end: 0 };
 
-  note.split('\n').forEach((line) => {
-    const isHeader = sectionPatterns.some(
+  lines.forEach((line, index) => {
+    // Markdown headers ("## PLAN", "**PLAN**") name a section like a plain "PLAN:";
+    // any "##" line is a header, so note template sections with their own names split too
+    const isMarkdownHeader = /^\s*#{1,3}\s+\S/.test(line);
+    const header = line.replace(/^\s*#+\s*/, '').replace(/\*\*/g, '');
+    const isHeader = isMarkdownHeader || sectionPatterns.some(
       (p) =>
-        line.toUpperCase().includes(p + ':') ||
-        line.toUpperCase().trim() === p
+        header.toUpperCase().includes(p + ':') ||
+        header.toUpperCase().trim() === p
     );
 
     if (isHeader && currentSection.content.trim()) {
       sections.push(currentSection);
-      currentSection = { title: line.replace(':', '').trim(), content: '' };
+      currentSection = { title: header.replace(':', '').trim(), content: '', start: index + 1, end: index + 1 };
     } else if (isHeader) {
-      currentSection.title = line.replace(':', '').trim();
+      currentSection.title = header.replace(':', '').trim();
+      currentSection.start = currentSection.end = index + 1;
     } else {
       currentSection.content += line + '\n';
+      currentSection.end = index + 1;
     }
   });
 
@@ -65,5 +74,65 @@ export const parseNoteSections = (
 
   return sections.length > 0
     ? sections
-    : [{ title: 'Clinical Note', content: note }];
+    : [{ title: 'Clinical Note', content: note, start: 0, end: lines.length }];
+};
+
+/**
+ * Parse a generated clinical note into sections based on common headers.
+ */
+export const parseNoteSections = (
+  note: string
+): Array<{ title: string; content: string }> =>
+  splitNoteSections(note).map(({ title, content }) => ({ title, content }));
+
+/**
+ * The Assessment and Plan of a note (including combined "Assessment and Plan",
+ * "Impression" and "Recommendations" sections), with their headers, for
+ * carrying forward into the next progress note.
+ */
+export const extractAssessmentPlan = (note: string): string =>
+  splitNoteSections(note)
+    .filter(({ title }) => /assessment|plan|impression|recommendation/i.test(title))
+    .map(({ title, content }) => `${title.toUpperCase()}:\n${content.trim()}`)
+    .join('\n\n');
+
+export interface NoteFields {
+  hpi: string | null;
+  assessment: string | null;
+  plan: string | null;
+}
+
+/**
+ * The HPI, Assessment and Plan of a note, for the clinical_notes columns of the
+ * same names. A combined "Assessment and Plan" section fills both assessment and plan.
+ */
+export const extractNoteFields = (note: string): NoteFields => {
+  const fields: NoteFields = { hpi: null, assessment: null, plan: null };
+  const add = (field: keyof NoteFields, text: string) => {
+    fields[field] = fields[field] ? `${fields[field]}\n\n${text}` : text;
+  };
+
+  for (const { title, content } of splitNoteSections(note)) {
+    const text = content.trim();
+    if (!text) continue;
+    if (/\bhpi\b|history of present illness|interval history|subjective/i.test(title)) add('hpi', text);
+    if (/assessment|impression/i.test(title)) add('assessment', text);
+    if (/plan|recommendation/i.test(title)) add('plan', text);
+  }
+  return fields;
+};
+
+/**
+ * Replace the content of one section (by its index in parseNoteSections),
+ * keeping its header and the rest of the note exactly as they were.
+ */
+export const replaceNoteSection = (note: string, index: number, content: string): string => {
+  const section = splitNoteSections(note)[index];
+  if (!section) return note;
+
+  const lines = note.split('\n');
+  // Keep the blank line that separated the section from the next one
+  const trailingBlank = lines[section.end - 1]?.trim() === '' && section.end < lines.length;
+  const replacement = [...content.trim().split('\n'), ...(trailingBlank ? [''] : [])];
+  return [...lines.slice(0, section.start), ...replacement, ...lines.slice(section.end)].join('\n');
 };
@@ -346,6 +346,7 @@ export default function FaceSheetParser({ onPatientCreated, onToast }: FaceSheet
       // Format name and MRN for claims compliance
       const claimsName = formatClaimsName(parsedData.patient.name);
       const formattedMrn = formatMRN(parsedData.patient.mrn);
+      const admittedAt = parsedData.medical.admissionDate ? new Date(parsedData.medical.admissionDate) : null;
 
       // Create or update patient with insurance info
       const { data: patient, error } = await supabase
@@ -359,6 +360,7 @@ export default function FaceSheetParser({ onPatientCreated, onToast }: FaceSheet
           room: parsedData.medical.roomNumber,
           diagnosis: parsedData.medical.primaryDiagnosis,
           allergies: parsedData.medical.allergies,
+          admitted_at: admittedAt && !isNaN(admittedAt.getTime()) ? admittedAt.toISOString() : undefined,
           insurance_id: parsedData.insurance.policyNumber || null,
           insurance_name: parsedData.insurance.provider || null,
           insurance_group: parsedData.insurance.groupNumber || null,
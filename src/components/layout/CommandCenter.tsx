@@ -1,13 +1,25 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useFacility } from '@/contexts/FacilityContext';
-import useSpeech from '@/hooks/useSpeech';
+import useTranscription from '@/hooks/useTranscription';
 import useNotePreferences from '@/hooks/useNotePreferences';
-import AI from '@/services/ai';
-import type { DocumentMode, RadiologyModality, RadiologyContext } from '@/types/medical';
+import useNoteTemplates from '@/hooks/useNoteTemplates';
+import useRecordingRecovery from '@/hooks/useRecordingRecovery';
+import useVoiceCommands from '@/hooks/useVoiceCommands';
+import useSmartPhraseExpansion from '@/hooks/useSmartPhraseExpansion';
+import AI, { SectionRefineRequest } from '@/services/ai';
+import { uploadEncounterAudio } from '@/services/encounterAudio';
+import { fetchPatientSummary, refreshPatientSummary } from '@/services/patientSummary';
+import { linkGenerationsToNote } from '@/services/aiGenerations';
+import { createDischargeSummary } from '@/services/dischargeSummary';
+import type { EncounterLanguage, EncounterLanguagePreference } from '@/services/transcription';
+import { parseVoiceCommands, VoiceCommand } from '@/lib/voiceCommands';
+import type { TranscriptCorrection } from '@/lib/correctionProvenance';
+import type { BillingCodes, CarryForwardBaseline, DocumentMode, PatientContext, PatientSummary, RadiologyModality, RadiologyContext, SpeakerSegment, StructuredClinicalData } from '@/types/medical';
+import type { Json } from '@/integrations/supabase/types';
 
 import BottomNav from './BottomNav';
 import PatientList from '@/components/patients/PatientList';
@@ -18,6 +30,7 @@ import HandoffNotesModal from '@/components/handoff/HandoffNotesModal';
 import RoundingProgress, { RoundingProgressCompact } from '@/components/rounding/RoundingProgress';
 import RoundingModeToggle from '@/components/rounding/RoundingModeToggle';
 import RecordingSheet from '@/components/recording/RecordingSheet';
+import RecoverRecordingPrompt from '@/components/recording/RecoverRecordingPrompt';
 import BillCard, { Bill } from '@/components/billing/BillCard';
 import BillingConfirmationModal, { ExtractedBilling } from '@/components/billing/BillingConfirmationModal';
 import BillingAnalyticsDashboard from '@/components/billing/BillingAnalyticsDashboard';
@@ -79,7 +92,8 @@ import {
 } from 'lucide-react';
 import elynLogo from '@/assets/elyn-logo.png';
 import { cn } from '@/lib/utils';
-import { Toast } from '@/components/elyn/index';
+import { Toast, extractNoteFields, parseNoteSections, replaceNoteSection } from '@/components/elyn/index';
+import { confirmFlag, removeStatement, unresolvedFlags, verifyNote, NoteVerification, VerificationSources } from '@/lib/noteVerification';
 
 interface TodayStats {
   notes: number;
@@ -101,9 +115,9 @@ export default function CommandCenter() {
   const navigate = useNavigate();
   const { user, signOut } = useAuth();
   const { facilities, selectedFacilityId, selectedFacility } = useFacility();
-  const speech = useSpeech();
   const { bills: unifiedBills, loading: billsLoading, updateBillStatus, refetch: refetchBills } = useBilling();
   const { preferences: notePreferences } = useNotePreferences();
+  const { templateFor } = useNoteTemplates();
   
   // Tab state
   const [activeTab, setActiveTab] = useState('patients');
@@ -112,6 +126,18 @@ export default function CommandCenter() {
   const [patients, setPatients] = useState<PatientWithFacility[]>([]);
   const [bills, setBills] = useState<BillWithFacility[]>([]);
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
+  const [encounterLanguage, setEncounterLanguage] = useState<EncounterLanguagePreference>('en');
+  const [interpreterUsed, setInterpreterUsed] = useState(false);
+  const selectedPatientContext = useMemo((): PatientContext | null => selectedPatient ? {
+    name: selectedPatient.name,
+    mrn: selectedPatient.mrn || '',
+    dob: selectedPatient.dob || '',
+    room: selectedPatient.room || '',
+    diagnosis: selectedPatient.diagnosis || '',
+    allergies: selectedPatient.allergies || [],
+  } : null, [selectedPatient]);
+  const dictation = useTranscription({ mode: 'dictation', patientId: selectedPatient?.id, language: encounterLanguage, patientContext: selectedPatientContext });
+  const { expandSpoken, expandAll } = useSmartPhraseExpansion(selectedPatientContext);
   const [isLoading, setIsLoading] = useState(true);
   const [todayStats, setTodayStats] = useState<TodayStats>({
     notes: 0,
@@ -123,8 +149,21 @@ export default function CommandCenter() {
   // Recording state
   const [isRecordingSheetOpen, setIsRecordingSheetOpen] = useState(false);
   const [editableTranscript, setEditableTranscript] = useState('');
+  const [rawTranscript, setRawTranscript] = useState(''); // As recognized, before medical-term corrections
+  const [transcriptCorrections, setTranscriptCorrections] = useState<TranscriptCorrection[]>([]);
+  const [speakerSegments, setSpeakerSegments] = useState<SpeakerSegment[]>([]);
+  const [encounterAudio, setEncounterAudio] = useState<Blob | null>(null);
   const [noteType, setNoteType] = useState('H&P');
+  const [carryForward, setCarryForward] = useState<CarryForwardBaseline | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [streamingNote, setStreamingNote] = useState('');
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const [isVoiceGeneratePending, setIsVoiceGeneratePending] = useState(false);
+
+  // A carried-forward baseline belongs to the patient it was loaded for
+  useEffect(() => {
+    setCarryForward(null);
+  }, [selectedPatient?.id]);
   
   // Radiology mode state
   const [documentMode, setDocumentMode] = useState<DocumentMode>('clinical');
@@ -157,7 +196,13 @@ export default function CommandCenter() {
     billing: ExtractedBilling | null;
     pendingNote: string;
     pendingNoteExport: NoteExport | null;
+    pendingSourceLanguage?: EncounterLanguage; // Language the note was translated from
+    pendingStructured?: StructuredClinicalData | null; // Vitals, labs, meds, allergies and problems from the encounter
+    pendingVerification?: NoteVerification | null; // Statements the transcript does not support (clinical notes)
+    pendingVerificationSources?: VerificationSources;
+    pendingGenerationIds?: Array<string | null>; // AI calls that produced the note, linked to it once saved
   }>({ isOpen: false, billing: null, pendingNote: '', pendingNoteExport: null });
+  const [refiningSection, setRefiningSection] = useState<number | null>(null);
   
   // Patient detail sheet state
   const [patientDetailOpen, setPatientDetailOpen] = useState(false);
@@ -182,6 +227,11 @@ export default function CommandCenter() {
   // Billing status filter
   const [billingStatusFilter, setBillingStatusFilter] = useState<'all' | 'pending' | 'submitted' | 'approved'>('all');
 
+  // Interrupted recording recovery
+  const recordingRecovery = useRecordingRecovery();
+  const [isRecoveryDismissed, setIsRecoveryDismissed] = useState(false);
+  const unfinishedRecording = isRecoveryDismissed ? null : recordingRecovery.unfinished[0] || null;
+
   // UI state
   const [toast, setToast] = useState('');
   
@@ -190,10 +240,33 @@ export default function CommandCenter() {
     if (user) loadData();
   }, [user]);
   
+  // Voice commands spoken while dictating ("ELYN generate note")
+  const handleVoiceCommand = (command: VoiceCommand) => {
+    switch (command.action) {
+      case 'switchNoteType':
+        setDocumentMode('clinical');
+        setNoteType(command.noteType);
+        showToast(`Switched to ${command.noteType}`);
+        break;
+      case 'stopRecording':
+        dictation.stop();
+        break;
+      case 'generateNote':
+        dictation.stop();
+        setIsVoiceGeneratePending(true);
+        break;
+    }
+  };
+  const dictatedTranscript = useVoiceCommands(dictation.transcript, handleVoiceCommand);
+  const dictatedRawTranscript = useMemo(() => parseVoiceCommands(dictation.rawTranscript).text, [dictation.rawTranscript]);
+  
   // Sync transcript
   useEffect(() => {
-    if (speech.transcript) setEditableTranscript(speech.transcript);
-  }, [speech.transcript]);
+    if (dictation.transcript) {
+      setEditableTranscript(expandSpoken(dictatedTranscript));
+      setRawTranscript(expandSpoken(dictatedRawTranscript));
+    }
+  }, [dictation.transcript, dictatedTranscript, dictatedRawTranscript, expandSpoken]);
   
   const loadData = async () => {
     setIsLoading(true);
@@ -327,6 +400,27 @@ export default function CommandCenter() {
     setPatientDetailOpen(false);
     setIsRecordingSheetOpen(true);
   };
+
+  const handleRecoverRecording = async (sessionId: string) => {
+    const recovered = await recordingRecovery.recover(sessionId);
+    if (!recovered) return;
+
+    const patient = patients.find(p => p.id === recovered.patientId);
+    if (patient) setSelectedPatient(patient);
+    setEditableTranscript(recovered.transcript);
+    setRawTranscript(recovered.transcript);
+    setTranscriptCorrections([]);
+    setSpeakerSegments(recovered.speakerSegments);
+    setEncounterAudio(recovered.audioBlob);
+    setEncounterLanguage(recovered.language);
+    setIsRecordingSheetOpen(true);
+    showToast('Recording recovered');
+  };
+
+  const handleDiscardRecording = async (sessionId: string) => {
+    await recordingRecovery.discard(sessionId);
+    showToast('Recording discarded');
+  };
   
   const handleStatusChange = async (patientId: string, newStatus: PatientStatus) => {
     try {
@@ -382,7 +476,7 @@ export default function CommandCenter() {
       const dischargeRvu = data.dischargeCptCode === '99239' ? 1.90 : 1.28;
 
       // Create billing record for discharge
-      await supabase.from('bills').insert({
+      const { data: dischargeBill } = await supabase.from('bills').insert({
         user_id: user?.id as string,
         patient_name: patientToDischarge?.name || 'Unknown',
         patient_mrn: patientToDischarge?.mrn || null,
@@ -395,7 +489,7 @@ export default function CommandCenter() {
         rvu: dischargeRvu,
         facility: selectedFacility?.name || null,
         status: 'pending',
-      });
+      }).select('id').single();
 
       // Update local patient state
       setPatients((prev) =>
@@ -414,6 +508,24 @@ export default function CommandCenter() {
 
       // Reload data to get updated bills
       loadData();
+
+      // The summary takes a while to write, so it does not hold up the discharge
+      if (data.generateSummary) {
+        const patientName = patientToDischarge?.name;
+        createDischargeSummary({
+          patientId: data.patientId,
+          dischargeReason: data.dischargeReasonLabel,
+          dischargeNotes: data.dischargeNotes,
+          billId: dischargeBill?.id || null,
+        })
+          .then(({ billLinkError }) => showToast(billLinkError
+            ? `Discharge summary saved for ${patientName}, but it could not be linked to the discharge bill`
+            : `Discharge summary saved for ${patientName}`))
+          .catch(e => {
+            console.error('Error generating discharge summary:', e);
+            showToast('Discharge summary could not be generated');
+          });
+      }
     } catch (e) {
       console.error('Error discharging patient:', e);
       showToast('Error discharging patient');
@@ -429,38 +541,46 @@ export default function CommandCenter() {
       return;
     }
     
+    // A smart phrase typed at the very end has not been expanded yet
+    const transcriptForNote = expandAll(editableTranscript);
+    if (transcriptForNote !== editableTranscript) setEditableTranscript(transcriptForNote);
+    
     setIsGenerating(true);
+    setStreamingNote('');
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
     try {
-      const patientCtx = selectedPatient ? {
-        name: selectedPatient.name,
-        mrn: selectedPatient.mrn || '',
-        dob: selectedPatient.dob || '',
-        room: selectedPatient.room || '',
-        diagnosis: selectedPatient.diagnosis || '',
-        allergies: selectedPatient.allergies || [],
-      } : null;
-      
+
       // Determine the note type to use
       const effectiveNoteType = documentMode === 'radiology' ? radiologyModality : noteType;
       
-      // Use the consolidated API that generates note + billing together
-      // Pass note preferences for clinical notes (not radiology)
-      const result = await AI.generateNoteWithBilling(
-        editableTranscript, 
-        effectiveNoteType, 
-        patientCtx,
-        documentMode === 'radiology' ? radiologyContext : null,
-        documentMode === 'clinical' ? notePreferences : null
+      // The custom format uses the designed template for this note type, if there is one
+      const template = notePreferences.noteFormat === 'custom' ? templateFor(noteType) : null;
+      const preferencesForNote = template
+        ? { ...notePreferences, template: { name: template.name, sections: template.sections } }
+        : notePreferences;
+      
+      // What earlier notes established about the patient goes in with today's encounter
+      const summary = selectedPatient ? await fetchPatientSummary(selectedPatient.id) : null;
+      
+      // Use the consolidated API that generates note + billing together, streamed so
+      // the note shows as it is written. Pass note preferences for clinical notes (not radiology)
+      const result = await AI.streamNoteWithBilling(
+        {
+          transcript: transcriptForNote,
+          noteType: effectiveNoteType,
+          patientContext: selectedPatientContext && { ...selectedPatientContext, summary },
+          radiologyContext: documentMode === 'radiology' ? radiologyContext : null,
+          notePreferences: documentMode === 'clinical' ? preferencesForNote : null,
+          speakerSegments: documentMode === 'clinical' ? speakerSegments : null,
+          encounterLanguage: documentMode === 'clinical' ? { language: encounterLanguage, interpreterUsed } : null,
+          carryForward: documentMode === 'clinical' && noteType === 'Progress' ? carryForward : null,
+        },
+        { onNote: setStreamingNote, signal: abortController.signal }
       );
       
       // Prepare billing data for confirmation
-      const billingData: ExtractedBilling = {
-        icd10: (result.billing.icd10 || []).map(c => ({ code: c.code, description: c.description || '' })),
-        cpt: (result.billing.cpt || []).map(c => ({ code: c.code, description: c.description || '' })),
-        emLevel: result.billing.em || (documentMode === 'radiology' ? 'N/A' : '99213'),
-        rvu: result.billing.rvu || 0,
-        mdmComplexity: result.billing.mdm || (documentMode === 'radiology' ? 'N/A' : 'Low'),
-      };
+      const billingData = toExtractedBilling(result.billing);
       
       // Prepare note export data
       const noteExport: NoteExport = {
@@ -468,29 +588,122 @@ export default function CommandCenter() {
         mrn: selectedPatient?.mrn || undefined,
         noteType: effectiveNoteType,
         dateGenerated: new Date().toLocaleString(),
-        transcript: editableTranscript,
+        transcript: transcriptForNote,
         generatedNote: result.note,
+        structuredData: result.structured,
       };
       
+      // Check every statement against what was said before the note can be saved for signing
+      const verificationSources = documentMode === 'clinical'
+        ? buildVerificationSources(transcriptForNote, summary)
+        : undefined;
+      
       // Show billing confirmation modal instead of saving immediately
       setBillingConfirmation({
         isOpen: true,
         billing: billingData,
         pendingNote: result.note,
         pendingNoteExport: noteExport,
+        pendingSourceLanguage: result.sourceLanguage,
+        pendingStructured: result.structured,
+        pendingVerification: verificationSources && verifyNote(parseNoteSections(result.note), verificationSources),
+        pendingVerificationSources: verificationSources,
+        pendingGenerationIds: [result.generationId],
       });
       
       // Close recording sheet
       setIsRecordingSheetOpen(false);
       
     } catch (e) {
-      console.error('Error generating note:', e);
-      setToast('Error generating note');
-      setTimeout(() => setToast(''), 2000);
+      if (abortController.signal.aborted) {
+        showToast('Note generation cancelled');
+      } else {
+        console.error('Error generating note:', e);
+        showToast('Error generating note');
+      }
     }
+    generationAbortRef.current = null;
+    setStreamingNote('');
     setIsGenerating(false);
   };
   
+  const cancelGeneration = () => generationAbortRef.current?.abort();
+  
+  const toExtractedBilling = (billing: BillingCodes): ExtractedBilling => ({
+    icd10: (billing.icd10 || []).map(c => ({ code: c.code, description: c.description || '' })),
+    cpt: (billing.cpt || []).map(c => ({ code: c.code, description: c.description || '' })),
+    emLevel: billing.em || (documentMode === 'radiology' ? 'N/A' : '99213'),
+    rvu: billing.rvu || 0,
+    mdmComplexity: billing.mdm || (documentMode === 'radiology' ? 'N/A' : 'Low'),
+  });
+  
+  // Rewrite one section of the note awaiting confirmation; billing is only replaced when asked for
+  const refinePendingSection = async (index: number, section: { title: string; content: string }, request: SectionRefineRequest) => {
+    setRefiningSection(index);
+    try {
+      const { content, billing, generationId } = await AI.refineNoteSection({
+        ...request,
+        note: billingConfirmation.pendingNote,
+        section,
+        transcript: editableTranscript,
+        noteType: documentMode === 'radiology' ? radiologyModality : noteType,
+        patientContext: selectedPatientContext,
+      });
+      setBillingConfirmation(prev => {
+        const note = replaceNoteSection(prev.pendingNote, index, content);
+        return {
+          ...prev,
+          pendingNote: note,
+          pendingNoteExport: prev.pendingNoteExport && { ...prev.pendingNoteExport, generatedNote: note },
+          // The rewritten section is checked again; statements already confirmed stay confirmed
+          pendingVerification: prev.pendingVerificationSources
+            ? verifyNote(parseNoteSections(note), prev.pendingVerificationSources, prev.pendingVerification)
+            : prev.pendingVerification,
+          ...(billing && { billing: toExtractedBilling(billing) }),
+          pendingGenerationIds: [...(prev.pendingGenerationIds || []), generationId],
+        };
+      });
+      showToast(`${section.title} updated`);
+    } catch (e) {
+      console.error('Error refining section:', e);
+      showToast('Error refining section');
+    }
+    setRefiningSection(null);
+  };
+  
+  // Everything a clinical note may legitimately draw on besides the transcript
+  const buildVerificationSources = (transcript: string, summary: PatientSummary | null): VerificationSources => ({
+    transcript,
+    segments: speakerSegments,
+    context: [
+      selectedPatientContext?.diagnosis || '',
+      ...(selectedPatientContext?.allergies || []),
+      summary?.narrative || '',
+      ...(summary?.keyDiagnoses || []).map(dx => `${dx.description} ${dx.code}`),
+      ...(summary?.activeMedications || []).map(med => `${med.name} ${med.dose || ''}`),
+      noteType === 'Progress' ? carryForward?.assessmentPlan || '' : '',
+    ].filter(Boolean),
+  });
+
+  const handleConfirmFlag = (id: string) => {
+    setBillingConfirmation(prev => prev.pendingVerification
+      ? { ...prev, pendingVerification: confirmFlag(prev.pendingVerification, id) }
+      : prev);
+  };
+
+  const handleRemoveFlag = (id: string) => {
+    setBillingConfirmation(prev => {
+      const flag = prev.pendingVerification?.flags.find(f => f.id === id);
+      if (!flag) return prev;
+      const note = removeStatement(prev.pendingNote, flag.statement);
+      return {
+        ...prev,
+        pendingNote: note,
+        pendingNoteExport: prev.pendingNoteExport && { ...prev.pendingNoteExport, generatedNote: note },
+      };
+    });
+  };
+  
   const handleBillingConfirm = async (confirmedBilling: ExtractedBilling) => {
     if (!billingConfirmation.pendingNote || !billingConfirmation.pendingNoteExport) return;
     
@@ -511,12 +724,21 @@ export default function CommandCenter() {
       }
       
       // Build base note insert object
+      const sourceLanguage = billingConfirmation.pendingSourceLanguage || 'en';
       const baseNoteInsert = {
         user_id: user?.id as string,
         patient_id: selectedPatient?.id || null,
         note_type: noteTypeValue as 'hp' | 'consult' | 'progress' | 'xray' | 'ct' | 'mri' | 'ultrasound' | 'mammography' | 'fluoroscopy',
         transcript: editableTranscript,
+        raw_transcript: rawTranscript || null,
+        transcript_corrections: transcriptCorrections.length > 0 ? (transcriptCorrections as unknown as Json) : null,
+        transcript_segments: speakerSegments.length > 0 ? (speakerSegments as unknown as Json) : null,
         generated_note: billingConfirmation.pendingNote,
+        ...extractNoteFields(billingConfirmation.pendingNote),
+        structured_data: billingConfirmation.pendingStructured ? (billingConfirmation.pendingStructured as unknown as Json) : null,
+        verification: billingConfirmation.pendingVerification ? (billingConfirmation.pendingVerification as unknown as Json) : null,
+        source_language: sourceLanguage,
+        interpreter_used: sourceLanguage !== 'en' && interpreterUsed,
         // Radiology-specific fields (null for clinical notes)
         modality: documentMode === 'radiology' ? radiologyModality : null,
         body_part: documentMode === 'radiology' ? (radiologyContext.bodyPart || null) : null,
@@ -531,6 +753,20 @@ export default function CommandCenter() {
         .select()
         .single();
       
+      // Keep the encounter audio with the note for transcript review
+      if (savedNote && encounterAudio && user) {
+        const audioPath = await uploadEncounterAudio(user.id, savedNote.id, encounterAudio);
+        if (audioPath) {
+          await supabase.from('clinical_notes').update({ audio_path: audioPath }).eq('id', savedNote.id);
+        }
+      }
+      
+      // Fold the new note into the patient's summary in the background
+      if (savedNote) {
+        void refreshPatientSummary(savedNote.patient_id);
+        void linkGenerationsToNote(savedNote.id, billingConfirmation.pendingGenerationIds || []);
+      }
+      
       // Save billing record with confirmed codes
       await supabase.from('billing_records').insert({
         user_id: user?.id as string,
@@ -571,7 +807,14 @@ export default function CommandCenter() {
       
       // Reset recording
       setEditableTranscript('');
-      speech.clear();
+      setRawTranscript('');
+      setTranscriptCorrections([]);
+      setSpeakerSegments([]);
+      setEncounterAudio(null);
+      setEncounterLanguage('en');
+      setInterpreterUsed(false);
+      setCarryForward(null);
+      dictation.clear();
       
       // Reload bills
       loadData();
@@ -617,6 +860,19 @@ export default function CommandCenter() {
     setTimeout(() => setToast(''), 2000);
   };
   
+  // Generate once dictation has stopped and the final transcript is in place
+  const generateNoteRef = useRef(generateNote);
+  generateNoteRef.current = generateNote;
+  useEffect(() => {
+    if (isVoiceGeneratePending && !dictation.isRecording) {
+      setIsVoiceGeneratePending(false);
+      generateNoteRef.current();
+    }
+  }, [isVoiceGeneratePending, dictation.isRecording]);
+  
+  // Stop a note still streaming when leaving the page
+  useEffect(() => () => generationAbortRef.current?.abort(), []);
+  
   // Stats cards data
   const statsCards = [
     { label: 'Notes', value: todayStats.notes, icon: FileText, color: 'text-primary' },
@@ -1119,27 +1375,34 @@ export default function CommandCenter() {
         activeTab={activeTab}
         onTabChange={setActiveTab}
         onRecordPress={handleRecordPress}
-        isRecording={speech.isRecording}
+        isRecording={dictation.isRecording}
       />
       
       {/* Recording Sheet */}
       <RecordingSheet
         isOpen={isRecordingSheetOpen}
         onClose={() => setIsRecordingSheetOpen(false)}
-        isRecording={speech.isRecording}
-        onToggleRecording={speech.isRecording ? speech.stop : speech.start}
+        isRecording={dictation.isRecording}
+        onToggleRecording={dictation.isRecording ? dictation.stop : dictation.start}
         transcript={editableTranscript}
         onTranscriptChange={setEditableTranscript}
-        interimText={speech.interim}
+        rawTranscript={rawTranscript}
+        onRawTranscriptChange={setRawTranscript}
+        corrections={transcriptCorrections}
+        onCorrectionsChange={setTranscriptCorrections}
+        interimText={dictation.interim}
         noteType={noteType}
         onNoteTypeChange={setNoteType}
         onGenerate={generateNote}
         isGenerating={isGenerating}
+        streamingNote={streamingNote}
+        onCancelGenerate={cancelGeneration}
         patientName={selectedPatient?.name}
         patientId={selectedPatient?.id}
+        patientContext={selectedPatientContext}
         patients={filteredPatients}
         onPatientSelect={setSelectedPatient}
-        isSupported={speech.isSupported}
+        isSupported={dictation.isSupported}
         documentMode={documentMode}
         onDocumentModeChange={setDocumentMode}
         radiologyModality={radiologyModality}
@@ -1149,6 +1412,15 @@ export default function CommandCenter() {
         }}
         radiologyContext={radiologyContext}
         onRadiologyContextChange={setRadiologyContext}
+        speakerSegments={speakerSegments}
+        onSpeakerSegmentsChange={setSpeakerSegments}
+        onAudioChange={setEncounterAudio}
+        language={encounterLanguage}
+        onLanguageChange={setEncounterLanguage}
+        interpreterUsed={interpreterUsed}
+        onInterpreterUsedChange={setInterpreterUsed}
+        carryForward={carryForward}
+        onCarryForwardChange={setCarryForward}
       />
       
       {/* Manage Facilities Modal */}
@@ -1271,6 +1543,12 @@ export default function CommandCenter() {
         billing={billingConfirmation.billing || { icd10: [], cpt: [], emLevel: '99213', rvu: 0, mdmComplexity: 'Low' }}
         patientName={selectedPatient?.name}
         noteType={noteType}
+        note={billingConfirmation.pendingNote}
+        onRefineSection={refinePendingSection}
+        refiningSection={refiningSection}
+        verificationFlags={unresolvedFlags(billingConfirmation.pendingVerification, billingConfirmation.pendingNote)}
+        onConfirmFlag={handleConfirmFlag}
+        onRemoveFlag={handleRemoveFlag}
         onConfirm={handleBillingConfirm}
         onDiscard={handleBillingDiscard}
       />
@@ -1316,6 +1594,17 @@ export default function CommandCenter() {
         onToast={showToast}
       />
 
+      {/* Interrupted Recording Recovery */}
+      <RecoverRecordingPrompt
+        session={unfinishedRecording}
+        patientName={patients.find(p => p.id === unfinishedRecording?.patientId)?.name}
+        isRecovering={recordingRecovery.isRecovering}
+        error={recordingRecovery.error}
+        onRecover={handleRecoverRecording}
+        onDiscard={handleDiscardRecording}
+        onClose={() => setIsRecoveryDismissed(true)}
+      />
+
       {/* Face Sheet Parser Modal */}
       <AnimatePresence>
         {isFaceSheetOpen && (
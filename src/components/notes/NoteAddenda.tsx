@@ -0,0 +1,118 @@
+import { useState, useEffect } from 'react';
+import { Pen, Plus, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { addAddendum, fetchAddenda, NoteAddendum } from '@/services/noteSigning';
+
+interface NoteAddendaProps {
+  noteId: string;
+  attestation: string | null;
+  onToast: (message: string) => void;
+  onAdded?: () => void;
+}
+
+/**
+ * The signature of a signed note followed by its addenda, oldest first.
+ * Signed notes are locked, so corrections are written here as new signed addenda.
+ */
+export default function NoteAddenda({ noteId, attestation, onToast, onAdded }: NoteAddendaProps) {
+  const [addenda, setAddenda] = useState<NoteAddendum[]>([]);
+  const [isWriting, setIsWriting] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [isSigning, setIsSigning] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAddenda(noteId).then(loaded => {
+      if (!cancelled) setAddenda(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [noteId]);
+
+  const handleSign = async () => {
+    if (!draft.trim()) return;
+
+    setIsSigning(true);
+    const result = await addAddendum(noteId, draft.trim());
+    if (result.error !== null) {
+      onToast(result.error);
+    } else {
+      setAddenda(prev => [...prev, result.data]);
+      setDraft('');
+      setIsWriting(false);
+      onAdded?.();
+      onToast('Addendum signed and added');
+    }
+    setIsSigning(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      {attestation && (
+        <div className="rounded-lg border border-green-500/30 bg-green-500/5 p-3 flex gap-2">
+          <Pen className="w-3.5 h-3.5 mt-0.5 text-green-600 dark:text-green-400 flex-shrink-0" />
+          <p className="text-xs text-green-700 dark:text-green-300 leading-relaxed">{attestation}</p>
+        </div>
+      )}
+
+      {addenda.map(addendum => (
+        <div key={addendum.id} className="rounded-lg border border-border bg-background/50 p-3">
+          <div className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground mb-1.5">
+            Addendum · {new Date(addendum.signed_at).toLocaleString([], { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' })}
+          </div>
+          <p className="text-sm text-foreground whitespace-pre-wrap leading-relaxed">{addendum.content}</p>
+          <p className="text-[11px] text-muted-foreground mt-2 leading-relaxed">{addendum.signature_attestation}</p>
+        </div>
+      ))}
+
+      {isWriting ? (
+        <div className="space-y-2">
+          <Textarea
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Addendum text..."
+            className="min-h-[100px] text-sm bg-background border-border"
+          />
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={handleSign}
+              size="sm"
+              disabled={isSigning || !draft.trim()}
+              className="rounded-lg h-8 px-3 bg-green-600 hover:bg-green-700 text-white"
+            >
+              {isSigning ? (
+                <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+              ) : (
+                <Pen className="w-3.5 h-3.5 mr-1.5" />
+              )}
+              Sign Addendum
+            </Button>
+            <Button
+              onClick={() => setIsWriting(false)}
+              variant="outline"
+              size="sm"
+              disabled={isSigning}
+              className="rounded-lg h-8 px-3"
+            >
+              Cancel
+            </Button>
+            <span className="text-[11px] text-muted-foreground">Addenda cannot be changed once signed</span>
+          </div>
+        </div>
+      ) : (
+        <Button
+          onClick={() => setIsWriting(true)}
+          variant="outline"
+          size="sm"
+          className="rounded-lg h-8 px-3"
+        >
+          <Plus className="w-3.5 h-3.5 mr-1.5" />
+          Add Addendum
+        </Button>
+      )}
+    </div>
+  );
+}
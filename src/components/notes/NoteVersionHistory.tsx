@@ -0,0 +1,318 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, History, Loader2, RotateCcw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { diffLines, DiffRow, DiffSegment } from '@/lib/lineDiff';
+import { extractNoteFields } from '@/components/elyn/index';
+import { refreshPatientSummary } from '@/services/patientSummary';
+
+interface NoteVersionHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  noteId: string | null;
+  currentContent: string;
+  canRestore: boolean; // False once the note is signed
+  onRestored: (content: string) => void;
+  onToast: (message: string) => void;
+  title?: string;
+}
+
+type VersionSource = 'ai_generation' | 'manual_edit' | 'section_regenerate' | 'restore';
+
+interface NoteVersion {
+  id: string;
+  version_number: number;
+  content: string;
+  source: VersionSource;
+  created_by: string | null;
+  created_at: string;
+}
+
+// What the selected version is compared against
+type CompareMode = 'previous' | 'current';
+
+const SOURCE_LABELS: Record<VersionSource, { label: string; className: string }> = {
+  ai_generation: { label: 'AI generation', className: 'bg-primary/10 text-primary' },
+  manual_edit: { label: 'Manual edit', className: 'bg-amber-500/10 text-amber-600 dark:text-amber-400' },
+  section_regenerate: { label: 'Section regenerate', className: 'bg-secondary/10 text-secondary' },
+  restore: { label: 'Restored', className: 'bg-muted text-muted-foreground' },
+};
+
+const ROW_STYLES: Record<DiffRow['type'], { left: string; right: string }> = {
+  same: { left: '', right: '' },
+  removed: { left: 'bg-red-500/10', right: 'bg-muted/40' },
+  added: { left: 'bg-muted/40', right: 'bg-green-500/10' },
+  changed: { left: 'bg-red-500/5', right: 'bg-green-500/5' },
+};
+
+function DiffCell({ segments, number, side, className }: {
+  segments: DiffSegment[] | null;
+  number: number | null;
+  side: 'left' | 'right';
+  className: string;
+}) {
+  return (
+    <div className={cn('flex gap-2 px-2 py-0.5 min-w-0', className)}>
+      <span className="w-6 flex-shrink-0 text-right text-[10px] text-muted-foreground/60 select-none pt-0.5">
+        {number ?? ''}
+      </span>
+      <span className="whitespace-pre-wrap break-words min-w-0">
+        {segments?.map((segment, i) => (
+          <span
+            key={i}
+            className={cn(
+              segment.changed && (side === 'left'
+                ? 'bg-red-500/20 text-red-700 dark:text-red-300 line-through decoration-red-500/50'
+                : 'bg-green-500/20 text-green-700 dark:text-green-300')
+            )}
+          >
+            {segment.text}
+          </span>
+        ))}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Every saved version of a note: who produced it, when and how, with a
+ * side-by-side comparison against the version before it or the current text,
+ * and one-click restore of any earlier version.
+ */
+export default function NoteVersionHistory({
+  isOpen,
+  onClose,
+  noteId,
+  currentContent,
+  canRestore,
+  onRestored,
+  onToast,
+  title,
+}: NoteVersionHistoryProps) {
+  const { user } = useAuth();
+  const [versions, setVersions] = useState<NoteVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>('previous');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const loadVersions = useCallback(async (id: string) => {
+    setIsLoading(true);
+    setLoadFailed(false);
+    try {
+      const { data, error } = await supabase
+        .from('clinical_note_versions')
+        .select('id, version_number, content, source, created_by, created_at')
+        .eq('note_id', id)
+        .order('version_number', { ascending: false });
+
+      if (error) throw error;
+
+      const loaded = (data || []).map(version => ({ ...version, source: version.source as VersionSource }));
+      setVersions(loaded);
+      setSelectedId(loaded[0]?.id ?? null);
+    } catch (e) {
+      console.error('Error loading note versions:', e);
+      setLoadFailed(true);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen || !noteId) return;
+    setCompareMode('previous');
+    loadVersions(noteId);
+  }, [isOpen, noteId, loadVersions]);
+
+  const selectedIndex = versions.findIndex(version => version.id === selectedId);
+  const selected = selectedIndex >= 0 ? versions[selectedIndex] : null;
+  const previous = selectedIndex >= 0 ? versions[selectedIndex + 1] ?? null : null;
+
+  const rows = useMemo(() => {
+    if (!selected) return [];
+    return compareMode === 'current'
+      ? diffLines(selected.content, currentContent)
+      : diffLines(previous?.content ?? '', selected.content);
+  }, [selected, previous, compareMode, currentContent]);
+
+  const hasChanges = rows.some(row => row.type !== 'same');
+
+  const handleRestore = async () => {
+    if (!selected || !noteId) return;
+
+    setIsRestoring(true);
+    try {
+      const { data: restored, error } = await supabase
+        .from('clinical_notes')
+        .update({ generated_note: selected.content, ...extractNoteFields(selected.content), edit_source: 'restore' })
+        .eq('id', noteId)
+        .select('patient_id')
+        .single();
+
+      if (error) throw error;
+
+      // The restored text is what the patient summary should now reflect
+      void refreshPatientSummary(restored.patient_id);
+      onRestored(selected.content);
+      onToast(`Restored version ${selected.version_number}`);
+      await loadVersions(noteId);
+    } catch (e) {
+      console.error('Error restoring note version:', e);
+      onToast('Failed to restore version');
+    }
+    setIsRestoring(false);
+  };
+
+  const authorLabel = (version: NoteVersion) =>
+    !version.created_by ? 'System' : version.created_by === user?.id ? 'You' : 'Another user';
+
+  const leftLabel = compareMode === 'current'
+    ? `Version ${selected?.version_number ?? ''}`
+    : previous ? `Version ${previous.version_number}` : 'Empty';
+  const rightLabel = compareMode === 'current' ? 'Current note' : `Version ${selected?.version_number ?? ''}`;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 md:flex md:items-center md:justify-center md:p-4">
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="absolute inset-0 bg-black/50"
+          />
+
+          {/* Modal - Bottom sheet on mobile, centered on desktop */}
+          <motion.div
+            initial={{ y: '100%', opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            exit={{ y: '100%', opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="fixed md:relative bottom-20 left-4 right-4 md:bottom-auto md:left-auto md:right-auto z-50 glass-card rounded-2xl p-5 md:max-w-5xl md:w-full max-h-[85vh] flex flex-col"
+          >
+            {/* Handle - mobile only */}
+            <div className="flex justify-center -mt-2 mb-3 md:hidden">
+              <div className="w-10 h-1 rounded-full bg-border" />
+            </div>
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+                  <History className="w-5 h-5 text-primary" />
+                </div>
+                <div>
+                  <h3 className="font-semibold text-foreground">Version History</h3>
+                  <p className="text-xs text-muted-foreground">
+                    {title || `${versions.length} versions`}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-2 rounded-lg hover:bg-muted transition-colors"
+              >
+                <X className="w-5 h-5 text-muted-foreground" />
+              </button>
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground py-8 justify-center">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading versions...
+              </div>
+            ) : loadFailed ? (
+              <p className="text-sm text-destructive py-8 text-center">Failed to load version history</p>
+            ) : versions.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">No saved versions for this note</p>
+            ) : (
+              <div className="flex-1 min-h-0 flex flex-col md:flex-row gap-4">
+                {/* Versions */}
+                <div className="md:w-56 flex-shrink-0 overflow-y-auto max-h-40 md:max-h-none space-y-1.5 pr-1">
+                  {versions.map(version => {
+                    const source = SOURCE_LABELS[version.source] || SOURCE_LABELS.manual_edit;
+                    return (
+                      <button
+                        key={version.id}
+                        onClick={() => setSelectedId(version.id)}
+                        className={cn(
+                          'w-full text-left p-2 rounded-lg border transition-colors',
+                          version.id === selectedId ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted/50'
+                        )}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-sm font-medium text-foreground">v{version.version_number}</span>
+                          <span className={cn('px-1.5 py-0.5 rounded-full text-[10px] font-medium', source.className)}>
+                            {source.label}
+                          </span>
+                        </div>
+                        <div className="text-[11px] text-muted-foreground mt-0.5">
+                          {authorLabel(version)} · {new Date(version.created_at).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+
+                {/* Comparison */}
+                <div className="flex-1 min-w-0 flex flex-col min-h-0">
+                  <div className="flex items-center gap-2 mb-2 flex-wrap">
+                    {(['previous', 'current'] as CompareMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setCompareMode(mode)}
+                        className={cn(
+                          'px-3 py-1.5 rounded-lg text-xs font-medium transition-colors',
+                          compareMode === mode ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground hover:bg-muted/80'
+                        )}
+                      >
+                        {mode === 'previous' ? 'Changes in this version' : 'Compare with current'}
+                      </button>
+                    ))}
+                    {canRestore && selected && selected.content !== currentContent && (
+                      <Button
+                        onClick={handleRestore}
+                        disabled={isRestoring}
+                        variant="outline"
+                        size="sm"
+                        className="rounded-lg h-8 px-3 ml-auto"
+                      >
+                        {isRestoring ? (
+                          <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+                        ) : (
+                          <RotateCcw className="w-3.5 h-3.5 mr-1.5" />
+                        )}
+                        Restore v{selected.version_number}
+                      </Button>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-2 text-[11px] font-semibold uppercase tracking-wider text-muted-foreground border-b border-border pb-1">
+                    <span className="px-2">{leftLabel}</span>
+                    <span className="px-2">{rightLabel}</span>
+                  </div>
+                  <div className="flex-1 overflow-y-auto text-xs font-mono leading-relaxed">
+                    {hasChanges ? (
+                      rows.map((row, i) => (
+                        <div key={i} className="grid grid-cols-2 border-b border-border/30">
+                          <DiffCell segments={row.left} number={row.leftNumber} side="left" className={ROW_STYLES[row.type].left} />
+                          <DiffCell segments={row.right} number={row.rightNumber} side="right" className={ROW_STYLES[row.type].right} />
+                        </div>
+                      ))
+                    ) : (
+                      <p className="text-sm text-muted-foreground py-6 text-center font-sans">No differences</p>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
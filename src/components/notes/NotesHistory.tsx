@@ -6,6 +6,16 @@ import { useSync } from '@/contexts/SyncContext';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import {
   Select,
   SelectContent,
@@ -32,16 +42,28 @@ import {
   CheckCircle2,
   Pen,
   RefreshCw,
-  Cloud
+  Cloud,
+  Headphones,
+  Languages,
+  History,
+  AlertTriangle
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { exportNoteToText, exportNoteToJSON, copyNoteToClipboard, NoteExport } from '@/lib/exportNotes';
+import TranscriptReview from './TranscriptReview';
+import NoteVersionHistory from './NoteVersionHistory';
+import NoteAddenda from './NoteAddenda';
+import { refreshPatientSummary } from '@/services/patientSummary';
+import { fetchAddenda, fetchSignerProfile, formatAddendum, saveVerification, signNote, SignerProfile } from '@/services/noteSigning';
+import { confirmFlag, unresolvedFlags, NoteVerification } from '@/lib/noteVerification';
+import { ENCOUNTER_LANGUAGES, EncounterLanguage } from '@/services/transcription';
+import type { SpeakerSegment, StructuredClinicalData } from '@/types/medical';
 
 type NoteStatus = 'draft' | 'pending_review' | 'signed';
 
 interface ClinicalNote {
   id: string;
-  note_type: 'hp' | 'consult' | 'progress';
+  note_type: 'hp' | 'consult' | 'progress' | 'discharge';
   transcript: string | null;
   generated_note: string | null;
   created_at: string;
@@ -49,6 +71,13 @@ interface ClinicalNote {
   status: NoteStatus;
   signed_at: string | null;
   signed_by: string | null;
+  signature_attestation: string | null;
+  audio_path: string | null;
+  transcript_segments: SpeakerSegment[] | null;
+  source_language: string;
+  interpreter_used: boolean;
+  structured_data: StructuredClinicalData | null;
+  verification: NoteVerification | null;
   patient?: {
     name: string;
     mrn: string | null;
@@ -85,6 +114,7 @@ const noteTypeLabels: Record<string, string> = {
   hp: 'H&P',
   consult: 'Consult',
   progress: 'Progress',
+  discharge: 'Discharge Summary',
 };
 
 // SOAP section colors
@@ -162,6 +192,11 @@ export default function NotesHistory({ onToast }: NotesHistoryProps) {
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [dateFrom, setDateFrom] = useState<Date | undefined>(undefined);
   const [dateTo, setDateTo] = useState<Date | undefined>(undefined);
+  const [reviewNote, setReviewNote] = useState<ClinicalNote | null>(null);
+  const [historyNote, setHistoryNote] = useState<ClinicalNote | null>(null);
+  const [signingNote, setSigningNote] = useState<ClinicalNote | null>(null);
+  const [signerProfile, setSignerProfile] = useState<SignerProfile | null>(null);
+  const [isSigning, setIsSigning] = useState(false);
 
   // Load notes on mount and when refreshKey changes (sync from other devices)
   useEffect(() => {
@@ -183,6 +218,13 @@ export default function NotesHistory({ onToast }: NotesHistoryProps) {
           status,
           signed_at,
           signed_by,
+          signature_attestation,
+          audio_path,
+          transcript_segments,
+          source_language,
+          interpreter_used,
+          structured_data,
+          verification,
           patients (
             name,
             mrn
@@ -203,6 +245,13 @@ export default function NotesHistory({ onToast }: NotesHistoryProps) {
         status: note.status || 'draft',
         signed_at: note.signed_at,
         signed_by: note.signed_by,
+        signature_attestation: note.signature_attestation,
+        audio_path: note.audio_path,
+        transcript_segments: Array.isArray(note.transcript_segments) ? note.transcript_segments : null,
+        source_language: note.source_language || 'en',
+        interpreter_used: note.interpreter_used === true,
+        structured_data: note.structured_data || null,
+        verification: note.verification || null,
         patient: note.patients ? {
           name: note.patients.name,
           mrn: note.patients.mrn,
@@ -216,61 +265,104 @@ export default function NotesHistory({ onToast }: NotesHistoryProps) {
     setIsLoading(false);
   };
 
-  // Update note status
-  const updateNoteStatus = async (noteId: string, newStatus: NoteStatus) => {
+  // Update note status (signing goes through handleSignNote)
+  const updateNoteStatus = async (noteId: string, newStatus: Exclude<NoteStatus, 'signed'>) => {
     try {
-      const updateData: any = { status: newStatus };
-
-      // If signing, add signature info
-      if (newStatus === 'signed') {
-        updateData.signed_at = new Date().toISOString();
-        updateData.signed_by = user?.id;
-      }
-
       const { error } = await supabase
         .from('clinical_notes')
-        .update(updateData)
+        .update({ status: newStatus })
         .eq('id', noteId);
 
       if (error) throw error;
 
       // Update local state
       setNotes(prev => prev.map(note =>
-        note.id === noteId
-          ? { ...note, status: newStatus, signed_at: updateData.signed_at || note.signed_at }
-          : note
+        note.id === noteId ? { ...note, status: newStatus } : note
       ));
 
-      onToast(`Note ${newStatus === 'signed' ? 'signed' : 'status updated'} successfully`);
+      onToast('Note status updated successfully');
     } catch (e) {
       console.error('Error updating note status:', e);
       onToast('Failed to update note status');
     }
   };
 
-  const getExportData = (note: ClinicalNote): NoteExport => ({
+  // Show the attestation the note will be signed with before signing
+  const openSignDialog = async (note: ClinicalNote) => {
+    if (!user) return;
+    setSignerProfile(null);
+    setSigningNote(note);
+    setSignerProfile(await fetchSignerProfile(user.id));
+  };
+
+  const signingFlags = signingNote ? unresolvedFlags(signingNote.verification, signingNote.generated_note || '') : [];
+
+  const handleConfirmFlag = async (id: string) => {
+    if (!signingNote?.verification) return;
+
+    const result = await saveVerification(signingNote.id, confirmFlag(signingNote.verification, id));
+    if (result.error !== null) {
+      onToast(result.error);
+      return;
+    }
+    const verification = result.data;
+    setSigningNote(prev => prev && { ...prev, verification });
+    setNotes(prev => prev.map(note => note.id === signingNote.id ? { ...note, verification } : note));
+  };
+
+  const handleSignNote = async () => {
+    if (!signingNote) return;
+
+    setIsSigning(true);
+    const result = await signNote(signingNote.id);
+    if (result.error !== null) {
+      onToast(result.error);
+    } else {
+      const signature = result.data;
+      setNotes(prev => prev.map(note =>
+        note.id === signingNote.id
+          ? { ...note, status: 'signed', signed_at: signature.signed_at, signed_by: user?.id || null, signature_attestation: signature.signature_attestation }
+          : note
+      ));
+      void refreshPatientSummary(signingNote.patient_id);
+      onToast('Note signed successfully');
+    }
+    setIsSigning(false);
+    setSigningNote(null);
+  };
+
+  // A restored version becomes the note's current text
+  const handleVersionRestored = (noteId: string, content: string) => {
+    setNotes(prev => prev.map(note => note.id === noteId ? { ...note, generated_note: content } : note));
+    setHistoryNote(prev => prev && prev.id === noteId ? { ...prev, generated_note: content } : prev);
+  };
+
+  const getExportData = async (note: ClinicalNote): Promise<NoteExport> => ({
     patientName: note.patient?.name,
     mrn: note.patient?.mrn || undefined,
     noteType: noteTypeLabels[note.note_type] || note.note_type,
     dateGenerated: new Date(note.created_at).toLocaleString(),
     transcript: note.transcript || '',
     generatedNote: note.generated_note || '',
+    signature: note.signature_attestation || undefined,
+    addenda: note.status === 'signed' ? (await fetchAddenda(note.id)).map(formatAddendum) : undefined,
+    structuredData: note.structured_data,
   });
 
   const handleCopy = async (note: ClinicalNote) => {
-    await copyNoteToClipboard(getExportData(note));
+    await copyNoteToClipboard(await getExportData(note));
     setCopiedNoteId(note.id);
     setTimeout(() => setCopiedNoteId(null), 2000);
     onToast('Copied to clipboard');
   };
 
-  const handleExportTxt = (note: ClinicalNote) => {
-    exportNoteToText(getExportData(note));
+  const handleExportTxt = async (note: ClinicalNote) => {
+    exportNoteToText(await getExportData(note));
     onToast('Exported as TXT');
   };
 
-  const handleExportJson = (note: ClinicalNote) => {
-    exportNoteToJSON(getExportData(note));
+  const handleExportJson = async (note: ClinicalNote) => {
+    exportNoteToJSON(await getExportData(note));
     onToast('Exported as JSON');
   };
 
@@ -435,6 +527,7 @@ export default function NotesHistory({ onToast }: NotesHistoryProps) {
             <SelectItem value="hp">H&P</SelectItem>
             <SelectItem value="consult">Consult</SelectItem>
             <SelectItem value="progress">Progress</SelectItem>
+            <SelectItem value="discharge">Discharge</SelectItem>
           </SelectContent>
         </Select>
 
@@ -520,6 +613,15 @@ export default function NotesHistory({ onToast }: NotesHistoryProps) {
                         </span>
                       );
                     })()}
+                    {note.source_language !== 'en' && (
+                      <span
+                        title={note.interpreter_used ? 'Encounter conducted through a medical interpreter' : undefined}
+                        className="px-2 py-0.5 rounded-full bg-secondary/10 text-[10px] font-medium text-secondary flex items-center gap-1"
+                      >
+                        <Languages className="w-2.5 h-2.5" />
+                        Translated from {ENCOUNTER_LANGUAGES[note.source_language as EncounterLanguage]?.label || note.source_language}
+                      </span>
+                    )}
                   </div>
                   <div className="flex items-center gap-2 text-xs text-muted-foreground mt-0.5">
                     {note.patient && (
@@ -567,6 +669,13 @@ export default function NotesHistory({ onToast }: NotesHistoryProps) {
                   )}
                 </div>
 
+                {/* Signature and Addenda */}
+                {note.status === 'signed' && (
+                  <div className="p-3 border-t border-border bg-muted/20">
+                    <NoteAddenda noteId={note.id} attestation={note.signature_attestation} onToast={onToast} onAdded={() => void refreshPatientSummary(note.patient_id)} />
+                  </div>
+                )}
+
                 {/* Status Actions */}
                 <div className="p-3 border-t border-border flex items-center gap-2 bg-surface/30">
                   <span className="text-xs text-muted-foreground mr-2">Status:</span>
@@ -593,7 +702,7 @@ export default function NotesHistory({ onToast }: NotesHistoryProps) {
                         Back to Draft
                       </Button>
                       <Button
-                        onClick={() => updateNoteStatus(note.id, 'signed')}
+                        onClick={() => openSignDialog(note)}
                         size="sm"
                         className="rounded-lg h-8 px-3 bg-green-600 hover:bg-green-700 text-white"
                       >
@@ -605,13 +714,33 @@ export default function NotesHistory({ onToast }: NotesHistoryProps) {
                   {note.status === 'signed' && (
                     <span className="flex items-center gap-1.5 text-xs text-green-600 dark:text-green-400">
                       <CheckCircle2 className="w-3.5 h-3.5" />
-                      Note is signed and finalized
+                      Note is signed and locked; changes are made as addenda
                     </span>
                   )}
                 </div>
 
                 {/* Export Actions */}
                 <div className="p-3 flex items-center gap-2 bg-surface/50">
+                  {note.audio_path && (
+                    <Button
+                      onClick={() => setReviewNote(note)}
+                      variant="outline"
+                      size="sm"
+                      className="rounded-lg h-8 px-3"
+                    >
+                      <Headphones className="w-3.5 h-3.5 mr-1.5" />
+                      Listen
+                    </Button>
+                  )}
+                  <Button
+                    onClick={() => setHistoryNote(note)}
+                    variant="outline"
+                    size="sm"
+                    className="rounded-lg h-8 px-3"
+                  >
+                    <History className="w-3.5 h-3.5 mr-1.5" />
+                    History
+                  </Button>
                   <span className="text-xs text-muted-foreground mr-auto">Export:</span>
                   <Button
                     onClick={() => handleCopy(note)}
@@ -659,6 +788,92 @@ export default function NotesHistory({ onToast }: NotesHistoryProps) {
           </div>
         )}
       </div>
+
+      {/* Audio Review */}
+      <TranscriptReview
+        isOpen={!!reviewNote}
+        onClose={() => setReviewNote(null)}
+        audioPath={reviewNote?.audio_path || null}
+        segments={reviewNote?.transcript_segments || []}
+        transcript={reviewNote?.transcript || ''}
+        noteText={reviewNote?.generated_note || ''}
+        title={reviewNote ? `${noteTypeLabels[reviewNote.note_type] || reviewNote.note_type}${reviewNote.patient ? ` · ${reviewNote.patient.name}` : ''}` : undefined}
+      />
+
+      {/* Sign Confirmation */}
+      <AlertDialog open={!!signingNote} onOpenChange={(open) => !open && !isSigning && setSigningNote(null)}>
+        <AlertDialogContent className="glass-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign Note</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-3">
+                {signingFlags.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-amber-600 dark:text-amber-400">
+                      {signingFlags.length} statement{signingFlags.length > 1 ? 's are' : ' is'} not supported by the transcript.
+                      Confirm each one, or edit the note to remove it, before signing.
+                    </p>
+                    <div className="max-h-48 overflow-y-auto space-y-1.5">
+                      {signingFlags.map(flag => (
+                        <div key={flag.id} className="flex items-start gap-2 p-2 rounded-lg border border-amber-500/30 bg-amber-500/5">
+                          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 text-amber-500 flex-shrink-0" />
+                          <div className="flex-1 min-w-0">
+                            <p className="text-xs text-foreground">{flag.statement}</p>
+                            <p className="text-[11px] text-muted-foreground mt-0.5">{flag.reasons.join(' · ')}</p>
+                          </div>
+                          <Button variant="ghost" size="sm" className="text-xs h-6 px-2 flex-shrink-0" onClick={() => handleConfirmFlag(flag.id)}>
+                            <Check className="w-3 h-3 mr-1" />
+                            Confirm
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {!signerProfile ? (
+                  <p>Loading your profile...</p>
+                ) : signerProfile.name && signerProfile.npi ? (
+                  <>
+                    <p>
+                      I attest that I have personally reviewed this note and that it is accurate and complete.
+                      Electronically signed by {signerProfile.name}, NPI {signerProfile.npi}.
+                    </p>
+                    <p className="text-xs">Once signed, the note cannot be edited or deleted. Later changes are added as signed addenda.</p>
+                  </>
+                ) : (
+                  <p className="text-destructive">Add your full name and NPI in Profile Settings before signing notes.</p>
+                )}
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSigning}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleSignNote();
+              }}
+              disabled={isSigning || !signerProfile?.name || !signerProfile?.npi || signingFlags.length > 0}
+              className="bg-green-600 hover:bg-green-700 text-white"
+            >
+              <Pen className="w-4 h-4 mr-2" />
+              {isSigning ? 'Signing...' : 'Sign Note'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Version History */}
+      <NoteVersionHistory
+        isOpen={!!historyNote}
+        onClose={() => setHistoryNote(null)}
+        noteId={historyNote?.id || null}
+        currentContent={historyNote?.generated_note || ''}
+        canRestore={historyNote?.status !== 'signed'}
+        onRestored={(content) => historyNote && handleVersionRestored(historyNote.id, content)}
+        onToast={onToast}
+        title={historyNote ? `${noteTypeLabels[historyNote.note_type] || historyNote.note_type}${historyNote.patient ? ` · ${historyNote.patient.name}` : ''}` : undefined}
+      />
     </div>
   );
 }
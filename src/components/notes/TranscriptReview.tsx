@@ -0,0 +1,249 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Headphones, Loader2, Play } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getEncounterAudioUrl } from '@/services/encounterAudio';
+import { findSupportingSegment, getWordTimings } from '@/lib/transcriptTiming';
+import { splitSentences } from '@/lib/noteVerification';
+import type { SpeakerSegment } from '@/types/medical';
+
+interface TranscriptReviewProps {
+  isOpen: boolean;
+  onClose: () => void;
+  audioPath: string | null;
+  segments: SpeakerSegment[];
+  transcript: string;
+  noteText: string;
+  title?: string;
+}
+
+type ReviewTab = 'transcript' | 'note';
+
+interface PlaybackRange {
+  startMs: number;
+  endMs: number;
+}
+
+const formatTimestamp = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Listen back to an encounter while reviewing its note.
+ * Clicking a transcript word plays from that word to the end of its utterance;
+ * clicking a note sentence plays the utterance it was most likely drawn from.
+ */
+export default function TranscriptReview({
+  isOpen,
+  onClose,
+  audioPath,
+  segments,
+  transcript,
+  noteText,
+  title,
+}: TranscriptReviewProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const stopAtRef = useRef<number | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [isLoadingAudio, setIsLoadingAudio] = useState(false);
+  const [currentMs, setCurrentMs] = useState(0);
+  const [playing, setPlaying] = useState<PlaybackRange | null>(null);
+  const [tab, setTab] = useState<ReviewTab>('transcript');
+
+  useEffect(() => {
+    if (!isOpen || !audioPath) return;
+
+    let cancelled = false;
+    setIsLoadingAudio(true);
+    getEncounterAudioUrl(audioPath).then(url => {
+      if (cancelled) return;
+      setAudioUrl(url);
+      setIsLoadingAudio(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, audioPath]);
+
+  const timedSegments = useMemo(
+    () => segments.map(segment => ({ segment, words: getWordTimings(segment) })),
+    [segments]
+  );
+
+  const noteSentences = useMemo(
+    () => splitSentences(noteText).map(sentence => ({ sentence, source: findSupportingSegment(sentence, segments) })),
+    [noteText, segments]
+  );
+
+  const playRange = (range: PlaybackRange) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    stopAtRef.current = range.endMs;
+    audio.currentTime = range.startMs / 1000;
+    setPlaying(range);
+    audio.play().catch(e => console.warn('Audio playback failed:', e));
+  };
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const ms = audio.currentTime * 1000;
+    setCurrentMs(ms);
+    if (stopAtRef.current !== null && ms >= stopAtRef.current) {
+      stopAtRef.current = null;
+      audio.pause();
+      setPlaying(null);
+    }
+  };
+
+  const handleClose = () => {
+    audioRef.current?.pause();
+    setPlaying(null);
+    onClose();
+  };
+
+  const isPlayingWord = (startMs: number, endMs: number) =>
+    playing !== null && currentMs >= startMs && currentMs < endMs;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 md:flex md:items-center md:justify-center md:p-4">
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={handleClose}
+            className="absolute inset-0 bg-black/50"
+          />
+
+          {/* Modal - Bottom sheet on mobile, centered on desktop */}
+          <motion.div
+            initial={{ y: '100%', opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            exit={{ y: '100%', opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="fixed md:relative bottom-20 left-4 right-4 md:bottom-auto md:left-auto md:right-auto z-50 glass-card rounded-2xl p-5 md:max-w-2xl md:w-full max-h-[80vh] flex flex-col"
+          >
+            {/* Handle - mobile only */}
+            <div className="flex justify-center -mt-2 mb-3 md:hidden">
+              <div className="w-10 h-1 rounded-full bg-border" />
+            </div>
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+                  <Headphones className="w-5 h-5 text-primary" />
+                </div>
+                <div>
+                  <h3 className="font-semibold text-foreground">Review Recording</h3>
+                  <p className="text-xs text-muted-foreground">
+                    {title || 'Click any word or sentence to hear it'}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={handleClose}
+                className="p-2 rounded-lg hover:bg-muted transition-colors"
+              >
+                <X className="w-5 h-5 text-muted-foreground" />
+              </button>
+            </div>
+
+            {/* Player */}
+            {isLoadingAudio ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground mb-4">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading audio...
+              </div>
+            ) : audioUrl ? (
+              <audio
+                ref={audioRef}
+                src={audioUrl}
+                controls
+                onTimeUpdate={handleTimeUpdate}
+                onPause={() => setPlaying(null)}
+                className="w-full mb-4"
+              />
+            ) : (
+              <p className="text-sm text-destructive mb-4">Audio for this note is unavailable</p>
+            )}
+
+            {/* Tabs */}
+            <div className="flex gap-2 mb-3">
+              {(['transcript', 'note'] as ReviewTab[]).map(id => (
+                <button
+                  key={id}
+                  onClick={() => setTab(id)}
+                  className={cn(
+                    'px-3 py-1.5 rounded-lg text-sm font-medium capitalize transition-colors',
+                    tab === id ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground hover:bg-muted/80'
+                  )}
+                >
+                  {id}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+              {tab === 'transcript' && (
+                timedSegments.length > 0 ? (
+                  timedSegments.map(({ segment, words }) => (
+                    <div key={segment.id} className="text-sm">
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+                        <span className="font-medium capitalize">{segment.speaker}</span>
+                        <span>{formatTimestamp(segment.startMs)}</span>
+                      </div>
+                      <p className="leading-relaxed text-foreground">
+                        {words.map((word, i) => (
+                          <span
+                            key={i}
+                            onClick={() => playRange({ startMs: word.startMs, endMs: segment.endMs })}
+                            className={cn(
+                              'cursor-pointer rounded px-0.5 hover:bg-primary/10',
+                              isPlayingWord(word.startMs, word.endMs) && 'bg-primary/20 text-primary'
+                            )}
+                          >
+                            {word.text}{' '}
+                          </span>
+                        ))}
+                      </p>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                    {transcript || 'No transcript saved'}
+                  </p>
+                )
+              )}
+
+              {tab === 'note' && noteSentences.map(({ sentence, source }, i) => (
+                source ? (
+                  <button
+                    key={i}
+                    onClick={() => playRange({ startMs: source.startMs, endMs: source.endMs })}
+                    className={cn(
+                      'w-full text-left text-sm p-2 rounded-lg flex gap-2 hover:bg-primary/10 transition-colors',
+                      playing?.startMs === source.startMs && playing?.endMs === source.endMs && 'bg-primary/10'
+                    )}
+                  >
+                    <Play className="w-3.5 h-3.5 mt-0.5 text-primary flex-shrink-0" />
+                    <span className="text-foreground">{sentence}</span>
+                  </button>
+                ) : (
+                  <p key={i} className="text-sm p-2 pl-7 text-muted-foreground">{sentence}</p>
+                )
+              ))}
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -29,6 +29,7 @@ interface DischargePatientModalProps {
 export interface DischargeData {
   patientId: string;
   dischargeReason: string;
+  dischargeReasonLabel: string; // Reason and disposition as the provider chose them
   dischargeCptCode: '99238' | '99239';
   dischargeNotes: string;
   generateSummary: boolean;
@@ -82,6 +83,7 @@ export default function DischargePatientModal({
       await onDischarge({
         patientId: patient.id,
         dischargeReason: reason,
+        dischargeReasonLabel: DISCHARGE_REASONS.find(r => r.id === reason)?.label || reason,
         dischargeCptCode: cptCode,
         dischargeNotes: notes,
         generateSummary,
@@ -24,7 +24,7 @@ interface PriorNotesPanelProps {
 }
 
 const NOTE_LABELS: Record<string, string> = {
-  hp: 'H&P', consult: 'Consult', progress: 'Progress', xray: 'X-Ray', 
+  hp: 'H&P', consult: 'Consult', progress: 'Progress', discharge: 'Discharge Summary', xray: 'X-Ray', 
   ct: 'CT', mri: 'MRI', ultrasound: 'Ultrasound', mammography: 'Mammography', fluoroscopy: 'Fluoroscopy'
 };
 
@@ -109,6 +109,7 @@ export function PriorNotesPanel({ patientId, className, maxNotes = 3, defaultExp
 
 // ==================== PatientSummaryCard ====================
 interface PatientSummaryData {
+  summary: string | null;
   key_diagnoses: Array<{ code: string; description: string }> | null;
   active_medications: Array<{ name: string; dose?: string }> | null;
   last_notes_summary: string | null;
@@ -130,7 +131,7 @@ export function PatientSummaryCard({ patientId, patientName, className }: Patien
     setIsLoading(true);
     const { data } = await supabase
       .from('patient_summaries')
-      .select('key_diagnoses, active_medications, last_notes_summary, note_count')
+      .select('summary, key_diagnoses, active_medications, last_notes_summary, note_count')
       .eq('patient_id', patientId)
       .maybeSingle();
     setSummary(data as PatientSummaryData);
@@ -155,11 +156,13 @@ export function PatientSummaryCard({ patientId, patientName, className }: Patien
         <button onClick={fetchSummary} className="p-1.5 rounded-lg hover:bg-muted"><RefreshCw className="w-4 h-4 text-muted-foreground" /></button>
       </div>
 
+      {summary?.summary && <p className="text-sm text-foreground/90 leading-relaxed">{summary.summary}</p>}
+
       {summary?.key_diagnoses && summary.key_diagnoses.length > 0 && (
         <div>
           <div className="flex items-center gap-1.5 mb-2"><Activity className="w-3.5 h-3.5 text-primary" /><span className="text-xs font-medium">Diagnoses</span></div>
           <div className="flex flex-wrap gap-1.5">
-            {summary.key_diagnoses.slice(0, 5).map((dx, i) => <span key={i} className="px-2 py-1 rounded-lg bg-primary/10 text-primary text-xs">{dx.code}</span>)}
+            {summary.key_diagnoses.slice(0, 5).map((dx, i) => <span key={i} title={dx.description} className="px-2 py-1 rounded-lg bg-primary/10 text-primary text-xs">{dx.code}</span>)}
           </div>
         </div>
       )}
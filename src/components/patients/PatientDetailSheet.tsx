@@ -3,7 +3,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import {
   X, Mic, User, Calendar, Hash, MapPin, Stethoscope, AlertTriangle,
   FileText, Clock, ChevronDown, ChevronUp, Copy, FileDown, Download, Check,
-  DollarSign, TrendingUp, Pencil, Save, XCircle, Trash2, Building2, LogOut
+  DollarSign, TrendingUp, Pencil, Save, XCircle, Trash2, Building2, LogOut, Lock
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
@@ -21,6 +21,12 @@ import { supabase } from '@/integrations/supabase/client';
 import { cn } from '@/lib/utils';
 import { Patient, PatientStatus } from './PatientCard';
 import { exportNoteToText, exportNoteToJSON, copyNoteToClipboard, NoteExport } from '@/lib/exportNotes';
+import { fetchAddenda, formatAddendum } from '@/services/noteSigning';
+import NoteAddenda from '@/components/notes/NoteAddenda';
+import { refreshPatientSummary } from '@/services/patientSummary';
+import { extractNoteFields } from '@/components/elyn/index';
+import type { Json } from '@/integrations/supabase/types';
+import type { StructuredClinicalData } from '@/types/medical';
 
 interface ClinicalNote {
   id: string;
@@ -28,6 +34,9 @@ interface ClinicalNote {
   transcript: string | null;
   generated_note: string | null;
   created_at: string;
+  status: string;
+  signature_attestation: string | null;
+  structured_data: Json | null;
 }
 
 interface BillingRecord {
@@ -55,6 +64,7 @@ const noteTypeLabels: Record<string, string> = {
   hp: 'H&P',
   consult: 'Consult',
   progress: 'Progress',
+  discharge: 'Discharge Summary',
   xray: 'X-Ray',
   ct: 'CT',
   mri: 'MRI',
@@ -149,29 +159,32 @@ export default function PatientDetailSheet({
     return date.toLocaleDateString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
   };
 
-  const getExportData = (note: ClinicalNote): NoteExport => ({
+  const getExportData = async (note: ClinicalNote): Promise<NoteExport> => ({
     patientName: patient.name,
     mrn: patient.mrn || undefined,
     noteType: noteTypeLabels[note.note_type] || note.note_type,
     dateGenerated: new Date(note.created_at).toLocaleString(),
     transcript: note.transcript || '',
     generatedNote: note.generated_note || '',
+    signature: note.signature_attestation || undefined,
+    addenda: note.status === 'signed' ? (await fetchAddenda(note.id)).map(formatAddendum) : undefined,
+    structuredData: note.structured_data as unknown as StructuredClinicalData | null,
   });
 
   const handleCopy = async (note: ClinicalNote) => {
-    await copyNoteToClipboard(getExportData(note));
+    await copyNoteToClipboard(await getExportData(note));
     setCopiedNoteId(note.id);
     setTimeout(() => setCopiedNoteId(null), 2000);
     onToast('Copied to clipboard');
   };
 
-  const handleExportTxt = (note: ClinicalNote) => {
-    exportNoteToText(getExportData(note));
+  const handleExportTxt = async (note: ClinicalNote) => {
+    exportNoteToText(await getExportData(note));
     onToast('Exported as TXT');
   };
 
-  const handleExportJson = (note: ClinicalNote) => {
-    exportNoteToJSON(getExportData(note));
+  const handleExportJson = async (note: ClinicalNote) => {
+    exportNoteToJSON(await getExportData(note));
     onToast('Exported as JSON');
   };
 
@@ -193,7 +206,7 @@ export default function PatientDetailSheet({
     try {
       const { error } = await supabase
         .from('clinical_notes')
-        .update({ generated_note: editedNoteContent, updated_at: new Date().toISOString() })
+        .update({ generated_note: editedNoteContent, ...extractNoteFields(editedNoteContent), edit_source: 'manual_edit', updated_at: new Date().toISOString() })
         .eq('id', noteId);
 
       if (error) throw error;
@@ -205,6 +218,7 @@ export default function PatientDetailSheet({
       
       setEditingNoteId(null);
       setEditedNoteContent('');
+      void refreshPatientSummary(patient.id);
       onToast('Note updated successfully');
     } catch (e) {
       console.error('Error saving note:', e);
@@ -237,6 +251,7 @@ export default function PatientDetailSheet({
       setBillingRecords(prev => prev.filter(b => b.note_id !== deleteNoteId));
       
       setDeleteNoteId(null);
+      void refreshPatientSummary(patient.id);
       onToast('Note deleted successfully');
     } catch (e) {
       console.error('Error deleting note:', e);
@@ -614,8 +629,11 @@ export default function PatientDetailSheet({
                               )} />
                             </div>
                             <div className="min-w-0">
-                              <span className="font-medium text-foreground text-sm">
+                              <span className="font-medium text-foreground text-sm flex items-center gap-1.5">
                                 {noteTypeLabels[note.note_type]}
+                                {note.status === 'signed' && (
+                                  <Lock className="w-3 h-3 text-green-500" aria-label="Signed" />
+                                )}
                               </span>
                               <div className="flex items-center gap-1 text-xs text-muted-foreground">
                                 <Clock className="w-3 h-3" />
@@ -651,6 +669,11 @@ export default function PatientDetailSheet({
                                 </p>
                               )}
                             </div>
+                            {note.status === 'signed' && (
+                              <div className="p-3 border-t border-border bg-muted/20">
+                                <NoteAddenda noteId={note.id} attestation={note.signature_attestation} onToast={onToast} onAdded={() => void refreshPatientSummary(patient.id)} />
+                              </div>
+                            )}
                             <div className="p-2 flex items-center gap-2 bg-surface/50">
                               {editingNoteId === note.id ? (
                                 <>
@@ -680,16 +703,20 @@ export default function PatientDetailSheet({
                                 </>
                               ) : (
                                 <>
-                                  <Button
-                                    onClick={() => handleStartEdit(note)}
-                                    variant="outline"
-                                    size="sm"
-                                    className="rounded-lg h-7 px-2 text-xs"
-                                  >
-                                    <Pencil className="w-3 h-3 mr-1" />
-                                    Edit
-                                  </Button>
-                                  <span className="text-xs text-muted-foreground mx-1">|</span>
+                                  {note.status !== 'signed' && (
+                                    <>
+                                      <Button
+                                        onClick={() => handleStartEdit(note)}
+                                        variant="outline"
+                                        size="sm"
+                                        className="rounded-lg h-7 px-2 text-xs"
+                                      >
+                                        <Pencil className="w-3 h-3 mr-1" />
+                                        Edit
+                                      </Button>
+                                      <span className="text-xs text-muted-foreground mx-1">|</span>
+                                    </>
+                                  )}
                                   <Button
                                     onClick={() => handleCopy(note)}
                                     variant="outline"
@@ -712,16 +739,20 @@ export default function PatientDetailSheet({
                                     <FileDown className="w-3 h-3 mr-1" />
                                     TXT
                                   </Button>
-                                  <span className="text-xs text-muted-foreground mx-1">|</span>
-                                  <Button
-                                    onClick={() => setDeleteNoteId(note.id)}
-                                    variant="outline"
-                                    size="sm"
-                                    className="rounded-lg h-7 px-2 text-xs text-destructive hover:bg-destructive/10 hover:text-destructive border-destructive/20"
-                                  >
-                                    <Trash2 className="w-3 h-3 mr-1" />
-                                    Delete
-                                  </Button>
+                                  {note.status !== 'signed' && (
+                                    <>
+                                      <span className="text-xs text-muted-foreground mx-1">|</span>
+                                      <Button
+                                        onClick={() => setDeleteNoteId(note.id)}
+                                        variant="outline"
+                                        size="sm"
+                                        className="rounded-lg h-7 px-2 text-xs text-destructive hover:bg-destructive/10 hover:text-destructive border-destructive/20"
+                                      >
+                                        <Trash2 className="w-3 h-3 mr-1" />
+                                        Delete
+                                      </Button>
+                                    </>
+                                  )}
                                 </>
                               )}
                             </div>
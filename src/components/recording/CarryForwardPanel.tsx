@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { History, Loader2, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { extractAssessmentPlan } from '@/components/elyn/index';
+import type { CarryForwardBaseline } from '@/types/medical';
+
+interface CarryForwardPanelProps {
+  patientId: string;
+  baseline: CarryForwardBaseline | null;
+  onBaselineChange: (baseline: CarryForwardBaseline | null) => void;
+}
+
+const NOTE_LABELS: Record<string, string> = { hp: 'H&P', consult: 'Consult', progress: 'Progress' };
+
+/**
+ * Carry-forward mode for progress notes: loads the Assessment/Plan of the
+ * patient's last signed note as an editable baseline that today's dictated
+ * interval history is merged into.
+ */
+export default function CarryForwardPanel({ patientId, baseline, onBaselineChange }: CarryForwardPanelProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadBaseline = async () => {
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      const { data, error } = await supabase
+        .from('clinical_notes')
+        .select('id, note_type, generated_note, signed_at')
+        .eq('patient_id', patientId)
+        .eq('status', 'signed')
+        .in('note_type', ['hp', 'consult', 'progress'])
+        .order('signed_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const assessmentPlan = data?.generated_note ? extractAssessmentPlan(data.generated_note) : '';
+      if (!data?.signed_at) {
+        setMessage('No signed note for this patient yet');
+      } else if (!assessmentPlan) {
+        setMessage('The last signed note has no Assessment or Plan to carry forward');
+      } else {
+        onBaselineChange({ noteId: data.id, noteType: data.note_type, signedAt: data.signed_at, assessmentPlan });
+      }
+    } catch (e) {
+      console.error('Error loading carry-forward note:', e);
+      setMessage('Failed to load the last signed note');
+    }
+    setIsLoading(false);
+  };
+
+  if (!baseline) {
+    return (
+      <div>
+        <button
+          onClick={loadBaseline}
+          disabled={isLoading}
+          className="w-full p-3 rounded-xl border border-dashed border-primary/40 text-sm text-primary flex items-center justify-center gap-2 hover:bg-primary/5 transition-colors disabled:opacity-60"
+        >
+          {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <History className="w-4 h-4" />}
+          Carry forward from last signed note
+        </button>
+        {message && <p className="mt-1.5 text-xs text-muted-foreground text-center">{message}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-xl border border-primary/30 bg-primary/5 p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <History className="w-4 h-4 text-primary flex-shrink-0" />
+          <span className="text-sm font-medium truncate">
+            Carrying forward {NOTE_LABELS[baseline.noteType] || baseline.noteType} signed {format(new Date(baseline.signedAt), 'MMM d')}
+          </span>
+        </div>
+        <button
+          onClick={() => onBaselineChange(null)}
+          className="p-1 rounded-lg hover:bg-muted transition-colors"
+          aria-label="Stop carrying forward"
+        >
+          <X className="w-3.5 h-3.5 text-muted-foreground" />
+        </button>
+      </div>
+      <textarea
+        value={baseline.assessmentPlan}
+        onChange={(e) => onBaselineChange({ ...baseline, assessmentPlan: e.target.value })}
+        className="w-full min-h-[120px] max-h-[240px] p-3 rounded-lg bg-card border border-border text-sm text-foreground resize-y focus:outline-none focus:border-primary focus:ring-2 focus:ring-primary/20"
+      />
+      <p className="text-xs text-muted-foreground">
+        Edit the baseline, then dictate today's interval history. Changes since the last note are marked in the new Assessment and Plan.
+      </p>
+    </div>
+  );
+}
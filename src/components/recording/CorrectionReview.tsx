@@ -0,0 +1,131 @@
+import { Check, RotateCcw, Undo2, BookOpen, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  setAllCorrectionStatuses,
+  setCorrectionStatus,
+  CorrectionStatus,
+  TranscriptCorrection,
+} from '@/lib/correctionProvenance';
+
+interface CorrectionReviewProps {
+  transcript: string;
+  corrections: TranscriptCorrection[];
+  onChange: (transcript: string, corrections: TranscriptCorrection[]) => void;
+}
+
+const SOURCE_STYLES: Record<TranscriptCorrection['source'], string> = {
+  dictionary: 'bg-primary/15 border-primary/30',
+  ai: 'bg-violet-500/15 border-violet-500/30',
+};
+
+const SOURCE_LABELS: Record<TranscriptCorrection['source'], string> = {
+  dictionary: 'Dictionary',
+  ai: 'AI',
+};
+
+/**
+ * The transcript with every medical-term substitution marked inline.
+ * Each one can be accepted or rejected (restoring the words as heard),
+ * or all of them at once.
+ */
+export default function CorrectionReview({ transcript, corrections, onChange }: CorrectionReviewProps) {
+  const pendingCount = corrections.filter(c => c.status === 'pending').length;
+
+  const update = (id: string, status: CorrectionStatus) => {
+    const result = setCorrectionStatus(transcript, corrections, id, status);
+    onChange(result.text, result.corrections);
+  };
+
+  const updateAll = (status: CorrectionStatus) => {
+    const result = setAllCorrectionStatuses(transcript, corrections, status);
+    onChange(result.text, result.corrections);
+  };
+
+  // Split the transcript around the corrections that can still be found where they were made
+  const shown = (c: TranscriptCorrection) => c.status === 'rejected' ? c.original : c.corrected;
+  const placed = [...corrections]
+    .sort((a, b) => a.at - b.at)
+    .filter(c => transcript.slice(c.at, c.at + shown(c).length) === shown(c));
+
+  const parts: Array<string | TranscriptCorrection> = [];
+  let cursor = 0;
+  for (const correction of placed) {
+    if (correction.at < cursor) continue;
+    parts.push(transcript.slice(cursor, correction.at), correction);
+    cursor = correction.at + shown(correction).length;
+  }
+  parts.push(transcript.slice(cursor));
+
+  return (
+    <div className="rounded-xl border border-border bg-card">
+      <div className="flex items-center gap-2 p-2 border-b border-border">
+        <p className="flex-1 text-xs text-muted-foreground">
+          {corrections.length} correction{corrections.length === 1 ? '' : 's'}
+          {pendingCount > 0 && ` · ${pendingCount} to review`}
+        </p>
+        <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => updateAll('accepted')}>
+          <Check className="w-3.5 h-3.5 mr-1" />
+          Accept all
+        </Button>
+        <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => updateAll('rejected')}>
+          <Undo2 className="w-3.5 h-3.5 mr-1" />
+          Revert all
+        </Button>
+      </div>
+
+      <div className="p-3 max-h-[200px] overflow-y-auto text-sm leading-7 text-foreground whitespace-pre-wrap">
+        {parts.map((part, i) => typeof part === 'string' ? (
+          <span key={i}>{part}</span>
+        ) : (
+          <span
+            key={part.id}
+            title={`${SOURCE_LABELS[part.source]}: "${part.original}" → "${part.corrected}"`}
+            className={cn(
+              'inline-flex items-center gap-1 px-1 rounded border align-baseline',
+              part.status === 'rejected' ? 'border-dashed border-border bg-muted/50' : SOURCE_STYLES[part.source],
+              part.status === 'accepted' && 'bg-transparent'
+            )}
+          >
+            {part.status === 'pending' && (
+              <span className="line-through text-muted-foreground text-xs">{part.original}</span>
+            )}
+            <span>{shown(part)}</span>
+            {part.source === 'dictionary' ? (
+              <BookOpen className="w-3 h-3 text-primary" />
+            ) : (
+              <Sparkles className="w-3 h-3 text-violet-500" />
+            )}
+            {part.status === 'pending' && (
+              <>
+                <button
+                  onClick={() => update(part.id, 'accepted')}
+                  className="p-0.5 rounded hover:bg-muted"
+                  aria-label={`Accept ${part.corrected}`}
+                >
+                  <Check className="w-3 h-3 text-success" />
+                </button>
+                <button
+                  onClick={() => update(part.id, 'rejected')}
+                  className="p-0.5 rounded hover:bg-muted"
+                  aria-label={`Reject ${part.corrected}`}
+                >
+                  <Undo2 className="w-3 h-3 text-destructive" />
+                </button>
+              </>
+            )}
+            {part.status === 'rejected' && (
+              <button
+                onClick={() => update(part.id, 'accepted')}
+                className="p-0.5 rounded hover:bg-muted"
+                aria-label={`Apply ${part.corrected}`}
+              >
+                <RotateCcw className="w-3 h-3 text-muted-foreground" />
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
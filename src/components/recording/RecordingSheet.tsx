@@ -1,15 +1,22 @@
 import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Mic, MicOff, Sparkles, Copy, Check, ChevronUp, ChevronDown, Radio, Zap, Stethoscope, Scan, User, AlertCircle, FileText } from 'lucide-react';
+import { X, Mic, MicOff, Sparkles, Copy, Check, ChevronUp, ChevronDown, Radio, Zap, Stethoscope, Scan, User, AlertCircle, FileText, BookPlus, Languages } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Waveform } from '@/components/elyn/index';
+import { Waveform, NoteSection, parseNoteSections } from '@/components/elyn/index';
 import { cn } from '@/lib/utils';
-import useRealtimeTranscription from '@/hooks/useRealtimeTranscription';
+import useTranscription from '@/hooks/useTranscription';
+import useDictionaryLearning from '@/hooks/useDictionaryLearning';
+import useSmartPhraseExpansion from '@/hooks/useSmartPhraseExpansion';
 import { supabase } from '@/integrations/supabase/client';
 import { ModalitySelector } from '@/components/elyn/RadiologyContext';
 import { PriorNotesPanel, PatientSummaryCard } from '@/components/patients/PatientContext';
 import { Patient } from '@/components/patients/PatientCard';
-import type { DocumentMode, RadiologyModality, RadiologyContext } from '@/types/medical';
+import SpeakerTranscript from './SpeakerTranscript';
+import CorrectionReview from './CorrectionReview';
+import CarryForwardPanel from './CarryForwardPanel';
+import { detectCorrections, TranscriptCorrection } from '@/lib/correctionProvenance';
+import { ENCOUNTER_LANGUAGES, EncounterLanguage, EncounterLanguagePreference } from '@/services/transcription';
+import type { CarryForwardBaseline, DocumentMode, PatientContext, RadiologyModality, RadiologyContext, SpeakerRole, SpeakerSegment } from '@/types/medical';
 
 interface RecordingSheetProps {
   isOpen: boolean;
@@ -18,13 +25,20 @@ interface RecordingSheetProps {
   onToggleRecording: () => void;
   transcript: string;
   onTranscriptChange: (text: string) => void;
+  rawTranscript?: string;
+  onRawTranscriptChange?: (text: string) => void;
+  corrections?: TranscriptCorrection[];
+  onCorrectionsChange?: (corrections: TranscriptCorrection[]) => void;
   interimText?: string;
   noteType: string;
   onNoteTypeChange: (type: string) => void;
   onGenerate: () => void;
   isGenerating: boolean;
+  streamingNote?: string; // The note so far while it is being generated
+  onCancelGenerate?: () => void;
   patientName?: string;
   patientId?: string | null;
+  patientContext?: PatientContext | null; // Fills smart-phrase variables
   patients?: Patient[];
   onPatientSelect?: (patient: Patient | null) => void;
   isSupported: boolean;
@@ -34,6 +48,15 @@ interface RecordingSheetProps {
   onRadiologyModalityChange: (modality: RadiologyModality) => void;
   radiologyContext: RadiologyContext;
   onRadiologyContextChange: (context: RadiologyContext) => void;
+  speakerSegments?: SpeakerSegment[];
+  onSpeakerSegmentsChange?: (segments: SpeakerSegment[]) => void;
+  onAudioChange?: (audio: Blob | null) => void;
+  language?: EncounterLanguagePreference;
+  onLanguageChange?: (language: EncounterLanguagePreference) => void;
+  interpreterUsed?: boolean;
+  onInterpreterUsedChange?: (used: boolean) => void;
+  carryForward?: CarryForwardBaseline | null; // Baseline Assessment/Plan for a progress note
+  onCarryForwardChange?: (baseline: CarryForwardBaseline | null) => void;
 }
 
 const noteTypes = [
@@ -51,13 +74,20 @@ export default function RecordingSheet({
   onToggleRecording,
   transcript,
   onTranscriptChange,
+  rawTranscript = '',
+  onRawTranscriptChange,
+  corrections = [],
+  onCorrectionsChange,
   interimText,
   noteType,
   onNoteTypeChange,
   onGenerate,
   isGenerating,
+  streamingNote = '',
+  onCancelGenerate,
   patientName,
   patientId,
+  patientContext = null,
   patients = [],
   onPatientSelect,
   isSupported,
@@ -67,6 +97,15 @@ export default function RecordingSheet({
   onRadiologyModalityChange,
   radiologyContext,
   onRadiologyContextChange,
+  speakerSegments = [],
+  onSpeakerSegmentsChange,
+  onAudioChange,
+  language = 'en',
+  onLanguageChange,
+  interpreterUsed = false,
+  onInterpreterUsedChange,
+  carryForward = null,
+  onCarryForwardChange,
 }: RecordingSheetProps) {
   const [isExpanded, setIsExpanded] = useState(true);
   const [copied, setCopied] = useState(false);
@@ -75,10 +114,17 @@ export default function RecordingSheet({
   const [showPatientSelector, setShowPatientSelector] = useState(false);
   const [patientSearch, setPatientSearch] = useState('');
   const [rawCopied, setRawCopied] = useState(false);
+  const [showCorrections, setShowCorrections] = useState(false);
   
-  const realtime = useRealtimeTranscription();
+  const ambient = useTranscription({ mode: 'ambient', patientId, language, patientContext });
+  const learning = useDictionaryLearning();
+  const smartPhrases = useSmartPhraseExpansion(patientContext);
+  const learnedSuggestion = learning.suggestions[0];
   const [ambientDuration, setAmbientDuration] = useState(0);
   const durationTimerRef = useRef<number | null>(null);
+  // Read at correction time; the auto-correct effect only re-runs when recording stops
+  const patientContextRef = useRef(patientContext);
+  patientContextRef.current = patientContext;
 
   // Filter patients based on search
   const filteredPatientList = patients.filter(p =>
@@ -105,7 +151,7 @@ export default function RecordingSheet({
     if (!text.trim()) return text;
     try {
       const { data, error } = await supabase.functions.invoke('correct-medical-terms', {
-        body: { transcript: text },
+        body: { transcript: text, patientInfo: patientContextRef.current },
       });
       if (error) {
         console.error('Medical term correction error:', error);
@@ -127,7 +173,7 @@ export default function RecordingSheet({
 
   // Duration timer for ambient mode
   useEffect(() => {
-    if (realtime.isRecording) {
+    if (ambient.isRecording) {
       setAmbientDuration(0);
       durationTimerRef.current = window.setInterval(() => {
         setAmbientDuration(prev => prev + 1);
@@ -143,40 +189,59 @@ export default function RecordingSheet({
         clearInterval(durationTimerRef.current);
       }
     };
-  }, [realtime.isRecording]);
+  }, [ambient.isRecording]);
+
+  // Auto-correct when quick recording stops; the ref gives the effect this render's transcript and callbacks
+  const correctQuickRecordingRef = useRef<() => void>();
+  correctQuickRecordingRef.current = () => {
+    if (!transcript || recordingMode !== 'quick') return;
+    setIsCorrecting(true);
+    correctMedicalTerms(transcript).then(corrected => {
+      if (corrected !== transcript) {
+        onTranscriptChange(corrected);
+      }
+      const raw = rawTranscript || transcript;
+      onRawTranscriptChange?.(raw);
+      onCorrectionsChange?.(detectCorrections(raw, corrected));
+      learning.setBaseline(corrected);
+      setIsCorrecting(false);
+    }).catch(() => setIsCorrecting(false));
+  };
 
-  // Auto-correct when quick recording stops
   useEffect(() => {
-    if (!isRecording && transcript && recordingMode === 'quick') {
-      setIsCorrecting(true);
-      correctMedicalTerms(transcript).then(corrected => {
-        if (corrected !== transcript) {
-          onTranscriptChange(corrected);
-        }
-        setIsCorrecting(false);
-      }).catch(() => setIsCorrecting(false));
-    }
+    if (!isRecording) correctQuickRecordingRef.current?.();
   }, [isRecording]);
 
+  // Relabel every utterance from the same voice
+  const handleSpeakerChange = (speakerId: string, speaker: SpeakerRole) => {
+    onSpeakerSegmentsChange?.(
+      speakerSegments.map(segment => segment.speakerId === speakerId ? { ...segment, speaker } : segment)
+    );
+  };
+
   const handleAmbientToggle = async () => {
-    if (realtime.isRecording) {
-      // Save live transcript BEFORE stopping
-      const savedLiveTranscript = realtime.liveTranscript;
-      console.log('[Recording] Stopping realtime, saved live transcript length:', savedLiveTranscript?.length || 0);
-      
-      realtime.disconnect();
+    if (ambient.isRecording) {
+      // Batch providers finish transcribing on stop, so show progress from here
+      setIsCorrecting(true);
+      const result = await ambient.stop();
+      console.log('[Recording] Stopped ambient recording, transcript length:', result.transcript.length);
+      onSpeakerSegmentsChange?.(result.speakerSegments);
+      onAudioChange?.(result.audio ?? null);
       
       // Apply medical term correction to the transcript
-      if (savedLiveTranscript) {
-        setIsCorrecting(true);
-        const corrected = await correctMedicalTerms(savedLiveTranscript);
+      if (result.transcript) {
+        const corrected = await correctMedicalTerms(smartPhrases.expandSpoken(result.transcript));
+        const raw = smartPhrases.expandSpoken(result.rawTranscript ?? result.transcript);
         onTranscriptChange(corrected);
-        setIsCorrecting(false);
+        onRawTranscriptChange?.(raw);
+        onCorrectionsChange?.(detectCorrections(raw, corrected));
+        learning.setBaseline(corrected);
       } else {
-        console.warn('[Recording] No live transcript available after stop');
+        console.warn('[Recording] No transcript available after stop');
       }
+      setIsCorrecting(false);
     } else {
-      await realtime.connect();
+      await ambient.start();
     }
   };
 
@@ -188,7 +253,7 @@ export default function RecordingSheet({
     }
   };
 
-  const isCurrentlyRecording = recordingMode === 'ambient' ? realtime.isRecording : isRecording;
+  const isCurrentlyRecording = recordingMode === 'ambient' ? ambient.isRecording : isRecording;
 
   const getModalityLabel = (modality: RadiologyModality): string => {
     const labels: Record<RadiologyModality, string> = {
@@ -467,28 +532,76 @@ export default function RecordingSheet({
                       </p>
                     </div>
 
+                    {/* Encounter Language (clinical only) */}
+                    {documentMode === 'clinical' && onLanguageChange && (
+                      <div className="px-4 pb-2">
+                        <div className="flex items-center gap-2 px-3 py-2 rounded-xl bg-muted/50">
+                          <Languages className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                          <select
+                            value={language}
+                            onChange={(e) => onLanguageChange(e.target.value as EncounterLanguagePreference)}
+                            disabled={isCurrentlyRecording}
+                            className="flex-1 min-w-0 text-sm bg-transparent text-foreground focus:outline-none cursor-pointer disabled:cursor-not-allowed"
+                            aria-label="Encounter language"
+                          >
+                            <option value="auto">Detect language</option>
+                            {(Object.keys(ENCOUNTER_LANGUAGES) as EncounterLanguage[]).map((code) => (
+                              <option key={code} value={code}>{ENCOUNTER_LANGUAGES[code].label}</option>
+                            ))}
+                          </select>
+                          {language !== 'en' && onInterpreterUsedChange && (
+                            <button
+                              onClick={() => onInterpreterUsedChange(!interpreterUsed)}
+                              className={cn(
+                                'px-2 py-1 rounded-lg text-xs font-medium transition-colors flex-shrink-0',
+                                interpreterUsed
+                                  ? 'bg-primary text-primary-foreground'
+                                  : 'bg-card text-muted-foreground hover:text-foreground'
+                              )}
+                            >
+                              Interpreter
+                            </button>
+                          )}
+                        </div>
+                        {language !== 'en' && (
+                          <p className="text-xs text-muted-foreground text-center mt-2">
+                            Transcribed in the language spoken; the note is written in English
+                          </p>
+                        )}
+                      </div>
+                    )}
+
                     {/* Waveform */}
                     <div className="p-4 pt-2">
                       <div className={cn(
                         "rounded-xl p-4 transition-colors",
                         isCurrentlyRecording ? "bg-destructive/5 border border-destructive/20" : "bg-muted/50"
                       )}>
-                        <Waveform active={isCurrentlyRecording} />
-                        {recordingMode === 'ambient' && realtime.isRecording && (
+                        <Waveform
+                          active={isCurrentlyRecording}
+                          level={recordingMode === 'ambient' ? ambient.inputLevel : null}
+                        />
+                        {recordingMode === 'ambient' && ambient.isRecording && (
                           <div className="flex items-center justify-center gap-2 mt-3">
                             <span className="text-lg font-mono font-semibold text-foreground">
                               {formatDuration(ambientDuration)}
                             </span>
-                            {realtime.isConnecting && (
+                            {ambient.isStarting && (
                               <span className="text-xs text-muted-foreground">Connecting...</span>
                             )}
                           </div>
                         )}
+                        {recordingMode === 'ambient' && ambient.noInputWarning && (
+                          <div className="flex items-center justify-center gap-1.5 mt-2 text-xs text-warning">
+                            <AlertCircle className="w-3.5 h-3.5" />
+                            No speech heard recently. Check the microphone is unmuted and close enough.
+                          </div>
+                        )}
                       </div>
                     </div>
 
                     {/* Live Transcript (Ambient mode only) */}
-                    {recordingMode === 'ambient' && realtime.isRecording && realtime.liveTranscript && (
+                    {recordingMode === 'ambient' && ambient.isRecording && ambient.liveTranscript && (
                       <div className="px-4 pb-3">
                         <div className="bg-primary/5 border border-primary/20 rounded-xl p-3">
                           <div className="flex items-center justify-between mb-2">
@@ -498,27 +611,51 @@ export default function RecordingSheet({
                             </div>
                             {/* Medical correction indicators */}
                             <div className="flex items-center gap-2">
-                              {realtime.hasRecentCorrections && (
+                              {ambient.hasRecentCorrections && (
                                 <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-emerald-500/20 text-emerald-600 dark:text-emerald-400">
                                   ✓ Terms corrected
                                 </span>
                               )}
-                              {realtime.isCorrectingAI && (
+                              {ambient.isRefining && (
                                 <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-primary/20 text-primary animate-pulse">
                                   AI refining...
                                 </span>
                               )}
                             </div>
                           </div>
-                          <p className="text-sm text-foreground/80 leading-relaxed max-h-[80px] overflow-y-auto">
-                            {realtime.liveTranscript}
-                          </p>
+                          {ambient.speakerSegments.length > 0 ? (
+                            <SpeakerTranscript
+                              segments={ambient.speakerSegments}
+                              className="max-h-[160px] overflow-y-auto"
+                            />
+                          ) : (
+                            <p className="text-sm text-foreground/80 leading-relaxed max-h-[80px] overflow-y-auto">
+                              {ambient.liveTranscript}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Speaker-labelled encounter transcript (Ambient mode, after stopping) */}
+                    {recordingMode === 'ambient' && !ambient.isRecording && speakerSegments.length > 0 && (
+                      <div className="px-4 pb-3">
+                        <div className="bg-muted/30 border border-border rounded-xl p-3">
+                          <div className="flex items-center justify-between mb-2">
+                            <span className="text-xs font-medium text-foreground">Encounter Transcript</span>
+                            <span className="text-[10px] text-muted-foreground">Tap a label to correct the speaker</span>
+                          </div>
+                          <SpeakerTranscript
+                            segments={speakerSegments}
+                            onSpeakerChange={onSpeakerSegmentsChange ? handleSpeakerChange : undefined}
+                            className="max-h-[200px] overflow-y-auto"
+                          />
                         </div>
                       </div>
                     )}
 
                     {/* Partial Transcript Indicator */}
-                    {recordingMode === 'ambient' && realtime.isRecording && realtime.partialTranscript && !realtime.liveTranscript && (
+                    {recordingMode === 'ambient' && ambient.isRecording && ambient.interim && !ambient.liveTranscript && (
                       <div className="px-4 pb-3">
                         <div className="bg-muted/50 border border-border rounded-xl p-3">
                           <div className="flex items-center gap-2 mb-2">
@@ -526,14 +663,14 @@ export default function RecordingSheet({
                             <span className="text-xs text-muted-foreground">Listening...</span>
                           </div>
                           <p className="text-sm text-muted-foreground italic">
-                            {realtime.partialTranscript}
+                            {ambient.interim}
                           </p>
                         </div>
                       </div>
                     )}
 
                     {/* Error Display */}
-                    {realtime.error && !realtime.isRecording && (
+                    {ambient.error && !ambient.isRecording && (
                       <div className="px-4 pb-3">
                         <div className="bg-amber-500/10 border border-amber-500/30 rounded-xl p-3">
                           <div className="flex items-start gap-2">
@@ -543,7 +680,7 @@ export default function RecordingSheet({
                                 Transcription Notice
                               </span>
                               <p className="text-xs text-muted-foreground">
-                                {realtime.error}
+                                {ambient.error.message}
                               </p>
                             </div>
                           </div>
@@ -659,13 +796,42 @@ export default function RecordingSheet({
                         <PriorNotesPanel patientId={patientId} maxNotes={3} />
                       </div>
                     )}
+
+                    {/* Carry Forward: progress notes build on the last signed note */}
+                    {documentMode === 'clinical' && noteType === 'Progress' && patientId && onCarryForwardChange && (
+                      <div className="px-4 pb-3">
+                        <CarryForwardPanel
+                          patientId={patientId}
+                          baseline={carryForward}
+                          onBaselineChange={onCarryForwardChange}
+                        />
+                      </div>
+                    )}
+                    
+                    {/* Note preview while it streams in */}
+                    {isGenerating && streamingNote && (
+                      <div className="px-4 pb-3">
+                        <div className="p-3 rounded-xl bg-card border border-primary/30 max-h-[240px] overflow-y-auto">
+                          {parseNoteSections(streamingNote).map((section, i, sections) => (
+                            <NoteSection
+                              key={i}
+                              title={section.title}
+                              content={section.content.trim()}
+                              onCopy={(text) => navigator.clipboard.writeText(text)}
+                              streaming={i === sections.length - 1}
+                            />
+                          ))}
+                        </div>
+                      </div>
+                    )}
                     
                     {/* Transcript */}
                     <div className="px-4 pb-3">
                       <div className="relative">
                         <textarea
                           value={transcript}
-                          onChange={(e) => onTranscriptChange(e.target.value)}
+                          onChange={(e) => smartPhrases.handleTextareaChange(e, onTranscriptChange)}
+                          onBlur={() => learning.observeEdit(transcript)}
                           placeholder={documentMode === 'radiology' 
                             ? "Dictate your radiology findings..." 
                             : "Speak or type your clinical notes..."}
@@ -689,12 +855,66 @@ export default function RecordingSheet({
                           "{interimText}"
                         </p>
                       )}
+                      {isRecording && recordingMode === 'quick' && (
+                        <p className="mt-2 text-xs text-muted-foreground">
+                          Voice commands: "ELYN new paragraph", "ELYN section assessment", "ELYN switch to consult", "ELYN generate note"
+                        </p>
+                      )}
                       {isCorrecting && (
                         <p className="mt-2 text-xs text-primary flex items-center gap-1">
                           <span className="animate-spin">⏳</span>
                           Correcting medical terms...
                         </p>
                       )}
+                      {corrections.length > 0 && !isCorrecting && (
+                        <div className="mt-2 space-y-2">
+                          <button
+                            onClick={() => setShowCorrections(prev => !prev)}
+                            className="text-xs text-primary flex items-center gap-1"
+                          >
+                            <Sparkles className="w-3.5 h-3.5" />
+                            {corrections.length} medical term correction{corrections.length === 1 ? '' : 's'}
+                            {corrections.some(c => c.status === 'pending') && ' to review'}
+                            {showCorrections ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+                          </button>
+                          {showCorrections && (
+                            <CorrectionReview
+                              transcript={transcript}
+                              corrections={corrections}
+                              onChange={(text, updated) => {
+                                onTranscriptChange(text);
+                                onCorrectionsChange?.(updated);
+                                // Reverts are reviews, not edits to learn from
+                                learning.setBaseline(text);
+                              }}
+                            />
+                          )}
+                        </div>
+                      )}
+                      {learnedSuggestion && (
+                        <div className="mt-2 p-2 rounded-xl bg-primary/10 border border-primary/20 flex items-center gap-2">
+                          <BookPlus className="w-4 h-4 text-primary flex-shrink-0" />
+                          <p className="flex-1 text-xs text-foreground">
+                            Always correct <span className="font-medium">"{learnedSuggestion.heard}"</span> to{' '}
+                            <span className="font-medium">"{learnedSuggestion.corrected}"</span>?
+                          </p>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 px-2 text-xs text-primary"
+                            onClick={() => learning.acceptSuggestion(learnedSuggestion)}
+                          >
+                            Add to dictionary
+                          </Button>
+                          <button
+                            onClick={() => learning.dismissSuggestion(learnedSuggestion)}
+                            className="p-1 rounded-lg hover:bg-muted transition-colors"
+                            aria-label="Dismiss suggestion"
+                          >
+                            <X className="w-3.5 h-3.5 text-muted-foreground" />
+                          </button>
+                        </div>
+                      )}
                     </div>
                   </motion.div>
                 )}
@@ -752,14 +972,14 @@ export default function RecordingSheet({
                 </Button>
               ) : (
                 <Button
-                  onClick={onGenerate}
-                  disabled={isGenerating || !transcript.trim() || isCorrecting}
+                  onClick={isGenerating ? onCancelGenerate : onGenerate}
+                  disabled={isGenerating ? !onCancelGenerate : !transcript.trim() || isCorrecting}
                   className="flex-1 h-12 rounded-xl font-semibold bg-primary hover:bg-primary/90 text-primary-foreground disabled:opacity-50"
                 >
                   {isGenerating ? (
                     <>
                       <span className="animate-spin mr-2">⏳</span>
-                      Generating...
+                      {onCancelGenerate ? 'Generating... Cancel' : 'Generating...'}
                     </>
                   ) : (
                     <>
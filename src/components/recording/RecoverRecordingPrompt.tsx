@@ -0,0 +1,119 @@
+import { motion, AnimatePresence } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import type { RecordingSession } from '@/lib/recordingStore';
+import { X, History, Loader2, Trash2 } from 'lucide-react';
+
+interface RecoverRecordingPromptProps {
+  session: RecordingSession | null;
+  patientName?: string;
+  isRecovering: boolean;
+  error?: string | null;
+  onRecover: (sessionId: string) => void;
+  onDiscard: (sessionId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Offers to finish an ambient recording that was interrupted before it was
+ * transcribed. Closing without a choice keeps the recording for next launch.
+ */
+export default function RecoverRecordingPrompt({
+  session,
+  patientName,
+  isRecovering,
+  error,
+  onRecover,
+  onDiscard,
+  onClose,
+}: RecoverRecordingPromptProps) {
+  const handleClose = () => {
+    if (!isRecovering) onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {session && (
+        <div className="fixed inset-0 z-50 md:flex md:items-center md:justify-center md:p-4">
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={handleClose}
+            className="absolute inset-0 bg-black/50"
+          />
+
+          {/* Modal - Bottom sheet on mobile, centered on desktop */}
+          <motion.div
+            initial={{ y: '100%', opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            exit={{ y: '100%', opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="fixed md:relative bottom-20 left-4 right-4 md:bottom-auto md:left-auto md:right-auto z-50 glass-card rounded-2xl p-5 md:max-w-md md:w-full"
+          >
+            {/* Handle - mobile only */}
+            <div className="flex justify-center -mt-2 mb-3 md:hidden">
+              <div className="w-10 h-1 rounded-full bg-border" />
+            </div>
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+                  <History className="w-5 h-5 text-primary" />
+                </div>
+                <div>
+                  <h3 className="font-semibold text-foreground">Recover Unfinished Recording</h3>
+                  <p className="text-xs text-muted-foreground">
+                    {patientName || 'No patient selected'} · started {formatDistanceToNow(session.startedAt, { addSuffix: true })}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={handleClose}
+                disabled={isRecovering}
+                className="p-2 rounded-lg hover:bg-muted transition-colors"
+              >
+                <X className="w-5 h-5 text-muted-foreground" />
+              </button>
+            </div>
+
+            <p className="text-sm text-muted-foreground mb-4">
+              A recording was interrupted before it was transcribed. Its audio was saved on this device,
+              and transcription will pick up where it left off.
+            </p>
+
+            {error && (
+              <p className="text-sm text-destructive bg-destructive/10 rounded-xl px-3 py-2 mb-4">{error}</p>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => onDiscard(session.id)}
+                disabled={isRecovering}
+                className="flex-1 rounded-xl"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Discard
+              </Button>
+              <Button
+                onClick={() => onRecover(session.id)}
+                disabled={isRecovering}
+                className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground rounded-xl"
+              >
+                {isRecovering ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Transcribing...
+                  </>
+                ) : (
+                  error ? 'Try Again' : 'Recover'
+                )}
+              </Button>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
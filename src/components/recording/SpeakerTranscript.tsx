@@ -0,0 +1,81 @@
+import { cn } from '@/lib/utils';
+import type { SpeakerRole, SpeakerSegment } from '@/types/medical';
+
+interface SpeakerTranscriptProps {
+  segments: SpeakerSegment[];
+  onSpeakerChange?: (speakerId: string, speaker: SpeakerRole) => void;
+  className?: string;
+}
+
+const SPEAKER_LABELS: Record<SpeakerRole, string> = {
+  clinician: 'Clinician',
+  patient: 'Patient',
+  family: 'Family',
+  unknown: 'Unknown',
+};
+
+const SPEAKER_STYLES: Record<SpeakerRole, string> = {
+  clinician: 'bg-primary/10 border-primary/20',
+  patient: 'bg-emerald-500/10 border-emerald-500/20',
+  family: 'bg-amber-500/10 border-amber-500/20',
+  unknown: 'bg-muted/50 border-border',
+};
+
+const formatTimestamp = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Chat-style view of a diarized encounter transcript.
+ * Clinician utterances sit on the right, everyone else on the left.
+ * When `onSpeakerChange` is provided, each label becomes a selector that
+ * relabels every utterance from the same voice.
+ */
+export default function SpeakerTranscript({ segments, onSpeakerChange, className }: SpeakerTranscriptProps) {
+  if (segments.length === 0) return null;
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {segments.map((segment) => {
+        const isClinician = segment.speaker === 'clinician';
+
+        return (
+          <div
+            key={segment.id}
+            className={cn('flex', isClinician ? 'justify-end' : 'justify-start')}
+          >
+            <div className={cn(
+              'max-w-[85%] rounded-xl border px-3 py-2',
+              SPEAKER_STYLES[segment.speaker]
+            )}>
+              <div className="flex items-center justify-between gap-3 mb-1">
+                {onSpeakerChange ? (
+                  <select
+                    value={segment.speaker}
+                    onChange={(e) => onSpeakerChange(segment.speakerId, e.target.value as SpeakerRole)}
+                    className="text-[10px] font-semibold uppercase tracking-wider bg-transparent text-muted-foreground focus:outline-none cursor-pointer"
+                  >
+                    {(Object.keys(SPEAKER_LABELS) as SpeakerRole[]).map((role) => (
+                      <option key={role} value={role}>{SPEAKER_LABELS[role]}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">
+                    {SPEAKER_LABELS[segment.speaker]}
+                  </span>
+                )}
+                <span className="text-[10px] font-mono text-muted-foreground/70">
+                  {formatTimestamp(segment.startMs)}
+                </span>
+              </div>
+              <p className="text-sm text-foreground/90 leading-relaxed">{segment.text}</p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
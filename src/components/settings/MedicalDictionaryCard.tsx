@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import { BookOpen, Loader2, Plus, Trash2, Check, X, Pencil, Users } from 'lucide-react';
+import { DictionaryEntry, DictionaryScope } from '@/contexts/MedicalDictionaryContext';
+import { useMedicalDictionary } from '@/hooks/useMedicalDictionary';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+/**
+ * Settings card for the personal and practice medical dictionaries.
+ * Practice entries are read-only unless the user is a practice admin.
+ */
+export default function MedicalDictionaryCard() {
+  const { toast } = useToast();
+  const { entries, practice, canEditPractice, isLoading, addEntry, updateEntry, deleteEntry } = useMedicalDictionary();
+
+  const [heard, setHeard] = useState('');
+  const [corrected, setCorrected] = useState('');
+  const [scope, setScope] = useState<DictionaryScope>('personal');
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editHeard, setEditHeard] = useState('');
+  const [editCorrected, setEditCorrected] = useState('');
+
+  const canEdit = (entry: DictionaryEntry) => entry.scope === 'personal' || canEditPractice;
+
+  const handleAdd = async () => {
+    if (!heard.trim() || !corrected.trim()) return;
+
+    setIsAdding(true);
+    const success = await addEntry({ heard, corrected }, { scope });
+    setIsAdding(false);
+
+    if (success) {
+      setHeard('');
+      setCorrected('');
+      toast({
+        title: 'Dictionary updated',
+        description: `"${heard.trim()}" will now be corrected to "${corrected.trim()}".`,
+      });
+    } else {
+      toast({
+        title: 'Error adding entry',
+        description: 'This phrase may already be in the dictionary.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const startEditing = (entry: DictionaryEntry) => {
+    setEditingId(entry.id);
+    setEditHeard(entry.heard);
+    setEditCorrected(entry.corrected);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId || !editHeard.trim() || !editCorrected.trim()) return;
+
+    const success = await updateEntry(editingId, { heard: editHeard, corrected: editCorrected });
+    if (success) {
+      setEditingId(null);
+    } else {
+      toast({
+        title: 'Error saving entry',
+        description: 'Failed to update the dictionary entry.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (entry: DictionaryEntry) => {
+    const success = await deleteEntry(entry.id);
+    if (!success) {
+      toast({
+        title: 'Error deleting entry',
+        description: 'Failed to remove the dictionary entry.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const renderEntry = (entry: DictionaryEntry) => (
+    <div key={entry.id} className="flex items-center gap-2 p-2 rounded-lg bg-background/50 border border-border">
+      {editingId === entry.id ? (
+        <>
+          <Input value={editHeard} onChange={(e) => setEditHeard(e.target.value)} className="h-8 bg-background/50" />
+          <span className="text-muted-foreground">→</span>
+          <Input value={editCorrected} onChange={(e) => setEditCorrected(e.target.value)} className="h-8 bg-background/50" />
+          <Button size="icon" variant="ghost" className="h-8 w-8 flex-shrink-0" onClick={handleSaveEdit}>
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-8 w-8 flex-shrink-0" onClick={() => setEditingId(null)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </>
+      ) : (
+        <>
+          <div className="flex-1 min-w-0 text-sm truncate">
+            <span className="text-muted-foreground">{entry.heard}</span>
+            <span className="mx-2 text-muted-foreground">→</span>
+            <span className="font-medium text-foreground">{entry.corrected}</span>
+          </div>
+          {entry.source === 'learned' && (
+            <Badge variant="secondary" className="text-xs">Learned</Badge>
+          )}
+          {canEdit(entry) && (
+            <>
+              <Button size="icon" variant="ghost" className="h-8 w-8 flex-shrink-0" onClick={() => startEditing(entry)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button size="icon" variant="ghost" className="h-8 w-8 flex-shrink-0 text-destructive" onClick={() => handleDelete(entry)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+
+  const personalEntries = entries.filter(e => e.scope === 'personal');
+  const practiceEntries = entries.filter(e => e.scope === 'practice');
+
+  return (
+    <Card className="bg-card/50 backdrop-blur-sm border-border mt-6">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="p-3 rounded-xl bg-primary/10">
+            <BookOpen className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <CardTitle>Medical Dictionary</CardTitle>
+            <CardDescription>Teach ELYN the drug names, providers and terms it mishears</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {/* Add entry */}
+            <div className="space-y-2">
+              <Label>Add Correction</Label>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  value={heard}
+                  onChange={(e) => setHeard(e.target.value)}
+                  placeholder="Heard as (e.g. metaprole)"
+                  className="bg-background/50"
+                />
+                <Input
+                  value={corrected}
+                  onChange={(e) => setCorrected(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                  placeholder="Correct to (e.g. metoprolol)"
+                  className="bg-background/50"
+                />
+                {practice && canEditPractice && (
+                  <Select value={scope} onValueChange={(value) => setScope(value as DictionaryScope)}>
+                    <SelectTrigger className="sm:w-36 bg-background/50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover border-border">
+                      <SelectItem value="personal">Personal</SelectItem>
+                      <SelectItem value="practice">Practice</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button onClick={handleAdd} disabled={isAdding || !heard.trim() || !corrected.trim()}>
+                  {isAdding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Corrections you make by hand more than once are suggested here automatically
+              </p>
+            </div>
+
+            {/* Personal entries */}
+            <div className="space-y-2">
+              <Label>Personal ({personalEntries.length})</Label>
+              {personalEntries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No personal corrections yet</p>
+              ) : (
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {personalEntries.map(renderEntry)}
+                </div>
+              )}
+            </div>
+
+            {/* Practice entries */}
+            {practice && (
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  {practice.name} ({practiceEntries.length})
+                </Label>
+                {practiceEntries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No practice corrections yet</p>
+                ) : (
+                  <div className="space-y-2 max-h-64 overflow-y-auto">
+                    {practiceEntries.map(renderEntry)}
+                  </div>
+                )}
+                {!canEditPractice && (
+                  <p className="text-xs text-muted-foreground">
+                    Shared by your practice. Your personal corrections take priority.
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
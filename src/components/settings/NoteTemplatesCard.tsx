@@ -0,0 +1,354 @@
+import { useState } from 'react';
+import { LayoutTemplate, Loader2, Plus, Trash2, Pencil, Users, ChevronUp, ChevronDown, Save, X } from 'lucide-react';
+import useNoteTemplates, { NoteTemplate, NoteTemplateInput } from '@/hooks/useNoteTemplates';
+import { DictionaryScope } from '@/contexts/MedicalDictionaryContext';
+import { DEFAULT_TEMPLATE_SECTIONS, TEMPLATE_NOTE_TYPES, TemplateNoteType, TemplateSection } from '@/lib/noteTemplates';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface NoteTemplatesCardProps {
+  specialties: Array<{ id: string; name: string }>;
+}
+
+interface TemplateDraft extends NoteTemplateInput {
+  id: string | null; // null while creating
+  scope: DictionaryScope;
+}
+
+// Select values cannot be empty, so "any" stands in for null
+const ANY = 'any';
+
+/**
+ * Settings card for designing note templates: named, ordered sections with
+ * their own instructions, limited to a note type and/or specialty, and
+ * optionally shared with the practice. Used when the note format is "custom".
+ */
+export default function NoteTemplatesCard({ specialties }: NoteTemplatesCardProps) {
+  const { toast } = useToast();
+  const { templates, isLoading, practice, canEditPractice, addTemplate, updateTemplate, deleteTemplate } = useNoteTemplates();
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canEdit = (template: NoteTemplate) => template.scope === 'personal' || canEditPractice;
+  const specialtyName = (id: string) => specialties.find(s => s.id === id)?.name || id;
+
+  const startNew = () => setDraft({
+    id: null,
+    name: '',
+    noteType: null,
+    specialty: null,
+    sections: DEFAULT_TEMPLATE_SECTIONS.map(section => ({ ...section })),
+    scope: 'personal',
+  });
+
+  const startEditing = (template: NoteTemplate) => setDraft({
+    id: template.id,
+    name: template.name,
+    noteType: template.noteType,
+    specialty: template.specialty,
+    sections: template.sections.map(section => ({ ...section })),
+    scope: template.scope,
+  });
+
+  const updateSection = (index: number, updates: Partial<TemplateSection>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      sections: prev.sections.map((section, i) => i === index ? { ...section, ...updates } : section),
+    });
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const sections = [...prev.sections];
+      [sections[index], sections[index + offset]] = [sections[index + offset], sections[index]];
+      return { ...prev, sections };
+    });
+  };
+
+  const removeSection = (index: number) => {
+    setDraft(prev => prev && { ...prev, sections: prev.sections.filter((_, i) => i !== index) });
+  };
+
+  const addSection = () => {
+    setDraft(prev => prev && {
+      ...prev,
+      sections: [...prev.sections, { heading: '', instructions: '', required: false }],
+    });
+  };
+
+  const isDraftValid = !!draft?.name.trim() && !!draft.sections.some(section => section.heading.trim());
+
+  const handleSave = async () => {
+    if (!draft || !isDraftValid) return;
+
+    setIsSaving(true);
+    const success = draft.id
+      ? await updateTemplate(draft.id, draft)
+      : await addTemplate(draft, draft.scope);
+    setIsSaving(false);
+
+    if (success) {
+      toast({
+        title: 'Template saved',
+        description: 'Used for matching notes when your note format is Custom.',
+      });
+      setDraft(null);
+    } else {
+      toast({
+        title: 'Error saving template',
+        description: 'Failed to save the note template.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (template: NoteTemplate) => {
+    const success = await deleteTemplate(template.id);
+    if (!success) {
+      toast({
+        title: 'Error deleting template',
+        description: 'Failed to remove the note template.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const renderTemplate = (template: NoteTemplate) => (
+    <div key={template.id} className="flex items-start gap-2 p-2 rounded-lg bg-background/50 border border-border">
+      <div className="flex-1 min-w-0">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="font-medium text-foreground">{template.name}</span>
+          <Badge variant="secondary" className="text-xs">
+            {template.noteType ? TEMPLATE_NOTE_TYPES[template.noteType] : 'All note types'}
+          </Badge>
+          {template.specialty && (
+            <Badge variant="outline" className="text-xs">{specialtyName(template.specialty)}</Badge>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground truncate mt-1">
+          {template.sections.map(section => section.heading).join(' · ')}
+        </p>
+      </div>
+      {canEdit(template) && (
+        <>
+          <Button size="icon" variant="ghost" className="h-8 w-8 flex-shrink-0" onClick={() => startEditing(template)}>
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-8 w-8 flex-shrink-0 text-destructive" onClick={() => handleDelete(template)}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+    </div>
+  );
+
+  const renderDesigner = (current: TemplateDraft) => (
+    <div className="space-y-4 p-3 rounded-lg border border-primary/20 bg-primary/5">
+      <div className="grid gap-2 sm:grid-cols-2">
+        <div className="space-y-1 sm:col-span-2">
+          <Label>Template Name</Label>
+          <Input
+            value={current.name}
+            onChange={(e) => setDraft({ ...current, name: e.target.value })}
+            placeholder="e.g. Cardiology follow-up"
+            className="bg-background/50"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Note Type</Label>
+          <Select
+            value={current.noteType || ANY}
+            onValueChange={(value) => setDraft({ ...current, noteType: value === ANY ? null : value as TemplateNoteType })}
+          >
+            <SelectTrigger className="bg-background/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover border-border">
+              <SelectItem value={ANY}>All note types</SelectItem>
+              {Object.entries(TEMPLATE_NOTE_TYPES).map(([id, label]) => (
+                <SelectItem key={id} value={id}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Specialty</Label>
+          <Select
+            value={current.specialty || ANY}
+            onValueChange={(value) => setDraft({ ...current, specialty: value === ANY ? null : value })}
+          >
+            <SelectTrigger className="bg-background/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover border-border">
+              <SelectItem value={ANY}>All specialties</SelectItem>
+              {specialties.map(specialty => (
+                <SelectItem key={specialty.id} value={specialty.id}>{specialty.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {!current.id && practice && canEditPractice && (
+          <div className="space-y-1 sm:col-span-2">
+            <Label>Share With</Label>
+            <Select value={current.scope} onValueChange={(value) => setDraft({ ...current, scope: value as DictionaryScope })}>
+              <SelectTrigger className="bg-background/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover border-border">
+                <SelectItem value="personal">Only me</SelectItem>
+                <SelectItem value="practice">{practice.name}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {/* Sections */}
+      <div className="space-y-2">
+        <Label>Sections</Label>
+        {current.sections.map((section, i) => (
+          <div key={i} className="p-2 rounded-lg bg-background/50 border border-border space-y-2">
+            <div className="flex items-center gap-2">
+              <Input
+                value={section.heading}
+                onChange={(e) => updateSection(i, { heading: e.target.value })}
+                placeholder="Heading, e.g. SOCIAL HISTORY"
+                className="h-8 bg-background/50 font-medium"
+              />
+              <Button size="icon" variant="ghost" className="h-8 w-8 flex-shrink-0" onClick={() => moveSection(i, -1)} disabled={i === 0}>
+                <ChevronUp className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 flex-shrink-0"
+                onClick={() => moveSection(i, 1)}
+                disabled={i === current.sections.length - 1}
+              >
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+              <Button size="icon" variant="ghost" className="h-8 w-8 flex-shrink-0 text-destructive" onClick={() => removeSection(i)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <Textarea
+              value={section.instructions}
+              onChange={(e) => updateSection(i, { instructions: e.target.value })}
+              placeholder="What to document in this section"
+              className="min-h-[60px] bg-background/50 text-sm"
+            />
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`template-section-${i}`}
+                checked={section.required}
+                onCheckedChange={(checked) => updateSection(i, { required: checked === true })}
+              />
+              <label htmlFor={`template-section-${i}`} className="text-xs text-muted-foreground cursor-pointer">
+                Required — always included, even when the encounter does not cover it
+              </label>
+            </div>
+          </div>
+        ))}
+        <Button variant="outline" size="sm" onClick={addSection}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Section
+        </Button>
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={handleSave} disabled={isSaving || !isDraftValid}>
+          {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Save Template
+        </Button>
+        <Button variant="ghost" onClick={() => setDraft(null)}>
+          <X className="h-4 w-4 mr-2" />
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+
+  const personalTemplates = templates.filter(t => t.scope === 'personal');
+  const practiceTemplates = templates.filter(t => t.scope === 'practice');
+
+  return (
+    <Card className="bg-card/50 backdrop-blur-sm border-border mt-6">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="p-3 rounded-xl bg-primary/10">
+            <LayoutTemplate className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <CardTitle>Note Templates</CardTitle>
+            <CardDescription>Design your own sections for notes generated in the Custom format</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {draft ? renderDesigner(draft) : (
+              <Button onClick={startNew} className="w-full sm:w-auto">
+                <Plus className="h-4 w-4 mr-2" />
+                New Template
+              </Button>
+            )}
+
+            {/* Personal templates */}
+            <div className="space-y-2">
+              <Label>Personal ({personalTemplates.length})</Label>
+              {personalTemplates.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No personal templates yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {personalTemplates.map(renderTemplate)}
+                </div>
+              )}
+            </div>
+
+            {/* Practice templates */}
+            {practice && (
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  {practice.name} ({practiceTemplates.length})
+                </Label>
+                {practiceTemplates.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No practice templates yet</p>
+                ) : (
+                  <div className="space-y-2">
+                    {practiceTemplates.map(renderTemplate)}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              The most specific template for the note type and your specialty is used, personal before practice.
+              Without a matching template, the sections selected in Note Preferences are used.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState } from 'react';
+import { Zap, Loader2, Plus, Trash2, Check, X, Pencil, Users } from 'lucide-react';
+import { SmartPhrase } from '@/contexts/SmartPhraseContext';
+import { useSmartPhrases } from '@/hooks/useSmartPhrases';
+import { DictionaryScope } from '@/contexts/MedicalDictionaryContext';
+import { useMedicalDictionary } from '@/hooks/useMedicalDictionary';
+import { normalizeTrigger, PHRASE_VARIABLES } from '@/lib/smartPhrases';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+/**
+ * Settings card for the personal and practice smart-phrase libraries.
+ * Practice phrases are read-only unless the user is a practice admin.
+ */
+export default function SmartPhrasesCard() {
+  const { toast } = useToast();
+  const { phrases, isLoading, addPhrase, updatePhrase, deletePhrase } = useSmartPhrases();
+  const { practice, canEditPractice } = useMedicalDictionary();
+
+  const [trigger, setTrigger] = useState('');
+  const [description, setDescription] = useState('');
+  const [content, setContent] = useState('');
+  const [scope, setScope] = useState<DictionaryScope>('personal');
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTrigger, setEditTrigger] = useState('');
+  const [editContent, setEditContent] = useState('');
+
+  const canEdit = (phrase: SmartPhrase) => phrase.scope === 'personal' || canEditPractice;
+
+  const handleAdd = async () => {
+    if (!normalizeTrigger(trigger) || !content.trim()) return;
+
+    setIsAdding(true);
+    const success = await addPhrase({ trigger, description, content }, scope);
+    setIsAdding(false);
+
+    if (success) {
+      toast({
+        title: 'Smart phrase saved',
+        description: `Type or say ".${normalizeTrigger(trigger)}" to insert it.`,
+      });
+      setTrigger('');
+      setDescription('');
+      setContent('');
+    } else {
+      toast({
+        title: 'Error saving phrase',
+        description: 'This trigger may already be in use.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const startEditing = (phrase: SmartPhrase) => {
+    setEditingId(phrase.id);
+    setEditTrigger(phrase.trigger);
+    setEditContent(phrase.content);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId || !normalizeTrigger(editTrigger) || !editContent.trim()) return;
+
+    const success = await updatePhrase(editingId, { trigger: editTrigger, content: editContent });
+    if (success) {
+      setEditingId(null);
+    } else {
+      toast({
+        title: 'Error saving phrase',
+        description: 'Failed to update the smart phrase.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (phrase: SmartPhrase) => {
+    const success = await deletePhrase(phrase.id);
+    if (!success) {
+      toast({
+        title: 'Error deleting phrase',
+        description: 'Failed to remove the smart phrase.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const renderPhrase = (phrase: SmartPhrase) => (
+    <div key={phrase.id} className="p-2 rounded-lg bg-background/50 border border-border">
+      {editingId === phrase.id ? (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Input value={editTrigger} onChange={(e) => setEditTrigger(e.target.value)} className="h-8 bg-background/50" />
+            <Button size="icon" variant="ghost" className="h-8 w-8 flex-shrink-0" onClick={handleSaveEdit}>
+              <Check className="h-4 w-4" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-8 w-8 flex-shrink-0" onClick={() => setEditingId(null)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <Textarea
+            value={editContent}
+            onChange={(e) => setEditContent(e.target.value)}
+            className="min-h-[80px] bg-background/50 text-sm"
+          />
+        </div>
+      ) : (
+        <div className="flex items-start gap-2">
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2 text-sm">
+              <span className="font-mono font-medium text-primary">.{phrase.trigger}</span>
+              {phrase.description && (
+                <span className="text-muted-foreground truncate">{phrase.description}</span>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground line-clamp-2 whitespace-pre-wrap mt-1">{phrase.content}</p>
+          </div>
+          {canEdit(phrase) && (
+            <>
+              <Button size="icon" variant="ghost" className="h-8 w-8 flex-shrink-0" onClick={() => startEditing(phrase)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button size="icon" variant="ghost" className="h-8 w-8 flex-shrink-0 text-destructive" onClick={() => handleDelete(phrase)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  const personalPhrases = phrases.filter(p => p.scope === 'personal');
+  const practicePhrases = phrases.filter(p => p.scope === 'practice');
+
+  return (
+    <Card className="bg-card/50 backdrop-blur-sm border-border mt-6">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="p-3 rounded-xl bg-primary/10">
+            <Zap className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <CardTitle>Smart Phrases</CardTitle>
+            <CardDescription>Type or say ".trigger" to insert saved text before generating a note</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {/* Add phrase */}
+            <div className="space-y-2">
+              <Label>Add Phrase</Label>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  value={trigger}
+                  onChange={(e) => setTrigger(e.target.value)}
+                  placeholder="Trigger (e.g. .normexam)"
+                  className="sm:w-48 bg-background/50 font-mono"
+                />
+                <Input
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Description (optional)"
+                  className="bg-background/50"
+                />
+                {practice && canEditPractice && (
+                  <Select value={scope} onValueChange={(value) => setScope(value as DictionaryScope)}>
+                    <SelectTrigger className="sm:w-36 bg-background/50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover border-border">
+                      <SelectItem value="personal">Personal</SelectItem>
+                      <SelectItem value="practice">Practice</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <Textarea
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                placeholder="Text to insert, e.g. {patient.name} is alert and oriented, in no acute distress."
+                className="min-h-[100px] bg-background/50 text-sm"
+              />
+              <div className="flex flex-wrap items-center gap-1.5">
+                <span className="text-xs text-muted-foreground">Insert:</span>
+                {Object.entries(PHRASE_VARIABLES).map(([key, variable]) => (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => setContent(prev => `${prev}{${key}}`)}
+                    className="px-2 py-0.5 rounded-md bg-muted text-xs text-muted-foreground hover:text-foreground transition-colors"
+                  >
+                    {variable.label}
+                  </button>
+                ))}
+              </div>
+              <Button
+                onClick={handleAdd}
+                disabled={isAdding || !normalizeTrigger(trigger) || !content.trim()}
+                className="w-full sm:w-auto"
+              >
+                {isAdding ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+                Add Phrase
+              </Button>
+            </div>
+
+            {/* Personal phrases */}
+            <div className="space-y-2">
+              <Label>Personal ({personalPhrases.length})</Label>
+              {personalPhrases.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No personal phrases yet</p>
+              ) : (
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {personalPhrases.map(renderPhrase)}
+                </div>
+              )}
+            </div>
+
+            {/* Practice phrases */}
+            {practice && (
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  {practice.name} ({practicePhrases.length})
+                </Label>
+                {practicePhrases.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No practice phrases yet</p>
+                ) : (
+                  <div className="space-y-2 max-h-64 overflow-y-auto">
+                    {practicePhrases.map(renderPhrase)}
+                  </div>
+                )}
+                {!canEditPractice && (
+                  <p className="text-xs text-muted-foreground">
+                    Shared by your practice. A personal phrase with the same trigger takes priority.
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState, useEffect, useCallback, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { MedicalDictionaryContext, MedicalDictionaryContextType } from '@/hooks/useMedicalDictionary';
+import { setCustomCorrections } from '@/data/medicalDictionary';
+
+export type DictionaryScope = 'personal' | 'practice';
+
+export interface DictionaryEntry {
+  id: string;
+  heard: string;
+  corrected: string;
+  scope: DictionaryScope;
+  source: 'manual' | 'learned';
+  created_at: string;
+}
+
+export interface PracticeMembership {
+  id: string;
+  name: string;
+  role: 'admin' | 'member';
+}
+
+/**
+ * Loads the user's personal and practice dictionaries and registers them with
+ * instant correction, so every transcription path picks them up.
+ * Personal entries win over practice entries for the same heard phrase.
+ */
+export function MedicalDictionaryProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<DictionaryEntry[]>([]);
+  const [practice, setPractice] = useState<PracticeMembership | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchEntries = useCallback(async () => {
+    if (!user) {
+      setEntries([]);
+      setPractice(null);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const [membershipResult, entriesResult] = await Promise.all([
+        supabase
+          .from('practice_members')
+          .select('role, practices(id, name)')
+          .eq('user_id', user.id)
+          .order('created_at')
+          .limit(1)
+          .maybeSingle(),
+        supabase
+          .from('medical_dictionary_entries')
+          .select('*')
+          .order('heard'),
+      ]);
+
+      if (membershipResult.error) throw membershipResult.error;
+      if (entriesResult.error) throw entriesResult.error;
+
+      const membership = membershipResult.data;
+      setPractice(membership?.practices ? {
+        id: membership.practices.id,
+        name: membership.practices.name,
+        role: membership.role === 'admin' ? 'admin' : 'member',
+      } : null);
+
+      setEntries((entriesResult.data || []).map(item => ({
+        id: item.id,
+        heard: item.heard,
+        corrected: item.corrected,
+        scope: item.practice_id ? 'practice' : 'personal',
+        source: item.source === 'learned' ? 'learned' : 'manual',
+        created_at: item.created_at,
+      })));
+    } catch (e) {
+      console.error('Failed to fetch medical dictionary:', e);
+      toast({
+        title: 'Medical dictionary unavailable',
+        description: 'Your dictionary corrections could not be loaded and will not be applied to transcripts.',
+        variant: 'destructive',
+      });
+    }
+    setIsLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  // Keep instant correction in sync with the loaded dictionaries
+  useEffect(() => {
+    const byScope = (scope: DictionaryScope) => Object.fromEntries(
+      entries.filter(e => e.scope === scope).map(e => [e.heard, e.corrected])
+    );
+    setCustomCorrections({ ...byScope('practice'), ...byScope('personal') });
+  }, [entries]);
+
+  const canEditPractice = practice?.role === 'admin';
+
+  const addEntry: MedicalDictionaryContextType['addEntry'] = async (entry, options = {}) => {
+    if (!user) return false;
+
+    const scope = options.scope || 'personal';
+    if (scope === 'practice' && (!practice || !canEditPractice)) return false;
+
+    try {
+      const { error } = await supabase
+        .from('medical_dictionary_entries')
+        .insert({
+          user_id: user.id,
+          practice_id: scope === 'practice' ? practice?.id : null,
+          heard: entry.heard.trim(),
+          corrected: entry.corrected.trim(),
+          source: options.source || 'manual',
+        });
+
+      if (error) throw error;
+      await fetchEntries();
+      return true;
+    } catch (e) {
+      console.error('Failed to add dictionary entry:', e);
+      return false;
+    }
+  };
+
+  const updateEntry = async (id: string, updates: { heard?: string; corrected?: string }) => {
+    try {
+      const { error } = await supabase
+        .from('medical_dictionary_entries')
+        .update({
+          ...(updates.heard !== undefined && { heard: updates.heard.trim() }),
+          ...(updates.corrected !== undefined && { corrected: updates.corrected.trim() }),
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+      await fetchEntries();
+      return true;
+    } catch (e) {
+      console.error('Failed to update dictionary entry:', e);
+      return false;
+    }
+  };
+
+  const deleteEntry = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('medical_dictionary_entries')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      await fetchEntries();
+      return true;
+    } catch (e) {
+      console.error('Failed to delete dictionary entry:', e);
+      return false;
+    }
+  };
+
+  return (
+    <MedicalDictionaryContext.Provider
+      value={{
+        entries,
+        practice,
+        canEditPractice,
+        isLoading,
+        addEntry,
+        updateEntry,
+        deleteEntry,
+        refreshEntries: fetchEntries,
+      }}
+    >
+      {children}
+    </MedicalDictionaryContext.Provider>
+  );
+}
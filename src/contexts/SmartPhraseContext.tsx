@@ -0,0 +1,151 @@
+import { useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { DictionaryScope } from '@/contexts/MedicalDictionaryContext';
+import { useMedicalDictionary } from '@/hooks/useMedicalDictionary';
+import { SmartPhraseContext } from '@/hooks/useSmartPhrases';
+import { normalizeTrigger, SmartPhraseText } from '@/lib/smartPhrases';
+
+export interface SmartPhrase {
+  id: string;
+  trigger: string;
+  description: string | null;
+  content: string;
+  scope: DictionaryScope;
+  created_at: string;
+}
+
+export interface SmartPhraseInput {
+  trigger: string;
+  description?: string | null;
+  content: string;
+}
+
+/**
+ * Loads the user's personal smart phrases and those shared with their practice.
+ * Practice phrases use the practice from the medical dictionary and, like
+ * practice dictionary entries, can only be changed by practice admins.
+ */
+export function SmartPhraseProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const { practice, canEditPractice } = useMedicalDictionary();
+  const [phrases, setPhrases] = useState<SmartPhrase[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchPhrases = useCallback(async () => {
+    if (!user) {
+      setPhrases([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('smart_phrases')
+        .select('*')
+        .order('trigger');
+
+      if (error) throw error;
+
+      setPhrases((data || []).map(item => ({
+        id: item.id,
+        trigger: item.trigger,
+        description: item.description,
+        content: item.content,
+        scope: item.practice_id ? 'practice' : 'personal',
+        created_at: item.created_at,
+      })));
+    } catch (e) {
+      console.error('Failed to fetch smart phrases:', e);
+    }
+    setIsLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchPhrases();
+  }, [fetchPhrases]);
+
+  const activePhrases = useMemo(() => {
+    const byTrigger = new Map<string, SmartPhraseText>();
+    phrases.filter(p => p.scope === 'practice').forEach(p => byTrigger.set(p.trigger, p));
+    phrases.filter(p => p.scope === 'personal').forEach(p => byTrigger.set(p.trigger, p));
+    return Array.from(byTrigger.values());
+  }, [phrases]);
+
+  const addPhrase = async (phrase: SmartPhraseInput, scope: DictionaryScope = 'personal') => {
+    if (!user) return false;
+    if (scope === 'practice' && (!practice || !canEditPractice)) return false;
+
+    try {
+      const { error } = await supabase
+        .from('smart_phrases')
+        .insert({
+          user_id: user.id,
+          practice_id: scope === 'practice' ? practice?.id : null,
+          trigger: normalizeTrigger(phrase.trigger),
+          description: phrase.description?.trim() || null,
+          content: phrase.content.trim(),
+        });
+
+      if (error) throw error;
+      await fetchPhrases();
+      return true;
+    } catch (e) {
+      console.error('Failed to add smart phrase:', e);
+      return false;
+    }
+  };
+
+  const updatePhrase = async (id: string, updates: Partial<SmartPhraseInput>) => {
+    try {
+      const { error } = await supabase
+        .from('smart_phrases')
+        .update({
+          ...(updates.trigger !== undefined && { trigger: normalizeTrigger(updates.trigger) }),
+          ...(updates.description !== undefined && { description: updates.description?.trim() || null }),
+          ...(updates.content !== undefined && { content: updates.content.trim() }),
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+      await fetchPhrases();
+      return true;
+    } catch (e) {
+      console.error('Failed to update smart phrase:', e);
+      return false;
+    }
+  };
+
+  const deletePhrase = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('smart_phrases')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      await fetchPhrases();
+      return true;
+    } catch (e) {
+      console.error('Failed to delete smart phrase:', e);
+      return false;
+    }
+  };
+
+  return (
+    <SmartPhraseContext.Provider
+      value={{
+        phrases,
+        activePhrases,
+        isLoading,
+        addPhrase,
+        updatePhrase,
+        deletePhrase,
+        refreshPhrases: fetchPhrases,
+      }}
+    >
+      {children}
+    </SmartPhraseContext.Provider>
+  );
+}
@@ -253,12 +253,32 @@ export const ABBREVIATIONS: Record<string, string> = {
 // Build a regex pattern for efficient matching
 const escapeRegex = (str: string) => str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
-const sortedPhoneticKeys = Object.keys(PHONETIC_CORRECTIONS).sort((a, b) => b.length - a.length);
-const phoneticPattern = new RegExp(
-  `\\b(${sortedPhoneticKeys.map(escapeRegex).join('|')})\\b`,
+// Longest keys first so multi-word phrases win over the words inside them
+const buildCorrectionPattern = (keys: string[]) => new RegExp(
+  `\\b(${[...keys].sort((a, b) => b.length - a.length).map(escapeRegex).join('|')})\\b`,
   'gi'
 );
 
+// Built-in corrections overlaid with the user's personal and practice dictionaries
+let activeCorrections: Record<string, string> = PHONETIC_CORRECTIONS;
+let phoneticPattern = buildCorrectionPattern(Object.keys(activeCorrections));
+
+/**
+ * Overlay personal and practice dictionary entries on the built-in corrections.
+ * Keys match case-insensitively and custom entries win over built-in ones.
+ * Pass an empty object to fall back to the built-in dictionary alone.
+ */
+export function setCustomCorrections(custom: Record<string, string>): void {
+  const normalized = Object.fromEntries(
+    Object.entries(custom)
+      .map(([heard, corrected]) => [heard.trim().toLowerCase(), corrected.trim()])
+      .filter(([heard, corrected]) => heard && corrected)
+  );
+
+  activeCorrections = { ...PHONETIC_CORRECTIONS, ...normalized };
+  phoneticPattern = buildCorrectionPattern(Object.keys(activeCorrections));
+}
+
 /**
  * Apply instant client-side corrections to transcript text
  */
@@ -270,7 +290,7 @@ export function applyInstantCorrections(text: string): {
   
   const correctedText = text.replace(phoneticPattern, (match) => {
     const lowerMatch = match.toLowerCase();
-    const correction = PHONETIC_CORRECTIONS[lowerMatch];
+    const correction = activeCorrections[lowerMatch];
     
     if (correction && correction.toLowerCase() !== lowerMatch) {
       corrections.push({ original: match, corrected: correction });
@@ -288,8 +308,8 @@ export function applyInstantCorrections(text: string): {
 export function isKnownMedicalTerm(term: string): boolean {
   const lowerTerm = term.toLowerCase();
   return (
-    lowerTerm in PHONETIC_CORRECTIONS ||
-    Object.values(PHONETIC_CORRECTIONS).some(v => v.toLowerCase() === lowerTerm) ||
+    lowerTerm in activeCorrections ||
+    Object.values(activeCorrections).some(v => v.toLowerCase() === lowerTerm) ||
     lowerTerm in ABBREVIATIONS
   );
 }
@@ -300,7 +320,7 @@ export function isKnownMedicalTerm(term: string): boolean {
 export function getAllMedicalTerms(): string[] {
   const terms = new Set<string>();
   
-  Object.values(PHONETIC_CORRECTIONS).forEach(term => terms.add(term));
+  Object.values(activeCorrections).forEach(term => terms.add(term));
   Object.keys(ABBREVIATIONS).forEach(abbr => terms.add(abbr));
   
   return Array.from(terms).sort();
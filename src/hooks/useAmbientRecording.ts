@@ -1,5 +1,10 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { RecordingStore } from '@/lib/recordingStore';
+import { createVoiceActivityDetector, VAD_FRAME_MS, VoiceActivityDetector, VoiceActivityFrame } from '@/lib/voiceActivity';
+import { stitchSpeakerSegments, stitchTranscriptSegments } from '@/lib/transcriptStitching';
+import { transcribeAudioSegment, EncounterLanguagePreference, TranscriptionResult } from '@/services/transcription';
+import type { PatientContext, SpeakerSegment, TranscriptionSegment } from '@/types/medical';
 
 interface AmbientRecordingState {
   isRecording: boolean;
@@ -9,33 +14,132 @@ interface AmbientRecordingState {
   isTranscribing: boolean;
   transcript: string;
   liveTranscript: string; // Live streaming transcript
+  segments: TranscriptionSegment[]; // Transcribed segments, in recording order
+  speakerSegments: SpeakerSegment[]; // Diarized utterances across all segments
+  sessionId: string | null; // Key of the crash-recovery copy in IndexedDB
+  inputLevel: number; // Microphone level 0-1
+  noInputWarning: boolean; // No speech heard for NO_INPUT_WARNING_MS
   error: string | null;
   errorCode: string | null; // For specific error handling
 }
 
-// Interval for streaming transcription (in ms)
-const STREAM_INTERVAL_MS = 8000;
-
-export default function useAmbientRecording() {
-  const [state, setState] = useState<AmbientRecordingState>({
-    isRecording: false,
-    isPaused: false,
-    duration: 0,
-    audioBlob: null,
-    isTranscribing: false,
-    transcript: '',
-    liveTranscript: '',
-    error: null,
-    errorCode: null,
+// A recorded segment waiting to be transcribed
+interface PendingSegment {
+  index: number;
+  blob: Blob;
+  startMs: number;
+  endMs: number;
+  attempts: number;
+}
+
+// Length of each independently transcribed audio segment (in ms)
+const SEGMENT_DURATION_MS = 8000;
+
+// How often a segment recorder hands over data to be persisted (in ms)
+const SEGMENT_CHUNK_MS = 2000;
+
+// Audio shared by consecutive segments so words cut at a boundary are heard whole (in ms)
+const SEGMENT_OVERLAP_MS = 1500;
+
+// A segment that keeps failing is dropped after this many attempts
+const MAX_SEGMENT_ATTEMPTS = 3;
+
+// Tail of the stitched transcript sent along with each segment for continuity
+const CONTEXT_TAIL_CHARS = 200;
+
+// Segments with less speech than this are silence and are not uploaded (in ms)
+const MIN_SEGMENT_SPEECH_MS = 300;
+
+// Warn that the microphone may not be picking anything up after this much silence (in ms)
+const NO_INPUT_WARNING_MS = 20000;
+
+// Meter updates smaller than this are not worth a render
+const LEVEL_STEP = 0.05;
+
+const initialState: AmbientRecordingState = {
+  isRecording: false,
+  isPaused: false,
+  duration: 0,
+  audioBlob: null,
+  isTranscribing: false,
+  transcript: '',
+  liveTranscript: '',
+  segments: [],
+  speakerSegments: [],
+  sessionId: null,
+  inputLevel: 0,
+  noInputWarning: false,
+  error: null,
+  errorCode: null,
+};
+
+// Persistence is best-effort: a failed write must never interrupt the recording
+const persist = (operation: Promise<unknown>) => {
+  operation.catch((e) => console.warn('[Ambient] Failed to persist recording data:', e));
+};
+
+// Resolves once the recorder has flushed its final data and fired `stop`
+const stopRecorder = (recorder: MediaRecorder | null): Promise<void> =>
+  new Promise((resolve) => {
+    if (!recorder || recorder.state === 'inactive') {
+      resolve();
+      return;
+    }
+    recorder.addEventListener('stop', () => resolve(), { once: true });
+    recorder.stop();
   });
 
+export interface AmbientRecordingOptions {
+  patientId?: string | null; // Ties the recovery copy to the patient being seen
+  language?: EncounterLanguagePreference; // Language spoken in the encounter
+}
+
+export default function useAmbientRecording({ patientContext = null }: { patientContext?: PatientContext | null } = {}) {
+  const [state, setState] = useState<AmbientRecordingState>(initialState);
+
+  // Read at correction time, so the patient's identifiers are always redacted
+  const patientContextRef = useRef(patientContext);
+  patientContextRef.current = patientContext;
+
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<number | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const transcribedChunksRef = useRef<number>(0);
-  const streamingIntervalRef = useRef<number | null>(null);
-  const isTranscribingChunkRef = useRef<boolean>(false);
+  const mimeTypeRef = useRef<string>('audio/webm');
+
+  // Segment pipeline
+  const segmentRecorderRef = useRef<MediaRecorder | null>(null);
+  const outgoingRecorderRef = useRef<MediaRecorder | null>(null);
+  const segmentStopsRef = useRef<Promise<void>[]>([]);
+  const segmentIndexRef = useRef<number>(0);
+  const rotationIntervalRef = useRef<number | null>(null);
+  const pendingSegmentsRef = useRef<PendingSegment[]>([]);
+  const segmentsRef = useRef<TranscriptionSegment[]>([]);
+  const drainPromiseRef = useRef<Promise<void> | null>(null);
+  const lastSegmentErrorRef = useRef<{ message: string; code: string | null } | null>(null);
+  const droppedSegmentsRef = useRef<number>(0);
+  const silentSegmentsRef = useRef<number>(0);
+
+  // Voice activity: speech heard so far by each segment recorder still running
+  const vadRef = useRef<VoiceActivityDetector | null>(null);
+  const segmentSpeechMsRef = useRef<Map<number, number>>(new Map());
+  const lastSpeechAtRef = useRef<number>(0);
+  const inputLevelRef = useRef<number>(0);
+  const noInputWarningRef = useRef<boolean>(false);
+
+  // Crash-recovery session
+  const sessionIdRef = useRef<string | null>(null);
+  const archiveSeqRef = useRef<number>(0);
+  const languageRef = useRef<EncounterLanguagePreference>('en');
+
+  // Recording clock that excludes paused time
+  const elapsedBeforePauseRef = useRef<number>(0);
+  const resumedAtRef = useRef<number | null>(null);
+
+  const getElapsedMs = useCallback((): number => {
+    const running = resumedAtRef.current !== null ? performance.now() - resumedAtRef.current : 0;
+    return Math.round(elapsedBeforePauseRef.current + running);
+  }, []);
 
   const startTimer = useCallback(() => {
     timerRef.current = window.setInterval(() => {
@@ -50,112 +154,272 @@ export default function useAmbientRecording() {
     }
   }, []);
 
-  // Transcribe the latest audio chunks for streaming
-  const transcribeLatestChunks = useCallback(async () => {
-    if (isTranscribingChunkRef.current) return;
-    if (audioChunksRef.current.length <= transcribedChunksRef.current) return;
+  const handleVoiceActivity = useCallback(({ level, isSpeech }: VoiceActivityFrame) => {
+    // Paused time is neither speech nor silence
+    if (resumedAtRef.current === null) return;
 
-    isTranscribingChunkRef.current = true;
+    const now = performance.now();
+    if (isSpeech) {
+      lastSpeechAtRef.current = now;
+      segmentSpeechMsRef.current.forEach((ms, index) => segmentSpeechMsRef.current.set(index, ms + VAD_FRAME_MS));
+    }
 
-    try {
-      // Get all chunks accumulated so far
-      const allChunks = audioChunksRef.current.slice(0);
-      if (allChunks.length === 0) return;
-
-      const mimeType = mediaRecorderRef.current?.mimeType || 'audio/webm';
-      const audioBlob = new Blob(allChunks, { type: mimeType });
-
-      // Convert blob to base64
-      const base64Audio = await new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          const base64 = (reader.result as string).split(',')[1];
-          resolve(base64);
-        };
-        reader.readAsDataURL(audioBlob);
-      });
+    const steppedLevel = Math.round(level / LEVEL_STEP) * LEVEL_STEP;
+    const noInputWarning = now - lastSpeechAtRef.current >= NO_INPUT_WARNING_MS;
+    if (steppedLevel === inputLevelRef.current && noInputWarning === noInputWarningRef.current) return;
 
-      console.log('[Ambient] Streaming transcription: sending', allChunks.length, 'chunks, size:', Math.round(audioBlob.size / 1024), 'KB');
+    if (noInputWarning && !noInputWarningRef.current) {
+      console.warn('[Ambient] No speech detected for', NO_INPUT_WARNING_MS / 1000, 'seconds');
+    }
+    inputLevelRef.current = steppedLevel;
+    noInputWarningRef.current = noInputWarning;
+    setState(prev => ({ ...prev, inputLevel: steppedLevel, noInputWarning }));
+  }, []);
 
-      const { data, error } = await supabase.functions.invoke('transcribe-audio', {
-        body: { 
-          audio: base64Audio,
-          mimeType: mimeType 
-        },
-      });
+  const stopVoiceActivity = useCallback(() => {
+    vadRef.current?.stop();
+    vadRef.current = null;
+    inputLevelRef.current = 0;
+    noInputWarningRef.current = false;
+  }, []);
 
-      if (error) {
-        console.warn('[Ambient] Streaming transcription error:', error);
-        return;
-      }
+  // Send a single segment to the transcription service. Returns null on failure.
+  const transcribeSegment = useCallback(async (
+    segment: PendingSegment
+  ): Promise<{ text: string; utterances: SpeakerSegment[] } | null> => {
+    const previousText = stitchTranscriptSegments(segmentsRef.current).slice(-CONTEXT_TAIL_CHARS);
+
+    console.log('[Ambient] Transcribing segment', segment.index, 'size:', Math.round(segment.blob.size / 1024), 'KB');
+
+    const result = await transcribeAudioSegment(
+      segment.blob,
+      { index: segment.index, startMs: segment.startMs, endMs: segment.endMs },
+      previousText,
+      languageRef.current
+    );
+
+    if (result.success === false) {
+      console.warn('[Ambient] Segment transcription failed:', result.error, 'code:', result.errorCode);
+      lastSegmentErrorRef.current = { message: result.error, code: result.errorCode };
+      return null;
+    }
 
-      if (data?.success && data?.text) {
-        transcribedChunksRef.current = allChunks.length;
-        console.log('[Ambient] Live transcript updated:', data.text.substring(0, 50) + '...');
-        setState(prev => ({ 
-          ...prev, 
-          liveTranscript: data.text
+    return { text: result.text, utterances: result.utterances };
+  }, []);
+
+  // Transcribe queued segments one at a time, oldest first
+  const drainSegmentQueue = useCallback((): Promise<void> => {
+    if (drainPromiseRef.current) return drainPromiseRef.current;
+
+    drainPromiseRef.current = (async () => {
+      while (pendingSegmentsRef.current.length > 0) {
+        pendingSegmentsRef.current.sort((a, b) => a.index - b.index);
+        const segment = pendingSegmentsRef.current[0];
+        const result = await transcribeSegment(segment);
+
+        if (result === null) {
+          segment.attempts++;
+          if (segment.attempts < MAX_SEGMENT_ATTEMPTS) {
+            // Leave it queued; the next segment (or the final transcribe) retries it
+            break;
+          }
+          console.error('[Ambient] Dropping segment', segment.index, 'after', segment.attempts, 'attempts');
+          pendingSegmentsRef.current.shift();
+          droppedSegmentsRef.current++;
+          continue;
+        }
+
+        pendingSegmentsRef.current.shift();
+        if (sessionIdRef.current) {
+          persist(RecordingStore.updateSegment(sessionIdRef.current, segment.index, {
+            transcript: { text: result.text.trim(), utterances: result.utterances },
+          }));
+        }
+        segmentsRef.current = [
+          ...segmentsRef.current,
+          {
+            index: segment.index,
+            startMs: segment.startMs,
+            endMs: segment.endMs,
+            text: result.text.trim(),
+            utterances: result.utterances,
+          },
+        ];
+
+        const stitched = stitchTranscriptSegments(segmentsRef.current);
+        console.log('[Ambient] Live transcript updated, segments:', segmentsRef.current.length);
+        setState(prev => ({
+          ...prev,
+          segments: segmentsRef.current,
+          speakerSegments: stitchSpeakerSegments(segmentsRef.current, SEGMENT_OVERLAP_MS),
+          liveTranscript: stitched,
         }));
-      } else if (data?.error) {
-        console.warn('[Ambient] Streaming transcription failed:', data.error, 'code:', data.errorCode);
       }
-    } catch (e) {
-      console.warn('[Ambient] Streaming transcription exception:', e);
-    } finally {
-      isTranscribingChunkRef.current = false;
+    })().finally(() => {
+      drainPromiseRef.current = null;
+    });
+
+    return drainPromiseRef.current;
+  }, [transcribeSegment]);
+
+  // Start recording a new self-contained segment on the shared stream
+  const startSegmentRecorder = useCallback((stream: MediaStream) => {
+    const mimeType = mimeTypeRef.current;
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    const index = segmentIndexRef.current++;
+    const startMs = getElapsedMs();
+    const sessionId = sessionIdRef.current;
+    segmentSpeechMsRef.current.set(index, 0);
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+        if (sessionId) {
+          persist(RecordingStore.appendSegmentChunk(sessionId, index, startMs, event.data, getElapsedMs()));
+        }
+      }
+    };
+
+    segmentStopsRef.current.push(new Promise<void>((resolve) => {
+      recorder.addEventListener('stop', () => {
+        const speechMs = segmentSpeechMsRef.current.get(index) ?? 0;
+        segmentSpeechMsRef.current.delete(index);
+
+        if (chunks.length > 0 && vadRef.current && speechMs < MIN_SEGMENT_SPEECH_MS) {
+          // Nothing to transcribe; stored as an empty transcript so recovery skips it too
+          console.log('[Ambient] Skipping silent segment', index);
+          silentSegmentsRef.current++;
+          if (sessionId) {
+            persist(RecordingStore.updateSegment(sessionId, index, {
+              endMs: getElapsedMs(),
+              complete: true,
+              transcript: { text: '', utterances: [] },
+            }));
+          }
+        } else if (chunks.length > 0) {
+          const endMs = getElapsedMs();
+          if (sessionId) {
+            persist(RecordingStore.updateSegment(sessionId, index, { endMs, complete: true }));
+          }
+          pendingSegmentsRef.current.push({
+            index,
+            blob: new Blob(chunks, { type: mimeType }),
+            startMs,
+            endMs,
+            attempts: 0,
+          });
+          drainSegmentQueue();
+        }
+        resolve();
+      }, { once: true });
+    }));
+
+    recorder.start(SEGMENT_CHUNK_MS);
+    segmentRecorderRef.current = recorder;
+  }, [getElapsedMs, drainSegmentQueue]);
+
+  // Hand over to a fresh segment recorder, keeping the old one running through the overlap
+  const rotateSegment = useCallback(() => {
+    const stream = streamRef.current;
+    if (!stream) return;
+
+    const outgoing = segmentRecorderRef.current;
+    startSegmentRecorder(stream);
+    outgoingRecorderRef.current = outgoing;
+
+    window.setTimeout(() => {
+      if (outgoing && outgoing.state !== 'inactive') outgoing.stop();
+      if (outgoingRecorderRef.current === outgoing) outgoingRecorderRef.current = null;
+    }, SEGMENT_OVERLAP_MS);
+  }, [startSegmentRecorder]);
+
+  // Start segment rotation
+  const startSegmentRotation = useCallback(() => {
+    if (rotationIntervalRef.current) return;
+
+    rotationIntervalRef.current = window.setInterval(() => {
+      rotateSegment();
+    }, SEGMENT_DURATION_MS);
+  }, [rotateSegment]);
+
+  // Stop segment rotation
+  const stopSegmentRotation = useCallback(() => {
+    if (rotationIntervalRef.current) {
+      clearInterval(rotationIntervalRef.current);
+      rotationIntervalRef.current = null;
     }
   }, []);
 
-  // Start streaming transcription interval
-  const startStreamingTranscription = useCallback(() => {
-    if (streamingIntervalRef.current) return;
-    
-    streamingIntervalRef.current = window.setInterval(() => {
-      transcribeLatestChunks();
-    }, STREAM_INTERVAL_MS);
-  }, [transcribeLatestChunks]);
-
-  // Stop streaming transcription
-  const stopStreamingTranscription = useCallback(() => {
-    if (streamingIntervalRef.current) {
-      clearInterval(streamingIntervalRef.current);
-      streamingIntervalRef.current = null;
-    }
+  const resetSegments = useCallback(() => {
+    segmentRecorderRef.current = null;
+    outgoingRecorderRef.current = null;
+    segmentStopsRef.current = [];
+    segmentIndexRef.current = 0;
+    pendingSegmentsRef.current = [];
+    segmentsRef.current = [];
+    lastSegmentErrorRef.current = null;
+    droppedSegmentsRef.current = 0;
+    silentSegmentsRef.current = 0;
+    segmentSpeechMsRef.current = new Map();
+    elapsedBeforePauseRef.current = 0;
+    resumedAtRef.current = null;
   }, []);
 
-  const start = useCallback(async () => {
+  // Resolves false when the microphone could not be opened
+  const start = useCallback(async (options: AmbientRecordingOptions = {}): Promise<boolean> => {
     try {
       console.log('[Ambient] Starting recording...');
-      setState(prev => ({ ...prev, error: null, errorCode: null, liveTranscript: '' }));
-      transcribedChunksRef.current = 0;
-      
-      const stream = await navigator.mediaDevices.getUserMedia({ 
+      setState(prev => ({ ...prev, error: null, errorCode: null, liveTranscript: '', segments: [], speakerSegments: [] }));
+      resetSegments();
+      languageRef.current = options.language ?? 'en';
+
+      const stream = await navigator.mediaDevices.getUserMedia({
         audio: {
           echoCancellation: true,
           noiseSuppression: true,
           autoGainControl: true,
         }
       });
-      
+
       console.log('[Ambient] Microphone access granted');
       streamRef.current = stream;
       audioChunksRef.current = [];
 
-      const mimeType = MediaRecorder.isTypeSupported('audio/webm;codecs=opus') 
+      const mimeType = MediaRecorder.isTypeSupported('audio/webm;codecs=opus')
         ? 'audio/webm;codecs=opus'
-        : MediaRecorder.isTypeSupported('audio/webm') 
-          ? 'audio/webm' 
+        : MediaRecorder.isTypeSupported('audio/webm')
+          ? 'audio/webm'
           : 'audio/mp4';
-      
+      mimeTypeRef.current = mimeType;
+
       console.log('[Ambient] Using MIME type:', mimeType);
 
+      const sessionId = crypto.randomUUID();
+      sessionIdRef.current = sessionId;
+      archiveSeqRef.current = 0;
+      if (RecordingStore.isSupported()) {
+        persist(RecordingStore.createSession({
+          id: sessionId,
+          patientId: options.patientId ?? null,
+          language: languageRef.current,
+          mimeType,
+          overlapMs: SEGMENT_OVERLAP_MS,
+        }));
+      } else {
+        sessionIdRef.current = null;
+      }
+
+      // Full-length recording, kept for playback; transcription uses the segments
       const mediaRecorder = new MediaRecorder(stream, { mimeType });
       mediaRecorderRef.current = mediaRecorder;
 
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           audioChunksRef.current.push(event.data);
-          console.log('[Ambient] Audio chunk received:', event.data.size, 'bytes, total chunks:', audioChunksRef.current.length);
+          if (sessionIdRef.current) {
+            persist(RecordingStore.appendArchiveChunk(sessionIdRef.current, archiveSeqRef.current++, event.data));
+          }
         }
       };
 
@@ -165,168 +429,173 @@ export default function useAmbientRecording() {
         setState(prev => ({ ...prev, audioBlob }));
       };
 
-      // Collect data every 4 seconds for streaming chunks
       mediaRecorder.start(4000);
+      resumedAtRef.current = performance.now();
+      lastSpeechAtRef.current = resumedAtRef.current;
+      vadRef.current = createVoiceActivityDetector(stream, handleVoiceActivity);
+      if (!vadRef.current) console.warn('[Ambient] Voice activity detection unavailable; uploading all audio');
+      startSegmentRecorder(stream);
       startTimer();
-      startStreamingTranscription();
-      
-      setState(prev => ({ 
-        ...prev, 
-        isRecording: true, 
+      startSegmentRotation();
+
+      setState(prev => ({
+        ...prev,
+        isRecording: true,
         isPaused: false,
         duration: 0,
         audioBlob: null,
         transcript: '',
         liveTranscript: '',
+        segments: [],
+        speakerSegments: [],
+        sessionId: sessionIdRef.current,
+        inputLevel: 0,
+        noInputWarning: false,
       }));
-      
+
       console.log('[Ambient] Recording started successfully');
+      return true;
 
     } catch (error) {
       console.error('[Ambient] Failed to start recording:', error);
-      setState(prev => ({ 
-        ...prev, 
+      setState(prev => ({
+        ...prev,
         error: error instanceof Error ? error.message : 'Failed to access microphone',
         errorCode: 'MIC_ACCESS_ERROR'
       }));
+      return false;
     }
-  }, [startTimer, startStreamingTranscription]);
+  }, [startTimer, startSegmentRecorder, startSegmentRotation, resetSegments, handleVoiceActivity]);
 
   const pause = useCallback(() => {
     if (mediaRecorderRef.current?.state === 'recording') {
       mediaRecorderRef.current.pause();
+      [segmentRecorderRef.current, outgoingRecorderRef.current].forEach(recorder => {
+        if (recorder?.state === 'recording') recorder.pause();
+      });
+      if (resumedAtRef.current !== null) {
+        elapsedBeforePauseRef.current += performance.now() - resumedAtRef.current;
+        resumedAtRef.current = null;
+      }
       stopTimer();
-      stopStreamingTranscription();
-      setState(prev => ({ ...prev, isPaused: true }));
+      stopSegmentRotation();
+      inputLevelRef.current = 0;
+      noInputWarningRef.current = false;
+      setState(prev => ({ ...prev, isPaused: true, inputLevel: 0, noInputWarning: false }));
     }
-  }, [stopTimer, stopStreamingTranscription]);
+  }, [stopTimer, stopSegmentRotation]);
 
   const resume = useCallback(() => {
     if (mediaRecorderRef.current?.state === 'paused') {
       mediaRecorderRef.current.resume();
+      [segmentRecorderRef.current, outgoingRecorderRef.current].forEach(recorder => {
+        if (recorder?.state === 'paused') recorder.resume();
+      });
+      resumedAtRef.current = performance.now();
+      lastSpeechAtRef.current = resumedAtRef.current;
       startTimer();
-      startStreamingTranscription();
+      startSegmentRotation();
       setState(prev => ({ ...prev, isPaused: false }));
     }
-  }, [startTimer, startStreamingTranscription]);
+  }, [startTimer, startSegmentRotation]);
 
-  const stop = useCallback(async () => {
+  // Resolves with the full-length recording, or null when nothing was captured
+  const stop = useCallback(async (): Promise<Blob | null> => {
     stopTimer();
-    stopStreamingTranscription();
-    
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-      mediaRecorderRef.current.stop();
+    stopSegmentRotation();
+
+    // Flush the last segment(s) before the stream goes away
+    await Promise.all([
+      stopRecorder(outgoingRecorderRef.current),
+      stopRecorder(segmentRecorderRef.current),
+      stopRecorder(mediaRecorderRef.current),
+    ]);
+    await Promise.all(segmentStopsRef.current);
+    stopVoiceActivity();
+
+    if (resumedAtRef.current !== null) {
+      elapsedBeforePauseRef.current += performance.now() - resumedAtRef.current;
+      resumedAtRef.current = null;
     }
-    
+
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
 
-    setState(prev => ({ ...prev, isRecording: false, isPaused: false }));
-  }, [stopTimer, stopStreamingTranscription]);
-
-  const transcribe = useCallback(async (): Promise<string> => {
-    if (!state.audioBlob) {
-      console.warn('[Ambient] No audio blob to transcribe');
-      setState(prev => ({ ...prev, error: 'No audio to transcribe' }));
-      return '';
+    if (sessionIdRef.current) {
+      persist(RecordingStore.updateSession(sessionIdRef.current, { status: 'stopped' }));
     }
 
-    console.log('[Ambient] Starting final transcription, blob size:', state.audioBlob.size, 'bytes');
-    setState(prev => ({ ...prev, isTranscribing: true, error: null, errorCode: null }));
+    setState(prev => ({ ...prev, isRecording: false, isPaused: false, inputLevel: 0, noInputWarning: false }));
 
-    try {
-      // Convert blob to base64
-      const reader = new FileReader();
-      const base64Promise = new Promise<string>((resolve) => {
-        reader.onloadend = () => {
-          const base64 = (reader.result as string).split(',')[1];
-          resolve(base64);
-        };
-      });
-      reader.readAsDataURL(state.audioBlob);
-      const base64Audio = await base64Promise;
-
-      console.log('[Ambient] Final transcription: sending', Math.round(base64Audio.length * 0.75 / 1024), 'KB to server...');
-      
-      const { data, error } = await supabase.functions.invoke('transcribe-audio', {
-        body: { 
-          audio: base64Audio,
-          mimeType: state.audioBlob.type 
-        },
-      });
+    return audioChunksRef.current.length > 0
+      ? new Blob(audioChunksRef.current, { type: mimeTypeRef.current })
+      : null;
+  }, [stopTimer, stopSegmentRotation, stopVoiceActivity]);
 
-      if (error) {
-        console.error('[Ambient] Transcription invoke error:', error);
-        throw new Error(error.message || 'Transcription failed');
-      }
+  const transcribe = useCallback(async (): Promise<TranscriptionResult> => {
+    if (segmentsRef.current.length === 0 && pendingSegmentsRef.current.length === 0) {
+      console.warn('[Ambient] No audio segments to transcribe, silent segments:', silentSegmentsRef.current);
+      setState(prev => ({
+        ...prev,
+        error: silentSegmentsRef.current > 0 ? 'No speech was detected in the recording' : 'No audio to transcribe',
+      }));
+      return { transcript: '', speakerSegments: [] };
+    }
 
-      console.log('[Ambient] Transcription response:', { success: data?.success, hasText: !!data?.text, error: data?.error });
-
-      if (!data?.success) {
-        // Handle specific error codes from the API
-        const errorCode = data?.errorCode || null;
-        const errorMessage = data?.error || 'Transcription failed';
-        
-        console.warn('[Ambient] Transcription failed:', errorMessage, 'code:', errorCode);
-        
-        setState(prev => ({ 
-          ...prev, 
-          isTranscribing: false,
-          error: errorMessage,
-          errorCode: errorCode
-        }));
-        
-        // Return live transcript as fallback if available
-        if (state.liveTranscript) {
-          console.log('[Ambient] Using live transcript as fallback');
-          return state.liveTranscript;
-        }
-        
-        return '';
-      }
+    console.log('[Ambient] Finishing transcription, pending segments:', pendingSegmentsRef.current.length);
+    setState(prev => ({ ...prev, isTranscribing: true, error: null, errorCode: null }));
 
-      const transcriptText = data.text || '';
-      console.log('[Ambient] Transcription successful, length:', transcriptText.length);
+    // Flush the queue, giving segments that failed mid-recording their remaining retries
+    for (let attempt = 0; attempt < MAX_SEGMENT_ATTEMPTS && pendingSegmentsRef.current.length > 0; attempt++) {
+      await drainSegmentQueue();
+    }
+    if (drainPromiseRef.current) await drainPromiseRef.current;
 
-      setState(prev => ({ 
-        ...prev, 
+    const transcriptText = stitchTranscriptSegments(segmentsRef.current);
+    const failure = lastSegmentErrorRef.current;
+
+    if (!transcriptText && failure) {
+      console.warn('[Ambient] Transcription failed:', failure.message, 'code:', failure.code);
+      setState(prev => ({
+        ...prev,
         isTranscribing: false,
-        transcript: transcriptText,
-        error: null,
-        errorCode: null
+        error: failure.message,
+        errorCode: failure.code
       }));
+      return { transcript: '', speakerSegments: [] };
+    }
 
-      return transcriptText;
+    console.log('[Ambient] Transcription complete, segments:', segmentsRef.current.length, 'length:', transcriptText.length);
 
-    } catch (error) {
-      console.error('[Ambient] Transcription exception:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to transcribe audio';
-      
-      setState(prev => ({ 
-        ...prev, 
-        isTranscribing: false,
-        error: errorMessage,
-        errorCode: 'UNKNOWN_ERROR'
-      }));
-      
-      // Return live transcript as fallback if available
-      if (state.liveTranscript) {
-        console.log('[Ambient] Using live transcript as fallback');
-        return state.liveTranscript;
-      }
-      
-      return '';
+    // Dropped segments keep the session recoverable so their audio is not lost
+    if (sessionIdRef.current && pendingSegmentsRef.current.length === 0 && droppedSegmentsRef.current === 0) {
+      persist(RecordingStore.updateSession(sessionIdRef.current, { status: 'completed' }));
     }
-  }, [state.audioBlob, state.liveTranscript]);
+
+    const speakerSegments = stitchSpeakerSegments(segmentsRef.current, SEGMENT_OVERLAP_MS);
+
+    setState(prev => ({
+      ...prev,
+      isTranscribing: false,
+      transcript: transcriptText,
+      liveTranscript: transcriptText,
+      segments: segmentsRef.current,
+      speakerSegments,
+      error: null,
+      errorCode: null
+    }));
+
+    return { transcript: transcriptText, speakerSegments };
+  }, [drainSegmentQueue]);
 
   const correctMedicalTerms = useCallback(async (text: string): Promise<string> => {
     if (!text.trim()) return text;
 
     try {
       const { data, error } = await supabase.functions.invoke('correct-medical-terms', {
-        body: { transcript: text },
+        body: { transcript: text, patientInfo: patientContextRef.current },
       });
 
       if (error) {
@@ -341,21 +610,16 @@ export default function useAmbientRecording() {
     }
   }, []);
 
-  const reset = useCallback(() => {
-    stop();
-    setState({
-      isRecording: false,
-      isPaused: false,
-      duration: 0,
-      audioBlob: null,
-      isTranscribing: false,
-      transcript: '',
-      liveTranscript: '',
-      error: null,
-      errorCode: null,
-    });
-    transcribedChunksRef.current = 0;
-  }, [stop]);
+  // Discards the recording; with keepRecovery its persisted session stays available for recovery
+  const reset = useCallback(async ({ keepRecovery = false }: { keepRecovery?: boolean } = {}) => {
+    await stop();
+    if (sessionIdRef.current) {
+      if (!keepRecovery) persist(RecordingStore.deleteSession(sessionIdRef.current));
+      sessionIdRef.current = null;
+    }
+    setState(initialState);
+    resetSegments();
+  }, [stop, resetSegments]);
 
   const formatDuration = useCallback((seconds: number): string => {
     const mins = Math.floor(seconds / 60);
@@ -367,9 +631,10 @@ export default function useAmbientRecording() {
   useEffect(() => {
     return () => {
       stopTimer();
-      stopStreamingTranscription();
+      stopSegmentRotation();
+      stopVoiceActivity();
     };
-  }, [stopTimer, stopStreamingTranscription]);
+  }, [stopTimer, stopSegmentRotation, stopVoiceActivity]);
 
   return {
     ...state,
@@ -0,0 +1,91 @@
+import { useRef, useCallback } from 'react';
+
+const CHUNK_MS = 1000;
+
+/**
+ * Records the microphone to a single audio file alongside transcription,
+ * for playback while reviewing. Best-effort: a failed capture never stops
+ * the transcription it accompanies.
+ */
+export default function useAudioCapture() {
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+
+  const releaseStream = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  const start = useCallback(async (): Promise<boolean> => {
+    if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) return false;
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          echoCancellation: true,
+          noiseSuppression: true,
+          autoGainControl: true,
+        },
+      });
+      streamRef.current = stream;
+      chunksRef.current = [];
+
+      const mimeType = MediaRecorder.isTypeSupported('audio/webm;codecs=opus')
+        ? 'audio/webm;codecs=opus'
+        : MediaRecorder.isTypeSupported('audio/webm')
+          ? 'audio/webm'
+          : 'audio/mp4';
+
+      const recorder = new MediaRecorder(stream, { mimeType });
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunksRef.current.push(event.data);
+      };
+      recorder.start(CHUNK_MS);
+      recorderRef.current = recorder;
+
+      console.log('[AudioCapture] Recording started:', mimeType);
+      return true;
+    } catch (e) {
+      console.warn('[AudioCapture] Could not start recording:', e);
+      releaseStream();
+      return false;
+    }
+  }, [releaseStream]);
+
+  // Resolves with the recording, or null when nothing was captured
+  const stop = useCallback((): Promise<Blob | null> => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+
+    if (!recorder || recorder.state === 'inactive') {
+      releaseStream();
+      return Promise.resolve(null);
+    }
+
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        releaseStream();
+        const blob = chunksRef.current.length > 0
+          ? new Blob(chunksRef.current, { type: recorder.mimeType })
+          : null;
+        console.log('[AudioCapture] Recording stopped, blob size:', blob?.size ?? 0, 'bytes');
+        resolve(blob);
+      };
+      recorder.stop();
+    });
+  }, [releaseStream]);
+
+  const reset = useCallback(() => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+    }
+    releaseStream();
+    chunksRef.current = [];
+  }, [releaseStream]);
+
+  return { start, stop, reset };
+}
@@ -0,0 +1,80 @@
+import { useState, useRef, useCallback } from 'react';
+import { DictionaryScope } from '@/contexts/MedicalDictionaryContext';
+import { useMedicalDictionary } from '@/hooks/useMedicalDictionary';
+import { findWordReplacements } from '@/lib/dictionaryLearning';
+import { CorrectionLearningStorage, LearnedCorrection } from '@/lib/storage';
+
+// Times the same fix has to be made by hand before it is proposed
+const LEARN_THRESHOLD = 2;
+
+const isSame = (a: LearnedCorrection, b: LearnedCorrection) =>
+  a.heard.toLowerCase() === b.heard.toLowerCase() && a.corrected === b.corrected;
+
+/**
+ * Learns from the clinician's manual edits to a corrected transcript.
+ * Call `setBaseline` with the text as transcription and correction left it,
+ * and `observeEdit` with the edited text (e.g. on blur). A fix made in
+ * LEARN_THRESHOLD separate transcripts becomes a suggested dictionary entry.
+ */
+export default function useDictionaryLearning() {
+  const { entries, addEntry } = useMedicalDictionary();
+  const [suggestions, setSuggestions] = useState<LearnedCorrection[]>([]);
+
+  const baselineRef = useRef<string>('');
+  const countedRef = useRef<Set<string>>(new Set()); // Fixes already counted against this baseline
+
+  const setBaseline = useCallback((text: string) => {
+    baselineRef.current = text;
+    countedRef.current = new Set();
+  }, []);
+
+  const observeEdit = useCallback((editedText: string) => {
+    const baseline = baselineRef.current;
+    if (!baseline || baseline === editedText) return;
+
+    const known = new Set(entries.map(e => e.heard.toLowerCase()));
+    const ready: LearnedCorrection[] = [];
+
+    for (const { heard, corrected } of findWordReplacements(baseline, editedText)) {
+      const key = `${heard.toLowerCase()}→${corrected}`;
+      if (countedRef.current.has(key) || known.has(heard.toLowerCase())) continue;
+      countedRef.current.add(key);
+
+      const tally = CorrectionLearningStorage.record(heard, corrected);
+      console.log('[DictionaryLearning] Manual fix:', heard, '→', corrected, 'count:', tally.count);
+      if (tally.count >= LEARN_THRESHOLD && !tally.dismissed) ready.push(tally);
+    }
+
+    if (ready.length > 0) {
+      setSuggestions(prev => [...prev.filter(p => !ready.some(r => isSame(p, r))), ...ready]);
+    }
+  }, [entries]);
+
+  const acceptSuggestion = useCallback(async (
+    suggestion: LearnedCorrection,
+    scope: DictionaryScope = 'personal'
+  ): Promise<boolean> => {
+    const added = await addEntry(
+      { heard: suggestion.heard, corrected: suggestion.corrected },
+      { scope, source: 'learned' }
+    );
+    if (added) {
+      CorrectionLearningStorage.remove(suggestion.heard, suggestion.corrected);
+      setSuggestions(prev => prev.filter(p => !isSame(p, suggestion)));
+    }
+    return added;
+  }, [addEntry]);
+
+  const dismissSuggestion = useCallback((suggestion: LearnedCorrection) => {
+    CorrectionLearningStorage.dismiss(suggestion.heard, suggestion.corrected);
+    setSuggestions(prev => prev.filter(p => !isSame(p, suggestion)));
+  }, []);
+
+  return {
+    suggestions,
+    setBaseline,
+    observeEdit,
+    acceptSuggestion,
+    dismissSuggestion,
+  };
+}
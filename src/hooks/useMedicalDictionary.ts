@@ -0,0 +1,26 @@
+import { createContext, useContext } from 'react';
+import type { DictionaryEntry, DictionaryScope, PracticeMembership } from '@/contexts/MedicalDictionaryContext';
+
+export interface MedicalDictionaryContextType {
+  entries: DictionaryEntry[];
+  practice: PracticeMembership | null;
+  canEditPractice: boolean;
+  isLoading: boolean;
+  addEntry: (
+    entry: { heard: string; corrected: string },
+    options?: { scope?: DictionaryScope; source?: DictionaryEntry['source'] }
+  ) => Promise<boolean>;
+  updateEntry: (id: string, updates: { heard?: string; corrected?: string }) => Promise<boolean>;
+  deleteEntry: (id: string) => Promise<boolean>;
+  refreshEntries: () => Promise<void>;
+}
+
+export const MedicalDictionaryContext = createContext<MedicalDictionaryContextType | undefined>(undefined);
+
+export function useMedicalDictionary() {
+  const context = useContext(MedicalDictionaryContext);
+  if (context === undefined) {
+    throw new Error('useMedicalDictionary must be used within a MedicalDictionaryProvider');
+  }
+  return context;
+}
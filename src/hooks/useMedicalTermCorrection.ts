@@ -1,6 +1,7 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { applyInstantCorrections } from '@/data/medicalDictionary';
+import type { PatientContext } from '@/types/medical';
 
 interface CorrectionState {
   rawText: string;
@@ -12,10 +13,11 @@ interface CorrectionState {
 interface UseMedicalTermCorrectionOptions {
   debounceMs?: number;
   enableAICorrection?: boolean;
+  patientContext?: PatientContext | null; // Identifiers redacted before the text goes to the model
 }
 
 export function useMedicalTermCorrection(options: UseMedicalTermCorrectionOptions = {}) {
-  const { debounceMs = 2000, enableAICorrection = true } = options;
+  const { debounceMs = 2000, enableAICorrection = true, patientContext = null } = options;
   
   const [state, setState] = useState<CorrectionState>({
     rawText: '',
@@ -27,6 +29,8 @@ export function useMedicalTermCorrection(options: UseMedicalTermCorrectionOption
   const aiCorrectionTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastAICorrectedTextRef = useRef<string>('');
   const pendingTextRef = useRef<string>('');
+  const patientContextRef = useRef(patientContext);
+  patientContextRef.current = patientContext;
 
   // Cleanup on unmount
   useEffect(() => {
@@ -47,7 +51,7 @@ export function useMedicalTermCorrection(options: UseMedicalTermCorrectionOption
       console.log('[MedicalCorrection] Sending to AI for correction:', text.slice(0, 100) + '...');
       
       const { data, error } = await supabase.functions.invoke('correct-medical-terms', {
-        body: { transcript: text, streaming: true }
+        body: { transcript: text, streaming: true, patientInfo: patientContextRef.current }
       });
 
       if (error) {
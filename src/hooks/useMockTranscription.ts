@@ -0,0 +1,121 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import type { SpeakerRole, SpeakerSegment } from '@/types/medical';
+
+interface MockTranscriptionState {
+  isRecording: boolean;
+  transcript: string;
+  interim: string;
+  speakerSegments: SpeakerSegment[];
+}
+
+// Fixed sample encounter, played back one line at a time
+const MOCK_SCRIPT: Array<{ speaker: SpeakerRole; text: string }> = [
+  { speaker: 'clinician', text: 'Good morning, what brings you in today?' },
+  { speaker: 'patient', text: 'I have had chest pain on and off for about three days.' },
+  { speaker: 'clinician', text: 'Does the pain get worse with exertion or when you lie down?' },
+  { speaker: 'patient', text: 'Mostly when I climb stairs, and it goes away when I rest.' },
+  { speaker: 'clinician', text: 'Any shortness of breath, sweating or nausea with it?' },
+  { speaker: 'patient', text: 'A little short of breath, no sweating.' },
+  { speaker: 'clinician', text: 'Blood pressure is 148 over 92, heart rate 84, lungs are clear.' },
+  { speaker: 'clinician', text: 'We will get an EKG and troponin and start aspirin 81 milligrams daily.' },
+];
+
+// Time between lines of the script (in ms)
+const LINE_INTERVAL_MS = 1500;
+
+const SPEAKER_IDS: Record<SpeakerRole, string> = {
+  clinician: 'mock_speaker_0',
+  patient: 'mock_speaker_1',
+  family: 'mock_speaker_2',
+  unknown: 'mock_speaker_unknown',
+};
+
+const initialState: MockTranscriptionState = {
+  isRecording: false,
+  transcript: '',
+  interim: '',
+  speakerSegments: [],
+};
+
+/**
+ * Deterministic stand-in for a real transcription provider.
+ * Plays back the same sample encounter on every run without touching the
+ * microphone or network, for demos and for exercising the recording UI.
+ */
+export default function useMockTranscription() {
+  const [state, setState] = useState<MockTranscriptionState>(initialState);
+
+  const intervalRef = useRef<number | null>(null);
+  const lineIndexRef = useRef<number>(0);
+  const stateRef = useRef<MockTranscriptionState>(initialState);
+  stateRef.current = state;
+
+  const stopInterval = useCallback(() => {
+    if (intervalRef.current) {
+      clearInterval(intervalRef.current);
+      intervalRef.current = null;
+    }
+  }, []);
+
+  const emitNextLine = useCallback(() => {
+    const index = lineIndexRef.current;
+    if (index >= MOCK_SCRIPT.length) {
+      stopInterval();
+      return;
+    }
+
+    const line = MOCK_SCRIPT[index];
+    lineIndexRef.current++;
+
+    setState(prev => ({
+      ...prev,
+      transcript: prev.transcript ? `${prev.transcript} ${line.text}` : line.text,
+      interim: MOCK_SCRIPT[index + 1]?.text.split(' ').slice(0, 3).join(' ') || '',
+      speakerSegments: [
+        ...prev.speakerSegments,
+        {
+          id: `mock-${index}`,
+          speakerId: SPEAKER_IDS[line.speaker],
+          speaker: line.speaker,
+          startMs: index * LINE_INTERVAL_MS,
+          endMs: (index + 1) * LINE_INTERVAL_MS,
+          text: line.text,
+        },
+      ],
+    }));
+  }, [stopInterval]);
+
+  const start = useCallback(async (): Promise<boolean> => {
+    console.log('[Mock] Starting mock transcription');
+    stopInterval();
+    lineIndexRef.current = 0;
+    setState({ ...initialState, isRecording: true });
+    intervalRef.current = window.setInterval(emitNextLine, LINE_INTERVAL_MS);
+    return true;
+  }, [emitNextLine, stopInterval]);
+
+  const stop = useCallback(async () => {
+    stopInterval();
+    setState(prev => ({ ...prev, isRecording: false, interim: '' }));
+    return {
+      transcript: stateRef.current.transcript,
+      speakerSegments: stateRef.current.speakerSegments,
+    };
+  }, [stopInterval]);
+
+  const reset = useCallback(() => {
+    stopInterval();
+    lineIndexRef.current = 0;
+    setState(initialState);
+  }, [stopInterval]);
+
+  // Cleanup on unmount
+  useEffect(() => stopInterval, [stopInterval]);
+
+  return {
+    ...state,
+    start,
+    stop,
+    reset,
+  };
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import type { ResolvedNoteTemplate } from '@/lib/noteTemplates';
 
 export interface NotePreferences {
   noteFormat: 'soap' | 'apso' | 'brief' | 'custom';
@@ -13,6 +14,7 @@ export interface NotePreferences {
     followUp: boolean;
   };
   sectionOrder: string[];
+  template?: ResolvedNoteTemplate | null; // Custom format only; picked per note from the note templates, never saved
 }
 
 export const DEFAULT_NOTE_PREFERENCES: NotePreferences = {
@@ -0,0 +1,163 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { DictionaryScope } from '@/contexts/MedicalDictionaryContext';
+import { useMedicalDictionary } from '@/hooks/useMedicalDictionary';
+import {
+  parseTemplateSections,
+  selectNoteTemplate,
+  TemplateNoteType,
+  TemplateSection,
+} from '@/lib/noteTemplates';
+
+export interface NoteTemplate {
+  id: string;
+  name: string;
+  noteType: TemplateNoteType | null;
+  specialty: string | null;
+  sections: TemplateSection[];
+  scope: DictionaryScope;
+  updated_at: string;
+}
+
+export interface NoteTemplateInput {
+  name: string;
+  noteType: TemplateNoteType | null;
+  specialty: string | null;
+  sections: TemplateSection[];
+}
+
+const toRow = (template: NoteTemplateInput) => ({
+  name: template.name.trim(),
+  note_type: template.noteType,
+  specialty: template.specialty,
+  sections: template.sections
+    .filter(section => section.heading.trim())
+    .map(section => ({
+      heading: section.heading.trim(),
+      instructions: section.instructions.trim(),
+      required: section.required,
+    })),
+});
+
+/**
+ * The user's personal note templates and those shared with their practice,
+ * plus the user's specialty for picking the template that applies to a note.
+ * Like smart phrases, practice templates can only be changed by practice admins.
+ */
+export default function useNoteTemplates() {
+  const { user } = useAuth();
+  const { practice, canEditPractice } = useMedicalDictionary();
+  const [templates, setTemplates] = useState<NoteTemplate[]>([]);
+  const [specialty, setSpecialty] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchTemplates = useCallback(async () => {
+    if (!user) {
+      setTemplates([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const [templatesResult, profileResult] = await Promise.all([
+        supabase.from('note_templates').select('*').order('name'),
+        supabase.from('profiles').select('specialty').eq('user_id', user.id).maybeSingle(),
+      ]);
+
+      if (templatesResult.error) throw templatesResult.error;
+
+      setTemplates((templatesResult.data || []).map(item => ({
+        id: item.id,
+        name: item.name,
+        noteType: item.note_type as TemplateNoteType | null,
+        specialty: item.specialty,
+        sections: parseTemplateSections(item.sections),
+        scope: item.practice_id ? 'practice' : 'personal',
+        updated_at: item.updated_at,
+      })));
+      setSpecialty(profileResult.data?.specialty || null);
+    } catch (e) {
+      console.error('Failed to fetch note templates:', e);
+    }
+    setIsLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  // The template for a note of this type ("H&P" or "hp"), or null to use the section toggles
+  const templateFor = useCallback(
+    (noteType: string) => selectNoteTemplate(templates, noteType, specialty),
+    [templates, specialty]
+  );
+
+  const addTemplate = async (template: NoteTemplateInput, scope: DictionaryScope = 'personal') => {
+    if (!user) return false;
+    if (scope === 'practice' && (!practice || !canEditPractice)) return false;
+
+    try {
+      const { error } = await supabase
+        .from('note_templates')
+        .insert({
+          ...toRow(template),
+          user_id: user.id,
+          practice_id: scope === 'practice' ? practice?.id : null,
+        });
+
+      if (error) throw error;
+      await fetchTemplates();
+      return true;
+    } catch (e) {
+      console.error('Failed to add note template:', e);
+      return false;
+    }
+  };
+
+  const updateTemplate = async (id: string, template: NoteTemplateInput) => {
+    try {
+      const { error } = await supabase
+        .from('note_templates')
+        .update(toRow(template))
+        .eq('id', id);
+
+      if (error) throw error;
+      await fetchTemplates();
+      return true;
+    } catch (e) {
+      console.error('Failed to update note template:', e);
+      return false;
+    }
+  };
+
+  const deleteTemplate = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('note_templates')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      await fetchTemplates();
+      return true;
+    } catch (e) {
+      console.error('Failed to delete note template:', e);
+      return false;
+    }
+  };
+
+  return {
+    templates,
+    specialty,
+    isLoading,
+    practice,
+    canEditPractice,
+    templateFor,
+    addTemplate,
+    updateTemplate,
+    deleteTemplate,
+    refreshTemplates: fetchTemplates,
+  };
+}
@@ -1,7 +1,8 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { useScribe, CommitStrategy } from '@elevenlabs/react';
+import { useScribe, CommitStrategy, type WordTimestamp } from '@elevenlabs/react';
 import { supabase } from '@/integrations/supabase/client';
 import { applyInstantCorrections } from '@/data/medicalDictionary';
+import type { PatientContext, SpeakerRole, SpeakerSegment } from '@/types/medical';
 
 interface RealtimeTranscriptionState {
   isConnected: boolean;
@@ -9,26 +10,41 @@ interface RealtimeTranscriptionState {
   partialTranscript: string;
   fullTranscript: string;
   correctedTranscript: string;
+  rawTranscript: string; // As recognized, before any correction
   error: string | null;
   isCorrectingAI: boolean;
   recentCorrections: Array<{ original: string; corrected: string }>;
+  speakerSegments: SpeakerSegment[];
 }
 
-export default function useRealtimeTranscription() {
+// Initial role guesses by order of first appearance; the clinician usually opens the encounter
+const ROLE_BY_APPEARANCE: SpeakerRole[] = ['clinician', 'patient', 'family'];
+
+const UNKNOWN_SPEAKER_ID = 'speaker_unknown';
+
+export default function useRealtimeTranscription({ patientContext = null }: { patientContext?: PatientContext | null } = {}) {
   const [state, setState] = useState<RealtimeTranscriptionState>({
     isConnected: false,
     isConnecting: false,
     partialTranscript: '',
     fullTranscript: '',
     correctedTranscript: '',
+    rawTranscript: '',
     error: null,
     isCorrectingAI: false,
     recentCorrections: [],
+    speakerSegments: [],
   });
 
   const committedTranscriptsRef = useRef<string[]>([]);
+  const committedRawRef = useRef<string[]>([]);
+  const speakerRolesRef = useRef<Map<string, SpeakerRole>>(new Map());
+  const speakerSegmentCountRef = useRef<number>(0);
   const aiCorrectionTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastAICorrectedRef = useRef<string>('');
+  // Read at correction time, so the patient's identifiers are always redacted
+  const patientContextRef = useRef(patientContext);
+  patientContextRef.current = patientContext;
 
   // Cleanup AI correction timeout on unmount
   useEffect(() => {
@@ -48,7 +64,7 @@ export default function useRealtimeTranscription() {
       setState(prev => ({ ...prev, isCorrectingAI: true }));
       
       const { data, error } = await supabase.functions.invoke('correct-medical-terms', {
-        body: { transcript: text, streaming: true }
+        body: { transcript: text, streaming: true, patientInfo: patientContextRef.current }
       });
 
       if (error) {
@@ -86,9 +102,64 @@ export default function useRealtimeTranscription() {
     }
   }, [correctWithAI]);
 
+  const roleForSpeaker = useCallback((speakerId: string): SpeakerRole => {
+    if (speakerId === UNKNOWN_SPEAKER_ID) return 'unknown';
+
+    const known = speakerRolesRef.current.get(speakerId);
+    if (known) return known;
+
+    const role = ROLE_BY_APPEARANCE[speakerRolesRef.current.size] || 'family';
+    speakerRolesRef.current.set(speakerId, role);
+    return role;
+  }, []);
+
+  // Split a committed transcript into one utterance per consecutive run of the same speaker
+  const buildSpeakerSegments = useCallback((words: WordTimestamp[]): SpeakerSegment[] => {
+    const segments: SpeakerSegment[] = [];
+
+    for (const word of words) {
+      if (!word.text) continue;
+      const speakerId = word.speaker_id || UNKNOWN_SPEAKER_ID;
+      const current = segments[segments.length - 1];
+
+      if (word.type === 'spacing') {
+        if (current) current.text += word.text;
+        continue;
+      }
+
+      const timed = {
+        text: word.text.trim(),
+        startMs: Math.round((word.start ?? 0) * 1000),
+        endMs: Math.round((word.end ?? word.start ?? 0) * 1000),
+      };
+
+      if (current && current.speakerId === speakerId) {
+        current.text += word.text;
+        if (word.end !== undefined) current.endMs = timed.endMs;
+        current.words?.push(timed);
+        continue;
+      }
+
+      segments.push({
+        id: `rt-${speakerSegmentCountRef.current++}`,
+        speakerId,
+        speaker: roleForSpeaker(speakerId),
+        startMs: timed.startMs,
+        endMs: timed.endMs,
+        text: word.text,
+        words: [timed],
+      });
+    }
+
+    return segments
+      .map(segment => ({ ...segment, text: applyInstantCorrections(segment.text.trim()).correctedText }))
+      .filter(segment => segment.text);
+  }, [roleForSpeaker]);
+
   const scribe = useScribe({
     modelId: 'scribe_v2_realtime',
     commitStrategy: CommitStrategy.VAD,
+    includeTimestamps: true,
     onPartialTranscript: (data) => {
       console.log('[Realtime] Partial transcript:', data.text);
       setState(prev => ({
@@ -107,11 +178,13 @@ export default function useRealtimeTranscription() {
       }
       
       committedTranscriptsRef.current.push(correctedText);
+      committedRawRef.current.push(data.text);
       const fullText = committedTranscriptsRef.current.join(' ');
       
       setState(prev => ({
         ...prev,
         fullTranscript: fullText,
+        rawTranscript: committedRawRef.current.join(' '),
         correctedTranscript: fullText, // Start with instant corrections
         partialTranscript: '',
         recentCorrections: corrections,
@@ -120,6 +193,15 @@ export default function useRealtimeTranscription() {
       // Schedule AI correction for deeper analysis
       scheduleAICorrection(fullText);
     },
+    onCommittedTranscriptWithTimestamps: (data) => {
+      if (!data.words?.length) return;
+
+      const segments = buildSpeakerSegments(data.words);
+      setState(prev => ({
+        ...prev,
+        speakerSegments: [...prev.speakerSegments, ...segments],
+      }));
+    },
     onError: (error) => {
       console.error('[Realtime] Scribe error:', error);
       setState(prev => ({
@@ -129,10 +211,14 @@ export default function useRealtimeTranscription() {
     },
   });
 
-  const connect = useCallback(async () => {
-    setState(prev => ({ ...prev, isConnecting: true, error: null }));
+  // Resolves false when the token request or connection failed.
+  // Without a language code Scribe detects the language spoken.
+  const connect = useCallback(async (languageCode?: string): Promise<boolean> => {
+    setState(prev => ({ ...prev, isConnecting: true, error: null, speakerSegments: [] }));
     committedTranscriptsRef.current = [];
+    committedRawRef.current = [];
     lastAICorrectedRef.current = '';
+    speakerRolesRef.current = new Map();
 
     try {
       console.log('[Realtime] Requesting scribe token...');
@@ -153,6 +239,7 @@ export default function useRealtimeTranscription() {
 
       await scribe.connect({
         token: data.token,
+        ...(languageCode && { languageCode }),
         microphone: {
           echoCancellation: true,
           noiseSuppression: true,
@@ -166,6 +253,7 @@ export default function useRealtimeTranscription() {
         isConnected: true,
         isConnecting: false,
       }));
+      return true;
     } catch (error) {
       console.error('[Realtime] Connection error:', error);
       setState(prev => ({
@@ -173,6 +261,7 @@ export default function useRealtimeTranscription() {
         isConnecting: false,
         error: error instanceof Error ? error.message : 'Failed to connect',
       }));
+      return false;
     }
   }, [scribe]);
 
@@ -195,7 +284,9 @@ export default function useRealtimeTranscription() {
   const reset = useCallback(() => {
     disconnect();
     committedTranscriptsRef.current = [];
+    committedRawRef.current = [];
     lastAICorrectedRef.current = '';
+    speakerRolesRef.current = new Map();
     
     if (aiCorrectionTimeoutRef.current) {
       clearTimeout(aiCorrectionTimeoutRef.current);
@@ -207,9 +298,11 @@ export default function useRealtimeTranscription() {
       partialTranscript: '',
       fullTranscript: '',
       correctedTranscript: '',
+      rawTranscript: '',
       error: null,
       isCorrectingAI: false,
       recentCorrections: [],
+      speakerSegments: [],
     });
   }, [disconnect]);
 
@@ -219,7 +312,6 @@ export default function useRealtimeTranscription() {
   return {
     ...state,
     liveTranscript: liveTranscript.trim(),
-    rawTranscript: state.fullTranscript,
     connect,
     disconnect,
     reset,
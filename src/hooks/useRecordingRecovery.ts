@@ -0,0 +1,129 @@
+import { useState, useCallback, useEffect } from 'react';
+import { RecordingStore, RecordingSession } from '@/lib/recordingStore';
+import { stitchSpeakerSegments, stitchTranscriptSegments } from '@/lib/transcriptStitching';
+import { transcribeAudioSegment, EncounterLanguagePreference } from '@/services/transcription';
+import type { SpeakerSegment, TranscriptionSegment } from '@/types/medical';
+
+export interface RecoveredRecording {
+  sessionId: string;
+  patientId: string | null;
+  language: EncounterLanguagePreference;
+  transcript: string;
+  speakerSegments: SpeakerSegment[];
+  audioBlob: Blob | null;
+}
+
+// Completed sessions are kept briefly in case the note is not saved yet
+const COMPLETED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Tail of the stitched transcript sent along with each segment for continuity
+const CONTEXT_TAIL_CHARS = 200;
+
+/**
+ * Finds ambient recordings that were interrupted before transcription finished
+ * (reload, crash, closed tab) and finishes them from the copy in IndexedDB.
+ * Segments transcribed before the interruption are reused, so transcription
+ * resumes from the first segment that has no transcript yet.
+ */
+export default function useRecordingRecovery() {
+  const [unfinished, setUnfinished] = useState<RecordingSession[]>([]);
+  const [isRecovering, setIsRecovering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!RecordingStore.isSupported()) return;
+
+    RecordingStore.pruneCompleted(COMPLETED_RETENTION_MS)
+      .then(() => RecordingStore.listUnfinished())
+      .then(setUnfinished)
+      .catch((e) => console.warn('[Recovery] Failed to read saved recordings:', e));
+  }, []);
+
+  const recover = useCallback(async (sessionId: string): Promise<RecoveredRecording | null> => {
+    setIsRecovering(true);
+    setError(null);
+
+    try {
+      const session = await RecordingStore.getSession(sessionId);
+      if (!session) throw new Error('Saved recording not found');
+
+      const stored = await RecordingStore.getSegments(sessionId);
+      const segments: TranscriptionSegment[] = [];
+
+      for (const segment of stored) {
+        if (segment.transcript) {
+          segments.push({
+            index: segment.index,
+            startMs: segment.startMs,
+            endMs: segment.endMs,
+            text: segment.transcript.text,
+            utterances: segment.transcript.utterances,
+          });
+          continue;
+        }
+
+        if (segment.chunks.length === 0) continue;
+
+        console.log('[Recovery] Transcribing segment', segment.index, segment.complete ? '' : '(interrupted)');
+        const result = await transcribeAudioSegment(
+          new Blob(segment.chunks, { type: session.mimeType }),
+          { index: segment.index, startMs: segment.startMs, endMs: segment.endMs },
+          stitchTranscriptSegments(segments).slice(-CONTEXT_TAIL_CHARS),
+          session.language
+        );
+
+        // Progress so far is saved, so a retry picks up from this segment
+        if (result.success === false) throw new Error(result.error);
+
+        const transcript = { text: result.text.trim(), utterances: result.utterances };
+        await RecordingStore.updateSegment(sessionId, segment.index, { transcript });
+        segments.push({
+          index: segment.index,
+          startMs: segment.startMs,
+          endMs: segment.endMs,
+          ...transcript,
+        });
+      }
+
+      const transcript = stitchTranscriptSegments(segments);
+      if (!transcript) throw new Error('No speech found in the saved recording');
+
+      await RecordingStore.updateSession(sessionId, { status: 'completed' });
+      setUnfinished(prev => prev.filter(s => s.id !== sessionId));
+
+      console.log('[Recovery] Recovered session', sessionId, 'segments:', segments.length);
+
+      return {
+        sessionId,
+        patientId: session.patientId,
+        language: session.language ?? 'en',
+        transcript,
+        speakerSegments: stitchSpeakerSegments(segments, session.overlapMs),
+        audioBlob: await RecordingStore.getArchiveBlob(sessionId, session.mimeType),
+      };
+    } catch (e) {
+      console.error('[Recovery] Failed to recover recording:', e);
+      setError(e instanceof Error ? e.message : 'Failed to recover recording');
+      return null;
+    } finally {
+      setIsRecovering(false);
+    }
+  }, []);
+
+  const discard = useCallback(async (sessionId: string) => {
+    setUnfinished(prev => prev.filter(s => s.id !== sessionId));
+    try {
+      await RecordingStore.deleteSession(sessionId);
+    } catch (e) {
+      console.warn('[Recovery] Failed to discard recording:', e);
+    }
+  }, []);
+
+  return {
+    unfinished,
+    isRecovering,
+    error,
+    recover,
+    discard,
+  };
+}
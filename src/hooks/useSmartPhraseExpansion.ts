@@ -0,0 +1,39 @@
+import { useCallback, ChangeEvent } from 'react';
+import { useSmartPhrases } from '@/hooks/useSmartPhrases';
+import { expandSpokenPhrases, expandTypedPhrases } from '@/lib/smartPhrases';
+import type { PatientContext } from '@/types/medical';
+
+/**
+ * Smart-phrase expansion against the user's phrase library, with variables
+ * filled from `patient`. Pass a memoized patient to keep the callbacks stable.
+ */
+export default function useSmartPhraseExpansion(patient: PatientContext | null) {
+  const { activePhrases } = useSmartPhrases();
+
+  // Dictated text: "dot normexam" (or ".normexam") anywhere in the transcript
+  const expandSpoken = useCallback(
+    (text: string): string => expandSpokenPhrases(text, activePhrases, patient),
+    [activePhrases, patient]
+  );
+
+  // Finished text, e.g. before note generation, where a trigger may end the transcript
+  const expandAll = useCallback(
+    (text: string): string => expandTypedPhrases(text, activePhrases, patient, { complete: true }).text,
+    [activePhrases, patient]
+  );
+
+  // Textarea onChange that expands a trigger once it is followed by a space or punctuation
+  const handleTextareaChange = useCallback((event: ChangeEvent<HTMLTextAreaElement>, onChange: (text: string) => void) => {
+    const textarea = event.target;
+    const result = expandTypedPhrases(textarea.value, activePhrases, patient, { caret: textarea.selectionStart });
+    onChange(result.text);
+
+    if (result.expanded > 0) {
+      console.log('[SmartPhrases] Expanded', result.expanded, 'phrase(s)');
+      // Wait for the controlled value to render before restoring the caret
+      requestAnimationFrame(() => textarea.setSelectionRange(result.caret, result.caret));
+    }
+  }, [activePhrases, patient]);
+
+  return { expandSpoken, expandAll, handleTextareaChange };
+}
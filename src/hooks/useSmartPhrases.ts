@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react';
+import type { DictionaryScope } from '@/contexts/MedicalDictionaryContext';
+import type { SmartPhrase, SmartPhraseInput } from '@/contexts/SmartPhraseContext';
+import type { SmartPhraseText } from '@/lib/smartPhrases';
+
+export interface SmartPhraseContextType {
+  phrases: SmartPhrase[];
+  activePhrases: SmartPhraseText[]; // One per trigger, personal over practice
+  isLoading: boolean;
+  addPhrase: (phrase: SmartPhraseInput, scope?: DictionaryScope) => Promise<boolean>;
+  updatePhrase: (id: string, updates: Partial<SmartPhraseInput>) => Promise<boolean>;
+  deletePhrase: (id: string) => Promise<boolean>;
+  refreshPhrases: () => Promise<void>;
+}
+
+export const SmartPhraseContext = createContext<SmartPhraseContextType | undefined>(undefined);
+
+export function useSmartPhrases() {
+  const context = useContext(SmartPhraseContext);
+  if (context === undefined) {
+    throw new Error('useSmartPhrases must be used within a SmartPhraseProvider');
+  }
+  return context;
+}
@@ -218,13 +218,15 @@ const useSpeech = () => {
     }
   }, []);
 
-  const start = useCallback(async () => {
+  // Resolves false when recognition could not be started
+  // `lang` is the BCP 47 locale being spoken, e.g. 'es-US'
+  const start = useCallback(async (lang = 'en-US'): Promise<boolean> => {
     if (!recognitionRef.current) {
       setError({
         type: 'not-supported',
         message: 'Speech recognition is not available.'
       });
-      return;
+      return false;
     }
 
     // Clear previous errors
@@ -234,13 +236,15 @@ const useSpeech = () => {
     // Check/request permission first
     if (permissionState !== 'granted') {
       const granted = await requestMicrophonePermission();
-      if (!granted) return;
+      if (!granted) return false;
     }
     
     try {
       isRecordingRef.current = true;
       setIsRecording(true);
+      recognitionRef.current.lang = lang;
       recognitionRef.current.start();
+      return true;
     } catch (e) {
       console.error('Failed to start speech recognition:', e);
       setError({
@@ -249,6 +253,7 @@ const useSpeech = () => {
       });
       isRecordingRef.current = false;
       setIsRecording(false);
+      return false;
     }
   }, [permissionState, requestMicrophonePermission]);
 
@@ -0,0 +1,354 @@
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import useSpeech from '@/hooks/useSpeech';
+import useRealtimeTranscription from '@/hooks/useRealtimeTranscription';
+import useAmbientRecording from '@/hooks/useAmbientRecording';
+import useMockTranscription from '@/hooks/useMockTranscription';
+import useTranscriptionPreferences from '@/hooks/useTranscriptionPreferences';
+import useAudioCapture from '@/hooks/useAudioCapture';
+import { shiftSegments } from '@/lib/transcriptTiming';
+import type { PatientContext } from '@/types/medical';
+import {
+  buildFallbackChain,
+  EncounterLanguagePreference,
+  speechLocaleFor,
+  TranscriptionError,
+  TranscriptionMode,
+  TranscriptionProvider,
+  TranscriptionProviderId,
+  TranscriptionResult,
+} from '@/services/transcription';
+
+interface UseTranscriptionOptions {
+  mode: TranscriptionMode;
+  patientId?: string | null; // Ties crash-recovery copies of the audio to the patient
+  language?: EncounterLanguagePreference; // Transcribed in this language, never translated
+  patientContext?: PatientContext | null; // Identifiers the medical-term correction redacts before the model sees the text
+}
+
+const EMPTY_RESULT: TranscriptionResult = { transcript: '', rawTranscript: '', speakerSegments: [] };
+
+const NO_PROVIDER_ERROR: TranscriptionError = {
+  code: 'NO_PROVIDER',
+  message: 'Transcription is unavailable. Check your microphone and connection, then try again.',
+};
+
+const joinText = (...parts: string[]): string => parts.map(p => p.trim()).filter(Boolean).join(' ');
+
+const appendResult = (a: TranscriptionResult, b: TranscriptionResult): TranscriptionResult => ({
+  transcript: joinText(a.transcript, b.transcript),
+  rawTranscript: joinText(a.rawTranscript ?? a.transcript, b.rawTranscript ?? b.transcript),
+  speakerSegments: [...a.speakerSegments, ...b.speakerSegments],
+});
+
+// ===== Adapters =====
+
+const webSpeechAdapter = (
+  speech: ReturnType<typeof useSpeech>,
+  language: EncounterLanguagePreference
+): TranscriptionProvider => ({
+  id: 'webspeech',
+  isSupported: speech.isSupported,
+  isRecording: speech.isRecording,
+  isStarting: false,
+  transcript: speech.transcript.trim(),
+  rawTranscript: speech.transcript.trim(),
+  interim: speech.interim,
+  speakerSegments: [],
+  hasRecentCorrections: false,
+  isRefining: false,
+  inputLevel: null,
+  noInputWarning: false,
+  recordsAudio: false,
+  error: speech.error ? { code: speech.error.type, message: speech.error.message } : null,
+  start: () => speech.start(speechLocaleFor(language)),
+  stop: async () => {
+    speech.stop();
+    return { transcript: speech.transcript.trim(), speakerSegments: [] };
+  },
+  reset: () => {
+    speech.stop();
+    speech.clear();
+  },
+});
+
+const scribeAdapter = (
+  realtime: ReturnType<typeof useRealtimeTranscription>,
+  language: EncounterLanguagePreference
+): TranscriptionProvider => ({
+  id: 'scribe',
+  isSupported: typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia,
+  isRecording: realtime.isRecording,
+  isStarting: realtime.isConnecting,
+  transcript: realtime.correctedTranscript,
+  rawTranscript: realtime.rawTranscript,
+  interim: realtime.partialTranscript,
+  speakerSegments: realtime.speakerSegments,
+  hasRecentCorrections: realtime.hasRecentCorrections,
+  isRefining: realtime.isCorrectingAI,
+  inputLevel: null,
+  noInputWarning: false,
+  recordsAudio: false,
+  error: realtime.error ? { code: 'SCRIBE_ERROR', message: realtime.error } : null,
+  start: () => realtime.connect(language === 'auto' ? undefined : language),
+  stop: async () => {
+    // Capture before disconnecting; the partial is kept since it will not be committed now
+    const result = {
+      transcript: realtime.liveTranscript,
+      rawTranscript: joinText(realtime.rawTranscript, realtime.partialTranscript),
+      speakerSegments: realtime.speakerSegments,
+    };
+    realtime.disconnect();
+    return result;
+  },
+  reset: realtime.reset,
+});
+
+const geminiAdapter = (
+  ambient: ReturnType<typeof useAmbientRecording>,
+  patientId: string | null,
+  language: EncounterLanguagePreference
+): TranscriptionProvider => ({
+  id: 'gemini',
+  isSupported: typeof MediaRecorder !== 'undefined',
+  isRecording: ambient.isRecording,
+  isStarting: false,
+  transcript: ambient.liveTranscript,
+  rawTranscript: ambient.liveTranscript,
+  interim: '',
+  speakerSegments: ambient.speakerSegments,
+  hasRecentCorrections: false,
+  isRefining: ambient.isTranscribing,
+  inputLevel: ambient.inputLevel,
+  noInputWarning: ambient.noInputWarning,
+  recordsAudio: true,
+  error: ambient.error ? { code: ambient.errorCode || 'GEMINI_ERROR', message: ambient.error } : null,
+  start: () => ambient.start({ patientId, language }),
+  stop: async () => {
+    const audio = await ambient.stop();
+    return { ...(await ambient.transcribe()), audio };
+  },
+  reset: (options) => {
+    ambient.reset(options);
+  },
+});
+
+const mockAdapter = (mock: ReturnType<typeof useMockTranscription>): TranscriptionProvider => ({
+  id: 'mock',
+  isSupported: true,
+  isRecording: mock.isRecording,
+  isStarting: false,
+  transcript: mock.transcript,
+  rawTranscript: mock.transcript,
+  interim: mock.interim,
+  speakerSegments: mock.speakerSegments,
+  hasRecentCorrections: false,
+  isRefining: false,
+  inputLevel: null,
+  noInputWarning: false,
+  recordsAudio: false,
+  error: null,
+  start: mock.start,
+  stop: mock.stop,
+  reset: mock.reset,
+});
+
+/**
+ * Single entry point for speech-to-text, independent of the backend.
+ * Tries the user's preferred provider first and falls back along the mode's
+ * chain when a provider cannot start or fails mid-recording. Text captured
+ * before a failure is kept, so callers see one continuous transcript.
+ * Ambient recordings also keep the audio, with segment timings placed on its
+ * timeline whichever provider produced them. The audio comes from the first
+ * provider when it records it anyway (Gemini), so the microphone is only ever
+ * recorded once; otherwise it is captured alongside the providers.
+ */
+export default function useTranscription({ mode, patientId = null, language = 'en', patientContext = null }: UseTranscriptionOptions) {
+  const speech = useSpeech();
+  const realtime = useRealtimeTranscription({ patientContext });
+  const ambient = useAmbientRecording({ patientContext });
+  const mock = useMockTranscription();
+  const { preferences } = useTranscriptionPreferences();
+  const { start: startCapture, stop: stopCapture, reset: resetCapture } = useAudioCapture();
+
+  const [activeId, setActiveId] = useState<TranscriptionProviderId | null>(null);
+  const [isActive, setIsActive] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<TranscriptionError | null>(null);
+  const [carried, setCarried] = useState<TranscriptionResult>(EMPTY_RESULT); // From providers that failed earlier in this recording
+  const [offsetMs, setOffsetMs] = useState(0); // When the active provider started, from the start of the recording
+
+  const adapters: Record<TranscriptionProviderId, TranscriptionProvider> = {
+    webspeech: webSpeechAdapter(speech, language),
+    scribe: scribeAdapter(realtime, language),
+    gemini: geminiAdapter(ambient, patientId, language),
+    mock: mockAdapter(mock),
+  };
+
+  // Latest values for callbacks that outlive the render they were created in
+  const adaptersRef = useRef(adapters);
+  adaptersRef.current = adapters;
+  const activeIdRef = useRef<TranscriptionProviderId | null>(null);
+  const carriedRef = useRef<TranscriptionResult>(EMPTY_RESULT);
+  const chainRef = useRef<TranscriptionProviderId[]>([]);
+  const isFailingOverRef = useRef(false);
+  const isCapturingRef = useRef(false); // Audio is captured here rather than by the first provider
+  const providerAudioRef = useRef<Blob | null>(null); // Full-length audio from the first provider
+  const startedAtRef = useRef(0);
+  const offsetRef = useRef(0);
+
+  const chain = useMemo(
+    () => buildFallbackChain(mode, preferences.preferredProvider),
+    [mode, preferences.preferredProvider]
+  );
+
+  const setActive = useCallback((id: TranscriptionProviderId | null) => {
+    activeIdRef.current = id;
+    setActiveId(id);
+  }, []);
+
+  const setCarriedResult = useCallback((result: TranscriptionResult) => {
+    carriedRef.current = result;
+    setCarried(result);
+  }, []);
+
+  const setOffset = useCallback((offset: number) => {
+    offsetRef.current = offset;
+    setOffsetMs(offset);
+  }, []);
+
+  // Provider timings start at zero; place them on the recording's timeline
+  const toRecordingTime = (result: TranscriptionResult): TranscriptionResult => ({
+    ...result,
+    speakerSegments: shiftSegments(result.speakerSegments, offsetRef.current),
+  });
+
+  // Start the first provider from `position` in the chain that is supported and connects
+  const startFrom = useCallback(async (position: number): Promise<boolean> => {
+    const providers = chainRef.current;
+
+    for (let i = position; i < providers.length; i++) {
+      const adapter = adaptersRef.current[providers[i]];
+      if (!adapter.isSupported) continue;
+
+      console.log('[Transcription] Starting provider:', adapter.id);
+      setActive(adapter.id);
+      setOffset(Date.now() - startedAtRef.current);
+      if (await adapter.start()) return true;
+
+      console.warn('[Transcription] Provider failed to start:', adapter.id);
+    }
+
+    setActive(null);
+    return false;
+  }, [setActive, setOffset]);
+
+  const start = useCallback(async (): Promise<boolean> => {
+    chainRef.current = chain;
+    setError(null);
+    setCarriedResult(EMPTY_RESULT);
+    setIsStarting(true);
+
+    // A first provider that records the encounter itself is not doubled with a second capture
+    const firstId = chain.find(id => adaptersRef.current[id].isSupported);
+    isCapturingRef.current = mode === 'ambient' && !!firstId && !adaptersRef.current[firstId].recordsAudio;
+    providerAudioRef.current = null;
+    if (isCapturingRef.current) await startCapture();
+    startedAtRef.current = Date.now();
+
+    const started = await startFrom(0);
+
+    setIsStarting(false);
+    setIsActive(started);
+    if (!started) {
+      setError(NO_PROVIDER_ERROR);
+      resetCapture();
+    }
+    return started;
+  }, [chain, mode, startCapture, resetCapture, startFrom, setCarriedResult]);
+
+  const stop = useCallback(async (): Promise<TranscriptionResult> => {
+    setIsActive(false);
+
+    const id = activeIdRef.current;
+    const final = id ? toRecordingTime(await adaptersRef.current[id].stop()) : null;
+    const result = final ? appendResult(carriedRef.current, final) : carriedRef.current;
+
+    if (mode !== 'ambient') return result;
+    const audio = isCapturingRef.current ? await stopCapture() : providerAudioRef.current ?? final?.audio ?? null;
+    return { ...result, audio };
+  }, [mode, stopCapture]);
+
+  // Hand the recording over to the next provider in the chain, keeping what was captured
+  const failover = useCallback(async (failedId: TranscriptionProviderId) => {
+    if (isFailingOverRef.current) return;
+    isFailingOverRef.current = true;
+
+    const failed = adaptersRef.current[failedId];
+    console.warn('[Transcription] Provider failed mid-recording, falling back:', failedId, failed.error?.message);
+
+    // The recording goes on with another provider, so its crash-recovery copy has to survive
+    const partial = toRecordingTime(await failed.stop());
+    failed.reset({ keepRecovery: true });
+    // Audio recorded by the first provider covers the encounter up to this point only
+    if (!isCapturingRef.current && !providerAudioRef.current) providerAudioRef.current = partial.audio ?? null;
+    setCarriedResult(appendResult(carriedRef.current, partial));
+
+    const resumed = await startFrom(chainRef.current.indexOf(failedId) + 1);
+    if (!resumed) {
+      setIsActive(false);
+      setError(failed.error || NO_PROVIDER_ERROR);
+    }
+
+    isFailingOverRef.current = false;
+  }, [startFrom, setCarriedResult]);
+
+  const active = activeId ? adapters[activeId] : null;
+  const activeErrorMessage = active?.error?.message ?? null;
+
+  useEffect(() => {
+    if (isActive && activeId && activeErrorMessage) {
+      failover(activeId);
+    }
+  }, [isActive, activeId, activeErrorMessage, failover]);
+
+  const clear = useCallback(() => {
+    const id = activeIdRef.current;
+    if (id) adaptersRef.current[id].reset();
+    resetCapture();
+    providerAudioRef.current = null;
+    setActive(null);
+    setCarriedResult(EMPTY_RESULT);
+    setError(null);
+  }, [resetCapture, setActive, setCarriedResult]);
+
+  const { clearError: clearSpeechError } = speech;
+  const clearError = useCallback(() => {
+    setError(null);
+    clearSpeechError();
+  }, [clearSpeechError]);
+
+  const transcript = joinText(carried.transcript, active?.transcript || '');
+  const rawTranscript = joinText(carried.rawTranscript ?? carried.transcript, active?.rawTranscript || '');
+  const interim = active?.interim || '';
+
+  return {
+    isSupported: chain.some(id => adapters[id].isSupported),
+    isRecording: isActive,
+    isStarting: isStarting || !!active?.isStarting,
+    transcript,
+    rawTranscript,
+    interim,
+    liveTranscript: joinText(transcript, interim),
+    speakerSegments: [...carried.speakerSegments, ...shiftSegments(active?.speakerSegments || [], offsetMs)],
+    hasRecentCorrections: !!active?.hasRecentCorrections,
+    isRefining: !!active?.isRefining,
+    inputLevel: isActive ? active?.inputLevel ?? null : null,
+    noInputWarning: isActive && !!active?.noInputWarning,
+    error: error || (isActive ? active?.error ?? null : null),
+    permissionState: speech.permissionState,
+    start,
+    stop,
+    clear,
+    clearError,
+  };
+}
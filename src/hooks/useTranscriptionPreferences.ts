@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { TRANSCRIPTION_PROVIDERS, TranscriptionProviderPreference } from '@/services/transcription';
+
+export interface TranscriptionPreferences {
+  preferredProvider: TranscriptionProviderPreference;
+}
+
+export const DEFAULT_TRANSCRIPTION_PREFERENCES: TranscriptionPreferences = {
+  preferredProvider: 'auto',
+};
+
+const isProviderPreference = (value: unknown): value is TranscriptionProviderPreference =>
+  value === 'auto' || (typeof value === 'string' && value in TRANSCRIPTION_PROVIDERS);
+
+export default function useTranscriptionPreferences() {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<TranscriptionPreferences>(DEFAULT_TRANSCRIPTION_PREFERENCES);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Load preferences from profiles table
+  useEffect(() => {
+    const loadPreferences = async () => {
+      if (!user) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('preferences')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (error) {
+          console.error('Error loading transcription preferences:', error);
+        } else if (data?.preferences) {
+          const stored = data.preferences as Record<string, unknown>;
+          const transcription = stored.transcription as Partial<TranscriptionPreferences> | undefined;
+          if (transcription && isProviderPreference(transcription.preferredProvider)) {
+            setPreferences({ preferredProvider: transcription.preferredProvider });
+          }
+        }
+      } catch (e) {
+        console.error('Failed to load transcription preferences:', e);
+      }
+      setLoading(false);
+    };
+
+    loadPreferences();
+  }, [user]);
+
+  // Save preferences to profiles table, keeping the other preference groups intact
+  const savePreferences = useCallback(async (newPreferences: TranscriptionPreferences) => {
+    if (!user) return false;
+
+    setSaving(true);
+    try {
+      const { data: existingData } = await supabase
+        .from('profiles')
+        .select('preferences')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      const existingPrefs = (existingData?.preferences as Record<string, unknown>) || {};
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          preferences: {
+            ...existingPrefs,
+            transcription: { preferredProvider: newPreferences.preferredProvider },
+          },
+        })
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error saving transcription preferences:', error);
+        setSaving(false);
+        return false;
+      }
+
+      setPreferences(newPreferences);
+      setSaving(false);
+      return true;
+    } catch (e) {
+      console.error('Failed to save transcription preferences:', e);
+      setSaving(false);
+      return false;
+    }
+  }, [user]);
+
+  return {
+    preferences,
+    loading,
+    saving,
+    savePreferences,
+  };
+}
@@ -0,0 +1,28 @@
+import { useMemo, useRef, useEffect } from 'react';
+import { parseVoiceCommands, VoiceCommand } from '@/lib/voiceCommands';
+
+/**
+ * Runs voice commands found in a growing dictation transcript.
+ * Returns the transcript with commands stripped; each action is dispatched
+ * once, when it first appears. A shorter command list (e.g. after the
+ * transcript is cleared) starts counting again.
+ */
+export default function useVoiceCommands(transcript: string, onCommand: (command: VoiceCommand) => void) {
+  const parsed = useMemo(() => parseVoiceCommands(transcript), [transcript]);
+
+  const dispatchedRef = useRef(0);
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+
+  useEffect(() => {
+    if (parsed.commands.length < dispatchedRef.current) dispatchedRef.current = 0;
+
+    parsed.commands.slice(dispatchedRef.current).forEach(command => {
+      console.log('[VoiceCommands] Dispatching:', command.action);
+      onCommandRef.current(command);
+    });
+    dispatchedRef.current = parsed.commands.length;
+  }, [parsed]);
+
+  return parsed.text;
+}
@@ -20,12 +20,16 @@ export type Database = {
           completion_tokens: number | null
           confidence_scores: Json | null
           created_at: string | null
+          error_message: string | null
+          function_name: string | null
           generation_time_ms: number | null
           id: string
           model_used: string | null
           note_id: string | null
           prompt_tokens: number | null
+          provider: string | null
           reasoning: Json | null
+          status: string
           user_id: string
         }
         Insert: {
@@ -33,12 +37,16 @@ export type Database = {
           completion_tokens?: number | null
           confidence_scores?: Json | null
           created_at?: string | null
+          error_message?: string | null
+          function_name?: string | null
           generation_time_ms?: number | null
           id?: string
           model_used?: string | null
           note_id?: string | null
           prompt_tokens?: number | null
+          provider?: string | null
           reasoning?: Json | null
+          status?: string
           user_id: string
         }
         Update: {
@@ -46,12 +54,16 @@ export type Database = {
           completion_tokens?: number | null
           confidence_scores?: Json | null
           created_at?: string | null
+          error_message?: string | null
+          function_name?: string | null
           generation_time_ms?: number | null
           id?: string
           model_used?: string | null
           note_id?: string | null
           prompt_tokens?: number | null
+          provider?: string | null
           reasoning?: Json | null
+          status?: string
           user_id?: string
         }
         Relationships: [
@@ -211,6 +223,7 @@ export type Database = {
           facility: string | null
           id: string
           modifiers: string[] | null
+          note_id: string | null
           patient_dob: string | null
           patient_mrn: string | null
           patient_name: string
@@ -229,6 +242,7 @@ export type Database = {
           facility?: string | null
           id?: string
           modifiers?: string[] | null
+          note_id?: string | null
           patient_dob?: string | null
           patient_mrn?: string | null
           patient_name: string
@@ -247,6 +261,7 @@ export type Database = {
           facility?: string | null
           id?: string
           modifiers?: string[] | null
+          note_id?: string | null
           patient_dob?: string | null
           patient_mrn?: string | null
           patient_name?: string
@@ -256,71 +271,206 @@ export type Database = {
           updated_at?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "bills_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "clinical_notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clinical_note_addenda: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          note_id: string
+          signature_attestation: string
+          signed_at: string
+          signer_name: string
+          signer_npi: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          note_id: string
+          signature_attestation: string
+          signed_at?: string
+          signer_name: string
+          signer_npi: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          note_id?: string
+          signature_attestation?: string
+          signed_at?: string
+          signer_name?: string
+          signer_npi?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clinical_note_addenda_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "clinical_notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clinical_note_versions: {
+        Row: {
+          content: string
+          created_at: string
+          created_by: string | null
+          id: string
+          note_id: string
+          source: string
+          version_number: number
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note_id: string
+          source: string
+          version_number: number
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note_id?: string
+          source?: string
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clinical_note_versions_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "clinical_notes"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       clinical_notes: {
         Row: {
           ai_confidence: Json | null
           assessment: string | null
+          audio_path: string | null
           body_part: string | null
           chief_complaint: string | null
           clinical_indication: string | null
           comparison_studies: string | null
           created_at: string
+          edit_source: string | null
           generated_note: string | null
           hpi: string | null
           id: string
+          interpreter_used: boolean
           modality: string | null
           note_type: Database["public"]["Enums"]["note_type"]
           patient_id: string | null
           plan: string | null
+          raw_transcript: string | null
+          signature_attestation: string | null
+          signed_at: string | null
+          signed_by: string | null
+          signer_name: string | null
+          signer_npi: string | null
+          source_language: string
+          status: string
           structured_category: string | null
+          structured_data: Json | null
           technique: string | null
           transcript: string | null
+          transcript_corrections: Json | null
+          transcript_segments: Json | null
           updated_at: string
           user_id: string
+          verification: Json | null
         }
         Insert: {
           ai_confidence?: Json | null
           assessment?: string | null
+          audio_path?: string | null
           body_part?: string | null
           chief_complaint?: string | null
           clinical_indication?: string | null
           comparison_studies?: string | null
           created_at?: string
+          edit_source?: string | null
           generated_note?: string | null
           hpi?: string | null
           id?: string
+          interpreter_used?: boolean
           modality?: string | null
           note_type?: Database["public"]["Enums"]["note_type"]
           patient_id?: string | null
           plan?: string | null
+          raw_transcript?: string | null
+          signature_attestation?: string | null
+          signed_at?: string | null
+          signed_by?: string | null
+          signer_name?: string | null
+          signer_npi?: string | null
+          source_language?: string
+          status?: string
           structured_category?: string | null
+          structured_data?: Json | null
           technique?: string | null
           transcript?: string | null
+          transcript_corrections?: Json | null
+          transcript_segments?: Json | null
           updated_at?: string
           user_id: string
+          verification?: Json | null
         }
         Update: {
           ai_confidence?: Json | null
           assessment?: string | null
+          audio_path?: string | null
           body_part?: string | null
           chief_complaint?: string | null
           clinical_indication?: string | null
           comparison_studies?: string | null
           created_at?: string
+          edit_source?: string | null
           generated_note?: string | null
           hpi?: string | null
           id?: string
+          interpreter_used?: boolean
           modality?: string | null
           note_type?: Database["public"]["Enums"]["note_type"]
           patient_id?: string | null
           plan?: string | null
+          raw_transcript?: string | null
+          signature_attestation?: string | null
+          signed_at?: string | null
+          signed_by?: string | null
+          signer_name?: string | null
+          signer_npi?: string | null
+          source_language?: string
+          status?: string
           structured_category?: string | null
+          structured_data?: Json | null
           technique?: string | null
           transcript?: string | null
+          transcript_corrections?: Json | null
+          transcript_segments?: Json | null
           updated_at?: string
           user_id?: string
+          verification?: Json | null
         }
         Relationships: [
           {
@@ -365,6 +515,91 @@ export type Database = {
         }
         Relationships: []
       }
+      medical_dictionary_entries: {
+        Row: {
+          corrected: string
+          created_at: string
+          heard: string
+          id: string
+          practice_id: string | null
+          source: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          corrected: string
+          created_at?: string
+          heard: string
+          id?: string
+          practice_id?: string | null
+          source?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          corrected?: string
+          created_at?: string
+          heard?: string
+          id?: string
+          practice_id?: string | null
+          source?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "medical_dictionary_entries_practice_id_fkey"
+            columns: ["practice_id"]
+            isOneToOne: false
+            referencedRelation: "practices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_templates: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          note_type: string | null
+          practice_id: string | null
+          sections: Json
+          specialty: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          note_type?: string | null
+          practice_id?: string | null
+          sections?: Json
+          specialty?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          note_type?: string | null
+          practice_id?: string | null
+          sections?: Json
+          specialty?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_templates_practice_id_fkey"
+            columns: ["practice_id"]
+            isOneToOne: false
+            referencedRelation: "practices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       patient_summaries: {
         Row: {
           active_medications: Json | null
@@ -414,6 +649,7 @@ export type Database = {
       }
       patients: {
         Row: {
+          admitted_at: string
           allergies: string[] | null
           created_at: string
           diagnosis: string | null
@@ -435,6 +671,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          admitted_at?: string
           allergies?: string[] | null
           created_at?: string
           diagnosis?: string | null
@@ -456,6 +693,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          admitted_at?: string
           allergies?: string[] | null
           created_at?: string
           diagnosis?: string | null
@@ -486,6 +724,62 @@ export type Database = {
           },
         ]
       }
+      practice_members: {
+        Row: {
+          created_at: string
+          id: string
+          practice_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          practice_id: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          practice_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "practice_members_practice_id_fkey"
+            columns: ["practice_id"]
+            isOneToOne: false
+            referencedRelation: "practices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      practices: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
@@ -519,6 +813,47 @@ export type Database = {
         }
         Relationships: []
       }
+      smart_phrases: {
+        Row: {
+          content: string
+          created_at: string
+          description: string | null
+          id: string
+          practice_id: string | null
+          trigger: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          practice_id?: string | null
+          trigger: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          practice_id?: string | null
+          trigger?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "smart_phrases_practice_id_fkey"
+            columns: ["practice_id"]
+            isOneToOne: false
+            referencedRelation: "practices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           id: string
@@ -575,6 +910,45 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_clinical_note_addendum: {
+        Args: { _content: string; _note_id: string }
+        Returns: {
+          content: string
+          created_at: string
+          id: string
+          note_id: string
+          signature_attestation: string
+          signed_at: string
+          signer_name: string
+          signer_npi: string
+          user_id: string
+        }
+      }
+      ai_usage_by_day: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          calls: number
+          day: string
+          failures: number
+          p50_ms: number
+          p95_ms: number
+          tokens: number
+        }[]
+      }
+      ai_usage_by_model: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          calls: number
+          completion_tokens: number
+          failures: number
+          function_name: string
+          model_used: string
+          p50_ms: number
+          p95_ms: number
+          prompt_tokens: number
+          provider: string
+        }[]
+      }
       deny_audit_modification: { Args: never; Returns: boolean }
       get_user_sessions_secure: {
         Args: never
@@ -596,6 +970,36 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_practice_admin: {
+        Args: { _practice_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_practice_member: {
+        Args: { _practice_id: string; _user_id: string }
+        Returns: boolean
+      }
+      link_ai_generations: {
+        Args: { _generation_ids: string[]; _note_id: string }
+        Returns: number
+      }
+      record_clinical_note_version: {
+        Args: {
+          _content: string
+          _fallback_user: string
+          _note_id: string
+          _source: string
+        }
+        Returns: undefined
+      }
+      signature_attestation: {
+        Args: {
+          _is_addendum: boolean
+          _name: string
+          _npi: string
+          _signed_at: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       app_role: "admin" | "provider" | "user"
@@ -603,6 +1007,7 @@ export type Database = {
         | "hp"
         | "consult"
         | "progress"
+        | "discharge"
         | "xray"
         | "ct"
         | "mri"
@@ -741,6 +1146,7 @@ export const Constants = {
         "hp",
         "consult",
         "progress",
+        "discharge",
         "xray",
         "ct",
         "mri",
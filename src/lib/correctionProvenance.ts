@@ -0,0 +1,108 @@
+import { applyInstantCorrections } from '@/data/medicalDictionary';
+import { diffWords } from '@/lib/wordDiff';
+
+/**
+ * Tracks which words the correction passes rewrote, so the clinician can
+ * review each substitution and undo the ones that are wrong.
+ */
+
+export type CorrectionSource = 'dictionary' | 'ai';
+
+export type CorrectionStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface TranscriptCorrection {
+  id: string;
+  original: string;  // As transcribed
+  corrected: string; // As the correction pass rewrote it
+  source: CorrectionSource;
+  status: CorrectionStatus;
+  at: number; // Offset in the transcript of the text currently shown for this correction
+}
+
+// Dictionary fixes are reproducible locally; anything else came from the AI pass
+const sourceOf = (original: string, corrected: string): CorrectionSource =>
+  applyInstantCorrections(original).correctedText === corrected ? 'dictionary' : 'ai';
+
+/**
+ * The substitutions that turned `raw` into `corrected`, all pending review.
+ * Insertions and deletions are left out; correction passes only replace words.
+ */
+export function detectCorrections(raw: string, corrected: string): TranscriptCorrection[] {
+  if (!raw.trim() || raw === corrected) return [];
+
+  return diffWords(raw, corrected)
+    .filter(({ removed, added }) => removed.length > 0 && added.length > 0)
+    .map(({ removed, added }, i) => {
+      const original = raw.slice(removed[0].start, removed[removed.length - 1].end);
+      const replacement = corrected.slice(added[0].start, added[added.length - 1].end);
+      return {
+        id: `c${i}`,
+        original,
+        corrected: replacement,
+        source: sourceOf(original, replacement),
+        status: 'pending' as const,
+        at: added[0].start,
+      };
+    });
+}
+
+const shownText = (correction: TranscriptCorrection): string =>
+  correction.status === 'rejected' ? correction.original : correction.corrected;
+
+// Where a correction's text is now, allowing for edits made since it was recorded
+function locate(text: string, correction: TranscriptCorrection): number {
+  const shown = shownText(correction);
+  if (text.slice(correction.at, correction.at + shown.length) === shown) return correction.at;
+
+  let nearest = -1;
+  for (let i = text.indexOf(shown); i !== -1; i = text.indexOf(shown, i + 1)) {
+    if (nearest === -1 || Math.abs(i - correction.at) < Math.abs(nearest - correction.at)) nearest = i;
+  }
+  return nearest;
+}
+
+/**
+ * Accept, reject (restore the original words) or re-apply one correction.
+ * Returns the updated transcript and corrections; unchanged when the
+ * correction's text can no longer be found in the transcript.
+ */
+export function setCorrectionStatus(
+  text: string,
+  corrections: TranscriptCorrection[],
+  id: string,
+  status: CorrectionStatus
+): { text: string; corrections: TranscriptCorrection[] } {
+  const correction = corrections.find(c => c.id === id);
+  if (!correction || correction.status === status) return { text, corrections };
+
+  const before = shownText(correction);
+  const after = status === 'rejected' ? correction.original : correction.corrected;
+
+  if (before === after) {
+    return { text, corrections: corrections.map(c => c.id === id ? { ...c, status } : c) };
+  }
+
+  const position = locate(text, correction);
+  if (position === -1) return { text, corrections };
+
+  const delta = after.length - before.length;
+  return {
+    text: text.slice(0, position) + after + text.slice(position + before.length),
+    corrections: corrections.map(c => {
+      if (c.id === id) return { ...c, status, at: position };
+      return c.at > position ? { ...c, at: c.at + delta } : c;
+    }),
+  };
+}
+
+// Apply one status to every correction, e.g. bulk revert
+export function setAllCorrectionStatuses(
+  text: string,
+  corrections: TranscriptCorrection[],
+  status: CorrectionStatus
+): { text: string; corrections: TranscriptCorrection[] } {
+  return corrections.reduce(
+    (result, correction) => setCorrectionStatus(result.text, result.corrections, correction.id, status),
+    { text, corrections }
+  );
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { findWordReplacements } from './dictionaryLearning';
+
+describe('findWordReplacements', () => {
+  it('finds a single mis-heard word', () => {
+    expect(findWordReplacements(
+      'started metaprole 25 mg twice daily',
+      'started metoprolol 25 mg twice daily',
+    )).toEqual([{ heard: 'metaprole', corrected: 'metoprolol' }]);
+  });
+
+  it('finds a phrase heard as several words', () => {
+    expect(findWordReplacements(
+      'continue metro pole for rate control',
+      'continue metoprolol for rate control',
+    )).toEqual([{ heard: 'metro pole', corrected: 'metoprolol' }]);
+  });
+
+  it('strips punctuation from the learned words', () => {
+    expect(findWordReplacements('given lasiks, then reassessed', 'given Lasix, then reassessed'))
+      .toEqual([{ heard: 'lasiks', corrected: 'Lasix' }]);
+  });
+
+  it('ignores insertions, deletions and case-only changes', () => {
+    expect(findWordReplacements('patient denies pain', 'patient denies chest pain')).toEqual([]);
+    expect(findWordReplacements('patient denies chest pain', 'patient denies pain')).toEqual([]);
+    expect(findWordReplacements('history of copd', 'history of COPD')).toEqual([]);
+  });
+
+  it('ignores short typo fixes and long rewrites', () => {
+    expect(findWordReplacements('bp is ok today', 'bp is up today')).toEqual([]);
+    expect(findWordReplacements(
+      'plan: watch closely overnight with serial exams then call',
+      'plan: start heparin drip, repeat troponin then call',
+    )).toEqual([]);
+  });
+});
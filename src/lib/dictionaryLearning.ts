@@ -0,0 +1,39 @@
+import { diffWords, WordToken } from '@/lib/wordDiff';
+
+/**
+ * Detects word-level fixes a clinician makes to a machine transcript, so
+ * repeated fixes can be proposed as medical dictionary entries.
+ */
+
+// Longest phrase treated as one replacement ("metro pole" → "metoprolol")
+const MAX_PHRASE_WORDS = 3;
+
+// Shortest replacement worth learning; shorter edits are usually typo fixes
+const MIN_HEARD_CHARS = 3;
+
+export interface WordReplacement {
+  heard: string;
+  corrected: string;
+}
+
+// Strip punctuation from word edges so "metaprole," still matches "metaprole"
+const cleanWord = (word: string): string => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+const joinWords = (words: WordToken[]): string => words.map(w => cleanWord(w.text)).filter(Boolean).join(' ');
+
+/**
+ * Find the short phrases that were replaced between `before` and `after`.
+ * Pure insertions, deletions, case-only changes and rewrites longer than
+ * MAX_PHRASE_WORDS are ignored.
+ */
+export function findWordReplacements(before: string, after: string): WordReplacement[] {
+  return diffWords(before, after)
+    .filter(({ removed, added }) =>
+      removed.length > 0 && added.length > 0 &&
+      removed.length <= MAX_PHRASE_WORDS && added.length <= MAX_PHRASE_WORDS
+    )
+    .map(({ removed, added }) => ({ heard: joinWords(removed), corrected: joinWords(added) }))
+    .filter(({ heard, corrected }) =>
+      heard.length >= MIN_HEARD_CHARS && corrected && heard.toLowerCase() !== corrected.toLowerCase()
+    );
+}
@@ -1,4 +1,5 @@
 // Export generated notes to text file for desktop transfer
+import type { StructuredClinicalData } from '@/types/medical';
 
 export interface NoteExport {
   patientName?: string;
@@ -7,8 +8,60 @@ export interface NoteExport {
   dateGenerated: string;
   transcript: string;
   generatedNote: string;
+  signature?: string; // Attestation of a signed note
+  addenda?: string[]; // Signed addenda, oldest first
+  structuredData?: StructuredClinicalData | null; // Extracted vitals, labs, meds, allergies and problems
 }
 
+// Attestation and addenda follow the note they belong to
+const signatureBlock = (note: NoteExport): string =>
+  [note.signature, ...(note.addenda || [])]
+    .filter(Boolean)
+    .map(text => `\n\n${text}`)
+    .join('');
+
+// Extracted data as plain-text lists; empty when nothing was extracted
+const structuredDataBlock = (data: StructuredClinicalData | null | undefined): string => {
+  if (!data) return '';
+  const join = (parts: Array<string | number | undefined>) => parts.filter(part => part !== undefined && part !== '').join(' ');
+  const lines: string[] = [];
+
+  if (data.vitals) {
+    const v = data.vitals;
+    const vitals = [
+      v.bloodPressure && `BP ${v.bloodPressure}`,
+      v.heartRate !== undefined && `HR ${v.heartRate}`,
+      v.respiratoryRate !== undefined && `RR ${v.respiratoryRate}`,
+      v.temperature !== undefined && `T ${v.temperature}${v.temperatureUnit || ''}`,
+      v.oxygenSaturation !== undefined && `SpO2 ${v.oxygenSaturation}%${v.oxygenSupport ? ` on ${v.oxygenSupport}` : ''}`,
+      v.weight !== undefined && `Wt ${v.weight} ${v.weightUnit || ''}`.trim(),
+      v.painScore !== undefined && `Pain ${v.painScore}/10`,
+    ].filter(Boolean);
+    if (vitals.length) lines.push(`Vitals: ${vitals.join(', ')}`);
+  }
+  if (data.labs.length) {
+    lines.push('Labs:', ...data.labs.map(lab => `- ${join([lab.name, lab.value, lab.unit, lab.flag && `(${lab.flag})`])}`));
+  }
+  if (data.medications.length) {
+    lines.push('Medications:', ...data.medications.map(med => `- ${join([med.name, med.dose, med.route, med.frequency])}${med.status !== 'active' ? ` [${med.status}]` : ''}`));
+  }
+  if (data.allergies.length) {
+    lines.push('Allergies:', ...data.allergies.map(allergy => `- ${allergy.substance}${allergy.reaction ? ` (${allergy.reaction})` : ''}`));
+  }
+  if (data.problems.length) {
+    lines.push('Problems:', ...data.problems.map(problem => `- ${join([problem.description, problem.icd10 && `[${problem.icd10}]`])}${problem.status !== 'active' ? ` (${problem.status})` : ''}`));
+  }
+  if (!lines.length) return '';
+
+  return `
+
+================================================================================
+                            STRUCTURED DATA
+================================================================================
+
+${lines.join('\n')}`;
+};
+
 export function exportNoteToText(note: NoteExport): void {
   const timestamp = new Date().toLocaleString();
   const filename = `clinical-note-${note.patientName?.replace(/\s+/g, '-') || 'unknown'}-${new Date().toISOString().split('T')[0]}.txt`;
@@ -34,7 +87,7 @@ ${note.transcript || 'No transcript available'}
                             GENERATED NOTE
 ================================================================================
 
-${note.generatedNote}
+${note.generatedNote}${signatureBlock(note)}${structuredDataBlock(note.structuredData)}
 
 ================================================================================
                         END OF CLINICAL NOTE
@@ -77,7 +130,7 @@ CLINICAL NOTE - ${note.noteType}
 Patient: ${note.patientName || 'N/A'} | MRN: ${note.mrn || 'N/A'}
 Date: ${note.dateGenerated}
 
-${note.generatedNote}
+${note.generatedNote}${signatureBlock(note)}
 `.trim();
 
   return navigator.clipboard.writeText(content);
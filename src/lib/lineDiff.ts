@@ -0,0 +1,104 @@
+import { diffWords } from '@/lib/wordDiff';
+
+/**
+ * Line-level comparison of two versions of a note, laid out as the rows of a
+ * side-by-side view. Changed lines carry the words that differ so the viewer
+ * can highlight them.
+ */
+
+export type DiffRowType = 'same' | 'removed' | 'added' | 'changed';
+
+export interface DiffSegment {
+  text: string;
+  changed: boolean;
+}
+
+export interface DiffRow {
+  type: DiffRowType;
+  left: DiffSegment[] | null;  // null when the line only exists on the right
+  right: DiffSegment[] | null; // null when the line only exists on the left
+  leftNumber: number | null;   // 1-based line numbers
+  rightNumber: number | null;
+}
+
+// Split `text` into segments, marking the character ranges in `ranges`
+function markRanges(text: string, ranges: Array<{ start: number; end: number }>): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  let position = 0;
+
+  for (const range of ranges) {
+    if (range.start > position) segments.push({ text: text.slice(position, range.start), changed: false });
+    segments.push({ text: text.slice(range.start, range.end), changed: true });
+    position = range.end;
+  }
+  if (position < text.length) segments.push({ text: text.slice(position), changed: false });
+
+  return segments;
+}
+
+// Highlight the words that differ between a pair of lines; the whole line when they cannot be aligned
+function diffLinePair(before: string, after: string): Pick<DiffRow, 'left' | 'right'> {
+  const changes = diffWords(before, after);
+  if (changes.length === 0) {
+    return { left: [{ text: before, changed: true }], right: [{ text: after, changed: true }] };
+  }
+
+  return {
+    left: markRanges(before, changes.flatMap(change => change.removed)),
+    right: markRanges(after, changes.flatMap(change => change.added)),
+  };
+}
+
+/**
+ * Compare `before` and `after` line by line (longest common subsequence).
+ * Runs of removed lines followed by added lines are paired up as changed rows.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j]: length of the common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      if (k < paired) {
+        rows.push({ type: 'changed', ...diffLinePair(a[removed[k]], b[added[k]]), leftNumber: removed[k] + 1, rightNumber: added[k] + 1 });
+      } else if (k < removed.length) {
+        rows.push({ type: 'removed', left: [{ text: a[removed[k]], changed: true }], right: null, leftNumber: removed[k] + 1, rightNumber: null });
+      } else {
+        rows.push({ type: 'added', left: null, right: [{ text: b[added[k]], changed: true }], leftNumber: null, rightNumber: added[k] + 1 });
+      }
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ type: 'same', left: [{ text: a[i], changed: false }], right: [{ text: b[j], changed: false }], leftNumber: i + 1, rightNumber: j + 1 });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(i++);
+    } else {
+      added.push(j++);
+    }
+  }
+  flush();
+
+  return rows;
+}
@@ -0,0 +1,92 @@
+import type { Json } from '@/integrations/supabase/types';
+
+/**
+ * Note templates: clinician-designed section lists used instead of the fixed
+ * SOAP sections when the note format is "custom". A template can be limited
+ * to one note type and/or specialty; the most specific match is used.
+ */
+
+export interface TemplateSection {
+  heading: string;
+  instructions: string; // What the model should document under the heading
+  required: boolean; // Always written, even when the transcript has nothing for it
+}
+
+export type TemplateNoteType = 'hp' | 'consult' | 'progress';
+
+// Note type ids as stored, with the labels the note type pills use
+export const TEMPLATE_NOTE_TYPES: Record<TemplateNoteType, string> = {
+  hp: 'H&P',
+  consult: 'Consult',
+  progress: 'Progress',
+};
+
+// Template as sent with the note preferences for generation
+export interface ResolvedNoteTemplate {
+  name: string;
+  sections: TemplateSection[];
+}
+
+interface MatchableTemplate extends ResolvedNoteTemplate {
+  noteType: TemplateNoteType | null;
+  specialty: string | null;
+  scope: 'personal' | 'practice';
+}
+
+export const DEFAULT_TEMPLATE_SECTIONS: TemplateSection[] = [
+  { heading: 'SUBJECTIVE', instructions: 'Chief complaint, HPI, ROS, PMH, medications, allergies', required: true },
+  { heading: 'OBJECTIVE', instructions: 'Vitals, physical exam, labs and imaging', required: true },
+  { heading: 'ASSESSMENT', instructions: 'Primary diagnosis with ICD-10 code, differentials, problem list', required: true },
+  { heading: 'PLAN', instructions: 'Treatment, medications with dosage, follow-up, referrals', required: true },
+];
+
+// Stored sections are JSON; drop anything that is not a usable section
+export function parseTemplateSections(json: Json | null): TemplateSection[] {
+  if (!Array.isArray(json)) return [];
+  return json.flatMap(item => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+    const heading = typeof item.heading === 'string' ? item.heading.trim() : '';
+    if (!heading) return [];
+    return [{
+      heading,
+      instructions: typeof item.instructions === 'string' ? item.instructions.trim() : '',
+      required: item.required === true,
+    }];
+  });
+}
+
+// Accepts either the stored id ("hp") or the pill label ("H&P")
+export function toTemplateNoteType(noteType: string): TemplateNoteType | null {
+  if (noteType in TEMPLATE_NOTE_TYPES) return noteType as TemplateNoteType;
+  const match = Object.entries(TEMPLATE_NOTE_TYPES).find(([, label]) => label === noteType);
+  return match ? match[0] as TemplateNoteType : null;
+}
+
+/**
+ * The template to use for a note: templates for another note type or specialty
+ * never match; among the rest a matching note type beats a matching specialty,
+ * and a personal template beats a practice one.
+ */
+export function selectNoteTemplate<T extends MatchableTemplate>(
+  templates: T[],
+  noteType: string,
+  specialty: string | null
+): T | null {
+  const type = toTemplateNoteType(noteType);
+  let best: T | null = null;
+  let bestScore = -1;
+
+  for (const template of templates) {
+    if (template.sections.length === 0) continue;
+    if (template.noteType && template.noteType !== type) continue;
+    if (template.specialty && template.specialty !== specialty) continue;
+
+    const score = (template.noteType ? 4 : 0) + (template.specialty ? 2 : 0) + (template.scope === 'personal' ? 1 : 0);
+    if (score > bestScore) {
+      best = template;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { confirmFlag, removeStatement, splitSentences, unresolvedFlags, verifyNote } from './noteVerification';
+
+const transcript = 'Patient reports chest pain for two days. Blood pressure 142 over 90. She takes lisinopril 10 mg daily. Denies shortness of breath.';
+
+describe('splitSentences', () => {
+  it('splits on sentence ends and lines but keeps decimals and codes whole', () => {
+    expect(splitSentences('Temp 38.5 today. Dx R07.9 chest pain.\n- Follow up')).toEqual([
+      'Temp 38.5 today.',
+      'Dx R07.9 chest pain.',
+      '- Follow up',
+    ]);
+  });
+});
+
+describe('verifyNote', () => {
+  it('does not flag statements the transcript supports', () => {
+    const verification = verifyNote([
+      { title: 'HPI', content: 'Patient reports chest pain for two days. Denies shortness of breath.' },
+      { title: 'Medications', content: 'Lisinopril 10 mg daily.' },
+    ], { transcript });
+
+    expect(verification.flags).toEqual([]);
+  });
+
+  it('flags values, medications and negatives that were never said', () => {
+    const { flags } = verifyNote([
+      { title: 'Vitals', content: 'Blood pressure 158 over 90.' },
+      { title: 'Medications', content: 'Takes lisinopril and atorvastatin daily.' },
+      { title: 'HPI', content: 'Patient reports chest pain, no nausea.' },
+    ], { transcript });
+
+    expect(flags.map(flag => flag.reasons)).toEqual([
+      ['Value not dictated: 158'],
+      ['Medication not mentioned: atorvastatin'],
+      ['Negative finding not stated in the transcript'],
+    ]);
+    expect(flags.every(flag => flag.status === 'unconfirmed')).toBe(true);
+  });
+
+  it('flags unsupported exam findings but not assessment reasoning', () => {
+    const { flags } = verifyNote([
+      { title: 'Physical Exam', content: 'Abdomen soft with active bowel sounds.' },
+      { title: 'Assessment and Plan', content: 'Likely musculoskeletal chest pain, will observe overnight.' },
+    ], { transcript });
+
+    expect(flags).toHaveLength(1);
+    expect(flags[0]).toMatchObject({ section: 'Physical Exam', reasons: ['Exam finding not dictated'] });
+  });
+
+  it('accepts values from the patient context', () => {
+    const { flags } = verifyNote(
+      [{ title: 'HPI', content: 'Known ejection fraction 35 percent.' }],
+      { transcript, context: ['Ejection fraction 35 percent on prior echo'] }
+    );
+    expect(flags).toEqual([]);
+  });
+
+  it('keeps statements confirmed in the previous verification confirmed', () => {
+    const sections = [{ title: 'Vitals', content: 'Blood pressure 158 over 90.' }];
+    const first = verifyNote(sections, { transcript });
+    const second = verifyNote(sections, { transcript }, confirmFlag(first, first.flags[0].id));
+    expect(second.flags[0].status).toBe('confirmed');
+  });
+});
+
+describe('unresolvedFlags', () => {
+  it('ignores confirmed flags and statements no longer in the note', () => {
+    const verification = verifyNote([
+      { title: 'Vitals', content: 'Blood pressure 158 over 90.' },
+      { title: 'Medications', content: 'Takes atorvastatin daily.' },
+    ], { transcript });
+    const confirmed = confirmFlag(verification, verification.flags[0].id);
+
+    expect(unresolvedFlags(confirmed, 'Blood pressure 158 over 90.\nTakes atorvastatin daily.')).toHaveLength(1);
+    expect(unresolvedFlags(confirmed, 'Blood pressure 158 over 90.')).toEqual([]);
+  });
+});
+
+describe('removeStatement', () => {
+  it('removes a sentence within a paragraph', () => {
+    expect(removeStatement('Chest pain. No nausea. Resting comfortably.', 'No nausea.'))
+      .toBe('Chest pain. Resting comfortably.');
+  });
+
+  it('leaves no empty bullet behind', () => {
+    expect(removeStatement('Plan:\n- Observe overnight\n- Start atorvastatin\n- Repeat ECG', 'Start atorvastatin'))
+      .toBe('Plan:\n- Observe overnight\n- Repeat ECG');
+  });
+
+  it('returns the note unchanged when the statement is gone', () => {
+    expect(removeStatement('Chest pain.', 'No nausea.')).toBe('Chest pain.');
+  });
+});
@@ -0,0 +1,147 @@
+import { findSupportingSegment } from '@/lib/transcriptTiming';
+import type { SpeakerSegment } from '@/types/medical';
+
+/**
+ * Cross-checks a generated note against what was actually said.
+ * Every statement is matched to the transcript utterance it most likely came
+ * from; statements with no source, and numbers, medications and negatives the
+ * transcript never mentions, are flagged for the clinician to confirm or remove
+ * before the note can be signed.
+ */
+
+export type VerificationFlagStatus = 'unconfirmed' | 'confirmed';
+
+export interface VerificationFlag {
+  id: string;
+  section: string;
+  statement: string;
+  reasons: string[];
+  source: string | null; // Closest transcript utterance, if any
+  status: VerificationFlagStatus;
+}
+
+// Stored in clinical_notes.verification
+export interface NoteVerification {
+  checkedAt: string;
+  flags: VerificationFlag[];
+}
+
+export interface VerificationSources {
+  transcript: string;
+  segments?: SpeakerSegment[] | null; // Speaker-labelled utterances, when the encounter was recorded ambiently
+  context?: string[]; // Other text the note may legitimately draw on: patient context, carry-forward baseline
+}
+
+// Note sentences, keeping headings and list items as their own lines. A sentence ends at
+// . ! or ? followed by a space, so decimals and codes like R07.9 stay whole
+export const splitSentences = (text: string): string[] =>
+  text
+    .split('\n')
+    .flatMap(line => line.split(/(?<=[.!?])\s+/))
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+
+// Sections the model writes from the clinician's reasoning rather than from dictated facts
+const SYNTHESIS_SECTION = /assessment|plan|impression|recommendation|mdm|medical decision|billing|risk/i;
+const EXAM_SECTION = /exam|objective|vital/i;
+
+const NEGATION = /\b(no|not|denies|denied|denying|negative|without|absent|none|unremarkable|nontender|non-tender)\b/i;
+
+// Common drug name endings; enough to catch medications the transcript never names
+const MEDICATION = /\b[a-z]{3,}(?:pril|sartan|olol|dipine|statin|azole|cillin|mycin|floxacin|cycline|parin|xaban|gatran|gliptin|gliflozin|glutide|formin|prazole|tidine|setron|pam|lam|codone|morphone|sone|olone|semide|thiazide|mab|nib|vir|afil|triptan|oxetine|aline|apine|idone)\b/gi;
+
+// Free-standing values; digits inside codes like I50.23 are not values
+const NUMBER = /(?<![A-Za-z\d.])\d+(?:\.\d+)?/g;
+
+// Headers, bullets and bare labels carry nothing to verify
+const isCheckable = (sentence: string): boolean =>
+  /[a-z]{3}/i.test(sentence.replace(/^[\s\-*•\d.)]+/, '')) && !/^\*\*Language:\*\*/.test(sentence) && !/:$/.test(sentence.trim());
+
+/**
+ * Flags for the statements in `sections` that the sources do not support.
+ * Pass the previous verification of the same note to keep statements the
+ * clinician already confirmed confirmed.
+ */
+export function verifyNote(
+  sections: Array<{ title: string; content: string }>,
+  sources: VerificationSources,
+  previous?: NoteVerification | null
+): NoteVerification {
+  const sourceTexts = [
+    ...(sources.segments?.length ? sources.segments.map(s => s.text) : splitSentences(sources.transcript)),
+    ...(sources.context || []).flatMap(splitSentences),
+  ];
+  const sourceSegments: SpeakerSegment[] = sourceTexts.map((text, i) => ({
+    id: `source-${i}`, speakerId: 'source', speaker: 'unknown', startMs: 0, endMs: 0, text,
+  }));
+
+  const everything = [sources.transcript, ...(sources.context || [])].join('\n').toLowerCase();
+  const spokenNumbers = new Set(everything.match(NUMBER) || []);
+  const confirmed = new Set(
+    (previous?.flags || []).filter(flag => flag.status === 'confirmed').map(flag => flag.statement)
+  );
+
+  const flags: VerificationFlag[] = [];
+
+  sections.forEach(({ title, content }, sectionIndex) => {
+    const isSynthesis = SYNTHESIS_SECTION.test(title);
+    const isExam = EXAM_SECTION.test(title);
+
+    splitSentences(content).filter(isCheckable).forEach((statement, statementIndex) => {
+      const source = findSupportingSegment(statement, sourceSegments);
+      const reasons: string[] = [];
+
+      const missingNumbers = (statement.match(NUMBER) || [])
+        .filter(n => !spokenNumbers.has(n) && !spokenNumbers.has(String(parseFloat(n))));
+      if (missingNumbers.length) reasons.push(`Value${missingNumbers.length > 1 ? 's' : ''} not dictated: ${missingNumbers.join(', ')}`);
+
+      const missingMedications = Array.from(new Set((statement.match(MEDICATION) || []).map(m => m.toLowerCase())))
+        .filter(m => !everything.includes(m));
+      if (missingMedications.length) reasons.push(`Medication not mentioned: ${missingMedications.join(', ')}`);
+
+      if (NEGATION.test(statement) && !(source && NEGATION.test(source.text))) {
+        reasons.push('Negative finding not stated in the transcript');
+      }
+
+      if (!source && !isSynthesis) {
+        reasons.push(isExam ? 'Exam finding not dictated' : 'No supporting statement in the transcript');
+      }
+
+      if (reasons.length === 0) return;
+      flags.push({
+        id: `${sectionIndex}-${statementIndex}`,
+        section: title,
+        statement,
+        reasons,
+        source: source?.text || null,
+        status: confirmed.has(statement) ? 'confirmed' : 'unconfirmed',
+      });
+    });
+  });
+
+  return { checkedAt: new Date().toISOString(), flags };
+}
+
+/**
+ * Flags still blocking signing: unconfirmed and still in the note.
+ * Mirrors the check enforce_clinical_note_signature makes in the database.
+ */
+export const unresolvedFlags = (verification: NoteVerification | null | undefined, note: string): VerificationFlag[] =>
+  (verification?.flags || []).filter(flag => flag.status !== 'confirmed' && note.includes(flag.statement));
+
+export const confirmFlag = (verification: NoteVerification, id: string): NoteVerification => ({
+  ...verification,
+  flags: verification.flags.map(flag => (flag.id === id ? { ...flag, status: 'confirmed' } : flag)),
+});
+
+// The note without a flagged statement, tidying the space it leaves behind
+export function removeStatement(note: string, statement: string): string {
+  const at = note.indexOf(statement);
+  if (at === -1) return note;
+
+  const before = note.slice(0, at).replace(/[ \t]+$/, '');
+  const after = note.slice(at + statement.length).replace(/^[ \t]+/, '');
+  const joined = before.endsWith('\n') || after.startsWith('\n') || !before ? `${before}${after}` : `${before} ${after}`;
+  // A statement that was a whole line (or bullet) leaves no empty bullet or line behind
+  return joined.replace(/^[ \t]*[-*•][ \t]*$\n?/gm, '').replace(/\n{3,}/g, '\n\n');
+}
@@ -0,0 +1,221 @@
+/**
+ * IndexedDB persistence for in-progress ambient recordings.
+ * Audio is written as it is captured so an encounter survives a reload,
+ * a crash or the phone locking mid-recording.
+ */
+
+import type { SpeakerSegment } from '@/types/medical';
+import type { EncounterLanguagePreference } from '@/services/transcription';
+
+// ===== Types =====
+
+export type RecordingSessionStatus = 'recording' | 'stopped' | 'completed';
+
+export interface RecordingSession {
+  id: string;
+  patientId: string | null;
+  language?: EncounterLanguagePreference; // Missing on sessions recorded before languages were supported
+  mimeType: string;
+  overlapMs: number; // Audio shared by consecutive segments, needed to stitch them
+  status: RecordingSessionStatus;
+  startedAt: number;
+  updatedAt: number;
+}
+
+export interface StoredSegment {
+  sessionId: string;
+  index: number;
+  startMs: number;
+  endMs: number;
+  chunks: Blob[];
+  complete: boolean; // False when the recording was interrupted mid-segment
+  transcript: { text: string; utterances: SpeakerSegment[] } | null;
+}
+
+interface StoredChunk {
+  sessionId: string;
+  seq: number;
+  blob: Blob;
+}
+
+// ===== Database =====
+const DB_NAME = 'elyn_recordings';
+const DB_VERSION = 1;
+
+const STORES = {
+  sessions: 'sessions',
+  segments: 'segments',
+  chunks: 'chunks',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+        db.createObjectStore(STORES.segments, { keyPath: ['sessionId', 'index'] })
+          .createIndex('sessionId', 'sessionId');
+        db.createObjectStore(STORES.chunks, { keyPath: ['sessionId', 'seq'] })
+          .createIndex('sessionId', 'sessionId');
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// ===== Helper =====
+// Runs `work` in one transaction and resolves with its request's result once the transaction commits
+const runTransaction = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDb();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    const request = work(tx);
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Read-modify-write a single record within one transaction
+const updateRecord = <T>(
+  storeName: string,
+  key: IDBValidKey,
+  update: (existing: T | undefined) => T
+) =>
+  runTransaction([storeName], 'readwrite', (tx) => {
+    const store = tx.objectStore(storeName);
+    const get = store.get(key);
+    get.onsuccess = () => {
+      store.put(update(get.result as T | undefined));
+    };
+  });
+
+const deleteBySession = (tx: IDBTransaction, storeName: string, sessionId: string) => {
+  const cursorRequest = tx.objectStore(storeName).index('sessionId').openCursor(IDBKeyRange.only(sessionId));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+};
+
+// ===== Recording Store =====
+export const RecordingStore = {
+  isSupported: (): boolean => typeof indexedDB !== 'undefined',
+
+  createSession: (session: Omit<RecordingSession, 'startedAt' | 'updatedAt' | 'status'>) => {
+    const now = Date.now();
+    return runTransaction([STORES.sessions], 'readwrite', (tx) =>
+      tx.objectStore(STORES.sessions).put({ ...session, status: 'recording', startedAt: now, updatedAt: now })
+    );
+  },
+
+  getSession: async (id: string): Promise<RecordingSession | null> => {
+    const session = await runTransaction([STORES.sessions], 'readonly', (tx) =>
+      tx.objectStore(STORES.sessions).get(id)
+    );
+    return (session as RecordingSession | undefined) || null;
+  },
+
+  updateSession: (id: string, updates: Partial<Omit<RecordingSession, 'id'>>) =>
+    updateRecord<RecordingSession>(STORES.sessions, id, (existing) => ({
+      ...(existing as RecordingSession),
+      ...updates,
+      updatedAt: Date.now(),
+    })),
+
+  // Sessions that never finished transcription, newest first
+  listUnfinished: async (): Promise<RecordingSession[]> => {
+    const sessions = await runTransaction([STORES.sessions], 'readonly', (tx) =>
+      tx.objectStore(STORES.sessions).getAll()
+    );
+    return ((sessions || []) as RecordingSession[])
+      .filter((s) => s.status !== 'completed')
+      .sort((a, b) => b.startedAt - a.startedAt);
+  },
+
+  appendSegmentChunk: (sessionId: string, index: number, startMs: number, chunk: Blob, endMs: number) =>
+    updateRecord<StoredSegment>(STORES.segments, [sessionId, index], (existing) => ({
+      sessionId,
+      index,
+      startMs,
+      complete: false,
+      transcript: null,
+      ...existing,
+      chunks: [...(existing?.chunks || []), chunk],
+      endMs,
+    })),
+
+  updateSegment: (sessionId: string, index: number, updates: Partial<Pick<StoredSegment, 'endMs' | 'complete' | 'transcript'>>) =>
+    updateRecord<StoredSegment>(STORES.segments, [sessionId, index], (existing) => ({
+      sessionId,
+      index,
+      startMs: 0,
+      endMs: 0,
+      chunks: [],
+      complete: false,
+      transcript: null,
+      ...existing,
+      ...updates,
+    })),
+
+  getSegments: async (sessionId: string): Promise<StoredSegment[]> => {
+    const segments = await runTransaction([STORES.segments], 'readonly', (tx) =>
+      tx.objectStore(STORES.segments).index('sessionId').getAll(IDBKeyRange.only(sessionId))
+    );
+    return ((segments || []) as StoredSegment[]).sort((a, b) => a.index - b.index);
+  },
+
+  appendArchiveChunk: (sessionId: string, seq: number, blob: Blob) =>
+    runTransaction([STORES.chunks], 'readwrite', (tx) =>
+      tx.objectStore(STORES.chunks).put({ sessionId, seq, blob } satisfies StoredChunk)
+    ),
+
+  // Full-length audio captured so far, in order
+  getArchiveBlob: async (sessionId: string, mimeType: string): Promise<Blob | null> => {
+    const chunks = await runTransaction([STORES.chunks], 'readonly', (tx) =>
+      tx.objectStore(STORES.chunks).index('sessionId').getAll(IDBKeyRange.only(sessionId))
+    );
+    const ordered = ((chunks || []) as StoredChunk[]).sort((a, b) => a.seq - b.seq);
+    return ordered.length > 0 ? new Blob(ordered.map((c) => c.blob), { type: mimeType }) : null;
+  },
+
+  deleteSession: (sessionId: string) =>
+    runTransaction([STORES.sessions, STORES.segments, STORES.chunks], 'readwrite', (tx) => {
+      tx.objectStore(STORES.sessions).delete(sessionId);
+      deleteBySession(tx, STORES.segments, sessionId);
+      deleteBySession(tx, STORES.chunks, sessionId);
+    }),
+
+  // Drop completed sessions older than `maxAgeMs`; their transcripts have been handed off
+  pruneCompleted: async (maxAgeMs: number) => {
+    const sessions = await runTransaction([STORES.sessions], 'readonly', (tx) =>
+      tx.objectStore(STORES.sessions).getAll()
+    );
+    const cutoff = Date.now() - maxAgeMs;
+    const stale = ((sessions || []) as RecordingSession[])
+      .filter((s) => s.status === 'completed' && s.updatedAt < cutoff);
+
+    for (const session of stale) {
+      await RecordingStore.deleteSession(session.id);
+    }
+  },
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { PatientContext } from '@/types/medical';
+import { expandSpokenPhrases, expandTypedPhrases, fillPhraseVariables, normalizeTrigger } from './smartPhrases';
+
+const phrases = [
+  { trigger: 'norm', content: 'Normal.' },
+  { trigger: 'normexam', content: 'Normal exam, no acute distress.' },
+  { trigger: 'pt', content: '{patient.name}, allergies: {patient.allergies}' },
+];
+
+const patient: PatientContext = { name: 'Jane Doe', allergies: ['penicillin', 'latex'] };
+
+describe('normalizeTrigger', () => {
+  it('lowercases and strips the leading dot and other characters', () => {
+    expect(normalizeTrigger('  .Norm Exam! ')).toBe('normexam');
+  });
+});
+
+describe('fillPhraseVariables', () => {
+  it('fills variables from the patient record', () => {
+    expect(fillPhraseVariables('{patient.name}: {patient.allergies}', patient)).toBe('Jane Doe: penicillin, latex');
+  });
+
+  it('leaves missing values visible', () => {
+    expect(fillPhraseVariables('MRN {patient.mrn}', patient)).toBe('MRN {patient.mrn}');
+    expect(fillPhraseVariables('{patient.name}', null)).toBe('{patient.name}');
+  });
+});
+
+describe('expandTypedPhrases', () => {
+  it('waits for a delimiter while typing', () => {
+    expect(expandTypedPhrases('Exam: .norm', phrases, patient).expanded).toBe(0);
+    expect(expandTypedPhrases('Exam: .normexam ', phrases, patient).text).toBe('Exam: Normal exam, no acute distress. ');
+  });
+
+  it('expands at the end of complete text and moves the caret', () => {
+    const result = expandTypedPhrases('.pt seen today', phrases, patient, { complete: true, caret: 14 });
+    expect(result.text).toBe('Jane Doe, allergies: penicillin, latex seen today');
+    expect(result.caret).toBe(result.text.length);
+  });
+
+  it('ignores unknown triggers and dots inside words', () => {
+    expect(expandTypedPhrases('BP 120.80 .unknown ', phrases, patient).text).toBe('BP 120.80 .unknown ');
+  });
+});
+
+describe('expandSpokenPhrases', () => {
+  it('joins a trigger split into words, preferring the longest', () => {
+    expect(expandSpokenPhrases('Exam dot norm exam', phrases, patient)).toBe('Exam Normal exam, no acute distress.');
+  });
+
+  it('keeps dictated words after the trigger', () => {
+    expect(expandSpokenPhrases('dot norm otherwise well', phrases, patient)).toBe('Normal. otherwise well');
+  });
+
+  it('does not double a full stop after the trigger', () => {
+    expect(expandSpokenPhrases('Lungs dot norm.', phrases, patient)).toBe('Lungs Normal.');
+  });
+
+  it('expands triggers the recognizer already wrote with a dot', () => {
+    expect(expandSpokenPhrases('Exam .norm', phrases, patient)).toBe('Exam Normal.');
+  });
+});
@@ -0,0 +1,104 @@
+import type { PatientContext } from '@/types/medical';
+
+/**
+ * Smart phrases: saved text blocks typed as ".trigger" (or dictated as
+ * "dot trigger") that expand in the transcript before the note is generated.
+ * Phrase text may use {patient.*} variables, filled from the patient being seen.
+ */
+
+export interface SmartPhraseText {
+  trigger: string; // Without the leading dot, lowercase
+  content: string;
+}
+
+export const PHRASE_VARIABLES: Record<string, { label: string; resolve: (patient: PatientContext) => string | undefined }> = {
+  'patient.name': { label: 'Patient name', resolve: p => p.name },
+  'patient.mrn': { label: 'MRN', resolve: p => p.mrn },
+  'patient.dob': { label: 'Date of birth', resolve: p => p.dob },
+  'patient.room': { label: 'Room', resolve: p => p.room },
+  'patient.diagnosis': { label: 'Diagnosis', resolve: p => p.diagnosis },
+  'patient.allergies': { label: 'Allergies', resolve: p => p.allergies?.length ? p.allergies.join(', ') : undefined },
+};
+
+// Most words a dictated trigger is split into ("dot norm exam" → "normexam")
+const MAX_SPOKEN_TRIGGER_WORDS = 3;
+
+// A dot at the start of a word, then the trigger, then a delimiter (or the end, once typing is done)
+const typedTrigger = (complete: boolean) =>
+  new RegExp(`(^|\\s)\\.([a-z0-9_-]+)(?=[\\s,;:!?]${complete ? '|$' : ''})`, 'gi');
+
+const SPOKEN_TRIGGER = new RegExp(`\\bdot((?:\\s+[\\p{L}\\p{N}]+){1,${MAX_SPOKEN_TRIGGER_WORDS}})`, 'giu');
+
+// Lowercase, no leading dot, only characters a trigger can contain
+export const normalizeTrigger = (input: string): string =>
+  input.trim().toLowerCase().replace(/^\.+/, '').replace(/[^a-z0-9_-]/g, '');
+
+/**
+ * Fill {patient.*} variables. Values the patient record does not have are
+ * left as the variable, so the gap is visible rather than silently blank.
+ */
+export function fillPhraseVariables(content: string, patient: PatientContext | null): string {
+  return content.replace(/\{([a-z.]+)\}/g, (variable, key: string) => {
+    const value = patient && PHRASE_VARIABLES[key]?.resolve(patient)?.trim();
+    return value || variable;
+  });
+}
+
+const indexPhrases = (phrases: SmartPhraseText[]): Map<string, SmartPhraseText> =>
+  new Map(phrases.map(phrase => [phrase.trigger, phrase]));
+
+/**
+ * Expand typed ".trigger" phrases.
+ * While the clinician is typing (`complete` false) a trigger only expands once
+ * followed by a space or punctuation, so ".norm" does not fire on the way to
+ * ".normexam". `caret` is moved along with any text expanded before it.
+ */
+export function expandTypedPhrases(
+  text: string,
+  phrases: SmartPhraseText[],
+  patient: PatientContext | null,
+  options: { complete?: boolean; caret?: number } = {}
+): { text: string; caret: number; expanded: number } {
+  const byTrigger = indexPhrases(phrases);
+  const caret = options.caret ?? text.length;
+  let expanded = 0;
+  let shift = 0;
+
+  const result = text.replace(typedTrigger(!!options.complete), (match, lead: string, trigger: string, offset: number) => {
+    const phrase = byTrigger.get(trigger.toLowerCase());
+    if (!phrase) return match;
+
+    const replacement = lead + fillPhraseVariables(phrase.content, patient);
+    if (offset < caret) shift += replacement.length - match.length;
+    expanded++;
+    return replacement;
+  });
+
+  return { text: result, caret: caret + shift, expanded };
+}
+
+/**
+ * Expand dictated "dot trigger" phrases, where the recognizer may have split
+ * the trigger into words. The longest run of words naming a phrase wins.
+ */
+export function expandSpokenPhrases(text: string, phrases: SmartPhraseText[], patient: PatientContext | null): string {
+  const byTrigger = indexPhrases(phrases);
+
+  const spoken = text.replace(SPOKEN_TRIGGER, (match, words: string, offset: number) => {
+    const list = words.trim().split(/\s+/);
+    for (let count = list.length; count >= 1; count--) {
+      const phrase = byTrigger.get(normalizeTrigger(list.slice(0, count).join('')));
+      if (phrase) {
+        const rest = list.slice(count).join(' ');
+        let content = fillPhraseVariables(phrase.content, patient);
+        // The dictated full stop after the trigger would double the phrase's own
+        if (!rest && /[.!?]$/.test(content) && text[offset + match.length] === '.') content = content.slice(0, -1);
+        return content + (rest ? ` ${rest}` : '');
+      }
+    }
+    return match;
+  });
+
+  // Some recognizers already write the dot
+  return expandTypedPhrases(spoken, phrases, patient, { complete: true }).text;
+}
@@ -67,6 +67,15 @@ export interface Bill {
   submittedAt?: number;
 }
 
+// A word the clinician keeps fixing by hand after transcription
+export interface LearnedCorrection {
+  heard: string;
+  corrected: string;
+  count: number;
+  lastSeenAt: number;
+  dismissed: boolean;
+}
+
 // ===== Storage Keys =====
 const KEYS = {
   hospitals: 'elyn_hospitals',
@@ -76,6 +85,7 @@ const KEYS = {
   bills: 'elyn_bills',
   agentTask: 'elyn_agent_task',
   maxrvuSubmit: 'elyn_maxrvu_submit',
+  correctionLearning: 'elyn_correction_learning',
 } as const;
 
 // ===== Helper =====
@@ -216,3 +226,44 @@ export const MaxRVUSubmitStorage = {
     localStorage.removeItem(KEYS.maxrvuSubmit);
   },
 };
+
+// ===== Correction Learning Storage =====
+const sameCorrection = (a: LearnedCorrection, heard: string, corrected: string) =>
+  a.heard.toLowerCase() === heard.toLowerCase() && a.corrected === corrected;
+
+export const CorrectionLearningStorage = {
+  getAll: (): LearnedCorrection[] => safeJSONParse(KEYS.correctionLearning, []),
+
+  save: (corrections: LearnedCorrection[]) => {
+    localStorage.setItem(KEYS.correctionLearning, JSON.stringify(corrections));
+  },
+
+  // Count one more manual fix and return the updated tally
+  record: (heard: string, corrected: string): LearnedCorrection => {
+    const all = CorrectionLearningStorage.getAll();
+    const existing = all.find((c) => sameCorrection(c, heard, corrected));
+    const updated: LearnedCorrection = existing
+      ? { ...existing, count: existing.count + 1, lastSeenAt: Date.now() }
+      : { heard, corrected, count: 1, lastSeenAt: Date.now(), dismissed: false };
+
+    CorrectionLearningStorage.save([
+      updated,
+      ...all.filter((c) => !sameCorrection(c, heard, corrected)),
+    ]);
+    return updated;
+  },
+
+  dismiss: (heard: string, corrected: string) => {
+    CorrectionLearningStorage.save(
+      CorrectionLearningStorage.getAll().map((c) =>
+        sameCorrection(c, heard, corrected) ? { ...c, dismissed: true } : c
+      )
+    );
+  },
+
+  remove: (heard: string, corrected: string) => {
+    CorrectionLearningStorage.save(
+      CorrectionLearningStorage.getAll().filter((c) => !sameCorrection(c, heard, corrected))
+    );
+  },
+};
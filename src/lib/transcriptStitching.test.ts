@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { SpeakerSegment, TranscriptionSegment } from '@/types/medical';
+import { mergeOverlappingText, stitchSpeakerSegments, stitchTranscriptSegments } from './transcriptStitching';
+
+const utterance = (id: string, speakerId: string, startMs: number, endMs: number, text: string): SpeakerSegment => ({
+  id,
+  speakerId,
+  speaker: speakerId === 'speaker_0' ? 'clinician' : 'patient',
+  startMs,
+  endMs,
+  text,
+});
+
+describe('mergeOverlappingText', () => {
+  it('drops the words repeated by the overlap', () => {
+    expect(mergeOverlappingText(
+      'patient reports chest pain since this morning',
+      'since this morning with shortness of breath',
+    )).toBe('patient reports chest pain since this morning with shortness of breath');
+  });
+
+  it('ignores case and punctuation when matching', () => {
+    expect(mergeOverlappingText('no fever, no chills.', 'No chills and no cough'))
+      .toBe('no fever, no chills. and no cough');
+  });
+
+  it('keeps the complete form of a word clipped at the boundary', () => {
+    expect(mergeOverlappingText('started on metoprolol tart', 'metoprolol tartrate twice daily'))
+      .toBe('started on metoprolol tartrate twice daily');
+  });
+
+  it('does not treat a single repeated word as overlap', () => {
+    expect(mergeOverlappingText('pain in the', 'the left knee')).toBe('pain in the the left knee');
+  });
+
+  it('joins plainly when nothing overlaps', () => {
+    expect(mergeOverlappingText('blood pressure is stable', 'plan to continue lisinopril'))
+      .toBe('blood pressure is stable plan to continue lisinopril');
+  });
+
+  it('handles empty sides', () => {
+    expect(mergeOverlappingText('', ' first words ')).toBe('first words');
+    expect(mergeOverlappingText('last words', '')).toBe('last words');
+  });
+});
+
+describe('stitchTranscriptSegments', () => {
+  it('joins segments in index order', () => {
+    const segments: TranscriptionSegment[] = [
+      { index: 1, startMs: 28000, endMs: 58000, text: 'the abdomen is soft and non-tender' },
+      { index: 0, startMs: 0, endMs: 30000, text: 'on exam the abdomen is soft' },
+    ];
+    expect(stitchTranscriptSegments(segments)).toBe('on exam the abdomen is soft and non-tender');
+  });
+});
+
+describe('stitchSpeakerSegments', () => {
+  const overlapMs = 2000;
+
+  it('drops utterances heard entirely inside the leading overlap', () => {
+    const stitched = stitchSpeakerSegments([
+      { index: 0, startMs: 0, endMs: 30000, text: '', utterances: [utterance('a', 'speaker_0', 0, 29500, 'how are you feeling')] },
+      {
+        index: 1, startMs: 28000, endMs: 58000, text: '', utterances: [
+          utterance('b', 'speaker_0', 28000, 29500, 'feeling'),
+          utterance('c', 'speaker_1', 30500, 33000, 'much better today'),
+        ],
+      },
+    ], overlapMs);
+
+    expect(stitched.map(u => u.text)).toEqual(['how are you feeling', 'much better today']);
+  });
+
+  it('merges an utterance that continues the previous speaker across the boundary', () => {
+    const stitched = stitchSpeakerSegments([
+      { index: 0, startMs: 0, endMs: 30000, text: '', utterances: [utterance('a', 'speaker_1', 25000, 30000, 'the pain started after dinner')] },
+      { index: 1, startMs: 28000, endMs: 58000, text: '', utterances: [utterance('b', 'speaker_1', 28500, 33000, 'after dinner and got worse')] },
+    ], overlapMs);
+
+    expect(stitched).toHaveLength(1);
+    expect(stitched[0]).toMatchObject({ id: 'a', endMs: 33000, text: 'the pain started after dinner and got worse' });
+  });
+
+  it('keeps a new speaker starting inside the overlap as its own utterance', () => {
+    const stitched = stitchSpeakerSegments([
+      { index: 0, startMs: 0, endMs: 30000, text: '', utterances: [utterance('a', 'speaker_0', 25000, 29000, 'any allergies')] },
+      { index: 1, startMs: 28000, endMs: 58000, text: '', utterances: [utterance('b', 'speaker_1', 29000, 31000, 'penicillin')] },
+    ], overlapMs);
+
+    expect(stitched.map(u => u.speakerId)).toEqual(['speaker_0', 'speaker_1']);
+  });
+});
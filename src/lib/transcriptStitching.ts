@@ -0,0 +1,138 @@
+/**
+ * Stitching utilities for segmented ambient transcription.
+ * Consecutive audio segments share a short overlap, so the words at the end
+ * of one segment's text usually repeat at the start of the next.
+ */
+
+import type { SpeakerSegment, TranscriptionSegment } from '@/types/medical';
+
+// Longest run of repeated words an overlap window is expected to produce
+const MAX_OVERLAP_WORDS = 15;
+
+// Shorter runs are too likely to be coincidental ("of the", "and the")
+const MIN_OVERLAP_WORDS = 2;
+
+// Words at either edge of a segment may be clipped mid-word and mis-heard
+const BOUNDARY_SLACK_WORDS = 1;
+
+// Shortest fragment accepted as the clipped form of a longer word
+const MIN_CLIPPED_CHARS = 3;
+
+const normalizeWord = (word: string): string =>
+  word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+const splitWords = (text: string): string[] => text.trim().split(/\s+/).filter(Boolean);
+
+/**
+ * Append `next` to `previous`, dropping the words repeated by the audio overlap.
+ * - Matches on normalized words (case and punctuation are ignored)
+ * - Prefers the longest repeated run near the end of `previous`
+ * - Tolerates one clipped word at the end of `previous` and the start of `next`,
+ *   keeping the complete form of any word heard in both
+ * - Falls back to a plain join when no overlap is found
+ */
+export function mergeOverlappingText(previous: string, next: string): string {
+  const prevWords = splitWords(previous);
+  const nextWords = splitWords(next);
+
+  if (prevWords.length === 0) return nextWords.join(' ');
+  if (nextWords.length === 0) return prevWords.join(' ');
+
+  const prevNorm = prevWords.map(normalizeWord);
+  const nextNorm = nextWords.map(normalizeWord);
+
+  const wordsMatch = (prevIndex: number, nextIndex: number): boolean => {
+    const a = prevNorm[prevIndex];
+    const b = nextNorm[nextIndex];
+    if (a === b) return true;
+
+    // Only the very last word of `previous` or first word of `next` can be clipped
+    const isEdge = prevIndex === prevWords.length - 1 || nextIndex === 0;
+    const [shorter, longer] = a.length < b.length ? [a, b] : [b, a];
+    return isEdge && shorter.length >= MIN_CLIPPED_CHARS && longer.startsWith(shorter);
+  };
+
+  const runMatches = (prevStart: number, nextStart: number, length: number): boolean => {
+    for (let i = 0; i < length; i++) {
+      if (!wordsMatch(prevStart + i, nextStart + i)) return false;
+    }
+    return true;
+  };
+
+  const maxLength = Math.min(MAX_OVERLAP_WORDS, prevWords.length, nextWords.length);
+
+  for (let length = maxLength; length >= MIN_OVERLAP_WORDS; length--) {
+    for (let skip = 0; skip <= BOUNDARY_SLACK_WORDS && skip + length <= nextWords.length; skip++) {
+      // The repeated run has to finish at (or just before) the end of `previous`
+      for (let start = prevWords.length - length; start >= 0; start--) {
+        if (prevWords.length - (start + length) > BOUNDARY_SLACK_WORDS) break;
+
+        if (runMatches(start, skip, length)) {
+          const overlap = Array.from({ length }, (_, i) => {
+            const a = prevWords[start + i];
+            const b = nextWords[skip + i];
+            return b.length > a.length ? b : a;
+          });
+          return [
+            ...prevWords.slice(0, start),
+            ...overlap,
+            ...nextWords.slice(skip + length),
+          ].join(' ');
+        }
+      }
+    }
+  }
+
+  return `${prevWords.join(' ')} ${nextWords.join(' ')}`;
+}
+
+/**
+ * Join transcribed segments into one transcript, in segment order
+ */
+export function stitchTranscriptSegments(segments: TranscriptionSegment[]): string {
+  return [...segments]
+    .sort((a, b) => a.index - b.index)
+    .reduce((transcript, segment) => mergeOverlappingText(transcript, segment.text), '');
+}
+
+/**
+ * Join the diarized utterances of transcribed segments into one encounter transcript.
+ * - Utterances heard entirely inside a segment's leading overlap were already
+ *   captured by the previous segment and are dropped
+ * - An utterance that starts inside the overlap and continues the previous
+ *   speaker is merged into that speaker's last utterance
+ */
+export function stitchSpeakerSegments(segments: TranscriptionSegment[], overlapMs: number): SpeakerSegment[] {
+  const stitched: SpeakerSegment[] = [];
+
+  [...segments]
+    .sort((a, b) => a.index - b.index)
+    .forEach((segment, position) => {
+      const overlapEndMs = segment.startMs + overlapMs;
+      let isFirstKept = true;
+
+      (segment.utterances || []).forEach((utterance) => {
+        if (position > 0 && utterance.endMs <= overlapEndMs) return;
+
+        const last = stitched[stitched.length - 1];
+        const continuesAcrossBoundary = position > 0
+          && isFirstKept
+          && utterance.startMs < overlapEndMs
+          && last?.speakerId === utterance.speakerId;
+        isFirstKept = false;
+
+        if (continuesAcrossBoundary) {
+          stitched[stitched.length - 1] = {
+            ...last,
+            endMs: Math.max(last.endMs, utterance.endMs),
+            text: mergeOverlappingText(last.text, utterance.text),
+          };
+          return;
+        }
+
+        stitched.push({ ...utterance });
+      });
+    });
+
+  return stitched;
+}
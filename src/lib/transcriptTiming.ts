@@ -0,0 +1,76 @@
+import type { SpeakerSegment, TranscriptWord } from '@/types/medical';
+
+/**
+ * Helpers for lining transcript text up with the recorded audio.
+ */
+
+// Move segment and word times onto a later recording timeline
+export function shiftSegments(segments: SpeakerSegment[], offsetMs: number): SpeakerSegment[] {
+  if (!offsetMs) return segments;
+  return segments.map(segment => ({
+    ...segment,
+    startMs: segment.startMs + offsetMs,
+    endMs: segment.endMs + offsetMs,
+    words: segment.words?.map(word => ({
+      ...word,
+      startMs: word.startMs + offsetMs,
+      endMs: word.endMs + offsetMs,
+    })),
+  }));
+}
+
+/**
+ * Timed words for a segment's displayed text.
+ * Provider word timings are used when they still line up with the text;
+ * after corrections change the word count, each word gets an even share of
+ * the segment's span instead.
+ */
+export function getWordTimings(segment: SpeakerSegment): TranscriptWord[] {
+  const tokens = segment.text.split(/\s+/).filter(Boolean);
+
+  if (segment.words && segment.words.length === tokens.length) {
+    return tokens.map((text, i) => ({ ...segment.words![i], text }));
+  }
+
+  const duration = Math.max(0, segment.endMs - segment.startMs);
+  const share = tokens.length > 0 ? duration / tokens.length : 0;
+  return tokens.map((text, i) => ({
+    text,
+    startMs: Math.round(segment.startMs + i * share),
+    endMs: Math.round(segment.startMs + (i + 1) * share),
+  }));
+}
+
+// Minimum share of a sentence's content words that must appear in a segment
+const MIN_SUPPORT_OVERLAP = 0.5;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'was', 'were', 'has', 'had', 'have', 'his', 'her', 'she', 'him',
+  'patient', 'that', 'this', 'are', 'not', 'but', 'from', 'they', 'their', 'there', 'which',
+]);
+
+const contentWords = (text: string): string[] =>
+  text.toLowerCase().match(/[a-z0-9]+/g)?.filter(w => w.length > 2 && !STOP_WORDS.has(w)) || [];
+
+/**
+ * The transcript segment a note sentence most likely came from, or null when
+ * no segment shares enough of its content words.
+ */
+export function findSupportingSegment(sentence: string, segments: SpeakerSegment[]): SpeakerSegment | null {
+  const words = contentWords(sentence);
+  if (words.length === 0) return null;
+
+  let best: SpeakerSegment | null = null;
+  let bestOverlap = 0;
+
+  for (const segment of segments) {
+    const segmentWords = new Set(contentWords(segment.text));
+    const overlap = words.filter(w => segmentWords.has(w)).length / words.length;
+    if (overlap > bestOverlap) {
+      best = segment;
+      bestOverlap = overlap;
+    }
+  }
+
+  return bestOverlap >= MIN_SUPPORT_OVERLAP ? best : null;
+}
@@ -0,0 +1,101 @@
+/**
+ * Voice-activity detection on a live microphone stream.
+ * Measures the input level every frame and classifies it as speech or
+ * silence against a noise floor that adapts to the room.
+ */
+
+// How often the input is measured (in ms)
+export const VAD_FRAME_MS = 100;
+
+// Speech has to be this much louder than the noise floor (in dB)
+const SPEECH_MARGIN_DB = 10;
+
+// Anything quieter is silence however quiet the room is (in dBFS)
+const MIN_SPEECH_DB = -65;
+
+// Speech keeps counting this long after the level drops, so pauses between words are not silence (in ms)
+const HANGOVER_MS = 500;
+
+// How quickly the noise floor rises back towards the current level (fraction per frame)
+const NOISE_FLOOR_RISE = 0.01;
+
+// Level reported for digital silence, e.g. a muted microphone (in dBFS)
+const SILENCE_DB = -100;
+
+// Levels mapped onto the 0-1 meter range (in dBFS)
+const METER_MIN_DB = -60;
+const METER_MAX_DB = -10;
+
+export interface VoiceActivityFrame {
+  level: number; // 0-1, for an input meter
+  isSpeech: boolean;
+}
+
+export interface VoiceActivityDetector {
+  stop: () => void;
+}
+
+const toDecibels = (samples: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / samples.length);
+  return rms > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(rms)) : SILENCE_DB;
+};
+
+/**
+ * Start measuring `stream`, calling `onFrame` every VAD_FRAME_MS.
+ * Returns null when the browser cannot analyse audio; callers should then
+ * treat all input as speech.
+ */
+export function createVoiceActivityDetector(
+  stream: MediaStream,
+  onFrame: (frame: VoiceActivityFrame) => void
+): VoiceActivityDetector | null {
+  const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass) return null;
+
+  let context: AudioContext;
+  try {
+    context = new AudioContextClass();
+  } catch (e) {
+    console.warn('[VoiceActivity] Audio analysis unavailable:', e);
+    return null;
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser);
+  context.resume().catch(() => {});
+
+  const samples = new Float32Array(analyser.fftSize);
+  let noiseFloorDb = METER_MIN_DB;
+  let lastSpeechAt = -Infinity;
+
+  const interval = window.setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    const db = toDecibels(samples);
+    const now = performance.now();
+
+    if (db < noiseFloorDb) {
+      noiseFloorDb = db;
+    } else {
+      noiseFloorDb += (db - noiseFloorDb) * NOISE_FLOOR_RISE;
+    }
+
+    if (db > MIN_SPEECH_DB && db > noiseFloorDb + SPEECH_MARGIN_DB) lastSpeechAt = now;
+
+    onFrame({
+      level: Math.min(1, Math.max(0, (db - METER_MIN_DB) / (METER_MAX_DB - METER_MIN_DB))),
+      isSpeech: now - lastSpeechAt <= HANGOVER_MS,
+    });
+  }, VAD_FRAME_MS);
+
+  return {
+    stop: () => {
+      clearInterval(interval);
+      source.disconnect();
+      context.close().catch(() => {});
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { parseVoiceCommands } from './voiceCommands';
+
+describe('parseVoiceCommands', () => {
+  it('leaves dictation without commands untouched', () => {
+    expect(parseVoiceCommands('Patient seen and examined.')).toEqual({
+      text: 'Patient seen and examined.',
+      commands: [],
+    });
+  });
+
+  it('starts a new paragraph', () => {
+    expect(parseVoiceCommands('Chest pain since Monday. Elyn new paragraph. No fever.').text)
+      .toBe('Chest pain since Monday.\n\nNo fever.');
+  });
+
+  it('deletes the last sentence', () => {
+    expect(parseVoiceCommands('Lungs clear. Heart irregular. ELYN delete last sentence Heart regular.').text)
+      .toBe('Lungs clear. Heart regular.');
+  });
+
+  it('inserts section headings, preferring the longest section name', () => {
+    expect(parseVoiceCommands('Elyn section HPI cough for a week. Elyn go to section assessment and plan pneumonia').text)
+      .toBe('HPI: cough for a week.\n\nAssessment and Plan: pneumonia');
+  });
+
+  it('returns actions in the order they were spoken', () => {
+    const parsed = parseVoiceCommands('Ellen switch to a consult note. Doing well. Elin stop recording. elyn, generate the note.');
+    expect(parsed.text).toBe('Doing well.');
+    expect(parsed.commands).toEqual([
+      { action: 'switchNoteType', noteType: 'Consult' },
+      { action: 'stopRecording' },
+      { action: 'generateNote' },
+    ]);
+  });
+
+  it('recognises spelled-out note types', () => {
+    expect(parseVoiceCommands('Elyn switch to history and physical').commands)
+      .toEqual([{ action: 'switchNoteType', noteType: 'H&P' }]);
+  });
+
+  it('ignores command words without the wake word', () => {
+    expect(parseVoiceCommands('Will stop recording intake and output.')).toEqual({
+      text: 'Will stop recording intake and output.',
+      commands: [],
+    });
+  });
+
+  it('gives the same result for the same transcript', () => {
+    const transcript = 'Elyn section plan admit. Elyn generate note';
+    expect(parseVoiceCommands(transcript)).toEqual(parseVoiceCommands(transcript));
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Voice commands spoken during dictation, e.g. "ELYN new paragraph".
+ * Text commands (paragraphs, sections, deleting a sentence) are applied to the
+ * transcript directly; the rest are returned as actions for the caller to run.
+ */
+
+export type VoiceNoteType = 'H&P' | 'Consult' | 'Progress';
+
+export type VoiceCommand =
+  | { action: 'switchNoteType'; noteType: VoiceNoteType }
+  | { action: 'stopRecording' }
+  | { action: 'generateNote' };
+
+export interface ParsedDictation {
+  text: string;              // Transcript with commands stripped and text commands applied
+  commands: VoiceCommand[];  // Actions in the order they were spoken
+}
+
+// Speech engines spell the wake word several ways
+const WAKE_WORD = '(?:elyn|elin|ellen|eline|alin)';
+
+const NOTE_TYPES: Record<string, VoiceNoteType> = {
+  'h&p': 'H&P',
+  'h and p': 'H&P',
+  'history and physical': 'H&P',
+  'consult': 'Consult',
+  'consultation': 'Consult',
+  'progress': 'Progress',
+};
+
+const SECTIONS: Record<string, string> = {
+  'subjective': 'Subjective',
+  'objective': 'Objective',
+  'hpi': 'HPI',
+  'history of present illness': 'HPI',
+  'review of systems': 'Review of Systems',
+  'physical exam': 'Physical Exam',
+  'medications': 'Medications',
+  'allergies': 'Allergies',
+  'assessment and plan': 'Assessment and Plan',
+  'assessment': 'Assessment',
+  'plan': 'Plan',
+};
+
+const alternatives = (phrases: string[]) => phrases
+  .sort((a, b) => b.length - a.length) // Longest first so "assessment and plan" beats "assessment"
+  .map(p => p.replace(/ /g, '\\s+'))
+  .join('|');
+
+const COMMAND_PATTERN = new RegExp(
+  `\\b${WAKE_WORD}[,.]?\\s+(?:` +
+    `(new\\s+paragraph)|` +
+    `(delete\\s+(?:the\\s+)?last\\s+sentence)|` +
+    `switch\\s+to\\s+(?:an?\\s+)?(${alternatives(Object.keys(NOTE_TYPES))})(?:\\s+note)?|` +
+    `(?:go\\s+to\\s+)?section\\s+(${alternatives(Object.keys(SECTIONS))})|` +
+    `(stop\\s+recording)|` +
+    `(generate\\s+(?:the\\s+)?note)` +
+  `)\\b[.,!?]?`,
+  'gi'
+);
+
+const normalizePhrase = (phrase: string) => phrase.toLowerCase().replace(/\s+/g, ' ');
+
+// Drop the last sentence, keeping everything up to the previous sentence end or line break
+const removeLastSentence = (text: string): string => {
+  const trimmed = text.trimEnd().replace(/[.!?]+$/, '');
+  const boundary = Math.max(
+    trimmed.lastIndexOf('.'),
+    trimmed.lastIndexOf('!'),
+    trimmed.lastIndexOf('?'),
+    trimmed.lastIndexOf('\n')
+  );
+  return boundary === -1 ? '' : trimmed.slice(0, boundary + 1);
+};
+
+/**
+ * Strip voice commands from a dictated transcript. Safe to call on every
+ * update of a growing transcript: the same input always gives the same output.
+ */
+export function parseVoiceCommands(transcript: string): ParsedDictation {
+  const commands: VoiceCommand[] = [];
+  let text = '';
+  let lastIndex = 0;
+
+  // Text that follows a break or a heading starts flush
+  const append = (chunk: string) => {
+    text += /(\n|: )$/.test(text) || !text ? chunk.trimStart() : chunk;
+  };
+
+  for (const match of transcript.matchAll(COMMAND_PATTERN)) {
+    append(transcript.slice(lastIndex, match.index));
+    lastIndex = (match.index ?? 0) + match[0].length;
+
+    const [, newParagraph, deleteSentence, noteType, section, stopRecording, generateNote] = match;
+
+    if (newParagraph) {
+      text = `${text.trimEnd()}\n\n`;
+    } else if (deleteSentence) {
+      text = removeLastSentence(text);
+    } else if (noteType) {
+      commands.push({ action: 'switchNoteType', noteType: NOTE_TYPES[normalizePhrase(noteType)] });
+    } else if (section) {
+      const heading = `${SECTIONS[normalizePhrase(section)]}: `;
+      text = text.trim() ? `${text.trimEnd()}\n\n${heading}` : heading;
+    } else if (stopRecording) {
+      commands.push({ action: 'stopRecording' });
+    } else if (generateNote) {
+      commands.push({ action: 'generateNote' });
+    }
+  }
+
+  append(transcript.slice(lastIndex));
+
+  return {
+    text: text.replace(/[ \t]+\n/g, '\n').trim(),
+    commands,
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Word-level alignment of two versions of a transcript, used to find the
+ * words a correction pass or the clinician changed.
+ */
+
+export interface WordToken {
+  text: string;
+  start: number; // Character offsets in the source text
+  end: number;
+}
+
+export interface WordChange {
+  removed: WordToken[]; // Words of the first text that were replaced or deleted
+  added: WordToken[];   // Words of the second text that replaced them or were inserted
+}
+
+// How far ahead (in words, on either side) to look for the texts to line up again
+const MAX_LOOKAHEAD = 8;
+
+const tokenize = (text: string): WordToken[] =>
+  Array.from(text.matchAll(/\S+/g), match => ({
+    text: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+
+// Compare ignoring case and punctuation on word edges, so "Pain," matches "pain"
+const normalize = (word: string): string =>
+  word.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+/**
+ * List the changes between `before` and `after`, in order.
+ * Walks both texts in step and re-aligns after each difference at the
+ * nearest matching word. Stops at the first difference too large to align,
+ * which usually means the text was rewritten rather than corrected.
+ */
+export function diffWords(before: string, after: string): WordChange[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const same = (x: number, y: number) => normalize(a[x].text) === normalize(b[y].text);
+  const changes: WordChange[] = [];
+
+  // Both texts line up again at (x, y): they end together or the words there match
+  const realignsAt = (x: number, y: number): boolean => {
+    if (x >= a.length || y >= b.length) return x >= a.length && y >= b.length;
+    return same(x, y);
+  };
+
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && same(i, j)) {
+      i++;
+      j++;
+      continue;
+    }
+
+    let skip: { removed: number; added: number } | null = null;
+    for (let total = 1; total <= MAX_LOOKAHEAD * 2 && !skip; total++) {
+      for (let removed = Math.max(0, total - MAX_LOOKAHEAD); removed <= Math.min(total, MAX_LOOKAHEAD); removed++) {
+        if (realignsAt(i + removed, j + total - removed)) {
+          skip = { removed, added: total - removed };
+          break;
+        }
+      }
+    }
+
+    if (!skip) break;
+
+    changes.push({
+      removed: a.slice(i, i + skip.removed),
+      added: b.slice(j, j + skip.added),
+    });
+    i += skip.removed;
+    j += skip.added;
+  }
+
+  return changes;
+}
@@ -10,6 +10,15 @@ import useNotePreferences, {
   SECTION_LABELS, 
   NOTE_TEMPLATES 
 } from '@/hooks/useNotePreferences';
+import useTranscriptionPreferences from '@/hooks/useTranscriptionPreferences';
+import {
+  TRANSCRIPTION_PROVIDERS,
+  TranscriptionProviderId,
+  TranscriptionProviderPreference,
+} from '@/services/transcription';
+import MedicalDictionaryCard from '@/components/settings/MedicalDictionaryCard';
+import SmartPhrasesCard from '@/components/settings/SmartPhrasesCard';
+import NoteTemplatesCard from '@/components/settings/NoteTemplatesCard';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -34,7 +43,7 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
-import { ArrowLeft, User, Save, Loader2, Heart, Brain, Stethoscope, AlertTriangle, Building2, Bone, Baby, Microscope, Shield, LogOut, Monitor, Sun, Moon, Laptop, FileText, ChevronUp, ChevronDown } from 'lucide-react';
+import { ArrowLeft, User, Save, Loader2, Heart, Brain, Stethoscope, AlertTriangle, Building2, Bone, Baby, Microscope, Shield, LogOut, Monitor, Sun, Moon, Laptop, FileText, ChevronUp, ChevronDown, Mic } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { format } from 'date-fns';
 
@@ -81,6 +90,14 @@ const ProfileSettings = () => {
     toggleSection,
     setPreferences: setNotePreferences,
   } = useNotePreferences();
+
+  // Transcription preferences hook
+  const {
+    preferences: transcriptionPreferences,
+    loading: transcriptionPrefsLoading,
+    saving: transcriptionPrefsSaving,
+    savePreferences: saveTranscriptionPreferences,
+  } = useTranscriptionPreferences();
   
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -183,6 +200,25 @@ const ProfileSettings = () => {
     }
   };
 
+  // Handle changing the preferred transcription provider
+  const handleTranscriptionProviderChange = async (value: TranscriptionProviderPreference) => {
+    const success = await saveTranscriptionPreferences({ preferredProvider: value });
+    if (success) {
+      toast({
+        title: 'Transcription preference saved',
+        description: value === 'auto'
+          ? 'ELYN will pick the best provider for each recording.'
+          : `${TRANSCRIPTION_PROVIDERS[value].label} will be tried first.`,
+      });
+    } else {
+      toast({
+        title: 'Error saving preferences',
+        description: 'Failed to save transcription preference.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   // Handle saving note preferences
   const handleSaveNotePreferences = async () => {
     const success = await saveNotePreferences(notePreferences);
@@ -410,6 +446,68 @@ const ProfileSettings = () => {
           </CardContent>
         </Card>
 
+        {/* Transcription Card */}
+        <Card className="bg-card/50 backdrop-blur-sm border-border mt-6">
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="p-3 rounded-xl bg-primary/10">
+                <Mic className="h-6 w-6 text-primary" />
+              </div>
+              <div>
+                <CardTitle>Transcription</CardTitle>
+                <CardDescription>Choose which speech-to-text service records your dictations</CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {transcriptionPrefsLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Preferred Provider</Label>
+                <Select
+                  value={transcriptionPreferences.preferredProvider}
+                  onValueChange={(value) => handleTranscriptionProviderChange(value as TranscriptionProviderPreference)}
+                  disabled={transcriptionPrefsSaving}
+                >
+                  <SelectTrigger className="bg-background/50">
+                    <SelectValue placeholder="Select a provider" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover border-border">
+                    <SelectItem value="auto">
+                      <div className="flex flex-col">
+                        <span>Automatic</span>
+                        <span className="text-xs text-muted-foreground">Best available provider for each recording mode</span>
+                      </div>
+                    </SelectItem>
+                    {(Object.keys(TRANSCRIPTION_PROVIDERS) as TranscriptionProviderId[])
+                      .filter(id => id !== 'mock' || import.meta.env.DEV || transcriptionPreferences.preferredProvider === 'mock')
+                      .map(id => (
+                        <SelectItem key={id} value={id}>
+                          <div className="flex flex-col">
+                            <span>{TRANSCRIPTION_PROVIDERS[id].label}</span>
+                            <span className="text-xs text-muted-foreground">{TRANSCRIPTION_PROVIDERS[id].description}</span>
+                          </div>
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  If your preferred provider is unavailable or drops mid-recording, ELYN switches to the next one and keeps what was already transcribed
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Medical Dictionary Card */}
+        <MedicalDictionaryCard />
+
+        {/* Smart Phrases Card */}
+        <SmartPhrasesCard />
+
         {/* Note Preferences Card */}
         <Card className="bg-card/50 backdrop-blur-sm border-border mt-6">
           <CardHeader>
@@ -462,7 +560,7 @@ const ProfileSettings = () => {
                       <SelectItem value="custom">
                         <div className="flex flex-col">
                           <span>Custom</span>
-                          <span className="text-xs text-muted-foreground">Your custom configuration</span>
+                          <span className="text-xs text-muted-foreground">Your note templates, or the sections below</span>
                         </div>
                       </SelectItem>
                     </SelectContent>
@@ -589,6 +687,9 @@ const ProfileSettings = () => {
           </CardContent>
         </Card>
 
+        {/* Note Templates Card */}
+        <NoteTemplatesCard specialties={SPECIALTIES} />
+
         {/* Session Security Card */}
         <Card className="bg-card/50 backdrop-blur-sm border-border mt-6">
           <CardHeader>
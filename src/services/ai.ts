@@ -1,6 +1,130 @@
 import { supabase } from '@/integrations/supabase/client';
-import type { PatientContext, PatientData, BillingCodes, ClinicalNote, RadiologyContext } from '@/types/medical';
+import type { PatientContext, PatientData, BillingCodes, CarryForwardBaseline, ClinicalNote, RadiologyContext, SpeakerSegment, StructuredClinicalData } from '@/types/medical';
 import type { NotePreferences } from '@/hooks/useNotePreferences';
+import type { EncounterLanguage, EncounterLanguageOptions } from '@/services/transcription';
+import { fetchPatientSummaries } from '@/services/patientSummary';
+
+interface NoteWithBilling {
+  note: string;
+  billing: BillingCodes;
+  structured_category?: string | null;
+  structured: StructuredClinicalData | null; // Clinical notes only
+  sourceLanguage: EncounterLanguage;
+  generationId: string | null; // ai_generations row, to link to the note once it is saved
+}
+
+export interface NoteGenerationRequest {
+  transcript: string;
+  noteType: string;
+  patientContext: PatientContext | null;
+  radiologyContext?: RadiologyContext | null;
+  notePreferences?: NotePreferences | null;
+  speakerSegments?: SpeakerSegment[] | null; // Ambient encounters, so the model can attribute history vs. plan
+  encounterLanguage?: EncounterLanguageOptions | null;
+  carryForward?: CarryForwardBaseline | null; // Progress notes built on the last signed Assessment/Plan
+}
+
+export interface NoteStreamOptions {
+  onNote: (noteSoFar: string) => void; // Called as each piece of the note arrives
+  signal?: AbortSignal; // Aborting cancels generation; the promise rejects with an AbortError
+}
+
+const NOTE_TYPE_MAP: Record<string, string> = {
+  'H&P': 'hp',
+  'Consult': 'consult',
+  'Progress': 'progress',
+  // Radiology types are already lowercase
+  'xray': 'xray',
+  'ct': 'ct',
+  'mri': 'mri',
+  'ultrasound': 'ultrasound',
+  'mammography': 'mammography',
+  'fluoroscopy': 'fluoroscopy',
+};
+
+const buildNoteRequest = ({
+  transcript,
+  noteType,
+  patientContext,
+  radiologyContext,
+  notePreferences,
+  speakerSegments,
+  encounterLanguage,
+  carryForward,
+}: NoteGenerationRequest) => ({
+  transcript,
+  noteType: NOTE_TYPE_MAP[noteType] || noteType,
+  patientInfo: patientContext,
+  radiologyContext: radiologyContext || null,
+  notePreferences: notePreferences || null,
+  speakerSegments: speakerSegments?.length
+    ? speakerSegments.map(({ speaker, startMs, endMs, text }) => ({ speaker, startMs, endMs, text }))
+    : null,
+  sourceLanguage: encounterLanguage?.language || 'en',
+  interpreterUsed: encounterLanguage?.interpreterUsed || false,
+  carryForward: carryForward?.assessmentPlan.trim()
+    ? {
+      assessmentPlan: carryForward.assessmentPlan,
+      priorNoteDate: new Date(carryForward.signedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
+    }
+    : null,
+});
+
+// Response body of generate-note-with-billing, or the final event of a stream
+interface NoteResponse {
+  success: boolean;
+  error?: string;
+  note: string;
+  billing: Partial<Pick<BillingCodes, 'icd10' | 'cpt' | 'rvu' | 'modifiers'>> & {
+    mdmComplexity?: string;
+    emLevel?: string;
+  };
+  structured_category?: string | null;
+  structured?: StructuredClinicalData | null;
+  sourceLanguage?: EncounterLanguage;
+  isRadiology?: boolean;
+  generationId?: string | null;
+}
+
+const toBillingCodes = (billing: NoteResponse['billing'], isRadiology?: boolean): BillingCodes => ({
+  icd10: billing.icd10 || [],
+  cpt: billing.cpt || [],
+  mdm: billing.mdmComplexity || billing.modifiers?.[0] || 'N/A',
+  em: billing.emLevel || (isRadiology ? 'N/A' : '99214'),
+  rvu: billing.rvu || (isRadiology ? 0.75 : 1.92),
+  modifiers: billing.modifiers || [],
+});
+
+const toNoteWithBilling = (data: NoteResponse): NoteWithBilling => {
+  if (!data.success) throw new Error(data.error || 'Failed to generate note');
+
+  return {
+    note: data.note,
+    billing: toBillingCodes(data.billing, data.isRadiology),
+    structured_category: data.structured_category || null,
+    structured: data.structured || null,
+    sourceLanguage: data.sourceLanguage || 'en',
+    generationId: data.generationId || null,
+  };
+};
+
+export type SectionRefineAction = 'regenerate' | 'concise' | 'expand_differential' | 'problem_based' | 'custom';
+
+export interface SectionRefineRequest {
+  action: SectionRefineAction;
+  instruction?: string; // Free text, for 'custom'
+  updateBilling: boolean; // Re-derive billing codes from the refined note
+}
+
+// The clinician's refine request together with the note it applies to
+export interface NoteSectionRefineRequest extends SectionRefineRequest {
+  note: string;
+  section: { title: string; content: string };
+  transcript: string;
+  noteType: string;
+  patientContext: PatientContext | null;
+  noteId?: string | null; // Set when the note is already saved, so the AI call is recorded against it
+}
 
 /**
  * AI service for generating clinical notes, radiology reports, billing codes, and handoffs.
@@ -10,63 +134,139 @@ const AI = {
   /**
    * Generate a clinical note AND extract billing codes in a single API call.
    * This replaces separate generateNote + extractCodes calls.
+   * Speaker-labelled segments (ambient encounters) let the model attribute history vs. plan.
+   * Non-English encounters are written up in English and the note is marked as translated.
+   * A carry-forward progress note merges the transcript into the baseline Assessment/Plan.
    */
-  async generateNoteWithBilling(
-    transcript: string,
-    noteType: string,
-    patientContext: PatientContext | null,
-    radiologyContext?: RadiologyContext | null,
-    notePreferences?: NotePreferences | null
-  ): Promise<{ note: string; billing: BillingCodes; structured_category?: string | null }> {
-    const noteTypeMap: Record<string, string> = {
-      'H&P': 'hp',
-      'Consult': 'consult',
-      'Progress': 'progress',
-      // Radiology types are already lowercase
-      'xray': 'xray',
-      'ct': 'ct',
-      'mri': 'mri',
-      'ultrasound': 'ultrasound',
-      'mammography': 'mammography',
-      'fluoroscopy': 'fluoroscopy',
-    };
+  async generateNoteWithBilling(request: NoteGenerationRequest): Promise<NoteWithBilling> {
+    const { data, error } = await supabase.functions.invoke('generate-note-with-billing', {
+      body: buildNoteRequest(request),
+    });
 
+    if (error) throw error;
+    return toNoteWithBilling(data);
+  },
+
+  /**
+   * Same as generateNoteWithBilling, but the note is streamed: `onNote` receives
+   * the note so far as each section is written, and billing arrives once the
+   * note is complete. Abort `signal` to cancel mid-generation.
+   */
+  async streamNoteWithBilling(
+    request: NoteGenerationRequest,
+    { onNote, signal }: NoteStreamOptions
+  ): Promise<NoteWithBilling> {
+    // supabase.functions.invoke buffers the whole response, so call the function directly
+    const { data: { session } } = await supabase.auth.getSession();
+    const apiKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-note-with-billing`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session?.access_token || apiKey}`,
+        'apikey': apiKey,
+      },
+      body: JSON.stringify({
+        ...buildNoteRequest(request),
+        stream: true,
+      }),
+      signal,
+    });
+
+    // Errors before generation starts come back as plain JSON
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || `Failed to generate note (${response.status})`);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let note = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      // Server-sent events are separated by a blank line
+      buffer += value;
+      const events = buffer.split('\n\n');
+      buffer = events.pop() ?? '';
+
+      for (const raw of events) {
+        const event = raw.match(/^event: (.*)$/m)?.[1];
+        const data = raw.match(/^data: (.*)$/m)?.[1];
+        if (!event || !data) continue;
+
+        if (event === 'delta') {
+          note += JSON.parse(data).text;
+          onNote(note.trimStart());
+        } else if (event === 'done' || event === 'error') {
+          await reader.cancel();
+          return toNoteWithBilling(JSON.parse(data));
+        }
+      }
+    }
+
+    throw new Error('Note generation ended before the note was complete');
+  },
+
+  /**
+   * Rewrite one section of a generated note, e.g. to make the Assessment more
+   * concise, without regenerating the rest. Billing codes are only returned
+   * (re-derived from the refined note) when `updateBilling` is set.
+   */
+  async refineNoteSection({
+    note,
+    section,
+    transcript,
+    noteType,
+    patientContext,
+    action,
+    instruction,
+    updateBilling,
+    noteId,
+  }: NoteSectionRefineRequest): Promise<{ content: string; billing: BillingCodes | null; generationId: string | null }> {
     const { data, error } = await supabase.functions.invoke('generate-note-with-billing', {
       body: {
+        mode: 'refine-section',
+        note,
+        sectionTitle: section.title,
+        sectionContent: section.content,
         transcript,
-        noteType: noteTypeMap[noteType] || noteType,
+        noteType: NOTE_TYPE_MAP[noteType] || noteType,
         patientInfo: patientContext,
-        radiologyContext: radiologyContext || null,
-        notePreferences: notePreferences || null,
+        action,
+        instruction: instruction || null,
+        updateBilling,
+        noteId: noteId || null,
       },
     });
 
     if (error) throw error;
-    if (!data.success) throw new Error(data.error || 'Failed to generate note');
+    if (!data.success) throw new Error(data.error || 'Failed to refine section');
 
     return {
-      note: data.note,
-      billing: {
-        icd10: data.billing.icd10 || [],
-        cpt: data.billing.cpt || [],
-        mdm: data.billing.mdmComplexity || data.billing.modifiers?.[0] || 'N/A',
-        em: data.billing.emLevel || (data.isRadiology ? 'N/A' : '99214'),
-        rvu: data.billing.rvu || (data.isRadiology ? 0.75 : 1.92),
-        modifiers: data.billing.modifiers || [],
-      },
-      structured_category: data.structured_category || null,
+      content: data.section,
+      billing: data.billing ? toBillingCodes(data.billing, data.isRadiology) : null,
+      generationId: data.generationId || null,
     };
   },
 
   /**
    * Generate a handoff summary from clinical notes and patient data.
+   * Each saved patient's running summary is attached so the handoff covers their whole stay.
    */
   async generateHandoff(
     notes: ClinicalNote[],
     patients: PatientData[]
   ): Promise<string> {
+    const summaries = await fetchPatientSummaries(patients.flatMap(p => (p.id ? [p.id] : [])));
     const { data, error } = await supabase.functions.invoke('generate-handoff', {
-      body: { notes, patients },
+      body: {
+        notes,
+        patients: patients.map(p => (p.id && summaries[p.id] ? { ...p, summary: summaries[p.id] } : p)),
+      },
     });
 
     if (error) throw error;
@@ -83,7 +283,7 @@ const AI = {
     noteType: string,
     patientContext: PatientContext | null
   ): Promise<string> {
-    const result = await this.generateNoteWithBilling(transcript, noteType, patientContext);
+    const result = await this.generateNoteWithBilling({ transcript, noteType, patientContext });
     return result.note;
   },
 
@@ -0,0 +1,75 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * AI usage records. Edge functions write a row to ai_generations for every
+ * model call and return its id; calls made before a note exists (generation,
+ * section refinement) are linked to the note here once it is saved.
+ */
+
+export async function linkGenerationsToNote(noteId: string, generationIds: Array<string | null | undefined>): Promise<void> {
+  const ids = generationIds.filter((id): id is string => !!id);
+  if (ids.length === 0) return;
+
+  const { error } = await supabase.rpc('link_ai_generations', { _note_id: noteId, _generation_ids: ids });
+  if (error) console.error('Failed to link AI generations to note:', error);
+}
+
+export interface AiModelUsage {
+  functionName: string;
+  provider: string;
+  model: string;
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  p50Ms: number | null;
+  p95Ms: number | null;
+}
+
+export interface AiDailyUsage {
+  day: string; // yyyy-MM-dd, UTC
+  calls: number;
+  failures: number;
+  tokens: number;
+  p50Ms: number | null;
+  p95Ms: number | null;
+}
+
+export interface AiUsage {
+  byModel: AiModelUsage[];
+  byDay: AiDailyUsage[];
+}
+
+// Usage between two instants; admins see every user's calls
+export async function fetchAiUsage(from: Date, to: Date): Promise<AiUsage> {
+  const range = { _from: from.toISOString(), _to: to.toISOString() };
+  const [byModel, byDay] = await Promise.all([
+    supabase.rpc('ai_usage_by_model', range),
+    supabase.rpc('ai_usage_by_day', range),
+  ]);
+
+  if (byModel.error) throw byModel.error;
+  if (byDay.error) throw byDay.error;
+
+  return {
+    byModel: (byModel.data || []).map(row => ({
+      functionName: row.function_name,
+      provider: row.provider,
+      model: row.model_used,
+      calls: Number(row.calls),
+      failures: Number(row.failures),
+      promptTokens: Number(row.prompt_tokens),
+      completionTokens: Number(row.completion_tokens),
+      p50Ms: row.p50_ms ?? null,
+      p95Ms: row.p95_ms ?? null,
+    })),
+    byDay: (byDay.data || []).map(row => ({
+      day: row.day,
+      calls: Number(row.calls),
+      failures: Number(row.failures),
+      tokens: Number(row.tokens),
+      p50Ms: row.p50_ms ?? null,
+      p95Ms: row.p95_ms ?? null,
+    })),
+  };
+}
@@ -0,0 +1,147 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { MedicationEntry, StructuredClinicalData } from '@/types/medical';
+import { linkGenerationsToNote } from '@/services/aiGenerations';
+import { refreshPatientSummary } from '@/services/patientSummary';
+
+/**
+ * Discharge summaries. At discharge, every note of the patient's current stay
+ * (written since patients.admitted_at), the
+ * discharge reason and disposition, the medication changes and the results
+ * still pending are turned into a discharge summary by the
+ * generate-discharge-summary function, saved as a draft "discharge" note and
+ * linked to the discharge day (99238/99239) bill.
+ */
+
+export interface DischargeSummaryRequest {
+  patientId: string;
+  dischargeReason: string; // Reason and disposition as shown to the provider, e.g. "Discharge to SNF/Rehab"
+  dischargeNotes: string;
+  billId: string | null;
+}
+
+const CHANGED_STATUSES: MedicationEntry['status'][] = ['new', 'changed', 'held', 'discontinued'];
+const PENDING_VALUE = /^(?:pending|sent|awaiting|in progress)/i;
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+interface StayNote {
+  created_at: string;
+  structured_data: unknown;
+}
+
+// Each medication started, changed, held or stopped during the stay, as last recorded
+function medicationChanges(notes: StayNote[]) {
+  const latest = new Map<string, { name: string; dose?: string; status: string; date: string }>();
+  for (const note of notes) {
+    const structured = note.structured_data as StructuredClinicalData | null;
+    for (const med of structured?.medications || []) {
+      if (!CHANGED_STATUSES.includes(med.status)) continue;
+      latest.set(med.name.toLowerCase(), { name: med.name, dose: med.dose, status: med.status, date: formatDate(note.created_at) });
+    }
+  }
+  return [...latest.values()];
+}
+
+// Labs recorded without a result yet; results that arrived in a later note are dropped
+function pendingResults(notes: StayNote[]) {
+  const pending = new Map<string, { name: string; date: string }>();
+  for (const note of notes) {
+    const structured = note.structured_data as StructuredClinicalData | null;
+    for (const lab of structured?.labs || []) {
+      const key = lab.name.toLowerCase();
+      if (PENDING_VALUE.test(lab.value)) {
+        if (!pending.has(key)) pending.set(key, { name: lab.name, date: formatDate(note.created_at) });
+      } else {
+        pending.delete(key);
+      }
+    }
+  }
+  return [...pending.values()];
+}
+
+export interface DischargeSummaryResult {
+  noteId: string;
+  billLinkError: Error | null; // The summary is saved even when linking it to the bill fails
+}
+
+// Generates and saves the summary of the current stay
+export async function createDischargeSummary(request: DischargeSummaryRequest): Promise<DischargeSummaryResult> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not signed in');
+
+  const { data: patient, error: patientError } = await supabase
+    .from('patients')
+    .select('name, mrn, dob, room, hospital, diagnosis, allergies, admitted_at')
+    .eq('id', request.patientId)
+    .single();
+
+  if (patientError) throw patientError;
+
+  // Notes from earlier stays belong to their own discharge summaries
+  const notesResult = await supabase
+    .from('clinical_notes')
+    .select('id, note_type, generated_note, status, created_at, structured_data')
+    .eq('patient_id', request.patientId)
+    .neq('note_type', 'discharge')
+    .gte('created_at', patient.admitted_at)
+    .order('created_at', { ascending: true });
+
+  if (notesResult.error) throw notesResult.error;
+  const notes = (notesResult.data || []).filter(note => note.generated_note?.trim());
+  if (notes.length === 0) throw new Error('No notes to summarize for this stay');
+
+  // Addenda are part of the signed record, so they are summarized with their note
+  const { data: addenda } = await supabase
+    .from('clinical_note_addenda')
+    .select('note_id, content')
+    .in('note_id', notes.map(note => note.id))
+    .order('signed_at', { ascending: true });
+
+  const { data, error } = await supabase.functions.invoke('generate-discharge-summary', {
+    body: {
+      patientInfo: { name: patient.name, mrn: patient.mrn, dob: patient.dob, room: patient.room, facility: patient.hospital, diagnosis: patient.diagnosis, allergies: patient.allergies },
+      admissionDate: formatDate(patient.admitted_at),
+      dischargeDate: formatDate(new Date().toISOString()),
+      dischargeReason: request.dischargeReason,
+      dischargeNotes: request.dischargeNotes,
+      medicationChanges: medicationChanges(notes),
+      pendingResults: pendingResults(notes),
+      notes: notes.map(note => ({
+        noteType: note.note_type,
+        date: formatDate(note.created_at),
+        status: note.status,
+        text: [
+          note.generated_note,
+          ...(addenda || []).filter(addendum => addendum.note_id === note.id).map(addendum => `ADDENDUM:\n${addendum.content}`),
+        ].join('\n\n'),
+      })),
+    },
+  });
+
+  if (error) throw error;
+  if (!data?.success || !data.summary) throw new Error(data?.error || 'Failed to generate discharge summary');
+
+  const { data: savedNote, error: saveError } = await supabase
+    .from('clinical_notes')
+    .insert({
+      user_id: user.id,
+      patient_id: request.patientId,
+      note_type: 'discharge',
+      generated_note: data.summary,
+    })
+    .select('id')
+    .single();
+
+  if (saveError) throw saveError;
+
+  let billLinkError: Error | null = null;
+  if (request.billId) {
+    const { error: billError } = await supabase.from('bills').update({ note_id: savedNote.id }).eq('id', request.billId);
+    billLinkError = billError;
+  }
+
+  void linkGenerationsToNote(savedNote.id, [data.generationId]);
+  void refreshPatientSummary(request.patientId);
+  return { noteId: savedNote.id, billLinkError };
+}
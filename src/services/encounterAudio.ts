@@ -0,0 +1,38 @@
+import { supabase } from '@/integrations/supabase/client';
+
+const BUCKET = 'encounter-audio';
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const extensionFor = (mimeType: string): string =>
+  mimeType.includes('mp4') ? 'm4a' : mimeType.includes('ogg') ? 'ogg' : 'webm';
+
+/**
+ * Upload the audio of an encounter next to its note.
+ * Returns the storage path to save on the note, or null when the upload failed.
+ */
+export async function uploadEncounterAudio(userId: string, noteId: string, audio: Blob): Promise<string | null> {
+  const path = `${userId}/${noteId}.${extensionFor(audio.type)}`;
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, audio, { contentType: audio.type || 'audio/webm', upsert: true });
+
+  if (error) {
+    console.error('Failed to upload encounter audio:', error);
+    return null;
+  }
+  return path;
+}
+
+// Short-lived URL for playing back a note's audio
+export async function getEncounterAudioUrl(path: string): Promise<string | null> {
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error('Failed to load encounter audio:', error);
+    return null;
+  }
+  return data.signedUrl;
+}
@@ -0,0 +1,116 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { NoteVerification } from '@/lib/noteVerification';
+
+/**
+ * Note signing and addenda. The database does the actual signing: setting a
+ * note's status to "signed" stamps it with the attestation built from the
+ * signer's profile and locks it, and addenda can only be written through
+ * add_clinical_note_addendum, which signs them the same way. A note with
+ * unconfirmed statements flagged by transcript verification cannot be signed.
+ */
+
+export interface NoteSignature {
+  signed_at: string;
+  signer_name: string | null;
+  signer_npi: string | null;
+  signature_attestation: string | null;
+}
+
+export interface NoteAddendum {
+  id: string;
+  note_id: string;
+  content: string;
+  signed_at: string;
+  signer_name: string;
+  signer_npi: string;
+  signature_attestation: string;
+}
+
+export interface SignerProfile {
+  name: string | null;
+  npi: string | null;
+}
+
+type SigningResult<T> = { data: T; error: null } | { data: null; error: string };
+
+// Database exceptions carry the reason signing was refused
+const errorMessage = (error: unknown, fallback: string): string =>
+  error && typeof error === 'object' && 'message' in error && typeof error.message === 'string'
+    ? error.message
+    : fallback;
+
+// Name and NPI as they will appear in the attestation
+export async function fetchSignerProfile(userId: string): Promise<SignerProfile> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('full_name, npi_number')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) console.error('Failed to load signer profile:', error);
+  return {
+    name: data?.full_name?.trim() || null,
+    npi: data?.npi_number?.trim() || null,
+  };
+}
+
+export async function signNote(noteId: string): Promise<SigningResult<NoteSignature>> {
+  const { data, error } = await supabase
+    .from('clinical_notes')
+    .update({ status: 'signed' })
+    .eq('id', noteId)
+    .select('signed_at, signer_name, signer_npi, signature_attestation')
+    .single();
+
+  if (error || !data?.signed_at) {
+    console.error('Failed to sign note:', error);
+    return { data: null, error: errorMessage(error, 'Failed to sign note') };
+  }
+  return { data: { ...data, signed_at: data.signed_at }, error: null };
+}
+
+// Records the clinician's confirmation of flagged statements ahead of signing
+export async function saveVerification(noteId: string, verification: NoteVerification): Promise<SigningResult<NoteVerification>> {
+  const { error } = await supabase
+    .from('clinical_notes')
+    .update({ verification: verification as unknown as Json })
+    .eq('id', noteId);
+
+  if (error) {
+    console.error('Failed to save note verification:', error);
+    return { data: null, error: errorMessage(error, 'Failed to confirm statement') };
+  }
+  return { data: verification, error: null };
+}
+
+export async function fetchAddenda(noteId: string): Promise<NoteAddendum[]> {
+  const { data, error } = await supabase
+    .from('clinical_note_addenda')
+    .select('id, note_id, content, signed_at, signer_name, signer_npi, signature_attestation')
+    .eq('note_id', noteId)
+    .order('signed_at', { ascending: true });
+
+  if (error) {
+    console.error('Failed to load addenda:', error);
+    return [];
+  }
+  return data || [];
+}
+
+export async function addAddendum(noteId: string, content: string): Promise<SigningResult<NoteAddendum>> {
+  const { data, error } = await supabase.rpc('add_clinical_note_addendum', {
+    _note_id: noteId,
+    _content: content,
+  });
+
+  if (error || !data) {
+    console.error('Failed to add addendum:', error);
+    return { data: null, error: errorMessage(error, 'Failed to add addendum') };
+  }
+  return { data, error: null };
+}
+
+// Addendum as it is appended to a copied or exported note
+export const formatAddendum = (addendum: NoteAddendum): string =>
+  `ADDENDUM (${new Date(addendum.signed_at).toLocaleString()})\n${addendum.content}\n${addendum.signature_attestation}`;
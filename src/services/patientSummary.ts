@@ -0,0 +1,164 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { PatientSummary } from '@/types/medical';
+
+const RECENT_NOTE_COUNT = 5;
+
+/**
+ * Rolling patient summaries. Whenever a note is saved, edited, signed or
+ * amended, the patient's most recent notes are folded into their previous
+ * summary by the summarize-patient function and written to patient_summaries,
+ * which note generation and handoffs then read as patient context.
+ */
+
+interface SummaryRow {
+  summary: string | null;
+  key_diagnoses: Json | null;
+  active_medications: Json | null;
+  last_notes_summary: string | null;
+  note_count: number | null;
+  last_updated: string | null;
+}
+
+const SUMMARY_COLUMNS = 'summary, key_diagnoses, active_medications, last_notes_summary, note_count, last_updated';
+
+const toSummary = (row: SummaryRow): PatientSummary => ({
+  narrative: row.summary || '',
+  keyDiagnoses: Array.isArray(row.key_diagnoses) ? (row.key_diagnoses as PatientSummary['keyDiagnoses']) : [],
+  activeMedications: Array.isArray(row.active_medications) ? (row.active_medications as PatientSummary['activeMedications']) : [],
+  lastNotesSummary: row.last_notes_summary || '',
+  noteCount: row.note_count || 0,
+  updatedAt: row.last_updated,
+});
+
+export async function fetchPatientSummary(patientId: string): Promise<PatientSummary | null> {
+  const { data, error } = await supabase
+    .from('patient_summaries')
+    .select(SUMMARY_COLUMNS)
+    .eq('patient_id', patientId)
+    .maybeSingle();
+
+  if (error) console.error('Failed to load patient summary:', error);
+  return data ? toSummary(data) : null;
+}
+
+// Summaries keyed by patient id, for handoffs covering several patients
+export async function fetchPatientSummaries(patientIds: string[]): Promise<Record<string, PatientSummary>> {
+  if (patientIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('patient_summaries')
+    .select(`patient_id, ${SUMMARY_COLUMNS}`)
+    .in('patient_id', patientIds);
+
+  if (error) console.error('Failed to load patient summaries:', error);
+  const summaries: Record<string, PatientSummary> = {};
+  for (const row of data || []) {
+    if (row.patient_id) summaries[row.patient_id] = toSummary(row);
+  }
+  return summaries;
+}
+
+async function summarize(patientId: string): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const [patientResult, previousResult, notesResult, countResult] = await Promise.all([
+    supabase.from('patients').select('name, mrn, dob, diagnosis, allergies').eq('id', patientId).maybeSingle(),
+    supabase.from('patient_summaries').select(SUMMARY_COLUMNS).eq('patient_id', patientId).maybeSingle(),
+    supabase
+      .from('clinical_notes')
+      .select('id, note_type, generated_note, status, created_at, structured_data')
+      .eq('patient_id', patientId)
+      .order('created_at', { ascending: false })
+      .limit(RECENT_NOTE_COUNT),
+    supabase.from('clinical_notes').select('id', { count: 'exact', head: true }).eq('patient_id', patientId),
+  ]);
+
+  if (notesResult.error) throw notesResult.error;
+  const notes = (notesResult.data || []).filter(note => note.generated_note?.trim());
+
+  // Nothing left to summarize once the patient's last note is deleted
+  if (notes.length === 0) {
+    const { error } = await supabase.from('patient_summaries').delete().eq('patient_id', patientId).eq('user_id', user.id);
+    if (error) throw error;
+    return;
+  }
+
+  // Addenda are part of the signed record, so they are summarized with their note
+  const { data: addenda } = await supabase
+    .from('clinical_note_addenda')
+    .select('note_id, content')
+    .in('note_id', notes.map(note => note.id))
+    .order('signed_at', { ascending: true });
+
+  const previous = previousResult.data ? toSummary(previousResult.data) : null;
+  const patient = patientResult.data;
+
+  const { data, error } = await supabase.functions.invoke('summarize-patient', {
+    body: {
+      patientInfo: patient
+        ? { name: patient.name, mrn: patient.mrn, dob: patient.dob, diagnosis: patient.diagnosis, allergies: patient.allergies }
+        : {},
+      previousSummary: previous
+        ? { narrative: previous.narrative, keyDiagnoses: previous.keyDiagnoses, activeMedications: previous.activeMedications }
+        : null,
+      notes: notes.map(note => ({
+        noteType: note.note_type,
+        date: new Date(note.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
+        status: note.status,
+        text: [
+          note.generated_note,
+          ...(addenda || []).filter(addendum => addendum.note_id === note.id).map(addendum => `ADDENDUM:\n${addendum.content}`),
+        ].join('\n\n'),
+        structured: note.structured_data,
+      })),
+    },
+  });
+
+  if (error) throw error;
+  if (!data?.success || !data.summary) throw new Error(data?.error || 'Failed to summarize patient');
+
+  const { error: saveError } = await supabase
+    .from('patient_summaries')
+    .upsert({
+      patient_id: patientId,
+      user_id: user.id,
+      summary: data.summary.narrative,
+      key_diagnoses: data.summary.keyDiagnoses,
+      active_medications: data.summary.activeMedications,
+      last_notes_summary: data.summary.lastNotesSummary,
+      note_count: countResult.count ?? notes.length,
+      last_updated: new Date().toISOString(),
+    }, { onConflict: 'patient_id,user_id' });
+
+  if (saveError) throw saveError;
+}
+
+const inFlight = new Map<string, Promise<void>>();
+const queued = new Set<string>();
+
+/**
+ * Bring a patient's summary up to date with their notes. Safe to call without
+ * awaiting after every save: calls made while a refresh is running collapse
+ * into a single follow-up refresh. Failures are logged and never thrown.
+ */
+export function refreshPatientSummary(patientId: string | null | undefined): Promise<void> {
+  if (!patientId) return Promise.resolve();
+
+  const running = inFlight.get(patientId);
+  if (running) {
+    queued.add(patientId);
+    return running;
+  }
+
+  const run = summarize(patientId)
+    .catch(error => console.error('Failed to refresh patient summary:', error))
+    .finally(() => {
+      inFlight.delete(patientId);
+      if (queued.delete(patientId)) void refreshPatientSummary(patientId);
+    });
+
+  inFlight.set(patientId, run);
+  return run;
+}
@@ -0,0 +1,202 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { SpeakerSegment } from '@/types/medical';
+
+// ===== Providers =====
+
+export type TranscriptionProviderId = 'webspeech' | 'scribe' | 'gemini' | 'mock';
+
+// 'auto' lets the app pick the best provider for the recording mode
+export type TranscriptionProviderPreference = TranscriptionProviderId | 'auto';
+
+// Dictation is short and single-speaker; ambient covers a whole encounter
+export type TranscriptionMode = 'dictation' | 'ambient';
+
+export interface TranscriptionProviderInfo {
+  label: string;
+  description: string;
+  streaming: boolean; // Text appears while speaking rather than after stopping
+  diarization: boolean; // Labels who is speaking
+}
+
+export const TRANSCRIPTION_PROVIDERS: Record<TranscriptionProviderId, TranscriptionProviderInfo> = {
+  webspeech: {
+    label: 'Browser Speech',
+    description: 'Built-in browser recognition, works best in Chrome and Edge',
+    streaming: true,
+    diarization: false,
+  },
+  scribe: {
+    label: 'ElevenLabs Scribe',
+    description: 'Realtime medical-grade transcription with speaker labels',
+    streaming: true,
+    diarization: true,
+  },
+  gemini: {
+    label: 'Gemini Batch',
+    description: 'Records in segments and transcribes each one, most tolerant of poor connections',
+    streaming: false,
+    diarization: true,
+  },
+  mock: {
+    label: 'Mock (Development)',
+    description: 'Plays back a fixed sample encounter without using the microphone',
+    streaming: true,
+    diarization: true,
+  },
+};
+
+// Order providers are tried in when the preferred one is unavailable or fails
+const DEFAULT_PROVIDER_ORDER: Record<TranscriptionMode, TranscriptionProviderId[]> = {
+  dictation: ['webspeech', 'scribe', 'gemini'],
+  ambient: ['scribe', 'gemini', 'webspeech'],
+};
+
+/**
+ * Providers to try for a recording, in order. The preferred provider goes first,
+ * followed by the mode's default order. The mock is only used when chosen explicitly.
+ */
+export function buildFallbackChain(
+  mode: TranscriptionMode,
+  preferred: TranscriptionProviderPreference
+): TranscriptionProviderId[] {
+  const defaults = DEFAULT_PROVIDER_ORDER[mode];
+  if (preferred === 'auto') return defaults;
+  return [preferred, ...defaults.filter(id => id !== preferred)];
+}
+
+// ===== Languages =====
+
+// ISO 639-1 codes; 'auto' leaves detection to the provider or the note generator
+export type EncounterLanguage = 'en' | 'es' | 'zh' | 'vi' | 'tl' | 'ar' | 'fr' | 'ht' | 'pt' | 'ru';
+
+export type EncounterLanguagePreference = EncounterLanguage | 'auto';
+
+export const ENCOUNTER_LANGUAGES: Record<EncounterLanguage, { label: string; speechLocale: string }> = {
+  en: { label: 'English', speechLocale: 'en-US' },
+  es: { label: 'Spanish', speechLocale: 'es-US' },
+  zh: { label: 'Chinese (Mandarin)', speechLocale: 'zh-CN' },
+  vi: { label: 'Vietnamese', speechLocale: 'vi-VN' },
+  tl: { label: 'Tagalog', speechLocale: 'fil-PH' },
+  ar: { label: 'Arabic', speechLocale: 'ar-SA' },
+  fr: { label: 'French', speechLocale: 'fr-FR' },
+  ht: { label: 'Haitian Creole', speechLocale: 'ht-HT' },
+  pt: { label: 'Portuguese', speechLocale: 'pt-BR' },
+  ru: { label: 'Russian', speechLocale: 'ru-RU' },
+};
+
+// How the encounter was conducted, sent with note generation
+export interface EncounterLanguageOptions {
+  language: EncounterLanguagePreference;
+  interpreterUsed: boolean;
+}
+
+// Browser speech recognition cannot detect the language, so auto falls back to English
+export const speechLocaleFor = (language: EncounterLanguagePreference): string =>
+  ENCOUNTER_LANGUAGES[language === 'auto' ? 'en' : language].speechLocale;
+
+export interface TranscriptionError {
+  code: string;
+  message: string;
+}
+
+export interface TranscriptionResult {
+  transcript: string;
+  rawTranscript?: string; // Before medical-term corrections; same as transcript when none were applied
+  speakerSegments: SpeakerSegment[];
+  audio?: Blob | null; // Encounter audio, kept for playback when reviewing the transcript
+}
+
+/**
+ * Contract every transcription backend is adapted to.
+ * Adapters wrap the hook driving their backend and are rebuilt on each render,
+ * so their fields always reflect the latest state.
+ */
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId;
+  isSupported: boolean;
+  isRecording: boolean;
+  isStarting: boolean;
+  transcript: string; // Finalized text so far
+  rawTranscript: string; // Finalized text before corrections
+  interim: string; // Text still being recognized
+  speakerSegments: SpeakerSegment[];
+  hasRecentCorrections: boolean;
+  isRefining: boolean; // AI correction of the live text is in flight
+  inputLevel: number | null; // Microphone level 0-1, when the provider measures it
+  noInputWarning: boolean; // Nothing heard for a while; the microphone may be muted or too far away
+  recordsAudio: boolean; // Keeps its own full-length recording and returns it from stop
+  error: TranscriptionError | null;
+  start: () => Promise<boolean>; // Resolves false when the provider could not start
+  stop: () => Promise<TranscriptionResult>;
+  reset: (options?: { keepRecovery?: boolean }) => void; // keepRecovery leaves crash-recovery copies of the audio in place
+}
+
+// ===== Segment Transcription =====
+
+export interface SegmentTiming {
+  index: number;
+  startMs: number;
+  endMs: number;
+}
+
+export type SegmentTranscriptionResult =
+  | { success: true; text: string; utterances: SpeakerSegment[] }
+  | { success: false; error: string; errorCode: string | null };
+
+export const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Transcribe one segment of an ambient recording with speaker diarization
+ * and word timings, in the language spoken (never translated).
+ * `previousText` is the tail of the transcript so far, sent for continuity.
+ * Never throws; failures are returned so callers can retry the segment later.
+ */
+export async function transcribeAudioSegment(
+  blob: Blob,
+  timing: SegmentTiming,
+  previousText: string,
+  language: EncounterLanguagePreference = 'en'
+): Promise<SegmentTranscriptionResult> {
+  try {
+    const base64Audio = await blobToBase64(blob);
+
+    const { data, error } = await supabase.functions.invoke('transcribe-audio', {
+      body: {
+        audio: base64Audio,
+        mimeType: blob.type,
+        segment: timing,
+        previousText,
+        diarize: true,
+        wordTimestamps: true,
+        language,
+      },
+    });
+
+    if (error) {
+      return { success: false, error: error.message || 'Transcription failed', errorCode: null };
+    }
+
+    if (!data?.success) {
+      return { success: false, error: data?.error || 'Transcription failed', errorCode: data?.errorCode || null };
+    }
+
+    // Silent segments legitimately come back empty
+    return {
+      success: true,
+      text: data.segment?.text ?? data.text ?? '',
+      utterances: data.segment?.utterances ?? data.utterances ?? [],
+    };
+  } catch (e) {
+    return {
+      success: false,
+      error: e instanceof Error ? e.message : 'Failed to transcribe audio',
+      errorCode: 'UNKNOWN_ERROR',
+    };
+  }
+}
@@ -9,6 +9,17 @@ export interface PatientContext {
   room?: string;
   diagnosis?: string;
   allergies?: string[];
+  summary?: PatientSummary | null; // What earlier notes established, for note generation
+}
+
+// Rolling summary of a patient's notes, kept up to date in patient_summaries
+export interface PatientSummary {
+  narrative: string;
+  keyDiagnoses: Array<{ code: string; description: string }>;
+  activeMedications: Array<{ name: string; dose?: string }>;
+  lastNotesSummary: string;
+  noteCount: number;
+  updatedAt: string | null;
 }
 
 export interface PatientData {
@@ -20,6 +31,7 @@ export interface PatientData {
   diagnosis?: string;
   allergies?: string;
   hospital?: string;
+  summary?: PatientSummary | null;
 }
 
 export interface SavedPatient {
@@ -33,6 +45,58 @@ export interface SavedPatient {
   hospital?: string | null;
 }
 
+// Structured data extracted from an encounter alongside the narrative note (clinical_notes.structured_data)
+export interface VitalSigns {
+  bloodPressure?: string; // "128/76"
+  heartRate?: number; // bpm
+  respiratoryRate?: number; // breaths/min
+  temperature?: number;
+  temperatureUnit?: 'F' | 'C';
+  oxygenSaturation?: number; // %
+  oxygenSupport?: string; // "2L NC", "room air"
+  weight?: number;
+  weightUnit?: 'kg' | 'lb';
+  painScore?: number; // 0-10
+}
+
+export interface LabResult {
+  name: string;
+  value: string; // Kept as stated: "7.2", "<0.01", "positive"
+  unit?: string;
+  flag?: 'high' | 'low' | 'critical' | 'abnormal';
+  collectedAt?: string; // As stated: "this morning", "10/18"
+}
+
+export type MedicationStatus = 'active' | 'new' | 'changed' | 'held' | 'discontinued';
+
+export interface MedicationEntry {
+  name: string;
+  dose?: string;
+  route?: string;
+  frequency?: string;
+  status: MedicationStatus;
+}
+
+export interface AllergyEntry {
+  substance: string;
+  reaction?: string;
+  severity?: 'mild' | 'moderate' | 'severe';
+}
+
+export interface ProblemEntry {
+  description: string;
+  icd10?: string;
+  status: 'active' | 'resolved' | 'chronic';
+}
+
+export interface StructuredClinicalData {
+  vitals: VitalSigns | null;
+  labs: LabResult[];
+  medications: MedicationEntry[];
+  allergies: AllergyEntry[];
+  problems: ProblemEntry[];
+}
+
 export interface BillingCodes {
   icd10: Array<{ code: string; description?: string }>;
   cpt: Array<{ code: string; description?: string }>;
@@ -60,6 +124,36 @@ export interface ClinicalNote {
   structured_category?: string | null;
 }
 
+// Who is talking in an ambient encounter
+export type SpeakerRole = 'clinician' | 'patient' | 'family' | 'unknown';
+
+// One speaker-attributed utterance of an encounter transcript
+// One spoken word, timed from the start of the recording
+export interface TranscriptWord {
+  text: string;
+  startMs: number;
+  endMs: number;
+}
+
+export interface SpeakerSegment {
+  id: string;
+  speakerId: string; // Raw diarization label (e.g. "speaker_0"), shared by every utterance of one voice
+  speaker: SpeakerRole;
+  startMs: number;
+  endMs: number;
+  text: string;
+  words?: TranscriptWord[]; // Present when the provider returned word timings
+}
+
+// One independently transcribed window of an ambient recording
+export interface TranscriptionSegment {
+  index: number;
+  startMs: number; // Offset from the start of the recording, pauses excluded
+  endMs: number;
+  text: string;
+  utterances?: SpeakerSegment[]; // Present when the window was diarized
+}
+
 export interface TodayStats {
   notesCount: number;
   totalRvu: number;
@@ -87,3 +181,12 @@ export interface RadiologyContext {
   technique?: string;
   contrast?: boolean;
 }
+
+// Baseline for a carry-forward progress note: the Assessment/Plan of the
+// patient's last signed note, as edited by the clinician before generating
+export interface CarryForwardBaseline {
+  noteId: string;
+  noteType: string;
+  signedAt: string;
+  assessmentPlan: string;
+}
@@ -0,0 +1,72 @@
+import type { LlmProviderName } from './types.ts';
+
+export interface LlmFunctionConfig {
+  provider: LlmProviderName;
+  model: string;
+  temperature?: number; // Provider default when unset
+  timeoutMs: number; // Per attempt; for streams, until the provider starts responding
+  maxRetries: number; // Extra attempts after a retryable failure
+}
+
+const PROVIDERS: LlmProviderName[] = ['cohere', 'lovable', 'gemini', 'mock'];
+
+// Used when a provider is chosen without naming a model
+export const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  cohere: 'command-a-03-2025',
+  lovable: 'google/gemini-2.5-flash',
+  gemini: 'gemini-2.5-flash',
+  mock: 'mock-1',
+};
+
+// Which model serves each edge function
+const FUNCTION_CONFIG: Record<string, LlmFunctionConfig> = {
+  'generate-note-with-billing': { provider: 'cohere', model: 'command-a-03-2025', temperature: 0.3, timeoutMs: 90_000, maxRetries: 2 },
+  'generate-handoff': { provider: 'cohere', model: 'command-a-03-2025', temperature: 0.2, timeoutMs: 60_000, maxRetries: 2 },
+  'summarize-patient': { provider: 'cohere', model: 'command-a-03-2025', temperature: 0.2, timeoutMs: 60_000, maxRetries: 2 },
+  'generate-discharge-summary': { provider: 'cohere', model: 'command-a-03-2025', temperature: 0.2, timeoutMs: 90_000, maxRetries: 2 },
+  'correct-medical-terms': { provider: 'cohere', model: 'command-a-03-2025', temperature: 0.1, timeoutMs: 20_000, maxRetries: 1 },
+  'parse-face-sheet': { provider: 'lovable', model: 'google/gemini-2.5-flash', temperature: 0.2, timeoutMs: 60_000, maxRetries: 2 },
+  'transcribe-audio': { provider: 'gemini', model: 'gemini-2.5-flash', timeoutMs: 120_000, maxRetries: 1 },
+};
+
+const FALLBACK_CONFIG: LlmFunctionConfig = { provider: 'cohere', model: DEFAULT_MODELS.cohere, timeoutMs: 60_000, maxRetries: 2 };
+
+const isProvider = (value: string | undefined): value is LlmProviderName =>
+  !!value && (PROVIDERS as string[]).includes(value);
+
+// generate-note-with-billing -> LLM_GENERATE_NOTE_WITH_BILLING_PROVIDER
+const envName = (functionName: string, setting: string): string =>
+  `LLM_${functionName.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_${setting}`;
+
+const envNumber = (name: string): number | undefined => {
+  const value = Number(Deno.env.get(name));
+  return Deno.env.get(name) && Number.isFinite(value) ? value : undefined;
+};
+
+/**
+ * The configuration for one function, with environment overrides applied:
+ * - LLM_PROVIDER switches every function at once (LLM_PROVIDER=mock runs the stack offline)
+ * - LLM_<FUNCTION>_PROVIDER and LLM_<FUNCTION>_MODEL switch one function
+ * - LLM_<FUNCTION>_TIMEOUT_MS and LLM_<FUNCTION>_MAX_RETRIES tune one function
+ * Switching provider without naming a model uses that provider's default model.
+ */
+export function getLlmConfig(functionName: string): LlmFunctionConfig {
+  const base = FUNCTION_CONFIG[functionName] || FALLBACK_CONFIG;
+
+  const providerOverride = Deno.env.get(envName(functionName, 'PROVIDER')) || Deno.env.get('LLM_PROVIDER');
+  const provider = isProvider(providerOverride) ? providerOverride : base.provider;
+  if (providerOverride && !isProvider(providerOverride)) {
+    console.warn(`Unknown LLM provider "${providerOverride}", using ${base.provider}`);
+  }
+
+  const model = Deno.env.get(envName(functionName, 'MODEL'))
+    || (provider === base.provider ? base.model : DEFAULT_MODELS[provider]);
+
+  return {
+    ...base,
+    provider,
+    model,
+    timeoutMs: envNumber(envName(functionName, 'TIMEOUT_MS')) ?? base.timeoutMs,
+    maxRetries: envNumber(envName(functionName, 'MAX_RETRIES')) ?? base.maxRetries,
+  };
+}
@@ -0,0 +1,252 @@
+import { getLlmConfig, type LlmFunctionConfig } from './config.ts';
+import { cohereProvider } from './providers/cohere.ts';
+import { geminiProvider } from './providers/gemini.ts';
+import { lovableProvider } from './providers/lovable.ts';
+import { mockProvider } from './providers/mock.ts';
+import { recordGeneration, type GenerationStatus } from './tracking.ts';
+import {
+  LlmError,
+  type LlmProvider,
+  type LlmProviderName,
+  type LlmRequest,
+  type LlmResponse,
+  type LlmUsage,
+  type ProviderRequest,
+  type ProviderStreamEvent,
+} from './types.ts';
+
+export { LlmError } from './types.ts';
+export type { LlmPart, LlmProviderName, LlmRequest, LlmResponse, LlmUsage } from './types.ts';
+export type { LlmFunctionConfig } from './config.ts';
+export { trackingFrom, type GenerationTracking } from './tracking.ts';
+
+/**
+ * Provider-agnostic gateway for every model call the edge functions make.
+ * Each function gets a client for its own configuration (config.ts), so the
+ * vendor and model can be switched per function, or to the offline mock
+ * provider, without touching the function:
+ *
+ *   const llm = createLlmClient('generate-handoff');
+ *   const { text } = await llm.complete({ system, prompt });
+ *
+ * Calls time out per attempt and are retried with exponential backoff on
+ * rate limits, server errors, network failures and timeouts. Requests that
+ * carry `tracking` are recorded in ai_generations, successful or not.
+ */
+
+const PROVIDERS: Record<LlmProviderName, LlmProvider> = {
+  cohere: cohereProvider,
+  lovable: lovableProvider,
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8_000;
+
+// A streamed reply: iterate for the text; `response` is set once the stream has finished
+export interface LlmStream extends AsyncIterable<string> {
+  readonly response: LlmResponse | null;
+  readonly generationId: string | null;
+}
+
+export interface LlmClient {
+  readonly config: LlmFunctionConfig;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+  // Resolves once the provider starts responding; failures before then are retried
+  stream(request: LlmRequest): Promise<LlmStream>;
+}
+
+/**
+ * The JSON object in a model reply, tolerating prose or code fences around it.
+ * Null when the reply holds no parseable object.
+ */
+export function extractJson(text: string): Record<string, unknown> | null {
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+  try {
+    const parsed = JSON.parse(jsonMatch[0]);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+const backoffMs = (attempt: number): number =>
+  Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS) + Math.random() * BACKOFF_BASE_MS;
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// Aborts when the caller does or the attempt runs out of time. The caller stays
+// attached after the timer is cleared, so cancelling a stream still reaches the provider
+function attemptSignal(caller: AbortSignal | undefined, timeoutMs: number) {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  const onAbort = () => controller.abort(caller?.reason);
+  if (caller?.aborted) onAbort();
+  caller?.addEventListener('abort', onAbort, { once: true });
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    clearTimer: () => clearTimeout(timer),
+    detach: () => caller?.removeEventListener('abort', onAbort),
+  };
+}
+
+export function createLlmClient(functionName: string): LlmClient {
+  const config = getLlmConfig(functionName);
+  const provider = PROVIDERS[config.provider];
+
+  const toProviderRequest = (request: LlmRequest, signal: AbortSignal): ProviderRequest => ({
+    functionName,
+    model: config.model,
+    system: request.system || '',
+    parts: typeof request.prompt === 'string' ? [{ type: 'text', text: request.prompt }] : request.prompt,
+    json: request.json === true,
+    temperature: request.temperature ?? config.temperature,
+    maxOutputTokens: request.maxOutputTokens,
+    signal,
+  });
+
+  const record = async (
+    request: LlmRequest,
+    generationId: string | null,
+    status: GenerationStatus,
+    startedAt: number,
+    usage: LlmUsage | null,
+    error?: unknown
+  ) => {
+    if (!request.tracking || !generationId) return;
+    await recordGeneration(request.tracking, {
+      id: generationId,
+      functionName,
+      provider: config.provider,
+      model: config.model,
+      status,
+      usage,
+      latencyMs: Date.now() - startedAt,
+      errorMessage: error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+    });
+  };
+
+  // A failed call was cancelled when the caller aborted it
+  const failureStatus = (request: LlmRequest): GenerationStatus => (request.signal?.aborted ? 'cancelled' : 'error');
+
+  const toResponse = (
+    request: LlmRequest,
+    generationId: string | null,
+    text: string,
+    usage: LlmUsage,
+    finishReason: string | null,
+    startedAt: number
+  ): LlmResponse => {
+    const response: LlmResponse = {
+      text,
+      json: request.json ? extractJson(text) : null,
+      provider: config.provider,
+      model: config.model,
+      usage,
+      finishReason,
+      latencyMs: Date.now() - startedAt,
+      generationId,
+    };
+    if (request.json && !response.json) console.warn(`${functionName}: model reply was not valid JSON`);
+    console.log(`${functionName}: ${config.provider}/${config.model} replied in ${response.latencyMs}ms`
+      + ` (${usage.promptTokens ?? '?'} prompt / ${usage.completionTokens ?? '?'} completion tokens)`);
+    return response;
+  };
+
+  // One provider call, with a timeout per attempt and backoff between retryable failures
+  async function withRetries<T>(request: LlmRequest, call: (providerRequest: ProviderRequest) => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const attemptAbort = attemptSignal(request.signal, config.timeoutMs);
+      try {
+        return await call(toProviderRequest(request, attemptAbort.signal));
+      } catch (caught) {
+        attemptAbort.detach();
+        if (request.signal?.aborted) throw caught;
+
+        const error = attemptAbort.timedOut()
+          ? new LlmError(`${config.provider} did not respond within ${config.timeoutMs}ms`, {
+            provider: config.provider, retryable: true, code: 'timeout',
+          })
+          : caught;
+        if (!(error instanceof LlmError) || !error.retryable || attempt >= config.maxRetries) throw error;
+
+        const waitMs = backoffMs(attempt);
+        console.warn(`${functionName}: ${error.message}, retrying in ${Math.round(waitMs)}ms (attempt ${attempt + 2} of ${config.maxRetries + 1})`);
+        await sleep(waitMs);
+      } finally {
+        attemptAbort.clearTimer();
+      }
+    }
+  }
+
+  return {
+    config,
+
+    async complete(request) {
+      const startedAt = Date.now();
+      const generationId = request.tracking ? crypto.randomUUID() : null;
+      try {
+        const result = await withRetries(request, providerRequest => provider.complete(providerRequest));
+        const response = toResponse(request, generationId, result.text, result.usage, result.finishReason, startedAt);
+        await record(request, generationId, 'success', startedAt, result.usage);
+        return response;
+      } catch (error) {
+        await record(request, generationId, failureStatus(request), startedAt, null, error);
+        throw error;
+      }
+    },
+
+    async stream(request) {
+      const startedAt = Date.now();
+      const generationId = request.tracking ? crypto.randomUUID() : null;
+      let events: AsyncIterable<ProviderStreamEvent>;
+      try {
+        events = await withRetries(request, providerRequest => provider.stream(providerRequest));
+      } catch (error) {
+        await record(request, generationId, failureStatus(request), startedAt, null, error);
+        throw error;
+      }
+
+      let response: LlmResponse | null = null;
+      async function* chunks(): AsyncGenerator<string> {
+        let text = '';
+        let usage: LlmUsage = { promptTokens: null, completionTokens: null };
+        let finishReason: string | null = null;
+
+        try {
+          for await (const event of events) {
+            if (event.type === 'text') {
+              text += event.text;
+              yield event.text;
+            } else {
+              usage = event.usage;
+              finishReason = event.finishReason;
+            }
+          }
+        } catch (error) {
+          await record(request, generationId, failureStatus(request), startedAt, usage, error);
+          throw error;
+        }
+        response = toResponse(request, generationId, text, usage, finishReason, startedAt);
+        await record(request, generationId, 'success', startedAt, usage);
+      }
+
+      return {
+        [Symbol.asyncIterator]: chunks,
+        generationId,
+        get response() {
+          return response;
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import type { LlmProvider, LlmUsage, ProviderRequest, ProviderStreamEvent } from '../types.ts';
+import { postJson, readLines, requireApiKey, textOnly } from './http.ts';
+
+const COHERE_API_URL = 'https://api.cohere.ai/v1/chat';
+
+interface CohereMeta {
+  billed_units?: { input_tokens?: number; output_tokens?: number };
+}
+
+const usageFrom = (meta: CohereMeta | undefined): LlmUsage => ({
+  promptTokens: meta?.billed_units?.input_tokens ?? null,
+  completionTokens: meta?.billed_units?.output_tokens ?? null,
+});
+
+// Cohere is asked for JSON by the prompt; the reply is parsed by the client
+async function send(request: ProviderRequest, stream: boolean): Promise<Response> {
+  const apiKey = requireApiKey('cohere', 'COHERE_API_KEY');
+  return await postJson('cohere', COHERE_API_URL, {
+    model: request.model,
+    message: textOnly('cohere', request.parts),
+    ...(request.system ? { preamble: request.system } : {}),
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    ...(request.maxOutputTokens ? { max_tokens: request.maxOutputTokens } : {}),
+    stream,
+  }, request.signal, { 'Authorization': `Bearer ${apiKey}` });
+}
+
+// Cohere streams one JSON event per line
+async function* streamEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ProviderStreamEvent> {
+  for await (const line of readLines(body)) {
+    const event = JSON.parse(line);
+    if (event.event_type === 'text-generation') {
+      yield { type: 'text', text: event.text };
+    } else if (event.event_type === 'stream-end') {
+      yield { type: 'end', usage: usageFrom(event.response?.meta), finishReason: event.finish_reason ?? null };
+    }
+  }
+}
+
+export const cohereProvider: LlmProvider = {
+  async complete(request) {
+    const data = await (await send(request, false)).json();
+    return { text: data.text || '', usage: usageFrom(data.meta), finishReason: data.finish_reason ?? null };
+  },
+
+  async stream(request) {
+    const response = await send(request, true);
+    return streamEvents(response.body!);
+  },
+};
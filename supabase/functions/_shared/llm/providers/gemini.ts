@@ -0,0 +1,68 @@
+import type { LlmPart, LlmProvider, LlmUsage, ProviderRequest, ProviderStreamEvent } from '../types.ts';
+import { postJson, readLines, requireApiKey } from './http.ts';
+
+// Google Gemini API, called directly with GOOGLE_API_KEY
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+interface GeminiUsage {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+}
+
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> }; finishReason?: string }>;
+  usageMetadata?: GeminiUsage;
+}
+
+const usageFrom = (usage: GeminiUsage | undefined): LlmUsage => ({
+  promptTokens: usage?.promptTokenCount ?? null,
+  completionTokens: usage?.candidatesTokenCount ?? null,
+});
+
+const textOf = (data: GeminiResponse): string =>
+  (data.candidates?.[0]?.content?.parts || []).map(part => part.text || '').join('');
+
+const toPart = (part: LlmPart) =>
+  part.type === 'text' ? { text: part.text } : { inline_data: { mime_type: part.mimeType, data: part.data } };
+
+async function send(request: ProviderRequest, stream: boolean): Promise<Response> {
+  const apiKey = requireApiKey('gemini', 'GOOGLE_API_KEY');
+  const method = stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+  return await postJson('gemini', `${GEMINI_API_URL}/${request.model}:${method}key=${apiKey}`, {
+    ...(request.system ? { systemInstruction: { parts: [{ text: request.system }] } } : {}),
+    contents: [{ role: 'user', parts: request.parts.map(toPart) }],
+    generationConfig: {
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.maxOutputTokens ? { maxOutputTokens: request.maxOutputTokens } : {}),
+      ...(request.json ? { responseMimeType: 'application/json' } : {}),
+    },
+  }, request.signal);
+}
+
+// Server-sent events, each a partial GenerateContentResponse
+async function* streamEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ProviderStreamEvent> {
+  let usage: LlmUsage = usageFrom(undefined);
+  let finishReason: string | null = null;
+
+  for await (const line of readLines(body)) {
+    if (!line.startsWith('data:')) continue;
+    const chunk: GeminiResponse = JSON.parse(line.slice(5));
+    const text = textOf(chunk);
+    if (text) yield { type: 'text', text };
+    if (chunk.candidates?.[0]?.finishReason) finishReason = chunk.candidates[0].finishReason;
+    if (chunk.usageMetadata) usage = usageFrom(chunk.usageMetadata);
+  }
+  yield { type: 'end', usage, finishReason };
+}
+
+export const geminiProvider: LlmProvider = {
+  async complete(request) {
+    const data: GeminiResponse = await (await send(request, false)).json();
+    return { text: textOf(data), usage: usageFrom(data.usageMetadata), finishReason: data.candidates?.[0]?.finishReason ?? null };
+  },
+
+  async stream(request) {
+    const response = await send(request, true);
+    return streamEvents(response.body!);
+  },
+};
@@ -0,0 +1,71 @@
+import { LlmError, type LlmProviderName } from '../types.ts';
+
+export function requireApiKey(provider: LlmProviderName, envVar: string): string {
+  const apiKey = Deno.env.get(envVar);
+  if (!apiKey) throw new LlmError(`${envVar} not configured`, { provider, code: 'not_configured' });
+  return apiKey;
+}
+
+/**
+ * POST a JSON body and return the response once it is known to be OK.
+ * Rate limits and server errors are retryable; other statuses are not.
+ * Network failures are retryable unless the call was aborted.
+ */
+export async function postJson(
+  provider: LlmProviderName,
+  url: string,
+  body: unknown,
+  signal: AbortSignal,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal.aborted) throw error;
+    throw new LlmError(`${provider} request failed: ${error instanceof Error ? error.message : error}`, {
+      provider, retryable: true, code: 'network',
+    });
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`${provider} API error:`, response.status, errorText);
+    throw new LlmError(`${provider} API error: ${response.status}`, {
+      provider,
+      status: response.status,
+      retryable: response.status === 429 || response.status >= 500,
+    });
+  }
+  return response;
+}
+
+// Lines of a streamed response body, as they complete
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let partialLine = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    const lines = (partialLine + value).split('\n');
+    partialLine = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) yield line;
+    }
+  }
+  if (partialLine.trim()) yield partialLine;
+}
+
+export const textOnly = (provider: LlmProviderName, parts: Array<{ type: string; text?: string }>): string => {
+  if (parts.some(part => part.type !== 'text')) {
+    throw new LlmError(`${provider} does not accept image or audio input`, { provider, status: 400 });
+  }
+  return parts.map(part => part.text).join('\n\n');
+};
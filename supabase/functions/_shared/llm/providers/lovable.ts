@@ -0,0 +1,73 @@
+import type { LlmPart, LlmProvider, LlmUsage, ProviderRequest, ProviderStreamEvent } from '../types.ts';
+import { postJson, readLines, requireApiKey } from './http.ts';
+
+// OpenAI-compatible chat completions, routed to Google and OpenAI models
+const LOVABLE_AI_URL = 'https://ai.gateway.lovable.dev/v1/chat/completions';
+
+interface OpenAiUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+const usageFrom = (usage: OpenAiUsage | undefined | null): LlmUsage => ({
+  promptTokens: usage?.prompt_tokens ?? null,
+  completionTokens: usage?.completion_tokens ?? null,
+});
+
+function toContent(part: LlmPart) {
+  switch (part.type) {
+    case 'text':
+      return { type: 'text', text: part.text };
+    case 'image':
+      return { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } };
+    case 'audio':
+      return { type: 'input_audio', input_audio: { data: part.data, format: part.mimeType.split('/')[1] } };
+  }
+}
+
+async function send(request: ProviderRequest, stream: boolean): Promise<Response> {
+  const apiKey = requireApiKey('lovable', 'LOVABLE_API_KEY');
+  return await postJson('lovable', LOVABLE_AI_URL, {
+    model: request.model,
+    messages: [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.parts.map(toContent) },
+    ],
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    ...(request.maxOutputTokens ? { max_tokens: request.maxOutputTokens } : {}),
+    ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+    ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+  }, request.signal, { 'Authorization': `Bearer ${apiKey}` });
+}
+
+// Server-sent events, one `data:` line per chunk, ending with `data: [DONE]`
+async function* streamEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ProviderStreamEvent> {
+  let usage: LlmUsage = usageFrom(null);
+  let finishReason: string | null = null;
+
+  for await (const line of readLines(body)) {
+    if (!line.startsWith('data:')) continue;
+    const data = line.slice(5).trim();
+    if (data === '[DONE]') break;
+
+    const chunk = JSON.parse(data);
+    const choice = chunk.choices?.[0];
+    if (choice?.delta?.content) yield { type: 'text', text: choice.delta.content };
+    if (choice?.finish_reason) finishReason = choice.finish_reason;
+    if (chunk.usage) usage = usageFrom(chunk.usage);
+  }
+  yield { type: 'end', usage, finishReason };
+}
+
+export const lovableProvider: LlmProvider = {
+  async complete(request) {
+    const data = await (await send(request, false)).json();
+    const choice = data.choices?.[0];
+    return { text: choice?.message?.content || '', usage: usageFrom(data.usage), finishReason: choice?.finish_reason ?? null };
+  },
+
+  async stream(request) {
+    const response = await send(request, true);
+    return streamEvents(response.body!);
+  },
+};
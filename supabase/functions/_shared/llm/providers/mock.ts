@@ -0,0 +1,166 @@
+import type { LlmProvider, LlmUsage, ProviderRequest, ProviderStreamEvent } from '../types.ts';
+
+/**
+ * Offline provider for local development (LLM_PROVIDER=mock): canned,
+ * well-formed replies for each function, so the whole stack runs without
+ * vendor keys or network access. Replies keep the shape each function
+ * parses, not clinical accuracy.
+ */
+
+const MOCK_LATENCY_MS = 150;
+const STREAM_CHUNK_WORDS = 4;
+
+// Must match BILLING_DELIMITER in generate-note-with-billing
+const BILLING_DELIMITER = '===BILLING===';
+
+const MOCK_BILLING = {
+  icd10: [{ code: 'R07.9', description: 'Chest pain, unspecified' }],
+  cpt: [{ code: '99214', description: 'Office visit, moderate complexity' }],
+  mdmComplexity: 'Moderate',
+  emLevel: '99214',
+  rvu: 1.92,
+};
+
+const MOCK_STRUCTURED = {
+  vitals: { bloodPressure: '128/76', heartRate: 88, oxygenSaturation: 97, oxygenSupport: 'room air' },
+  labs: [{ name: 'Troponin', value: '<0.01', unit: 'ng/mL' }],
+  medications: [{ name: 'Aspirin', dose: '81 mg', route: 'PO', frequency: 'daily', status: 'active' }],
+  allergies: [],
+  problems: [{ description: 'Chest pain, unspecified', icd10: 'R07.9', status: 'active' }],
+};
+
+const MOCK_NOTE = `## Chief Complaint
+Chest pain.
+
+## History of Present Illness
+[PATIENT_NAME] reports intermittent chest pain. (Mock note generated offline.)
+
+## Assessment
+Chest pain, likely non-cardiac.
+
+## Plan
+- Serial troponins
+- Follow up as needed`;
+
+// The user prompt, minus its leading instruction line
+const promptBody = (request: ProviderRequest): string => {
+  const prompt = request.parts.filter(part => part.type === 'text').map(part => part.text).join('\n\n');
+  const at = prompt.indexOf('\n\n');
+  return at === -1 ? prompt : prompt.slice(at + 2);
+};
+
+const FIXTURES: Record<string, (request: ProviderRequest) => string> = {
+  'generate-note-with-billing': (request) => request.json
+    ? JSON.stringify({ note: MOCK_NOTE, billing: MOCK_BILLING, structured: MOCK_STRUCTURED, sourceLanguage: 'en' })
+    : `${MOCK_NOTE}\n\n${BILLING_DELIMITER}\n${JSON.stringify({ billing: MOCK_BILLING, structured: MOCK_STRUCTURED, sourceLanguage: 'en' })}`,
+
+  'generate-handoff': () => `**Patient Identification**
+Patient 1
+
+**Diagnosis**
+Chest pain, unspecified
+
+**Critical Issues**
+- None (mock handoff generated offline)
+
+**Pending Tasks**
+- Follow up troponins`,
+
+  'summarize-patient': () => JSON.stringify({
+    narrative: 'Admitted for chest pain; workup in progress. (Mock summary generated offline.)',
+    keyDiagnoses: [{ code: 'R07.9', description: 'Chest pain, unspecified' }],
+    activeMedications: [{ name: 'Aspirin', dose: '81 mg PO daily' }],
+    lastNotesSummary: 'Most recent note documents stable chest pain workup.',
+  }),
+
+  'generate-discharge-summary': () => `DISCHARGE SUMMARY
+
+Admission Diagnosis: Chest pain, unspecified (R07.9)
+Discharge Diagnoses: Chest pain, non-cardiac (R07.89)
+
+Hospital Course:
+Admitted for chest pain; serial troponins negative and symptoms resolved. (Mock discharge summary generated offline.)
+
+Condition at Discharge: Stable
+Disposition: Home
+
+Discharge Medications:
+- Continue: Aspirin 81 mg PO daily
+
+Pending Results:
+- None
+
+Follow-up:
+- Primary care within 1 week`,
+
+  // Nothing to correct offline: the transcript comes back as sent
+  'correct-medical-terms': (request) => promptBody(request),
+
+  'parse-face-sheet': () => JSON.stringify({
+    patient: { name: 'Test Patient', dob: '1960-01-01', mrn: 'MOCK-0001', gender: null, phone: null, address: null, emergencyContact: null },
+    insurance: { provider: null, policyNumber: null, groupNumber: null, subscriberName: null, subscriberDob: null, relationship: null, authorizationNumber: null },
+    medical: {
+      allergies: ['Penicillin'], medications: ['Aspirin 81 mg daily'], pastMedicalHistory: ['Hypertension'],
+      chiefComplaint: 'Chest pain', primaryDiagnosis: null, roomNumber: null, attendingPhysician: null, admissionDate: null,
+    },
+    confidence: { overall: 0.5, patient: 0.5, insurance: 0.5, medical: 0.5 },
+  }),
+
+  'transcribe-audio': (request) => request.json
+    ? JSON.stringify({
+      utterances: [
+        { speaker: 'clinician', start: 0, end: 2.5, text: 'What brings you in today?' },
+        { speaker: 'patient', start: 2.5, end: 6, text: 'I have had some chest pain since yesterday.' },
+      ],
+    })
+    : 'Patient reports chest pain since yesterday. This is a mock transcription generated offline.',
+};
+
+// Rough token counts, so usage tracking has something to record
+const countTokens = (text: string): number => Math.ceil(text.length / 4);
+
+function reply(request: ProviderRequest): string {
+  const fixture = FIXTURES[request.functionName];
+  return fixture ? fixture(request) : `Mock reply for ${request.functionName}.`;
+}
+
+function usageOf(request: ProviderRequest, text: string): LlmUsage {
+  const prompt = [request.system, ...request.parts.map(part => (part.type === 'text' ? part.text : ''))].join('\n');
+  return { promptTokens: countTokens(prompt), completionTokens: countTokens(text) };
+}
+
+const delay = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+async function* streamEvents(request: ProviderRequest, text: string): AsyncGenerator<ProviderStreamEvent> {
+  const words = text.split(/(?<=\s)/);
+  for (let i = 0; i < words.length; i += STREAM_CHUNK_WORDS) {
+    await delay(MOCK_LATENCY_MS / 5, request.signal);
+    yield { type: 'text', text: words.slice(i, i + STREAM_CHUNK_WORDS).join('') };
+  }
+  yield { type: 'end', usage: usageOf(request, text), finishReason: 'COMPLETE' };
+}
+
+export const mockProvider: LlmProvider = {
+  async complete(request) {
+    await delay(MOCK_LATENCY_MS, request.signal);
+    const text = reply(request);
+    return { text, usage: usageOf(request, text), finishReason: 'COMPLETE' };
+  },
+
+  async stream(request) {
+    await delay(MOCK_LATENCY_MS, request.signal);
+    return streamEvents(request, reply(request));
+  },
+};
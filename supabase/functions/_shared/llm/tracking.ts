@@ -0,0 +1,84 @@
+import type { LlmProviderName, LlmUsage } from './types.ts';
+
+/**
+ * Usage tracking: each model call is written to ai_generations as the user
+ * who made the request, so rows fall under that user's RLS policies and the
+ * admin usage view. Recording never fails the call it describes.
+ */
+
+export interface GenerationTracking {
+  authorization: string | null; // The caller's Authorization header
+  noteId: string | null; // Set when the call revises a note that is already saved
+}
+
+export type GenerationStatus = 'success' | 'error' | 'cancelled';
+
+export interface GenerationRecord {
+  id: string;
+  functionName: string;
+  provider: LlmProviderName;
+  model: string;
+  status: GenerationStatus;
+  usage: LlmUsage | null;
+  latencyMs: number;
+  errorMessage?: string;
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Tracking for a call made on behalf of `req`, optionally about a saved note
+export function trackingFrom(req: Request, noteId?: unknown): GenerationTracking {
+  return {
+    authorization: req.headers.get('Authorization'),
+    noteId: typeof noteId === 'string' && UUID.test(noteId) ? noteId : null,
+  };
+}
+
+// The user a request was made by; the gateway has already verified the token (verify_jwt)
+function userIdFrom(authorization: string | null): string | null {
+  const token = authorization?.replace(/^Bearer\s+/i, '');
+  const payload = token?.split('.')[1];
+  if (!payload) return null;
+  try {
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof claims.sub === 'string' ? claims.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function recordGeneration(tracking: GenerationTracking, record: GenerationRecord): Promise<void> {
+  const userId = userIdFrom(tracking.authorization);
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+  // Requests made with the anon key belong to no user and are not recorded
+  if (!userId || !supabaseUrl || !anonKey) return;
+
+  try {
+    const response = await fetch(`${supabaseUrl}/rest/v1/ai_generations`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': tracking.authorization!,
+        'apikey': anonKey,
+        'Prefer': 'return=minimal',
+      },
+      body: JSON.stringify({
+        id: record.id,
+        user_id: userId,
+        note_id: tracking.noteId,
+        function_name: record.functionName,
+        provider: record.provider,
+        model_used: record.model,
+        status: record.status,
+        prompt_tokens: record.usage?.promptTokens ?? null,
+        completion_tokens: record.usage?.completionTokens ?? null,
+        generation_time_ms: record.latencyMs,
+        error_message: record.errorMessage?.slice(0, 500) ?? null,
+      }),
+    });
+    if (!response.ok) console.error('Failed to record AI generation:', response.status, await response.text());
+  } catch (error) {
+    console.error('Failed to record AI generation:', error);
+  }
+}
@@ -0,0 +1,94 @@
+import type { GenerationTracking } from './tracking.ts';
+
+/**
+ * Request/response contract shared by every model provider. Edge functions
+ * build an LlmRequest and read an LlmResponse; which vendor and model serve
+ * it is decided by config.ts.
+ */
+
+export type LlmProviderName = 'cohere' | 'lovable' | 'gemini' | 'mock';
+
+// Inline media is base64 without a data: prefix
+export type LlmPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; data: string }
+  | { type: 'audio'; mimeType: string; data: string };
+
+export interface LlmRequest {
+  system?: string;
+  prompt: string | LlmPart[];
+  json?: boolean; // Ask for a JSON reply and parse it into LlmResponse.json
+  temperature?: number; // Overrides the function's configured temperature
+  maxOutputTokens?: number;
+  signal?: AbortSignal; // Cancels the call, e.g. when a streaming client disconnects
+  tracking?: GenerationTracking; // Records the call in ai_generations
+}
+
+export interface LlmUsage {
+  promptTokens: number | null;
+  completionTokens: number | null;
+}
+
+export interface LlmResponse {
+  text: string;
+  json: Record<string, unknown> | null; // Parsed reply when the request set `json`
+  provider: LlmProviderName;
+  model: string;
+  usage: LlmUsage;
+  finishReason: string | null;
+  latencyMs: number;
+  generationId: string | null; // ai_generations row of a tracked call
+}
+
+// What a provider is asked to do, with the configuration already applied
+export interface ProviderRequest {
+  functionName: string;
+  model: string;
+  system: string;
+  parts: LlmPart[];
+  json: boolean;
+  temperature?: number;
+  maxOutputTokens?: number;
+  signal: AbortSignal;
+}
+
+export interface ProviderResult {
+  text: string;
+  usage: LlmUsage;
+  finishReason: string | null;
+}
+
+// Streams end with the usage the provider reports for the whole reply
+export type ProviderStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'end'; usage: LlmUsage; finishReason: string | null };
+
+export interface LlmProvider {
+  complete(request: ProviderRequest): Promise<ProviderResult>;
+  // Resolves once the provider has accepted the request, so errors surface before any text
+  stream(request: ProviderRequest): Promise<AsyncIterable<ProviderStreamEvent>>;
+}
+
+/**
+ * A failed model call. `status` is the provider's HTTP status (0 when the
+ * request never got a response); `retryable` marks rate limits, server errors
+ * and timeouts.
+ */
+export class LlmError extends Error {
+  readonly provider: LlmProviderName;
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly code: 'http' | 'timeout' | 'network' | 'not_configured' | 'invalid_json';
+
+  constructor(
+    message: string,
+    options: { provider: LlmProviderName; status?: number; retryable?: boolean; code?: LlmError['code'] }
+  ) {
+    super(message);
+    this.name = 'LlmError';
+    this.provider = options.provider;
+    this.status = options.status ?? 0;
+    this.retryable = options.retryable ?? false;
+    this.code = options.code ?? 'http';
+  }
+}
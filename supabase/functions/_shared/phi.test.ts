@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { createPhiRedactor, PhiLeakError } from './phi.ts';
+
+const patient = { name: 'John A. Smith', mrn: 'MRN123456', dob: '1950-03-04', room: '12', facility: 'Mercy General Hospital' };
+
+describe('createPhiRedactor', () => {
+  it('redacts the full name and each part of it', () => {
+    const phi = createPhiRedactor(patient);
+    expect(phi.redact('John A. Smith was seen. Smith reports pain; John is resting.'))
+      .toBe('[PATIENT_NAME] was seen. [PATIENT_LAST_NAME] reports pain; [PATIENT_FIRST_NAME] is resting.');
+  });
+
+  it('redacts record identifiers in any case', () => {
+    const phi = createPhiRedactor({ name: 'Mary McDonald', mrn: 'ab12345' });
+    expect(phi.redact('mary mcdonald, MCDONALD, mrn AB12345'))
+      .toBe('[PATIENT_NAME], [PATIENT_LAST_NAME], mrn [PATIENT_MRN]');
+  });
+
+  it('reads "Last, First" names', () => {
+    const phi = createPhiRedactor({ name: 'Smith, John' });
+    expect(phi.redact('john smith, known to Dr. Jones')).toBe('[PATIENT_FIRST_NAME] [PATIENT_LAST_NAME], known to Dr. [NAME_0]');
+  });
+
+  it('redacts the date of birth however it is written', () => {
+    const phi = createPhiRedactor(patient);
+    expect(phi.redact('DOB 03/04/1950, also written 3/4/1950 and 1950-03-04'))
+      .toBe('DOB [PATIENT_DOB], also written [PATIENT_DOB] and [PATIENT_DOB]');
+  });
+
+  it('only redacts short room numbers after a label', () => {
+    const phi = createPhiRedactor(patient);
+    expect(phi.redact('Potassium 12 mEq given in room 12')).toBe('Potassium 12 mEq given in room [PATIENT_ROOM]');
+  });
+
+  it('redacts Safe Harbor identifiers the record does not list', () => {
+    const phi = createPhiRedactor();
+    const redacted = phi.redact(
+      'Seen 01/02/2024 at 14 Oak Street; 92 year old. Call 555-123-4567 or jo@example.com. Daughter Anne visits.'
+    );
+    expect(redacted).toBe(
+      'Seen [DATE_0] at [ADDRESS_0]; [AGE_OVER_89_0] year old. Call [PHONE_0] or [EMAIL_0]. Daughter [NAME_0] visits.'
+    );
+    expect(phi.report()).toEqual({ total: 6, byType: { DATE: 1, ADDRESS: 1, AGE_OVER_89: 1, PHONE: 1, EMAIL: 1, NAME: 1 } });
+  });
+
+  it('leaves ages up to 89 and clinical values alone', () => {
+    const phi = createPhiRedactor();
+    expect(phi.redact('67 year old, BP 142/90, troponin 0.04')).toBe('67 year old, BP 142/90, troponin 0.04');
+  });
+
+  it('gives each patient its own placeholders', () => {
+    const phi = createPhiRedactor([{ name: 'John Smith' }, { name: 'Ana Lopez' }]);
+    expect(phi.redact('Smith is on day 3, Lopez on day 5')).toBe('[PATIENT_1_LAST_NAME] is on day 3, [PATIENT_2_LAST_NAME] on day 5');
+    expect(phi.placeholder('name', 1)).toBe('[PATIENT_2_NAME]');
+  });
+
+  it('restores redacted text, including record placeholders the text never used', () => {
+    const phi = createPhiRedactor(patient);
+    const text = 'smith seen on 01/02/2024 at Mercy General Hospital.';
+    const redacted = phi.redact(text);
+    expect(redacted).not.toMatch(/smith|Mercy|2024/i);
+    expect(phi.restore(`${redacted} [PATIENT_NAME] is stable.`))
+      .toBe('Smith seen on 01/02/2024 at Mercy General Hospital. John A. Smith is stable.');
+  });
+
+  it('keeps the same placeholder for the same value across texts', () => {
+    const phi = createPhiRedactor();
+    expect(phi.redact('Seen 01/02/2024.')).toBe('Seen [DATE_0].');
+    expect(phi.redact('Follow up after 01/02/2024 and 02/03/2024.')).toBe('Follow up after [DATE_0] and [DATE_1].');
+  });
+
+  it('returns no placeholder for a field the record lacks', () => {
+    expect(createPhiRedactor({ name: 'John Smith' }).placeholder('mrn')).toBeNull();
+  });
+});
+
+describe('assertRedacted', () => {
+  it('passes redacted text', () => {
+    const phi = createPhiRedactor(patient);
+    expect(() => phi.assertRedacted('You are a clinician.', phi.redact('Smith, room 12, DOB 3/4/1950'))).not.toThrow();
+  });
+
+  it('rejects a leaked lowercase name', () => {
+    const phi = createPhiRedactor(patient);
+    expect(() => phi.assertRedacted('Summarize the shift.', 'patient smith is stable')).toThrow(PhiLeakError);
+  });
+
+  it('reports the kinds of identifier leaked, from any of the texts', () => {
+    const phi = createPhiRedactor([patient, { name: 'Ana Lopez', mrn: '42' }]);
+    try {
+      phi.assertRedacted('Seen in ROOM 12, born 03/04/1950', 'MRN: 42; MERCY GENERAL HOSPITAL');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(PhiLeakError);
+      expect((error as PhiLeakError).types.sort()).toEqual(['DOB', 'FACILITY', 'MRN', 'ROOM']);
+    }
+  });
+
+  it('ignores identifiers inside other words and short values without a label', () => {
+    const phi = createPhiRedactor(patient);
+    expect(() => phi.assertRedacted('blacksmith; potassium 12 mEq')).not.toThrow();
+  });
+});
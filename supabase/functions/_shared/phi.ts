@@ -0,0 +1,298 @@
+/**
+ * PHI de-identification for everything the edge functions send to a model.
+ *
+ * A redactor swaps identifiers for placeholder tokens before a prompt is built
+ * and swaps them back in the model's reply. Two layers:
+ * - the patient record (name parts, MRN, DOB, room, facility) as a dictionary,
+ *   so a bare "John Smith" or "Smith" is caught wherever it appears
+ * - HIPAA Safe Harbor patterns for identifiers no record lists: dates, ages
+ *   over 89, street addresses and ZIP codes, facility names, phone numbers,
+ *   emails, SSNs, record numbers, URLs, and names after a title, label or
+ *   family relationship
+ *
+ *   const phi = createPhiRedactor(patientInfo);
+ *   const prompt = phi.redact(transcript);
+ *   const note = phi.restore(reply);
+ *
+ * One redactor covers a whole request, so the same identifier always gets the
+ * same placeholder across every text it redacts. Images and audio (face sheets,
+ * recordings) cannot be redacted this way and go to the model as they are.
+ */
+
+export interface PatientIdentifiers {
+  name?: unknown;
+  mrn?: unknown;
+  dob?: unknown;
+  room?: unknown;
+  facility?: unknown;
+}
+
+export interface PhiToken {
+  placeholder: string;
+  original: string;
+  type: string;
+}
+
+// What was redacted, by identifier type; never the identifiers themselves
+export interface PhiRedactionReport {
+  total: number;
+  byType: Record<string, number>;
+}
+
+export interface PhiRedactor {
+  redact(text: string): string;
+  restore(text: string): string;
+  // The placeholder for a record field, e.g. for "Patient: [PATIENT_NAME]"; null when the record has no value
+  placeholder(field: keyof PatientIdentifiers, patientIndex?: number): string | null;
+  readonly tokens: readonly PhiToken[];
+  report(): PhiRedactionReport;
+  // Throws PhiLeakError when any of the texts still holds an identifier from the patient records
+  assertRedacted(...texts: string[]): void;
+}
+
+// A prompt about to go to a model still holds a known identifier; only the kinds are reported
+export class PhiLeakError extends Error {
+  readonly types: string[];
+
+  constructor(types: string[]) {
+    super(`Prompt still contains patient identifiers: ${types.join(', ')}`);
+    this.name = 'PhiLeakError';
+    this.types = types;
+  }
+}
+
+interface PhiPattern {
+  type: string;
+  pattern: RegExp;
+}
+
+const MONTH = '(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sept?(?:ember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)';
+const STREET_SUFFIX = '(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Drive|Dr|Lane|Ln|Court|Ct|Way|Place|Pl|Circle|Cir|Parkway|Pkwy|Highway|Hwy|Terrace|Ter|Trail|Trl)';
+const FACILITY_SUFFIX = '(?:Hospital|Medical Center|Health Center|Health System|Healthcare|Clinic|Nursing Home|Nursing Center|Rehabilitation Center|Rehab Center|Skilled Nursing Facility|Care Center|Assisted Living|Hospice|Infirmary)';
+const RELATIONS = ['wife', 'husband', 'spouse', 'partner', 'son', 'daughter', 'mother', 'father', 'mom', 'dad', 'sister', 'brother',
+  'aunt', 'uncle', 'niece', 'nephew', 'grandson', 'granddaughter', 'grandmother', 'grandfather', 'friend', 'caregiver', 'neighbor', 'guardian'];
+// Relationship words match at the start of a sentence too, but the name after them must be capitalised
+const RELATION = `(?:${RELATIONS.map(word => `[${word[0].toUpperCase()}${word[0]}]${word.slice(1)}`).join('|')})`;
+const PERSON_NAME = "[A-Z][a-z]+(?:[-'][A-Z][a-z]+)?(?:\\s+[A-Z][a-z]+(?:[-'][A-Z][a-z]+)?)?";
+
+// Applied in order, after the patient dictionary; context such as "MRN:" or "Mr." is kept for the model
+const PHI_PATTERNS: PhiPattern[] = [
+  { type: 'EMAIL', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  { type: 'URL', pattern: /\bhttps?:\/\/[^\s)\]]+/gi },
+  { type: 'SSN', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  { type: 'MRN', pattern: /(?<=\b(?:MRN|Medical Record(?: Number)?|Patient ID|Account(?: Number)?|Acct)\s*[:#]?\s*)[A-Z0-9-]*\d[A-Z0-9-]*/gi },
+  { type: 'PHONE', pattern: /(?:\+1[-.\s]?)?(?:\(\d{3}\)\s?|\b\d{3}[-.\s]?)\d{3}[-.\s]?\d{4}\b/g },
+  { type: 'ADDRESS', pattern: new RegExp(`\\b\\d{1,6}\\s+(?:[NSEW]\\.?\\s+)?(?:[A-Z][a-z]+\\s+){1,3}${STREET_SUFFIX}\\b\\.?(?:,?\\s+(?:Apt|Apartment|Unit|Suite|Ste|#)\\.?\\s*[A-Z0-9-]+)?(?:,\\s*[A-Z][a-z]+(?:\\s+[A-Z][a-z]+)*,?\\s+[A-Z]{2}(?:\\s+\\d{5}(?:-\\d{4})?)?)?`, 'g') },
+  { type: 'ADDRESS', pattern: /\bP\.?\s?O\.?\s+Box\s+\d+\b/gi },
+  { type: 'ADDRESS', pattern: /\b[A-Z][a-z]+(?:\s+[A-Z][a-z]+)*,\s*[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/g },
+  { type: 'FACILITY', pattern: new RegExp(`\\b(?:(?:St\\.?|Saint|Mount|Mt\\.?)\\s+)?(?:[A-Z][A-Za-z'&-]+\\s+){1,4}${FACILITY_SUFFIX}\\b`, 'g') },
+  { type: 'DATE', pattern: /\b\d{1,2}[/-]\d{1,2}[/-](?:\d{4}|\d{2})\b/g },
+  { type: 'DATE', pattern: /\b\d{4}-\d{2}-\d{2}\b/g },
+  { type: 'DATE', pattern: new RegExp(`\\b${MONTH}\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s+\\d{4})?\\b`, 'g') },
+  { type: 'DATE', pattern: new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\s+${MONTH}\\.?(?:,?\\s+\\d{4})?\\b`, 'g') },
+  // Safe Harbor allows ages up to 89; older ages are identifying
+  { type: 'AGE_OVER_89', pattern: /\b(?:9\d|1[01]\d)(?=[-\s]*(?:(?:years?|yrs?|yo[mf]?)\b|y\/o|y\.o\.))/gi },
+  { type: 'AGE_OVER_89', pattern: /(?<=\b(?:age|aged)\s*:?\s*)(?:9\d|1[01]\d)\b/gi },
+  { type: 'ROOM', pattern: /(?<=\b(?:Room|Rm|Bed)\s*[:#]?\s*)[A-Z]?\d[A-Z0-9-]*/gi },
+  { type: 'NAME', pattern: new RegExp(`(?<=\\b(?:Mr|Mrs|Ms|Miss|Dr|Prof)\\.?\\s+)${PERSON_NAME}`, 'g') },
+  { type: 'NAME', pattern: new RegExp(`(?<=\\b(?:[Pp]atient [Nn]ame|[Pp]t [Nn]ame|[Nn]ame)\\s*:\\s*)${PERSON_NAME}`, 'g') },
+  { type: 'NAME', pattern: new RegExp(`(?<=\\b${RELATION},?\\s+(?:named\\s+)?)${PERSON_NAME}`, 'g') },
+];
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const stringField = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// Whole-word matches of a dictionary value in any case, since transcripts are
+// often all lowercase ("smith", "mcdonald"); optionally only after a label such as "Room"
+function dictionaryPattern(value: string, context?: string): RegExp {
+  const before = context ? `(?<=\\b${context}\\s*[:#]?\\s*)` : '(?<![\\w[])';
+  return new RegExp(`${before}${escapeRegExp(value)}(?![\\w\\]])`, 'gi');
+}
+
+// Room numbers and short record numbers also occur as lab values and doses
+const MIN_UNLABELLED_LENGTH = 5;
+const ROOM_LABEL = '(?:room|rm|bed)';
+const MRN_LABEL = '(?:mrn|medical record(?: number)?|patient id)';
+
+// The ways a date of birth is commonly written, from ISO or US-style input
+function dobVariants(dob: string): string[] {
+  const match = dob.match(/^(\d{4})-(\d{2})-(\d{2})/) || dob.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (!match) return [dob];
+  const [year, month, day] = match[1].length === 4 ? [match[1], match[2], match[3]] : [match[3], match[1], match[2]];
+  const m = String(Number(month));
+  const d = String(Number(day));
+  const mm = m.padStart(2, '0');
+  const dd = d.padStart(2, '0');
+  return [dob, `${year}-${mm}-${dd}`, `${mm}/${dd}/${year}`, `${m}/${d}/${year}`, `${mm}-${dd}-${year}`, `${m}/${d}/${year.slice(2)}`];
+}
+
+interface KnownIdentifier {
+  type: string;
+  value: string; // Lowercase
+  label?: string; // Only counts after this label
+}
+
+// Every identifier the records hold, listed straight from the raw fields rather than
+// from the redaction dictionary, so a gap in redaction is not repeated in the check
+function knownIdentifiers(patients: PatientIdentifiers[]): KnownIdentifier[] {
+  return patients.flatMap(patient => {
+    const identifiers: KnownIdentifier[] = [];
+    const add = (type: string, value: string, label?: string) => {
+      if (value) identifiers.push({ type, value: value.toLowerCase(), label });
+    };
+    const shortLabel = (value: string, label: string) => (value.length < MIN_UNLABELLED_LENGTH ? label : undefined);
+
+    stringField(patient?.name).split(/[\s,]+/).map(part => part.replace(/\.$/, '')).filter(part => part.length > 1)
+      .forEach(part => add('NAME', part));
+    const mrn = stringField(patient?.mrn);
+    add('MRN', mrn, shortLabel(mrn, MRN_LABEL));
+    const room = stringField(patient?.room);
+    add('ROOM', room, shortLabel(room, ROOM_LABEL));
+    add('FACILITY', stringField(patient?.facility));
+    const dob = stringField(patient?.dob);
+    if (dob) dobVariants(dob).forEach(variant => add('DOB', variant));
+    return identifiers;
+  });
+}
+
+const isWordChar = (char: string | undefined): boolean => !!char && /\w/.test(char);
+
+// Case-insensitive search for the identifier as a whole word, e.g. "smith" but not "blacksmith"
+function containsIdentifier(lowerText: string, { value, label }: KnownIdentifier): boolean {
+  const labelBefore = label ? new RegExp(`\\b${label}\\s*[:#]?\\s*$`) : null;
+  for (let at = lowerText.indexOf(value); at !== -1; at = lowerText.indexOf(value, at + 1)) {
+    if (isWordChar(lowerText[at - 1]) || isWordChar(lowerText[at + value.length])) continue;
+    if (!labelBefore || labelBefore.test(lowerText.slice(Math.max(0, at - 40), at))) return true;
+  }
+  return false;
+}
+
+interface DictionaryEntry {
+  field?: keyof PatientIdentifiers;
+  placeholder: string;
+  type: string;
+  original: string;
+  values: string[];
+  context?: string; // Label the value must follow
+}
+
+// "Smith, John A." and "John A. Smith" both give first John, last Smith; initials are skipped
+function nameEntries(name: string, prefix: string): DictionaryEntry[] {
+  const [before, after] = name.includes(',') ? name.split(',', 2) : [null, name];
+  const given = (after || '').split(/\s+/).map(part => part.replace(/\.$/, '')).filter(part => part.length > 1);
+  const family = before !== null ? before.split(/\s+/).filter(part => part.length > 1) : given.splice(-1, 1);
+  const first = given.shift();
+  const entries: DictionaryEntry[] = [{ field: 'name', placeholder: `[${prefix}_NAME]`, type: 'NAME', original: name, values: [name] }];
+  if (family.length) {
+    const last = family.join(' ');
+    entries.push({ placeholder: `[${prefix}_LAST_NAME]`, type: 'NAME', original: last, values: [last, ...(family.length > 1 ? family : [])] });
+  }
+  if (first) entries.push({ placeholder: `[${prefix}_FIRST_NAME]`, type: 'NAME', original: first, values: [first] });
+  given.forEach((middle, index) => {
+    entries.push({ placeholder: `[${prefix}_MIDDLE_NAME${index ? `_${index + 1}` : ''}]`, type: 'NAME', original: middle, values: [middle] });
+  });
+  return entries;
+}
+
+function patientDictionary(patient: PatientIdentifiers, prefix: string): DictionaryEntry[] {
+  const entries: DictionaryEntry[] = [];
+  const name = stringField(patient.name);
+  if (name) entries.push(...nameEntries(name, prefix));
+
+  const mrn = stringField(patient.mrn);
+  if (mrn) {
+    const context = mrn.length < MIN_UNLABELLED_LENGTH ? MRN_LABEL : undefined;
+    entries.push({ field: 'mrn', placeholder: `[${prefix}_MRN]`, type: 'MRN', original: mrn, values: [mrn], context });
+  }
+
+  const room = stringField(patient.room);
+  if (room) entries.push({ field: 'room', placeholder: `[${prefix}_ROOM]`, type: 'ROOM', original: room, values: [room], context: ROOM_LABEL });
+
+  const facility = stringField(patient.facility);
+  if (facility) entries.push({ field: 'facility', placeholder: `[${prefix}_FACILITY]`, type: 'FACILITY', original: facility, values: [facility] });
+
+  const dob = stringField(patient.dob);
+  if (dob) entries.push({ field: 'dob', placeholder: `[${prefix}_DOB]`, type: 'DOB', original: dob, values: dobVariants(dob) });
+  return entries;
+}
+
+/**
+ * A redactor for one request. Give it the patient the request is about, or
+ * every patient for multi-patient prompts: one patient's identifiers become
+ * [PATIENT_NAME], [PATIENT_MRN] and so on; several patients' become
+ * [PATIENT_1_NAME], [PATIENT_2_NAME]. Dictionary matches restore to the
+ * record's value, pattern matches to the exact text they replaced.
+ */
+export function createPhiRedactor(patients: PatientIdentifiers | PatientIdentifiers[] = []): PhiRedactor {
+  const list = Array.isArray(patients) ? patients : [patients];
+  const records = list.map((patient, index) => patientDictionary(patient || {}, list.length > 1 ? `PATIENT_${index + 1}` : 'PATIENT'));
+  const dictionary = records
+    .flat()
+    // Longest values first, so a full name is replaced before its parts
+    .flatMap(entry => entry.values.map(value => ({ entry, value })))
+    .sort((a, b) => b.value.length - a.value.length)
+    .map(({ entry, value }) => ({ entry, pattern: dictionaryPattern(value, entry.context) }));
+
+  const identifiers = knownIdentifiers(list);
+
+  const tokens: PhiToken[] = [];
+  const byOriginal = new Map<string, PhiToken>();
+  const counters: Record<string, number> = {};
+  const byType: Record<string, number> = {};
+
+  const tokenFor = (type: string, original: string, placeholder?: string, counted = true): string => {
+    if (counted) byType[type] = (byType[type] || 0) + 1;
+    const key = placeholder || `${type}:${original}`;
+    const existing = byOriginal.get(key);
+    if (existing) return existing.placeholder;
+
+    const index = counters[type] ?? 0;
+    if (!placeholder) counters[type] = index + 1;
+    const token = { placeholder: placeholder || `[${type}_${index}]`, original, type };
+    tokens.push(token);
+    byOriginal.set(key, token);
+    return token.placeholder;
+  };
+
+  return {
+    tokens,
+
+    redact(text) {
+      if (!text) return '';
+      let result = text;
+      for (const { entry, pattern } of dictionary) {
+        result = result.replace(pattern, () => tokenFor(entry.type, entry.original, entry.placeholder));
+      }
+      for (const { type, pattern } of PHI_PATTERNS) {
+        result = result.replace(pattern, match => tokenFor(type, match));
+      }
+      return result;
+    },
+
+    placeholder(field, patientIndex = 0) {
+      const entry = records[patientIndex]?.find(candidate => candidate.field === field);
+      return entry ? tokenFor(entry.type, entry.original, entry.placeholder, false) : null;
+    },
+
+    restore(text) {
+      if (!text) return '';
+      let result = text;
+      // Record placeholders restore even when the text never mentioned them, e.g. [PATIENT_NAME] for "Smith"
+      for (const { placeholder, original } of [...tokens, ...records.flat()]) {
+        result = result.split(placeholder).join(original);
+      }
+      return result;
+    },
+
+    assertRedacted(...texts) {
+      const lowerText = texts.join('\n').toLowerCase();
+      const types = new Set(identifiers.filter(identifier => containsIdentifier(lowerText, identifier)).map(({ type }) => type));
+      if (types.size > 0) throw new PhiLeakError([...types]);
+    },
+
+    report() {
+      return { total: Object.values(byType).reduce((sum, count) => sum + count, 0), byType: { ...byType } };
+    },
+  };
+}
@@ -1,72 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createLlmClient, LlmError, trackingFrom } from "../_shared/llm/index.ts";
+import { createPhiRedactor } from "../_shared/phi.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const COHERE_API_URL = 'https://api.cohere.ai/v1/chat';
-
-// PHI patterns to detect and replace
-const PHI_PATTERNS = [
-  // Names - common patterns like "patient John Smith" or "Mr. Smith"
-  { regex: /\b(Mr\.|Mrs\.|Ms\.|Dr\.)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/gi, type: 'NAME' },
-  // MRN patterns
-  { regex: /\b(MRN|mrn|medical record number)[:\s#]*([A-Z0-9-]+)/gi, type: 'MRN' },
-  // DOB patterns
-  { regex: /\b(DOB|dob|date of birth|born)[:\s]*(\d{1,2}[-\/]\d{1,2}[-\/]\d{2,4})/gi, type: 'DOB' },
-  { regex: /\b(\d{1,2}[-\/]\d{1,2}[-\/]\d{2,4})\s*(years?\s*old|y\.?o\.?)/gi, type: 'DOB' },
-  // SSN patterns
-  { regex: /\b\d{3}[-\s]?\d{2}[-\s]?\d{4}\b/g, type: 'SSN' },
-  // Phone numbers
-  { regex: /\b(\+?1[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}\b/g, type: 'PHONE' },
-  // Email addresses
-  { regex: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g, type: 'EMAIL' },
-  // Addresses - street patterns
-  { regex: /\b\d+\s+[A-Za-z]+\s+(Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Drive|Dr|Lane|Ln|Way|Court|Ct)\b/gi, type: 'ADDRESS' },
-  // Room numbers in hospitals
-  { regex: /\b(room|rm|bed)\s*#?\s*([A-Z]?\d+[A-Z]?)/gi, type: 'ROOM' },
-];
-
-interface PhiToken {
-  placeholder: string;
-  original: string;
-  type: string;
-}
-
-// De-identify PHI from transcript
-function deidentifyPhi(text: string): { cleanedText: string; tokens: PhiToken[] } {
-  const tokens: PhiToken[] = [];
-  let cleanedText = text;
-  let tokenIndex = 0;
-
-  for (const pattern of PHI_PATTERNS) {
-    cleanedText = cleanedText.replace(pattern.regex, (match) => {
-      const placeholder = `[${pattern.type}_${tokenIndex}]`;
-      tokens.push({
-        placeholder,
-        original: match,
-        type: pattern.type,
-      });
-      tokenIndex++;
-      return placeholder;
-    });
-  }
-
-  return { cleanedText, tokens };
-}
-
-// Re-identify PHI back into text
-function reidentifyPhi(text: string, tokens: PhiToken[]): string {
-  let result = text;
-  
-  for (const token of tokens) {
-    // Use exact string replacement to avoid regex issues
-    result = result.split(token.placeholder).join(token.original);
-  }
-  
-  return result;
-}
+const llm = createLlmClient('correct-medical-terms');
 
 // System prompts for different modes
 const streamingPrompt = `You are a fast medical transcription corrector. Fix ONLY obvious medical term errors.
@@ -77,6 +18,7 @@ RULES (for speed):
 3. Fix dosage formats: twenty five mig→25 mg
 4. PRESERVE everything else exactly - don't reorganize or expand
 5. Keep bracketed placeholders like [NAME_0] unchanged
+6. NEVER translate - keep the text in the language it was spoken in
 
 Return ONLY the corrected text, nothing else.`;
 
@@ -92,6 +34,7 @@ INSTRUCTIONS:
 7. Keep non-medical words unchanged
 8. Maintain punctuation and sentence structure
 9. IMPORTANT: Preserve any bracketed placeholders like [NAME_0], [DOB_1], etc. exactly as they appear
+10. IMPORTANT: NEVER translate - a transcript in another language stays in that language, with only its medical terms corrected
 
 Common corrections:
 - Metoprolol, Lisinopril, Atorvastatin, Omeprazole, Amlodipine
@@ -108,7 +51,7 @@ serve(async (req) => {
   }
 
   try {
-    const { transcript, streaming = false } = await req.json();
+    const { transcript, streaming = false, patientInfo } = await req.json();
 
     if (!transcript) {
       return new Response(
@@ -120,69 +63,52 @@ serve(async (req) => {
     // Use appropriate prompt based on mode
     const systemPrompt = streaming ? streamingPrompt : fullPrompt;
 
-    const COHERE_API_KEY = Deno.env.get('COHERE_API_KEY');
-    if (!COHERE_API_KEY) {
-      console.error('COHERE_API_KEY not configured');
-      return new Response(
-        JSON.stringify({ correctedTranscript: transcript, success: true }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     console.log('De-identifying PHI from transcript...');
 
-    // Step 1: De-identify PHI
-    const { cleanedText, tokens } = deidentifyPhi(transcript);
-    console.log(`Removed ${tokens.length} PHI tokens before AI processing`);
+    // Step 1: De-identify PHI, using the patient record when the client sends one
+    const phi = createPhiRedactor(patientInfo && typeof patientInfo === 'object' ? patientInfo : {});
+    const cleanedText = phi.redact(transcript);
+    console.log('Redacted PHI before AI processing:', phi.report());
 
-    console.log('Correcting medical terms with Cohere API...');
+    console.log('Correcting medical terms...');
 
     // Step 2: Send de-identified text to AI
-    const response = await fetch(COHERE_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${COHERE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'command-a-03-2025',
-        message: `Correct the medical terminology in this transcript:\n\n${cleanedText}`,
-        preamble: systemPrompt,
-        temperature: 0.1,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Cohere API error:', response.status, errorText);
+    let correctedText: string;
+    try {
+      const { text } = await llm.complete({
+        system: systemPrompt,
+        prompt: `Correct the medical terminology in this transcript:\n\n${cleanedText}`,
+        tracking: trackingFrom(req),
+      });
+      correctedText = text || cleanedText;
+    } catch (error) {
+      if (!(error instanceof LlmError)) throw error;
+      console.error('Medical term correction failed:', error.message);
 
-      if (response.status === 429) {
+      if (error.status === 429) {
         return new Response(
           JSON.stringify({ error: 'Rate limit exceeded. Please try again later.', success: false }),
           { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
 
-      if (response.status === 401) {
+      if (error.status === 401) {
         return new Response(
           JSON.stringify({ error: 'Invalid API key.', success: false }),
           { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
 
-      // Return original on other errors
+      // Return original on other errors, including a provider with no key configured
       return new Response(
         JSON.stringify({ correctedTranscript: transcript, success: true }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const data = await response.json();
-    let correctedText = data.text || cleanedText;
-
     // Step 3: Re-identify PHI back into the corrected text
     console.log('Re-identifying PHI into corrected transcript...');
-    const finalTranscript = reidentifyPhi(correctedText.trim(), tokens);
+    const finalTranscript = phi.restore(correctedText.trim());
 
     console.log('Medical term correction completed with PHI protection');
 
@@ -191,7 +117,7 @@ serve(async (req) => {
         correctedTranscript: finalTranscript,
         success: true,
         phiProtected: true,
-        phiTokensCount: tokens.length
+        phiRedactions: phi.report(),
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
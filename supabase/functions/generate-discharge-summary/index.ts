@@ -0,0 +1,205 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createLlmClient, LlmError, trackingFrom } from "../_shared/llm/index.ts";
+import { createPhiRedactor } from "../_shared/phi.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const llm = createLlmClient('generate-discharge-summary');
+
+function sanitizeInput(input: unknown, maxLength = 20000): string {
+  if (typeof input !== 'string') return '';
+  return input.trim().slice(0, maxLength);
+}
+
+interface NoteInput {
+  noteType?: unknown;
+  date?: unknown;
+  status?: unknown;
+  text?: unknown;
+}
+
+interface MedicationChangeInput {
+  name?: unknown;
+  dose?: unknown;
+  status?: unknown; // new | changed | held | discontinued
+  date?: unknown;
+}
+
+interface PendingResultInput {
+  name?: unknown;
+  date?: unknown;
+}
+
+// Every note of the stay is summarized, oldest first. Very long stays keep the
+// admission note, which holds the presenting history, and the most recent notes
+const MAX_NOTES = 30;
+const MAX_NOTE_LENGTH = 6000;
+
+// gapAfter is the index of the kept note the omitted ones followed, -1 when they came first
+function notesToSummarize(notes: NoteInput[]): { notes: NoteInput[]; omitted: number; gapAfter: number } {
+  if (notes.length <= MAX_NOTES) return { notes, omitted: 0, gapAfter: -1 };
+  const admission = notes.find(note => note.noteType === 'hp') || notes[0];
+  const recent = notes.slice(-(MAX_NOTES - 1));
+  const kept = notes.filter(note => note === admission || recent.includes(note));
+  const firstOmitted = notes.findIndex(note => !kept.includes(note));
+  return { notes: kept, omitted: notes.length - kept.length, gapAfter: kept.indexOf(notes[firstOmitted - 1]) };
+}
+
+const SUMMARY_SECTIONS = `DISCHARGE SUMMARY
+
+Admission Date:
+Discharge Date:
+Admission Diagnosis:
+Discharge Diagnoses: (primary first, with ICD-10 codes)
+
+Hospital Course:
+(concise narrative by problem: presentation, workup, treatment, response)
+
+Procedures:
+Consultations:
+Condition at Discharge:
+Disposition:
+
+Discharge Medications:
+- New:
+- Changed:
+- Stopped:
+- Continue:
+
+Pending Results:
+(results still outstanding at discharge and who will follow them up)
+
+Follow-up:
+Patient Instructions:`;
+
+/**
+ * Discharge summary: turns every note of the patient's stay, the discharge
+ * reason and disposition, medication changes and results still pending into
+ * a standard discharge summary document.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const patientInfo = (body.patientInfo && typeof body.patientInfo === 'object' ? body.patientInfo : {}) as Record<string, unknown>;
+    const { notes, omitted, gapAfter } = notesToSummarize(Array.isArray(body.notes) ? body.notes : []);
+    const medicationChanges: MedicationChangeInput[] = Array.isArray(body.medicationChanges) ? body.medicationChanges : [];
+    const pendingResults: PendingResultInput[] = Array.isArray(body.pendingResults) ? body.pendingResults : [];
+    const dischargeReason = sanitizeInput(body.dischargeReason, 200);
+
+    if (notes.length === 0) {
+      return new Response(JSON.stringify({ success: false, error: 'Notes are required' }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // De-identify everything sent to the model with one set of placeholders
+    const phi = createPhiRedactor(patientInfo);
+
+    const noteBlocks = notes.map((note, index) => {
+      const label = [sanitizeInput(note.noteType, 40), sanitizeInput(note.date, 40), note.status === 'signed' ? 'signed' : 'unsigned']
+        .filter(Boolean)
+        .join(', ');
+      const block = `NOTE ${index + 1} (${label}):\n${phi.redact(sanitizeInput(note.text, MAX_NOTE_LENGTH))}`;
+      return index === gapAfter ? `${block}\n\n[${omitted} earlier notes of the stay omitted]` : block;
+    }).join('\n\n');
+    const omittedNotice = omitted > 0 && gapAfter === -1 ? `[${omitted} earlier notes of the stay omitted]\n\n` : '';
+
+    const medicationLines = medicationChanges
+      .map(med => {
+        const name = sanitizeInput(med.name, 200);
+        if (!name) return '';
+        const dose = sanitizeInput(med.dose, 200);
+        const date = sanitizeInput(med.date, 40);
+        return `- ${sanitizeInput(med.status, 20) || 'changed'}: ${name}${dose ? ` ${dose}` : ''}${date ? ` (${date})` : ''}`;
+      })
+      .filter(Boolean);
+
+    const pendingLines = pendingResults
+      .map(result => {
+        const name = sanitizeInput(result.name, 200);
+        const date = sanitizeInput(result.date, 40);
+        return name ? `- ${name}${date ? ` (ordered ${date})` : ''}` : '';
+      })
+      .filter(Boolean);
+
+    const context = [
+      phi.placeholder('name') ? `Patient: ${phi.placeholder('name')}` : '',
+      phi.placeholder('mrn') ? `MRN: ${phi.placeholder('mrn')}` : '',
+      phi.placeholder('dob') ? `DOB: ${phi.placeholder('dob')}` : '',
+      patientInfo.diagnosis ? `Admitting diagnosis: ${phi.redact(sanitizeInput(patientInfo.diagnosis, 500))}` : '',
+      Array.isArray(patientInfo.allergies) && patientInfo.allergies.length
+        ? `Allergies: ${phi.redact(patientInfo.allergies.map(a => sanitizeInput(a, 100)).join(', '))}`
+        : '',
+      body.admissionDate ? `Admission date: ${phi.redact(sanitizeInput(body.admissionDate, 40))}` : '',
+      body.dischargeDate ? `Discharge date: ${phi.redact(sanitizeInput(body.dischargeDate, 40))}` : '',
+    ].filter(Boolean).join('\n');
+
+    const systemPrompt = `You are an expert hospitalist writing the DISCHARGE SUMMARY for a patient's hospital stay.
+
+CRITICAL RULES:
+1. Preserve all placeholder tokens exactly as written (e.g., [PATIENT_NAME], [DATE_0])
+2. Only document what the notes, discharge details and lists below support; never invent findings, results or medications
+3. Later notes supersede earlier ones when they conflict
+4. Every medication change and pending result listed below must appear in the summary
+5. Write "None" for a section with nothing to report
+
+Use exactly this structure, as plain text:
+${SUMMARY_SECTIONS}`;
+
+    const userPrompt = `${context}
+
+DISCHARGE DETAILS:
+Reason / disposition: ${dischargeReason || 'Not specified'}
+Discharging provider's notes: ${phi.redact(sanitizeInput(body.dischargeNotes, 2000)) || 'None'}
+
+MEDICATION CHANGES DURING THE STAY:
+${medicationLines.length ? phi.redact(medicationLines.join('\n')) : 'None recorded'}
+
+RESULTS PENDING AT DISCHARGE:
+${pendingLines.length ? phi.redact(pendingLines.join('\n')) : 'None recorded; check the notes for outstanding studies'}
+
+NOTES FROM THE STAY (oldest first):
+${omittedNotice}${noteBlocks}`;
+
+    console.log(`Generating discharge summary from ${notes.length} notes...`);
+
+    const { text, generationId } = await llm.complete({ system: systemPrompt, prompt: userPrompt, tracking: trackingFrom(req) });
+    const summary = phi.restore(text).trim();
+    if (!summary) throw new Error('Empty discharge summary');
+
+    console.log('Discharge summary generated successfully');
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        summary,
+        phiProtected: true,
+        phiRedactions: phi.report(),
+        generationId, // Linked to the note once it is saved
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in generate-discharge-summary function:', error);
+    if (error instanceof LlmError && error.status === 429) {
+      return new Response(JSON.stringify({ error: 'Rate limit exceeded', success: false }), {
+        status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        success: false
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
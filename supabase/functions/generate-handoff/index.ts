@@ -1,45 +1,24 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createLlmClient, LlmError, trackingFrom } from "../_shared/llm/index.ts";
+import { createPhiRedactor, PhiLeakError } from "../_shared/phi.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const COHERE_API_URL = 'https://api.cohere.ai/v1/chat';
-
-// PHI patterns for de-identification
-const PHI_PATTERNS = [
-  { type: 'NAME', pattern: /\b(?:Mr\.|Mrs\.|Ms\.|Dr\.|Prof\.)\s+[A-Z][a-z]+(?:\s+[A-Z][a-z]+)?/g },
-  { type: 'MRN', pattern: /\b(?:MRN|Medical Record|Patient ID)[:\s#]*([A-Z0-9-]+)/gi },
-  { type: 'DOB', pattern: /\b(?:DOB|Date of Birth|Born)[:\s]*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/gi },
-  { type: 'SSN', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
-  { type: 'PHONE', pattern: /\b(?:\+1[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}\b/g },
-];
-
-interface PhiToken { placeholder: string; original: string; type: string; }
-
-function deidentifyPhi(text: string): { cleanedText: string; tokens: PhiToken[] } {
-  const tokens: PhiToken[] = [];
-  let cleanedText = text;
-  let counter: Record<string, number> = {};
-
-  for (const { type, pattern } of PHI_PATTERNS) {
-    cleanedText = cleanedText.replace(pattern, (match) => {
-      counter[type] = (counter[type] || 0);
-      const placeholder = `[${type}_${counter[type]++}]`;
-      tokens.push({ placeholder, original: match, type });
-      return placeholder;
-    });
-  }
-  return { cleanedText, tokens };
-}
+const llm = createLlmClient('generate-handoff');
 
-function reidentifyPhi(text: string, tokens: PhiToken[]): string {
-  let result = text;
-  for (const { placeholder, original } of tokens) {
-    result = result.replace(new RegExp(placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'), original);
-  }
-  return result;
+// The opaque token that stands in for a patient's identity in the prompt
+const patientToken = (index: number): string => `[PATIENT_${index + 1}]`;
+
+// Name, room and MRN as the incoming provider sees them; never sent to the model
+function identificationLine(patient: { name?: string; room?: string; mrn?: string } | null, index: number): string {
+  return [
+    `**${patient?.name || `Patient ${index + 1}`}**`,
+    patient?.room ? `Room ${patient.room}` : null,
+    patient?.mrn ? `MRN ${patient.mrn}` : null,
+  ].filter(Boolean).join(' · ');
 }
 
 // Calculate age from DOB
@@ -65,58 +44,51 @@ serve(async (req) => {
   }
 
   try {
-    const COHERE_API_KEY = Deno.env.get('COHERE_API_KEY');
-    if (!COHERE_API_KEY) throw new Error('COHERE_API_KEY not configured');
-
     const { notes, patients } = await req.json();
 
     if (!notes || notes.length === 0) {
       throw new Error('Notes are required');
     }
 
-    // Collect all PHI tokens for re-identification
-    const allTokens: PhiToken[] = [];
+    // The model only sees an opaque token per patient; everything else about
+    // them is redacted with their records as the dictionary
+    const handoffPatients = notes.map((note: { patient_id?: string }) => patients?.find((p: { id: string }) => p.id === note.patient_id) || null);
+    const phi = createPhiRedactor(handoffPatients.map((patient: object | null) => patient || {}));
 
     // Build detailed patient summaries
     const patientSummaries = notes.map((note: any, index: number) => {
-      const patient = patients?.find((p: any) => p.id === note.patient_id);
-
-      // Patient identification
-      const patientName = patient?.name || `Patient ${index + 1}`;
-      const room = patient?.room || 'Unknown';
-      const mrn = patient?.mrn || 'N/A';
-      const age = calculateAge(patient?.dob);
+      const patient = handoffPatients[index];
+      const age = phi.redact(calculateAge(patient?.dob));
 
       // Diagnosis
-      const diagnosis = patient?.diagnosis || note.chief_complaint || 'Not specified';
+      const diagnosis = phi.redact(patient?.diagnosis || note.chief_complaint || 'Not specified');
 
       // Medical context
       const allergies = patient?.allergies?.length > 0
-        ? patient.allergies.join(', ')
+        ? phi.redact(patient.allergies.join(', '))
         : 'NKDA (No Known Drug Allergies)';
 
       // De-identify note content
-      const { cleanedText: cleanedComplaint, tokens: complaintTokens } =
-        deidentifyPhi(note.chief_complaint || '');
-      const { cleanedText: cleanedAssessment, tokens: assessmentTokens } =
-        deidentifyPhi(note.assessment || note.generated_note?.substring(0, 500) || '');
-      const { cleanedText: cleanedPlan, tokens: planTokens } =
-        deidentifyPhi(note.plan || '');
-      const { cleanedText: cleanedHpi, tokens: hpiTokens } =
-        deidentifyPhi(note.hpi || '');
-
-      allTokens.push(...complaintTokens, ...assessmentTokens, ...planTokens, ...hpiTokens);
+      const cleanedComplaint = phi.redact(note.chief_complaint || '');
+      const cleanedAssessment = phi.redact(note.assessment || note.generated_note?.substring(0, 500) || '');
+      const cleanedPlan = phi.redact(note.plan || '');
+      const cleanedHpi = phi.redact(note.hpi || '');
+
+      // Running summary of earlier notes, when the patient has one
+      const summary = patient?.summary;
+      const cleanedCourse = phi.redact(summary?.narrative || '');
+      const knownDiagnoses = phi.redact((summary?.keyDiagnoses || [])
+        .map((dx: { code: string; description: string }) => `${dx.description} (${dx.code})`)
+        .join('; '));
+      const activeMedications = phi.redact((summary?.activeMedications || [])
+        .map((med: { name: string; dose?: string }) => med.dose ? `${med.name} ${med.dose}` : med.name)
+        .join(', '));
 
       return `
 ═══════════════════════════════════════════════════════════
-PATIENT ${index + 1}
+${patientToken(index)}
 ═══════════════════════════════════════════════════════════
 
-PATIENT IDENTIFICATION
-• Name: ${patientName}
-• Room: ${room}
-• MRN: ${mrn}
-
 DIAGNOSIS
 • ${diagnosis}
 
@@ -125,7 +97,12 @@ PATIENT OVERVIEW
 • Chief Complaint: ${cleanedComplaint || diagnosis}
 • History/Presentation: ${cleanedHpi || cleanedAssessment || 'See chart for full history'}
 • Allergies: ${allergies}
-
+${cleanedCourse || knownDiagnoses || activeMedications ? `
+HOSPITAL COURSE
+${cleanedCourse || 'See chart'}
+• Active Problems: ${knownDiagnoses || 'See chart'}
+• Active Medications: ${activeMedications || 'See chart'}
+` : ''}
 CLINICAL ASSESSMENT
 ${cleanedAssessment || 'Assessment pending - see latest note'}
 
@@ -144,7 +121,8 @@ Your handoff document serves critical functions:
 
 Format your response as a professional medical handoff document with clear sections.
 Be concise but thorough. Focus on actionable information.
-Preserve all patient names and details exactly as provided.`;
+Patients are identified only by tokens such as [PATIENT_1]; their names, rooms and MRNs are attached after you respond.
+Preserve all placeholder tokens exactly as written.`;
 
     const userPrompt = `Generate a comprehensive SHIFT HANDOFF SUMMARY for the incoming provider.
 
@@ -160,9 +138,7 @@ Create a handoff document with these EXACT sections for EACH patient:
 2. **For each patient, include:**
 
    **PATIENT IDENTIFICATION**
-   - Patient Name
-   - Room Number
-   - MRN (if available)
+   - The patient's token (e.g. [PATIENT_1]) alone on its own line; do not add a name, room or MRN
 
    **DIAGNOSIS**
    - Primary diagnosis/chief complaint
@@ -172,6 +148,7 @@ Create a handoff document with these EXACT sections for EACH patient:
    - Age and relevant demographics
    - Presenting symptoms (be specific)
    - Relevant medical history
+   - Hospital course so far, when provided
    - Current medications if known
    - Allergies
 
@@ -198,38 +175,29 @@ Create a handoff document with these EXACT sections for EACH patient:
 
 Use bullet points for clarity. Be specific and actionable.`;
 
-    console.log('Calling Cohere API for structured handoff generation...');
-
-    const response = await fetch(COHERE_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${COHERE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'command-a-03-2025',
-        message: userPrompt,
-        preamble: systemPrompt,
-        temperature: 0.2, // Lower temperature for more consistent formatting
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Cohere API error:', response.status, errorText);
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: 'Rate limit exceeded', success: false }), {
-          status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-      }
-      throw new Error(`Cohere API error: ${response.status}`);
-    }
+    // Nothing identifying may reach the model, whatever path it took into the prompt
+    phi.assertRedacted(systemPrompt, userPrompt);
+
+    console.log('Generating structured handoff...');
 
-    const data = await response.json();
-    const handoffContent = data.text || '';
+    const { text: handoffContent } = await llm.complete({ system: systemPrompt, prompt: userPrompt, tracking: trackingFrom(req) });
 
-    // Re-identify PHI in the handoff
-    const finalHandoff = reidentifyPhi(handoffContent, allTokens);
+    // Re-attach identification locally, then re-identify PHI in the handoff.
+    // Patients whose token the model dropped are listed at the end so none go unidentified
+    const missing = handoffPatients
+      .map((patient: { name?: string; room?: string; mrn?: string } | null, index: number) => ({ patient, index }))
+      .filter(({ index }: { index: number }) => !handoffContent.includes(patientToken(index)));
+    const withKey = missing.length === 0 ? handoffContent : `${handoffContent}
+
+**PATIENT KEY**
+${missing.map(({ index }: { index: number }) => `- Patient ${index + 1}: ${patientToken(index)}`).join('\n')}`;
+    const identified = handoffPatients.reduce(
+      (text: string, patient: { name?: string; room?: string; mrn?: string } | null, index: number) =>
+        text.split(patientToken(index)).join(identificationLine(patient, index)),
+      withKey
+    );
+    const finalHandoff = phi.restore(identified);
+    console.log('Redacted PHI before AI processing:', phi.report());
 
     console.log('Structured handoff generated successfully');
 
@@ -238,6 +206,7 @@ Use bullet points for clarity. Be specific and actionable.`;
         handoff: finalHandoff.trim(),
         success: true,
         phiProtected: true,
+        phiRedactions: phi.report(),
         format: 'structured',
         sections: [
           'Patient Identification',
@@ -253,6 +222,16 @@ Use bullet points for clarity. Be specific and actionable.`;
 
   } catch (error) {
     console.error('Error in generate-handoff function:', error);
+    if (error instanceof LlmError && error.status === 429) {
+      return new Response(JSON.stringify({ error: 'Rate limit exceeded', success: false }), {
+        status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+    if (error instanceof PhiLeakError) {
+      return new Response(JSON.stringify({ error: 'Handoff blocked: the prompt still contained patient identifiers', success: false }), {
+        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
     return new Response(
       JSON.stringify({
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -1,53 +1,189 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createLlmClient, extractJson, LlmError, trackingFrom, type GenerationTracking, type LlmStream } from "../_shared/llm/index.ts";
+import { createPhiRedactor, type PhiRedactor } from "../_shared/phi.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Cohere API configuration
-const COHERE_API_URL = 'https://api.cohere.ai/v1/chat';
-
-// Minimal PHI patterns - focused on what's actually needed
-const PHI_PATTERNS = [
-  { type: 'NAME', pattern: /\b(?:Mr\.|Mrs\.|Ms\.|Dr\.|Prof\.)\s+[A-Z][a-z]+(?:\s+[A-Z][a-z]+)?/g },
-  { type: 'MRN', pattern: /\b(?:MRN|Medical Record|Patient ID)[:\s#]*([A-Z0-9-]+)/gi },
-  { type: 'DOB', pattern: /\b(?:DOB|Date of Birth|Born)[:\s]*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/gi },
-  { type: 'SSN', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
-  { type: 'PHONE', pattern: /\b(?:\+1[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}\b/g },
-  { type: 'EMAIL', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g },
-  { type: 'ROOM', pattern: /\b(?:Room|Rm|Bed)[:\s#]*([A-Z0-9-]+)/gi },
-];
-
-interface PhiToken { placeholder: string; original: string; type: string; }
-
-function deidentifyPhi(text: string): { cleanedText: string; tokens: PhiToken[] } {
-  const tokens: PhiToken[] = [];
-  let cleanedText = text;
-  let counter: Record<string, number> = {};
-
-  for (const { type, pattern } of PHI_PATTERNS) {
-    cleanedText = cleanedText.replace(pattern, (match) => {
-      counter[type] = (counter[type] || 0);
-      const placeholder = `[${type}_${counter[type]++}]`;
-      tokens.push({ placeholder, original: match, type });
-      return placeholder;
-    });
-  }
-  return { cleanedText, tokens };
+const llm = createLlmClient('generate-note-with-billing');
+
+function sanitizeInput(input: string | undefined | null, maxLength = 50000): string {
+  if (!input) return '';
+  return String(input).trim().slice(0, maxLength);
+}
+
+// Speaker-attributed transcript from ambient (diarized) encounters
+interface SpeakerSegmentInput {
+  speaker: string;
+  startMs?: number;
+  endMs?: number;
+  text: string;
 }
 
-function reidentifyPhi(text: string, tokens: PhiToken[]): string {
-  let result = text;
-  for (const { placeholder, original } of tokens) {
-    result = result.replace(new RegExp(placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'), original);
+const SPEAKER_LABELS: Record<string, string> = {
+  clinician: 'CLINICIAN',
+  patient: 'PATIENT',
+  family: 'FAMILY',
+  unknown: 'UNKNOWN',
+};
+
+const MAX_SPEAKER_SEGMENTS = 1000;
+
+function formatSpeakerTranscript(segments: unknown): string {
+  if (!Array.isArray(segments)) return '';
+
+  return segments
+    .slice(0, MAX_SPEAKER_SEGMENTS)
+    .filter((s): s is SpeakerSegmentInput => typeof s?.text === 'string' && s.text.trim().length > 0)
+    .map(s => `[${SPEAKER_LABELS[s.speaker] || SPEAKER_LABELS.unknown}] ${sanitizeInput(s.text, 5000)}`)
+    .join('\n');
+}
+
+const SPEAKER_ATTRIBUTION_RULES = `
+SPEAKER ATTRIBUTION:
+A speaker-labelled transcript of the encounter is provided alongside the full transcript.
+- Build the HPI and other patient-reported history from [PATIENT] utterances; attribute history given by [FAMILY] as reported by family
+- Build the Assessment and Plan from [CLINICIAN] utterances
+- Do not document clinician questions or suggestions as patient-reported facts
+- Treat [UNKNOWN] utterances with caution and only use them when context makes the speaker clear`;
+
+// Streamed responses put the note first, as plain text, so it can be shown while it is written
+const BILLING_DELIMITER = '===BILLING===';
+
+const RADIOLOGY_BILLING_JSON = `"billing": {
+    "icd10": [{"code": "X00.0", "description": "Finding"}],
+    "cpt": [{"code": "71046", "description": "Chest X-ray 2 views"}],
+    "modifiers": ["-26"],
+    "rvu": 0.75
+  },
+  "structured_category": "BI-RADS 2" // if applicable`;
+
+const CLINICAL_BILLING_JSON = `"billing": {
+    "icd10": [{"code": "X00.0", "description": "Condition"}],
+    "cpt": [{"code": "99214", "description": "Office visit"}],
+    "mdmComplexity": "Low|Moderate|High",
+    "emLevel": "99211|99212|99213|99214|99215",
+    "rvu": 1.92
+  }`;
+
+// Clinical notes also return the encounter's structured data, stored with the note
+const CLINICAL_STRUCTURED_JSON = `"structured": {
+    "vitals": {"bloodPressure": "128/76", "heartRate": 88, "respiratoryRate": 16, "temperature": 98.6, "temperatureUnit": "F", "oxygenSaturation": 95, "oxygenSupport": "2L NC", "weight": 82, "weightUnit": "kg", "painScore": 3},
+    "labs": [{"name": "Potassium", "value": "3.2", "unit": "mmol/L", "flag": "low", "collectedAt": "this morning"}],
+    "medications": [{"name": "Furosemide", "dose": "40 mg", "route": "IV", "frequency": "BID", "status": "active|new|changed|held|discontinued"}],
+    "allergies": [{"substance": "Penicillin", "reaction": "Rash", "severity": "mild|moderate|severe"}],
+    "problems": [{"description": "Acute on chronic systolic heart failure", "icd10": "I50.23", "status": "active|resolved|chronic"}]
+  }`;
+
+const STRUCTURED_DATA_RULES = `
+STRUCTURED DATA:
+- Fill "structured" only with values stated in the transcript or patient context; omit any field that was not stated and use null for vitals when none were given
+- Keep lab values exactly as stated, with units when given; set "flag" only when the value was called high, low, critical or abnormal
+- List every medication discussed with its status for this encounter (new, changed, held, discontinued, or active when continued unchanged)
+- Problems are the problem list as documented in the Assessment, with ICD-10 codes matching the billing`;
+
+function buildOutputFormat(isRadiology: boolean, stream: boolean): string {
+  const billingJson = isRadiology ? RADIOLOGY_BILLING_JSON : `${CLINICAL_BILLING_JSON},\n  ${CLINICAL_STRUCTURED_JSON}`;
+
+  if (!stream) {
+    const noteExample = isRadiology ? 'The complete radiology report text' : '## SECTION_NAME\\n...\\n\\n## NEXT_SECTION\\n...';
+    return `OUTPUT FORMAT (respond with valid JSON only):
+{
+  "note": "${noteExample}",
+  ${billingJson}
+}`;
   }
-  return result;
+
+  return `OUTPUT FORMAT:
+First write the complete ${isRadiology ? 'radiology report' : 'note'} as plain text${isRadiology ? '' : ', starting each section with "## SECTION_NAME" on its own line'}.
+Then write ${BILLING_DELIMITER} on its own line, followed by valid JSON only:
+{
+  ${billingJson}
+}`;
 }
 
-function sanitizeInput(input: string | undefined | null, maxLength = 50000): string {
-  if (!input) return '';
-  return String(input).trim().slice(0, maxLength);
+// Encounter languages the client can send, by ISO 639-1 code
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English', es: 'Spanish', zh: 'Mandarin Chinese', vi: 'Vietnamese', tl: 'Tagalog',
+  ar: 'Arabic', fr: 'French', ht: 'Haitian Creole', pt: 'Portuguese', ru: 'Russian',
+};
+
+const isLanguageCode = (value: unknown): value is string =>
+  typeof value === 'string' && Object.hasOwn(LANGUAGE_NAMES, value);
+
+function buildTranslationRules(sourceLanguage: string): string {
+  const spoken = sourceLanguage === 'auto'
+    ? 'The transcript may be in a language other than English.'
+    : `The transcript is in ${LANGUAGE_NAMES[sourceLanguage]}.`;
+
+  return `
+LANGUAGE:
+${spoken}
+- Write the entire note in English, translating the clinical content faithfully
+- Do not add, soften or infer findings during translation; keep the patient's meaning even when phrasing is informal
+- When a term has no clear English equivalent, give the translation followed by the original word in quotes
+- Add "sourceLanguage" to the JSON output: the ISO 639-1 code of the language spoken (e.g. "es")`;
+}
+
+// Stated at the top of every translated note so readers know it is an interpretation
+function buildLanguageStatement(sourceLanguage: string, interpreterUsed: boolean): string {
+  const via = interpreterUsed ? ' through a medical interpreter' : '';
+  return `**Language:** Encounter conducted in ${LANGUAGE_NAMES[sourceLanguage]}${via}. ` +
+    'This note was translated into English from the original-language transcript, which is kept with the note.';
+}
+
+// Running summary of the patient's earlier notes, as sent by the client in patientInfo.summary
+const MAX_SUMMARY_LENGTH = 5000;
+
+function formatPatientSummary(value: unknown): string {
+  if (!value || typeof value !== 'object') return '';
+  const summary = value as Record<string, unknown>;
+  const lines: string[] = [];
+
+  const narrative = typeof summary.narrative === 'string' ? sanitizeInput(summary.narrative, MAX_SUMMARY_LENGTH) : '';
+  if (narrative) lines.push(`Course so far: ${narrative}`);
+
+  const diagnoses = (Array.isArray(summary.keyDiagnoses) ? summary.keyDiagnoses : [])
+    .filter(dx => typeof dx?.code === 'string')
+    .map(dx => `${typeof dx.description === 'string' ? dx.description : ''} (${dx.code})`.trim());
+  if (diagnoses.length) lines.push(`Known diagnoses: ${diagnoses.join('; ')}`);
+
+  const medications = (Array.isArray(summary.activeMedications) ? summary.activeMedications : [])
+    .filter(med => typeof med?.name === 'string')
+    .map(med => typeof med.dose === 'string' && med.dose ? `${med.name} ${med.dose}` : med.name);
+  if (medications.length) lines.push(`Active medications: ${medications.join(', ')}`);
+
+  return lines.join('\n');
+}
+
+// Carry-forward progress notes: the last signed note's Assessment/Plan is the baseline
+const MAX_CARRY_FORWARD_LENGTH = 20000;
+
+interface CarryForwardInput {
+  assessmentPlan: string;
+  priorNoteDate: string; // Already formatted for display by the client
+}
+
+function parseCarryForward(value: unknown): CarryForwardInput | null {
+  if (!value || typeof value !== 'object') return null;
+  const input = value as Record<string, unknown>;
+  const assessmentPlan = typeof input.assessmentPlan === 'string' ? sanitizeInput(input.assessmentPlan, MAX_CARRY_FORWARD_LENGTH) : '';
+  if (!assessmentPlan) return null;
+  const priorNoteDate = typeof input.priorNoteDate === 'string' ? sanitizeInput(input.priorNoteDate, 40) : '';
+  return { assessmentPlan, priorNoteDate: priorNoteDate || 'the last note' };
+}
+
+function buildCarryForwardRules(priorNoteDate: string): string {
+  return `
+CARRY-FORWARD PROGRESS NOTE:
+This note continues the patient's last signed note (${priorNoteDate}). Its Assessment/Plan, as reviewed by the clinician, is given as the baseline; the transcript is today's interval history.
+- Write the subjective and objective sections from today's transcript only
+- Build the Assessment and Plan from the baseline: keep each problem and plan item that today's transcript does not change, and update, add or resolve items only where the transcript supports it
+- Start each line that differs from the baseline with "(New)", "(Updated)" or "(Resolved)"; leave carried-forward lines unmarked
+- Begin the Assessment with "Changes since ${priorNoteDate}:" and a one-line summary of what changed, or "No changes since ${priorNoteDate}." if nothing did
+- Base billing on today's documentation, not on the baseline`;
 }
 
 // Clinical note templates - SOAP Format
@@ -95,13 +231,64 @@ const SECTION_TEMPLATES: Record<string, string> = {
 const DEFAULT_SECTION_ORDER = ['subjective', 'objective', 'assessment', 'plan'];
 
 // Build SOAP structure dynamically based on preferences
+interface TemplateSectionInput {
+  heading?: unknown;
+  instructions?: unknown;
+  required?: unknown;
+}
+
 interface NotePreferencesInput {
   noteFormat?: string;
   sections?: Record<string, boolean>;
   sectionOrder?: string[];
+  template?: { name?: unknown; sections?: TemplateSectionInput[] } | null; // Designed template, custom format only
+}
+
+// Limits on a designed template, which is user text going into the prompt
+const MAX_TEMPLATE_SECTIONS = 25;
+const MAX_TEMPLATE_HEADING_LENGTH = 80;
+const MAX_TEMPLATE_INSTRUCTIONS_LENGTH = 1000;
+
+const templateText = (value: unknown, maxLength: number): string =>
+  typeof value === 'string' ? value.replace(/\s+/g, ' ').trim().slice(0, maxLength) : '';
+
+function buildTemplateStructure(template: NonNullable<NotePreferencesInput['template']>): string | null {
+  const sections = (Array.isArray(template.sections) ? template.sections : [])
+    .slice(0, MAX_TEMPLATE_SECTIONS)
+    .map(section => ({
+      // Headings become "##" lines, so they cannot carry their own markdown
+      heading: templateText(section?.heading, MAX_TEMPLATE_HEADING_LENGTH).replace(/^[#\s]+/, '').toUpperCase(),
+      instructions: templateText(section?.instructions, MAX_TEMPLATE_INSTRUCTIONS_LENGTH),
+      required: section?.required === true,
+    }))
+    .filter(section => section.heading);
+
+  if (sections.length === 0) return null;
+
+  const name = templateText(template.name, MAX_TEMPLATE_HEADING_LENGTH);
+  const sectionBlocks = sections.map(section => [
+    `## ${section.heading}`,
+    section.instructions && `- ${section.instructions}`,
+    section.required
+      ? '- REQUIRED: always include this section; if the encounter does not cover it, write "Not documented."'
+      : '- Optional: omit this section entirely if the encounter does not cover it',
+  ].filter(Boolean).join('\n'));
+
+  return `
+Generate the note using the clinician's ${name ? `"${name}" ` : ''}template, with these exact section headers (in this order):
+
+${sectionBlocks.join('\n\n')}
+
+Use "##" for section headers exactly as shown above. Do not add sections the template does not list.`;
 }
 
 function buildDynamicSOAPStructure(prefs: NotePreferencesInput | null): string {
+  // A designed template replaces the fixed section list
+  if (prefs?.noteFormat === 'custom' && prefs.template) {
+    const templateStructure = buildTemplateStructure(prefs.template);
+    if (templateStructure) return templateStructure;
+  }
+
   // If no preferences or all sections enabled, return full SOAP
   if (!prefs || !prefs.sections || !prefs.sectionOrder) {
     return `
@@ -161,21 +348,317 @@ const RADIOLOGY_CPT_GUIDANCE: Record<string, string> = {
 
 const RADIOLOGY_MODALITIES = ['xray', 'ct', 'mri', 'ultrasound', 'mammography', 'fluoroscopy'];
 
+// Ensure billing has proper structure
+function normalizeBilling(billing: Record<string, unknown> | undefined, isRadiology: boolean) {
+  return isRadiology ? {
+    icd10: Array.isArray(billing?.icd10) ? billing.icd10 : [],
+    cpt: Array.isArray(billing?.cpt) ? billing.cpt : [],
+    modifiers: Array.isArray(billing?.modifiers) ? billing.modifiers : ['-26'],
+    rvu: typeof billing?.rvu === 'number' ? billing.rvu : 0.75,
+  } : {
+    icd10: Array.isArray(billing?.icd10) ? billing.icd10 : [],
+    cpt: Array.isArray(billing?.cpt) ? billing.cpt : [],
+    mdmComplexity: billing?.mdmComplexity || 'Moderate',
+    emLevel: billing?.emLevel || '99214',
+    rvu: typeof billing?.rvu === 'number' ? billing.rvu : 1.92,
+  };
+}
+
+const VITAL_NUMBERS = ['heartRate', 'respiratoryRate', 'temperature', 'oxygenSaturation', 'weight', 'painScore'] as const;
+const MEDICATION_STATUSES = ['active', 'new', 'changed', 'held', 'discontinued'];
+const LAB_FLAGS = ['high', 'low', 'critical', 'abnormal'];
+const ALLERGY_SEVERITIES = ['mild', 'moderate', 'severe'];
+const PROBLEM_STATUSES = ['active', 'resolved', 'chronic'];
+
+// Only non-empty strings survive; placeholders the model copied into a value are re-identified
+const textField = (value: unknown, phi: PhiRedactor): string | undefined =>
+  typeof value === 'string' && value.trim() ? phi.restore(value.trim()) : undefined;
+
+const oneOf = (value: unknown, allowed: string[]): string | undefined =>
+  typeof value === 'string' && allowed.includes(value.toLowerCase()) ? value.toLowerCase() : undefined;
+
+const records = (value: unknown): Record<string, unknown>[] =>
+  Array.isArray(value) ? value.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object') : [];
+
+// Drops anything that does not match the StructuredClinicalData shape the client stores
+function normalizeStructuredData(structured: unknown, phi: PhiRedactor) {
+  const data = (structured && typeof structured === 'object' ? structured : {}) as Record<string, unknown>;
+
+  let vitals: Record<string, unknown> | null = null;
+  if (data.vitals && typeof data.vitals === 'object') {
+    const input = data.vitals as Record<string, unknown>;
+    const parsed: Record<string, unknown> = {};
+    const bloodPressure = textField(input.bloodPressure, phi);
+    if (bloodPressure) parsed.bloodPressure = bloodPressure;
+    for (const key of VITAL_NUMBERS) {
+      const value = typeof input[key] === 'string' ? parseFloat(input[key] as string) : input[key];
+      if (typeof value === 'number' && Number.isFinite(value)) parsed[key] = value;
+    }
+    const oxygenSupport = textField(input.oxygenSupport, phi);
+    if (oxygenSupport) parsed.oxygenSupport = oxygenSupport;
+    if (parsed.temperature !== undefined) parsed.temperatureUnit = input.temperatureUnit === 'C' ? 'C' : 'F';
+    if (parsed.weight !== undefined) parsed.weightUnit = input.weightUnit === 'lb' ? 'lb' : 'kg';
+    if (Object.keys(parsed).length > 0) vitals = parsed;
+  }
+
+  return {
+    vitals,
+    labs: records(data.labs)
+      .map(lab => ({
+        name: textField(lab.name, phi),
+        value: typeof lab.value === 'number' ? String(lab.value) : textField(lab.value, phi),
+        unit: textField(lab.unit, phi),
+        flag: oneOf(lab.flag, LAB_FLAGS),
+        collectedAt: textField(lab.collectedAt, phi),
+      }))
+      .filter(lab => lab.name && lab.value),
+    medications: records(data.medications)
+      .map(med => ({
+        name: textField(med.name, phi),
+        dose: textField(med.dose, phi),
+        route: textField(med.route, phi),
+        frequency: textField(med.frequency, phi),
+        status: oneOf(med.status, MEDICATION_STATUSES) || 'active',
+      }))
+      .filter(med => med.name),
+    allergies: records(data.allergies)
+      .map(allergy => ({
+        substance: textField(allergy.substance, phi),
+        reaction: textField(allergy.reaction, phi),
+        severity: oneOf(allergy.severity, ALLERGY_SEVERITIES),
+      }))
+      .filter(allergy => allergy.substance),
+    problems: records(data.problems)
+      .map(problem => ({
+        description: textField(problem.description, phi),
+        icd10: textField(problem.icd10, phi)?.toUpperCase(),
+        status: oneOf(problem.status, PROBLEM_STATUSES) || 'active',
+      }))
+      .filter(problem => problem.description),
+  };
+}
+
+// Rate limits and key problems get their own status; anything else is a 500
+function llmErrorResponse(error: unknown): Response | null {
+  if (!(error instanceof LlmError)) return null;
+  if (error.status === 429) {
+    return new Response(JSON.stringify({ error: 'Rate limit exceeded', success: false }), {
+      status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+  if (error.status === 401) {
+    return new Response(JSON.stringify({ error: 'Invalid API key', success: false }), {
+      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+  return null;
+}
+
+// Section refinement: rewrite one section of an existing note, leaving the rest as it is
+const SECTION_ACTIONS: Record<string, string> = {
+  regenerate: 'Rewrite this section from the transcript, as if writing it for the first time.',
+  concise: 'Make this section more concise. Keep every clinically relevant fact, drop repetition and filler.',
+  expand_differential: 'Expand the differential diagnosis: list the reasonable alternatives with brief supporting and opposing findings from the encounter.',
+  problem_based: 'Convert this section into a problem-based plan: one numbered problem per line, each followed by its plan items.',
+};
+
+const MAX_REFINE_INSTRUCTION_LENGTH = 500;
+
+/**
+ * Rewrite one section of a generated note ("mode": "refine-section").
+ * Billing codes are only re-derived, from the note with the new section,
+ * when the request sets `updateBilling`.
+ */
+async function refineNoteSection(body: Record<string, unknown>, tracking: GenerationTracking): Promise<Response> {
+  const note = sanitizeInput(body.note as string);
+  const sectionTitle = sanitizeInput(body.sectionTitle as string, 200);
+  const sectionContent = sanitizeInput(body.sectionContent as string);
+  const transcript = sanitizeInput(body.transcript as string);
+  const noteType = typeof body.noteType === 'string' ? body.noteType : 'progress';
+  const patientInfo = (body.patientInfo && typeof body.patientInfo === 'object' ? body.patientInfo : {}) as Record<string, unknown>;
+  const updateBilling = body.updateBilling === true;
+  const instruction = body.action === 'custom'
+    ? sanitizeInput(body.instruction as string, MAX_REFINE_INSTRUCTION_LENGTH)
+    : SECTION_ACTIONS[body.action as string] || '';
+
+  if (!note || !sectionTitle || !instruction) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Note, section and instruction are required',
+    }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+  }
+
+  const isRadiology = RADIOLOGY_MODALITIES.includes(noteType);
+
+  // De-identify PHI across everything sent to the model
+  const phi = createPhiRedactor(patientInfo);
+  const cleanedNote = phi.redact(note);
+  const cleanedSection = phi.redact(sectionContent);
+  const cleanedTranscript = phi.redact(transcript);
+  const cleanedInstruction = phi.redact(instruction); // A clinician's own instruction can name the patient or family
+  const cleanedSectionTitle = phi.redact(sectionTitle);
+
+  const systemPrompt = `You are an expert medical documentation specialist revising ONE section of an existing ${isRadiology ? 'radiology report' : 'clinical note'}.
+
+CRITICAL RULES:
+1. Preserve all placeholder tokens exactly as written (e.g., [PATIENT_NAME], [NAME_0])
+2. Only document what is supported by the transcript or already stated in the note; never invent findings
+3. Keep the rest of the note consistent: do not contradict other sections
+4. Return ONLY the revised content of the "${cleanedSectionTitle}" section, without its header
+${updateBilling ? `
+OUTPUT FORMAT:
+First write the revised section content as plain text.
+Then write ${BILLING_DELIMITER} on its own line, followed by valid JSON only, with billing codes for the whole note including the revised section:
+{
+  ${isRadiology ? RADIOLOGY_BILLING_JSON : CLINICAL_BILLING_JSON}
+}` : ''}`;
+
+  const userPrompt = `Revise the "${cleanedSectionTitle}" section.
+Instruction: ${cleanedInstruction}
+
+Current section content:
+${cleanedSection || '(empty)'}
+
+Full note:
+${cleanedNote}${cleanedTranscript ? `
+
+Transcript:
+${cleanedTranscript}` : ''}`;
+
+  console.log(`Refining note section "${cleanedSectionTitle}" (${body.action})...`);
+
+  const { text: content, generationId } = await llm.complete({ system: systemPrompt, prompt: userPrompt, tracking });
+  const delimiterAt = content.indexOf(BILLING_DELIMITER);
+  const sectionText = delimiterAt === -1 ? content : content.slice(0, delimiterAt);
+
+  let billing = null;
+  if (updateBilling) {
+    const parsed = delimiterAt === -1 ? null : extractJson(content.slice(delimiterAt));
+    if (!parsed) {
+      console.error('Failed to parse AI response:', content);
+      throw new Error('Failed to parse AI response');
+    }
+    billing = normalizeBilling(parsed.billing, isRadiology);
+  }
+
+  // Models sometimes repeat the header despite the instructions
+  const headerPattern = new RegExp(`^\\s*(?:#+\\s*)?(?:\\*\\*)?${cleanedSectionTitle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:\\*\\*)?:?(?:\\*\\*)?\\s*\\n`, 'i');
+  const section = phi.restore(sectionText.replace(headerPattern, '')).trim();
+
+  console.log('Successfully refined note section');
+
+  return new Response(JSON.stringify({
+    success: true,
+    section,
+    billing,
+    isRadiology,
+    phiProtected: true,
+    phiRedactions: phi.report(),
+    generationId,
+  }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
+interface ParsedNoteResponse {
+  note?: string;
+  billing?: Record<string, unknown>;
+  structured?: unknown;
+  structured_category?: string | null;
+  sourceLanguage?: unknown;
+}
+
+const sseEvent = (event: string, data: unknown): string => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+// How much of the streamed text can be shown: not the billing, nor a delimiter or [PLACEHOLDER] still arriving
+function showableLength(text: string): number {
+  const delimiterAt = text.indexOf(BILLING_DELIMITER);
+  if (delimiterAt !== -1) return delimiterAt;
+
+  let end = text.length;
+  for (let keep = Math.min(BILLING_DELIMITER.length - 1, text.length); keep > 0; keep--) {
+    if (BILLING_DELIMITER.startsWith(text.slice(-keep))) {
+      end = text.length - keep;
+      break;
+    }
+  }
+
+  const openAt = text.lastIndexOf('[', end - 1);
+  if (openAt !== -1 && !text.slice(openAt, end).includes(']')) end = openAt;
+  return end;
+}
+
+/**
+ * Relay a streamed model reply as server-sent events:
+ * - `delta` with each new piece of note text, PHI re-identified
+ * - `done` with the complete response, billing included, once the model finishes
+ * - `error` if generation fails part-way
+ * Cancelling the stream aborts the model request.
+ */
+function streamNoteEvents(
+  chunks: LlmStream,
+  abortController: AbortController,
+  phi: PhiRedactor,
+  buildPayload: (parsed: ParsedNoteResponse, generationId: string | null) => Record<string, unknown>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => controller.enqueue(encoder.encode(sseEvent(event, data)));
+      let text = '';
+      let sent = 0;
+
+      try {
+        for await (const chunk of chunks) {
+          text += chunk;
+          const end = showableLength(text);
+          if (end > sent) {
+            send('delta', { text: phi.restore(text.slice(sent, end)) });
+            sent = end;
+          }
+        }
+
+        const delimiterAt = text.indexOf(BILLING_DELIMITER);
+        const billing = delimiterAt === -1 ? null : extractJson(text.slice(delimiterAt));
+        if (!billing) {
+          console.error('Failed to parse AI response:', text);
+          throw new Error('Failed to parse AI response');
+        }
+
+        send('done', buildPayload({ ...billing, note: text.slice(0, delimiterAt) }, chunks.generationId));
+      } catch (error) {
+        if (abortController.signal.aborted) return;
+        console.error('Error streaming note:', error);
+        send('error', { success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+      controller.close();
+    },
+    cancel() {
+      console.log('Note generation cancelled by client');
+      abortController.abort();
+    },
+  });
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const COHERE_API_KEY = Deno.env.get('COHERE_API_KEY');
-    if (!COHERE_API_KEY) throw new Error('COHERE_API_KEY not configured');
-
     const body = await req.json();
+    if (body.mode === 'refine-section') return await refineNoteSection(body, trackingFrom(req, body.noteId));
+
     const transcript = sanitizeInput(body.transcript);
     const noteType = body.noteType || 'progress';
     const patientInfo = body.patientInfo || {};
     const radiologyContext = body.radiologyContext || null;
     const notePreferences: NotePreferencesInput | null = body.notePreferences || null;
+    const speakerTranscript = formatSpeakerTranscript(body.speakerSegments);
+    const requestedLanguage = body.sourceLanguage === 'auto' || isLanguageCode(body.sourceLanguage)
+      ? body.sourceLanguage
+      : 'en';
+    const interpreterUsed = body.interpreterUsed === true;
+    const stream = body.stream === true;
 
     if (!transcript || transcript.length < 20) {
       return new Response(JSON.stringify({ 
@@ -186,49 +669,43 @@ serve(async (req) => {
 
     const isRadiology = RADIOLOGY_MODALITIES.includes(noteType);
 
-    // De-identify PHI
-    const { cleanedText: cleanedTranscript, tokens: transcriptTokens } = deidentifyPhi(transcript);
-    
-    const allTokens = [...transcriptTokens];
+    // De-identify PHI, with the patient record as a dictionary of known identifiers
+    const phi = createPhiRedactor(patientInfo);
+    const cleanedTranscript = phi.redact(transcript);
+    const cleanedSpeakerTranscript = !isRadiology && speakerTranscript ? phi.redact(speakerTranscript) : '';
+
     let contextStr = '';
 
     if (isRadiology && radiologyContext) {
       // Radiology context
       const radCtx = [];
-      if (radiologyContext.bodyPart) radCtx.push(`Body Part: ${radiologyContext.bodyPart}`);
-      if (radiologyContext.indication) radCtx.push(`Clinical Indication: ${radiologyContext.indication}`);
-      if (radiologyContext.comparison) radCtx.push(`Comparison: ${radiologyContext.comparison}`);
-      if (radiologyContext.technique) radCtx.push(`Technique: ${radiologyContext.technique}`);
+      if (radiologyContext.bodyPart) radCtx.push(`Body Part: ${phi.redact(String(radiologyContext.bodyPart))}`);
+      if (radiologyContext.indication) radCtx.push(`Clinical Indication: ${phi.redact(String(radiologyContext.indication))}`);
+      if (radiologyContext.comparison) radCtx.push(`Comparison: ${phi.redact(String(radiologyContext.comparison))}`);
+      if (radiologyContext.technique) radCtx.push(`Technique: ${phi.redact(String(radiologyContext.technique))}`);
       if (radiologyContext.contrast !== undefined) radCtx.push(`Contrast: ${radiologyContext.contrast ? 'Yes' : 'No'}`);
       contextStr = radCtx.length ? `\nStudy Context:\n${radCtx.join('\n')}` : '';
     } else if (patientInfo) {
-      // Clinical patient context - tokenize PHI for re-identification
+      // Clinical patient context - identifiers only as placeholders
       const patientContext = [];
-      if (patientInfo.name) {
-        const placeholder = `[PATIENT_NAME]`;
-        patientContext.push(`Patient: ${placeholder}`);
-        allTokens.push({ placeholder, original: patientInfo.name, type: 'NAME' });
-      }
-      if (patientInfo.mrn) {
-        const placeholder = `[PATIENT_MRN]`;
-        patientContext.push(`MRN: ${placeholder}`);
-        allTokens.push({ placeholder, original: patientInfo.mrn, type: 'MRN' });
+      const identifiers: Array<[string, 'name' | 'mrn' | 'dob' | 'room']> = [['Patient', 'name'], ['MRN', 'mrn'], ['DOB', 'dob'], ['Room', 'room']];
+      for (const [label, field] of identifiers) {
+        const placeholder = phi.placeholder(field);
+        if (placeholder) patientContext.push(`${label}: ${placeholder}`);
       }
-      if (patientInfo.dob) {
-        const placeholder = `[PATIENT_DOB]`;
-        patientContext.push(`DOB: ${placeholder}`);
-        allTokens.push({ placeholder, original: patientInfo.dob, type: 'DOB' });
+      if (patientInfo.diagnosis) patientContext.push(`Diagnosis: ${phi.redact(String(patientInfo.diagnosis))}`);
+      if (patientInfo.allergies?.length) patientContext.push(`Allergies: ${phi.redact(patientInfo.allergies.join(', '))}`);
+      const history = formatPatientSummary(patientInfo.summary);
+      if (history) {
+        patientContext.push(`Known history from earlier notes (background only; today's findings come from the transcript):\n${phi.redact(history)}`);
       }
-      if (patientInfo.room) {
-        const placeholder = `[PATIENT_ROOM]`;
-        patientContext.push(`Room: ${placeholder}`);
-        allTokens.push({ placeholder, original: patientInfo.room, type: 'ROOM' });
-      }
-      if (patientInfo.diagnosis) patientContext.push(`Diagnosis: ${patientInfo.diagnosis}`);
-      if (patientInfo.allergies?.length) patientContext.push(`Allergies: ${patientInfo.allergies.join(', ')}`);
       contextStr = patientContext.length ? `\nPatient Context:\n${patientContext.join('\n')}` : '';
     }
 
+    // Carry-forward progress notes merge today's transcript into the last signed Assessment/Plan
+    const carryForward = !isRadiology && noteType === 'progress' ? parseCarryForward(body.carryForward) : null;
+    const cleanedBaseline = carryForward ? phi.redact(carryForward.assessmentPlan) : null;
+
     const template = isRadiology 
       ? RADIOLOGY_TEMPLATES[noteType] || RADIOLOGY_TEMPLATES.xray
       : CLINICAL_TEMPLATES[noteType] || CLINICAL_TEMPLATES.progress;
@@ -237,6 +714,8 @@ serve(async (req) => {
     
     // Build dynamic SOAP structure based on preferences (clinical only)
     const soapStructure = isRadiology ? '' : buildDynamicSOAPStructure(notePreferences);
+    const translationRules = requestedLanguage === 'en' ? '' : buildTranslationRules(requestedLanguage);
+    const outputFormat = buildOutputFormat(isRadiology, stream);
 
     const systemPrompt = isRadiology
       ? `You are an expert radiologist generating a structured radiology report AND extracting billing codes from the dictation.
@@ -249,18 +728,9 @@ CRITICAL RULES:
 5. For mammography, ALWAYS include BI-RADS category (0-6) in the structured_category field
 6. For other modalities, include relevant structured categories if applicable (LI-RADS for liver, TI-RADS for thyroid, etc.)
 ${cptGuidance}
+${translationRules}
 
-OUTPUT FORMAT (respond with valid JSON only):
-{
-  "note": "The complete radiology report text",
-  "billing": {
-    "icd10": [{"code": "X00.0", "description": "Finding"}],
-    "cpt": [{"code": "71046", "description": "Chest X-ray 2 views"}],
-    "modifiers": ["-26"],
-    "rvu": 0.75
-  },
-  "structured_category": "BI-RADS 2" // if applicable
-}`
+${outputFormat}`
       : `You are an expert medical documentation specialist. Generate a clinical note AND extract billing codes from the transcript.
 
 CRITICAL RULES:
@@ -270,100 +740,91 @@ CRITICAL RULES:
 4. Determine MDM complexity and E/M level based on documentation
 5. Follow the section structure provided below
 ${soapStructure}
+${STRUCTURED_DATA_RULES}
+${cleanedSpeakerTranscript ? SPEAKER_ATTRIBUTION_RULES : ''}
+${carryForward ? buildCarryForwardRules(carryForward.priorNoteDate) : ''}
+${translationRules}
+
+${outputFormat}`;
+
+    const userPrompt = `Generate a ${template} from this ${isRadiology ? 'dictation' : 'transcript'}.${contextStr}${cleanedBaseline ? `
+
+Baseline Assessment/Plan (${carryForward?.priorNoteDate}):
+${cleanedBaseline}` : ''}
+
+${isRadiology ? 'Dictation' : cleanedBaseline ? 'Transcript (interval history)' : 'Transcript'}:
+${cleanedTranscript}${cleanedSpeakerTranscript ? `
+
+Speaker-labelled transcript:
+${cleanedSpeakerTranscript}` : ''}`;
+
+    console.log(`Generating ${isRadiology ? 'radiology report' : 'clinical note'}...`);
+
+    // The note as the client receives it, from either response mode
+    const buildPayload = (parsed: ParsedNoteResponse, generationId: string | null) => {
+      // Auto-detect relies on the model naming the language; anything unrecognised is treated as English
+      const sourceLanguage = requestedLanguage !== 'auto'
+        ? requestedLanguage
+        : isLanguageCode(parsed.sourceLanguage) ? parsed.sourceLanguage : 'en';
+
+      // Re-identify PHI in the note
+      const reidentifiedNote = phi.restore(parsed.note || '').trim();
+      const finalNote = sourceLanguage === 'en'
+        ? reidentifiedNote
+        : `${buildLanguageStatement(sourceLanguage, interpreterUsed)}\n\n${reidentifiedNote}`;
+
+      const billing = normalizeBilling(parsed.billing, isRadiology);
+
+      console.log(`Successfully generated ${isRadiology ? 'radiology report' : 'clinical note'} with billing`);
+
+      return {
+        success: true,
+        note: finalNote,
+        billing,
+        structured_category: parsed.structured_category || null,
+        structured: isRadiology ? null : normalizeStructuredData(parsed.structured, phi),
+        sourceLanguage,
+        interpreterUsed,
+        isRadiology,
+        phiProtected: true,
+        phiRedactions: phi.report(),
+        generationId, // Linked to the note once it is saved
+      };
+    };
 
-OUTPUT FORMAT (respond with valid JSON only):
-{
-  "note": "## SECTION_NAME\\n...\\n\\n## NEXT_SECTION\\n...",
-  "billing": {
-    "icd10": [{"code": "X00.0", "description": "Condition"}],
-    "cpt": [{"code": "99214", "description": "Office visit"}],
-    "mdmComplexity": "Low|Moderate|High",
-    "emLevel": "99211|99212|99213|99214|99215",
-    "rvu": 1.92
-  }
-}`;
-
-    const userPrompt = `Generate a ${template} from this ${isRadiology ? 'dictation' : 'transcript'}.${contextStr}
-
-${isRadiology ? 'Dictation' : 'Transcript'}:
-${cleanedTranscript}`;
-
-    console.log(`Calling Cohere API for ${isRadiology ? 'radiology report' : 'clinical note'} generation...`);
-
-    const response = await fetch(COHERE_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${COHERE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'command-a-03-2025',
-        message: userPrompt,
-        preamble: systemPrompt,
-        temperature: 0.3,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Cohere API error:', response.status, errorText);
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: 'Rate limit exceeded', success: false }), {
-          status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-      }
-      if (response.status === 401) {
-        return new Response(JSON.stringify({ error: 'Invalid API key', success: false }), {
-          status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-      }
-      throw new Error(`Cohere API error: ${response.status}`);
+    if (stream) {
+      // Aborted when a streaming client cancels
+      const abortController = new AbortController();
+      const chunks = await llm.stream({
+        system: systemPrompt,
+        prompt: userPrompt,
+        signal: abortController.signal,
+        tracking: trackingFrom(req),
+      });
+      return new Response(streamNoteEvents(chunks, abortController, phi, buildPayload), {
+        headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+      });
     }
 
-    const data = await response.json();
-    const content = data.text || '';
-    
-    // Parse JSON response
-    let parsed;
-    try {
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) throw new Error('No JSON found');
-      parsed = JSON.parse(jsonMatch[0]);
-    } catch (e) {
+    const { text: content, json: parsed, generationId } = await llm.complete({
+      system: systemPrompt,
+      prompt: userPrompt,
+      json: true,
+      tracking: trackingFrom(req),
+    });
+    if (!parsed) {
       console.error('Failed to parse AI response:', content);
       throw new Error('Failed to parse AI response');
     }
 
-    // Re-identify PHI in the note
-    const finalNote = reidentifyPhi(parsed.note || '', allTokens);
-    
-    // Ensure billing has proper structure
-    const billing = isRadiology ? {
-      icd10: Array.isArray(parsed.billing?.icd10) ? parsed.billing.icd10 : [],
-      cpt: Array.isArray(parsed.billing?.cpt) ? parsed.billing.cpt : [],
-      modifiers: Array.isArray(parsed.billing?.modifiers) ? parsed.billing.modifiers : ['-26'],
-      rvu: typeof parsed.billing?.rvu === 'number' ? parsed.billing.rvu : 0.75,
-    } : {
-      icd10: Array.isArray(parsed.billing?.icd10) ? parsed.billing.icd10 : [],
-      cpt: Array.isArray(parsed.billing?.cpt) ? parsed.billing.cpt : [],
-      mdmComplexity: parsed.billing?.mdmComplexity || 'Moderate',
-      emLevel: parsed.billing?.emLevel || '99214',
-      rvu: typeof parsed.billing?.rvu === 'number' ? parsed.billing.rvu : 1.92,
-    };
-
-    console.log(`Successfully generated ${isRadiology ? 'radiology report' : 'clinical note'} with billing via Cohere`);
-
-    return new Response(JSON.stringify({
-      success: true,
-      note: finalNote.trim(),
-      billing,
-      structured_category: parsed.structured_category || null,
-      isRadiology,
-      phiProtected: true,
-    }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    return new Response(JSON.stringify(buildPayload(parsed as ParsedNoteResponse, generationId)), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
 
   } catch (error) {
     console.error('Error in generate-note-with-billing:', error);
+    const errorResponse = llmErrorResponse(error);
+    if (errorResponse) return errorResponse;
     return new Response(JSON.stringify({
       error: error instanceof Error ? error.message : 'Unknown error',
       success: false,
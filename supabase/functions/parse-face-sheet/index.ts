@@ -1,11 +1,20 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createLlmClient, LlmError, trackingFrom, type LlmPart } from "../_shared/llm/index.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const LOVABLE_AI_URL = 'https://ai.gateway.lovable.dev/v1/chat/completions';
+const llm = createLlmClient('parse-face-sheet');
+
+// Captured images arrive as data URLs; bare base64 is taken to be a JPEG
+function imagePart(image: string): LlmPart {
+  const dataUrl = image.match(/^data:([^;]+);base64,(.*)$/s);
+  return dataUrl
+    ? { type: 'image', mimeType: dataUrl[1], data: dataUrl[2] }
+    : { type: 'image', mimeType: 'image/jpeg', data: image };
+}
 
 interface ParsedFaceSheet {
   patient: {
@@ -100,26 +109,20 @@ serve(async (req) => {
   }
 
   try {
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) throw new Error('LOVABLE_API_KEY not configured');
-
     const { text, imageBase64 } = await req.json();
 
     // Build content array based on input type
-    let content: any[];
+    let content: LlmPart[];
     
     if (imageBase64) {
       // Vision mode - parse from image
-      console.log('Processing face sheet image with Gemini vision...');
+      console.log('Processing face sheet image with vision model...');
       content = [
         { 
           type: 'text', 
           text: 'Parse this hospital face sheet image and extract all patient, insurance, and medical information. Read all text visible in the document carefully.' 
         },
-        { 
-          type: 'image_url', 
-          image_url: { url: imageBase64 } 
-        }
+        imagePart(imageBase64)
       ];
     } else if (text && text.length >= 20) {
       // Text mode - parse from pasted text
@@ -137,54 +140,19 @@ serve(async (req) => {
       }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
     }
 
-    console.log('Calling Lovable AI for face sheet parsing...');
-
-    const response = await fetch(LOVABLE_AI_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content }
-        ],
-        temperature: 0.2, // Low temperature for accurate extraction
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Lovable AI error:', response.status, errorText);
-
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: 'Rate limit exceeded. Please try again.', success: false }), {
-          status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-      }
-      if (response.status === 402) {
-        return new Response(JSON.stringify({ error: 'AI credits exhausted. Please add credits.', success: false }), {
-          status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-      }
-      throw new Error(`AI API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const messageContent = data.choices?.[0]?.message?.content || '';
+    console.log('Parsing face sheet...');
 
-    // Parse JSON response
-    let parsed: ParsedFaceSheet;
-    try {
-      const jsonMatch = messageContent.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) throw new Error('No JSON found in response');
-      parsed = JSON.parse(jsonMatch[0]);
-    } catch (e) {
+    const { text: messageContent, json } = await llm.complete({
+      system: systemPrompt,
+      prompt: content,
+      json: true,
+      tracking: trackingFrom(req),
+    });
+    if (!json) {
       console.error('Failed to parse AI response:', messageContent);
       throw new Error('Failed to parse face sheet data from AI response');
     }
+    const parsed = json as unknown as ParsedFaceSheet;
 
     // Ensure arrays are arrays
     parsed.medical.allergies = Array.isArray(parsed.medical.allergies) ? parsed.medical.allergies : [];
@@ -200,6 +168,16 @@ serve(async (req) => {
 
   } catch (error) {
     console.error('Error in parse-face-sheet:', error);
+    if (error instanceof LlmError && error.status === 429) {
+      return new Response(JSON.stringify({ error: 'Rate limit exceeded. Please try again.', success: false }), {
+        status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+    if (error instanceof LlmError && error.status === 402) {
+      return new Response(JSON.stringify({ error: 'AI credits exhausted. Please add credits.', success: false }), {
+        status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
     return new Response(JSON.stringify({
       error: error instanceof Error ? error.message : 'Unknown error',
       success: false,
@@ -0,0 +1,170 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createLlmClient, LlmError, trackingFrom } from "../_shared/llm/index.ts";
+import { createPhiRedactor } from "../_shared/phi.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const llm = createLlmClient('summarize-patient');
+
+function sanitizeInput(input: unknown, maxLength = 20000): string {
+  if (typeof input !== 'string') return '';
+  return input.trim().slice(0, maxLength);
+}
+
+interface NoteInput {
+  noteType?: unknown;
+  date?: unknown;
+  status?: unknown;
+  text?: unknown;
+  structured?: unknown; // Vitals, labs, medications, allergies and problems extracted from the encounter
+}
+
+interface PreviousSummaryInput {
+  narrative?: unknown;
+  keyDiagnoses?: unknown;
+  activeMedications?: unknown;
+}
+
+const MAX_NOTES = 10;
+
+const OUTPUT_FORMAT = `OUTPUT FORMAT (respond with valid JSON only):
+{
+  "narrative": "3-6 sentence hospital course: why the patient is here, what has happened, where things stand now",
+  "keyDiagnoses": [{"code": "I50.23", "description": "Acute on chronic systolic heart failure"}],
+  "activeMedications": [{"name": "Furosemide", "dose": "40 mg IV BID"}],
+  "lastNotesSummary": "1-2 sentences on the most recent note"
+}`;
+
+/**
+ * Rolling patient summary: folds the patient's most recent notes into the
+ * previous summary and returns the updated narrative, diagnoses with ICD-10
+ * codes and active medication list.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const patientInfo = (body.patientInfo && typeof body.patientInfo === 'object' ? body.patientInfo : {}) as Record<string, unknown>;
+    const notes: NoteInput[] = Array.isArray(body.notes) ? body.notes.slice(0, MAX_NOTES) : [];
+    const previous: PreviousSummaryInput | null = body.previousSummary && typeof body.previousSummary === 'object'
+      ? body.previousSummary
+      : null;
+
+    if (notes.length === 0) {
+      return new Response(JSON.stringify({ success: false, error: 'Notes are required' }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // De-identify everything sent to the model with one set of placeholders
+    const phi = createPhiRedactor(patientInfo);
+
+    const noteBlocks = notes.map((note, index) => {
+      const label = [sanitizeInput(note.noteType, 40), sanitizeInput(note.date, 40), note.status === 'signed' ? 'signed' : 'unsigned']
+        .filter(Boolean)
+        .join(', ');
+      const structured = note.structured && typeof note.structured === 'object'
+        ? `\nExtracted data: ${phi.redact(JSON.stringify(note.structured).slice(0, 5000))}`
+        : '';
+      return `NOTE ${index + 1} (${label}):\n${phi.redact(sanitizeInput(note.text))}${structured}`;
+    }).join('\n\n');
+
+    const previousBlock = previous
+      ? `PREVIOUS SUMMARY:
+Narrative: ${phi.redact(sanitizeInput(previous.narrative, 5000)) || 'None'}
+Diagnoses: ${phi.redact(JSON.stringify(Array.isArray(previous.keyDiagnoses) ? previous.keyDiagnoses : []))}
+Medications: ${phi.redact(JSON.stringify(Array.isArray(previous.activeMedications) ? previous.activeMedications : []))}`
+      : 'PREVIOUS SUMMARY: None (first summary for this patient)';
+
+    const context = [
+      patientInfo.diagnosis ? `Admitting diagnosis: ${phi.redact(sanitizeInput(patientInfo.diagnosis, 500))}` : '',
+      Array.isArray(patientInfo.allergies) && patientInfo.allergies.length
+        ? `Allergies: ${phi.redact(patientInfo.allergies.map(a => sanitizeInput(a, 100)).join(', '))}`
+        : '',
+    ].filter(Boolean).join('\n');
+
+    const systemPrompt = `You are an expert hospitalist maintaining a running summary of one patient's stay from their clinical notes.
+
+CRITICAL RULES:
+1. Preserve all placeholder tokens exactly as written (e.g., [PATIENT_NAME], [NAME_0])
+2. Update the previous summary with the notes provided; notes are listed newest first and newer documentation wins when they disagree
+3. keyDiagnoses: active problems only, most important first, each with the most specific ICD-10-CM code the documentation supports; drop problems documented as resolved
+4. activeMedications: current medications with dose, route and frequency when documented; drop medications documented as stopped (extracted medication statuses of "discontinued" or "held" mean the medication is not active)
+5. Only include facts stated in the notes or the previous summary; never infer diagnoses or medications
+6. Signed notes are final; unsigned notes may still change
+
+${OUTPUT_FORMAT}`;
+
+    const userPrompt = `Update the patient summary.${context ? `\n\n${context}` : ''}
+
+${previousBlock}
+
+RECENT NOTES (newest first):
+${noteBlocks}`;
+
+    console.log(`Summarizing ${notes.length} note(s)...`);
+
+    const { text: content, json: parsed } = await llm.complete({
+      system: systemPrompt,
+      prompt: userPrompt,
+      json: true,
+      tracking: trackingFrom(req),
+    });
+    if (!parsed) {
+      console.error('Failed to parse AI response:', content);
+      throw new Error('Failed to parse AI response');
+    }
+
+    const keyDiagnoses = (Array.isArray(parsed.keyDiagnoses) ? parsed.keyDiagnoses : [])
+      .filter((dx): dx is { code: string; description?: unknown } => typeof dx?.code === 'string' && dx.code.trim() !== '')
+      .map(dx => ({
+        code: dx.code.trim().toUpperCase(),
+        description: phi.restore(typeof dx.description === 'string' ? dx.description.trim() : ''),
+      }));
+
+    const activeMedications = (Array.isArray(parsed.activeMedications) ? parsed.activeMedications : [])
+      .filter((med): med is { name: string; dose?: unknown } => typeof med?.name === 'string' && med.name.trim() !== '')
+      .map(med => ({
+        name: phi.restore(med.name.trim()),
+        ...(typeof med.dose === 'string' && med.dose.trim() ? { dose: phi.restore(med.dose.trim()) } : {}),
+      }));
+
+    console.log('Patient summary generated successfully');
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        summary: {
+          narrative: phi.restore(typeof parsed.narrative === 'string' ? parsed.narrative : '').trim(),
+          keyDiagnoses,
+          activeMedications,
+          lastNotesSummary: phi.restore(typeof parsed.lastNotesSummary === 'string' ? parsed.lastNotesSummary : '').trim(),
+        },
+        phiProtected: true,
+        phiRedactions: phi.report(),
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in summarize-patient function:', error);
+    if (error instanceof LlmError && error.status === 429) {
+      return new Response(JSON.stringify({ error: 'Rate limit exceeded', success: false }), {
+        status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        success: false
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,15 +1,162 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createLlmClient, LlmError, trackingFrom } from "../_shared/llm/index.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const llm = createLlmClient('transcribe-audio');
+
 // Constants for validation
 const MAX_AUDIO_SIZE_MB = 20; // Gemini limit for inline audio
 const MAX_AUDIO_SIZE_BYTES = MAX_AUDIO_SIZE_MB * 1024 * 1024;
 const ALLOWED_MIME_TYPES = ['audio/webm', 'audio/mp4', 'audio/mpeg', 'audio/wav', 'audio/ogg'];
+const MAX_PREVIOUS_TEXT_CHARS = 500; // Context tail accepted with segmented uploads
+
+const BASE_PROMPT = 'Transcribe this audio recording accurately. Return ONLY the transcription text, no timestamps, no speaker labels, no formatting, no commentary. Just the exact words spoken.';
+
+const DIARIZE_PROMPT = `Transcribe this recording of a clinical encounter accurately and identify who is speaking.
+Label each utterance with one speaker role: "clinician" (physician, nurse or other provider), "patient", "family" (relative or caregiver) or "unknown".
+Start a new utterance whenever the speaker changes. Times are in seconds from the start of this audio.
+Respond with valid JSON only, no commentary:
+{"utterances": [{"speaker": "clinician", "start": 0.0, "end": 3.2, "text": "Exact words spoken"}]}`;
+
+const WORD_TIMESTAMPS_PROMPT = `Also time every word: add a "words" array to each utterance, one entry per spoken word in order, with times in seconds from the start of this audio:
+{"speaker": "clinician", "start": 0.0, "end": 1.1, "text": "Good morning", "words": [{"text": "Good", "start": 0.0, "end": 0.4}, {"text": "morning", "start": 0.4, "end": 1.1}]}`;
+
+const SPEAKER_ROLES = ['clinician', 'patient', 'family', 'unknown'];
+
+// Encounter languages the client can request, by ISO 639-1 code
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English', es: 'Spanish', zh: 'Mandarin Chinese', vi: 'Vietnamese', tl: 'Tagalog',
+  ar: 'Arabic', fr: 'French', ht: 'Haitian Creole', pt: 'Portuguese', ru: 'Russian',
+};
+
+interface Word {
+  text: string;
+  startMs: number;
+  endMs: number;
+}
+
+interface Utterance {
+  id: string;
+  speakerId: string;
+  speaker: string;
+  startMs: number;
+  endMs: number;
+  text: string;
+  words?: Word[];
+}
+
+interface SegmentInfo {
+  index: number;
+  startMs: number;
+  endMs: number;
+}
+
+// Validate optional segment metadata sent by segmented (streaming) clients
+function parseSegmentInfo(segment: unknown): SegmentInfo | null {
+  if (!segment || typeof segment !== 'object') return null;
+  const { index, startMs, endMs } = segment as Record<string, unknown>;
+  if (typeof index !== 'number' || typeof startMs !== 'number' || typeof endMs !== 'number') {
+    throw new Error('Invalid segment metadata');
+  }
+  return { index, startMs, endMs };
+}
+
+// Transcripts stay in the language spoken; translation happens when the note is written
+function languageLine(language: string): string {
+  if (language === 'en') return '';
+  if (language === 'auto') {
+    return '\nThe conversation may not be in English. Transcribe every word in the language it is spoken in. Do NOT translate.';
+  }
+  return `\nThe conversation is in ${LANGUAGE_NAMES[language]}. Transcribe it in ${LANGUAGE_NAMES[language]} exactly as spoken, including any English words. Do NOT translate.`;
+}
+
+function buildPrompt(
+  segment: SegmentInfo | null,
+  previousText: string,
+  diarize: boolean,
+  wordTimestamps: boolean,
+  language: string
+): string {
+  const basePrompt = (diarize
+    ? (wordTimestamps ? `${DIARIZE_PROMPT}\n${WORD_TIMESTAMPS_PROMPT}` : DIARIZE_PROMPT)
+    : BASE_PROMPT) + languageLine(language);
+  if (!segment) return basePrompt;
+
+  const contextLine = previousText
+    ? ` For context only, the transcript so far ends with: "${previousText}". Do not repeat that context unless the words are spoken again in this audio.`
+    : '';
+
+  return `${basePrompt}\nThis audio is one segment of a longer recording and may begin or end mid-sentence.${contextLine}`;
+}
+
+// Parse word timings for one utterance, dropping entries the model malformed
+function parseWords(words: unknown, offsetMs: number): Word[] | undefined {
+  if (!Array.isArray(words)) return undefined;
+
+  const parsed = words
+    .filter((w: Record<string, unknown>) => typeof w?.text === 'string' && typeof w.start === 'number')
+    .map((w: Record<string, unknown>) => {
+      const start = w.start as number;
+      const end = typeof w.end === 'number' ? w.end : start;
+      return {
+        text: (w.text as string).trim(),
+        startMs: offsetMs + Math.round(start * 1000),
+        endMs: offsetMs + Math.round(end * 1000),
+      };
+    })
+    .filter((w: Word) => w.text);
+
+  return parsed.length > 0 ? parsed : undefined;
+}
+
+// Parse the diarized JSON response into utterances with absolute timings.
+// Falls back to a single unattributed utterance when the model ignores the format.
+function parseUtterances(content: string, segment: SegmentInfo | null): Utterance[] {
+  const offsetMs = segment?.startMs || 0;
+  const idPrefix = segment ? `s${segment.index}` : 's0';
+
+  try {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) throw new Error('No JSON found');
+    const parsed = JSON.parse(jsonMatch[0]);
+    if (!Array.isArray(parsed.utterances)) throw new Error('No utterances');
+
+    return parsed.utterances
+      .filter((u: Record<string, unknown>) => typeof u?.text === 'string' && (u.text as string).trim())
+      .map((u: Record<string, unknown>, i: number) => {
+        const speaker = SPEAKER_ROLES.includes(u.speaker as string) ? u.speaker as string : 'unknown';
+        const start = typeof u.start === 'number' ? u.start : 0;
+        const end = typeof u.end === 'number' ? u.end : start;
+        return {
+          id: `${idPrefix}-u${i}`,
+          // Roles double as voice ids: the model labels roles consistently across segments
+          speakerId: speaker,
+          speaker,
+          startMs: offsetMs + Math.round(start * 1000),
+          endMs: offsetMs + Math.round(end * 1000),
+          text: (u.text as string).trim(),
+          words: parseWords(u.words, offsetMs),
+        };
+      });
+  } catch {
+    console.warn('Diarized response was not valid JSON, returning unattributed text');
+    const text = content.trim();
+    if (!text) return [];
+    return [{
+      id: `${idPrefix}-u0`,
+      speakerId: 'unknown',
+      speaker: 'unknown',
+      startMs: offsetMs,
+      endMs: segment?.endMs ?? offsetMs,
+      text,
+    }];
+  }
+}
 
 // Sanitize error messages - don't expose internal details
 function sanitizeError(error: unknown): string {
@@ -18,6 +165,7 @@ function sanitizeError(error: unknown): string {
     if (error.message.includes('Audio file is too large')) return error.message;
     if (error.message.includes('No audio data provided')) return error.message;
     if (error.message.includes('Invalid audio format')) return error.message;
+    if (error.message.includes('Invalid segment metadata')) return error.message;
     if (error.message.includes('API key')) return 'Service configuration error. Please contact support.';
     
     // Log the actual error for debugging
@@ -33,13 +181,6 @@ serve(async (req) => {
   }
 
   try {
-    // Use GOOGLE_API_KEY for direct Gemini API access (external Supabase compatible)
-    const GOOGLE_API_KEY = Deno.env.get('GOOGLE_API_KEY');
-    if (!GOOGLE_API_KEY) {
-      console.error('GOOGLE_API_KEY is not configured');
-      throw new Error('Service configuration error');
-    }
-
     // Parse and validate request body
     let body;
     try {
@@ -49,6 +190,16 @@ serve(async (req) => {
     }
 
     const { audio, mimeType } = body;
+    const segment = parseSegmentInfo(body.segment);
+    const diarize = body.diarize === true;
+    const wordTimestamps = diarize && body.wordTimestamps === true;
+    const previousText = typeof body.previousText === 'string'
+      ? body.previousText.trim().slice(-MAX_PREVIOUS_TEXT_CHARS)
+      : '';
+    const language = typeof body.language === 'string' &&
+      (body.language === 'auto' || Object.hasOwn(LANGUAGE_NAMES, body.language))
+      ? body.language
+      : 'en';
 
     // Validate required fields
     if (!audio || typeof audio !== 'string') {
@@ -67,48 +218,55 @@ serve(async (req) => {
       throw new Error(`Audio file is too large. Maximum size is ${MAX_AUDIO_SIZE_MB}MB.`);
     }
 
-    console.log('Transcribing audio with Google Gemini API, mimeType:', normalizedMimeType, 'size:', Math.round(estimatedSize / 1024), 'KB');
-
-    // Build Google Gemini native request format
-    const geminiRequestBody = {
-      contents: [{
-        role: 'user',
-        parts: [
-          {
-            inline_data: {
-              mime_type: normalizedMimeType,
-              data: audio
-            }
-          },
-          {
-            text: 'Transcribe this audio recording accurately. Return ONLY the transcription text, no timestamps, no speaker labels, no formatting, no commentary. Just the exact words spoken.'
-          }
-        ]
-      }],
-      generationConfig: {
-        maxOutputTokens: 4096
-      }
-    };
-    
-    console.log('Sending audio to Google Gemini API...');
+    console.log('Transcribing audio, mimeType:', normalizedMimeType, 'size:', Math.round(estimatedSize / 1024), 'KB', segment ? `segment: ${segment.index}` : '');
+
+    // Diarized transcripts come back as JSON utterances
+    const result = await llm.complete({
+      prompt: [
+        { type: 'audio', mimeType: normalizedMimeType, data: audio },
+        { type: 'text', text: buildPrompt(segment, previousText, diarize, wordTimestamps, language) },
+      ],
+      json: diarize,
+      maxOutputTokens: wordTimestamps ? 16384 : diarize ? 8192 : 4096,
+      tracking: trackingFrom(req),
+    });
+    const content = result.text;
+
+    // Diarized responses carry the words inside utterances; flatten them for plain-text callers
+    const utterances = diarize ? parseUtterances(content, segment) : undefined;
+    const transcription = utterances ? utterances.map(u => u.text).join(' ') : content;
     
-    // Call Google Gemini API directly with API key as query parameter
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${GOOGLE_API_KEY}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(geminiRequestBody),
+    if (!transcription) {
+      console.warn('Empty transcription received from the model');
+      // Check if there's a block reason
+      if (result.finishReason === 'SAFETY') {
+        return new Response(
+          JSON.stringify({ 
+            error: 'Audio content was blocked by safety filters. Please try with different content.', 
+            errorCode: 'CONTENT_FILTERED',
+            success: false 
+          }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
       }
+    }
+    
+    console.log('Transcription successful, length:', transcription.length);
+
+    return new Response(
+      JSON.stringify({ 
+        text: transcription.trim(),
+        utterances,
+        // Segmented uploads get their timing echoed back for client-side stitching
+        segment: segment ? { ...segment, text: transcription.trim(), utterances } : undefined,
+        success: true 
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Google Gemini API error:', response.status, errorText);
-      
-      if (response.status === 429) {
+  } catch (error) {
+    if (error instanceof LlmError) {
+      if (error.status === 429) {
         return new Response(
           JSON.stringify({ 
             error: 'Transcription service is temporarily unavailable due to high usage. Your recording was saved - please try generating the note again in a few minutes.', 
@@ -119,10 +277,10 @@ serve(async (req) => {
         );
       }
 
-      if (response.status === 403) {
+      if (error.status === 401 || error.status === 403) {
         return new Response(
           JSON.stringify({ 
-            error: 'API access denied. Please check your Google API key configuration.', 
+            error: 'API access denied. Please check the transcription service API key configuration.', 
             errorCode: 'AUTH_ERROR',
             success: false 
           }),
@@ -130,7 +288,7 @@ serve(async (req) => {
         );
       }
 
-      if (response.status === 400) {
+      if (error.status === 400) {
         return new Response(
           JSON.stringify({ 
             error: 'Invalid request to transcription service. Please try again with a different recording.', 
@@ -140,41 +298,8 @@ serve(async (req) => {
           { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
-      
-      throw new Error('Transcription service error');
     }
 
-    const result = await response.json();
-    
-    // Parse Google Gemini response format: candidates[0].content.parts[0].text
-    const transcription = result.candidates?.[0]?.content?.parts?.[0]?.text || '';
-    
-    if (!transcription) {
-      console.warn('Empty transcription received from Gemini API');
-      // Check if there's a block reason
-      if (result.candidates?.[0]?.finishReason === 'SAFETY') {
-        return new Response(
-          JSON.stringify({ 
-            error: 'Audio content was blocked by safety filters. Please try with different content.', 
-            errorCode: 'CONTENT_FILTERED',
-            success: false 
-          }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-    }
-    
-    console.log('Transcription successful, length:', transcription.length);
-
-    return new Response(
-      JSON.stringify({ 
-        text: transcription.trim(),
-        success: true 
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-
-  } catch (error) {
     const safeError = sanitizeError(error);
     return new Response(
       JSON.stringify({ 
@@ -0,0 +1,94 @@
+-- Practices group clinicians who share configuration (dictionaries, templates)
+CREATE TABLE IF NOT EXISTS public.practices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.practice_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  practice_id UUID NOT NULL REFERENCES public.practices(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (practice_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_practice_members_user_id ON public.practice_members(user_id);
+
+-- Membership checks (SECURITY DEFINER so policies on practice_members don't recurse)
+CREATE OR REPLACE FUNCTION public.is_practice_member(_practice_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.practice_members
+    WHERE practice_id = _practice_id AND user_id = _user_id
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_practice_admin(_practice_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.practice_members
+    WHERE practice_id = _practice_id AND user_id = _user_id AND role = 'admin'
+  )
+$$;
+
+-- Enable RLS
+ALTER TABLE public.practices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.practice_members ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Members can view their practices"
+ON public.practices
+FOR SELECT
+USING (public.is_practice_member(id, auth.uid()));
+
+CREATE POLICY "Practice admins can update their practices"
+ON public.practices
+FOR UPDATE
+USING (public.is_practice_admin(id, auth.uid()));
+
+CREATE POLICY "Admins can manage practices"
+ON public.practices
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Members can view members of their practices"
+ON public.practice_members
+FOR SELECT
+USING (public.is_practice_member(practice_id, auth.uid()));
+
+CREATE POLICY "Practice admins can manage members"
+ON public.practice_members
+FOR ALL
+USING (public.is_practice_admin(practice_id, auth.uid()))
+WITH CHECK (public.is_practice_admin(practice_id, auth.uid()));
+
+CREATE POLICY "Admins can manage practice members"
+ON public.practice_members
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_practices_updated_at
+BEFORE UPDATE ON public.practices
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at();
+
+DROP TRIGGER IF EXISTS audit_practice_members ON public.practice_members;
+CREATE TRIGGER audit_practice_members
+AFTER INSERT OR UPDATE OR DELETE ON public.practice_members
+FOR EACH ROW EXECUTE FUNCTION public.audit_trigger_func();
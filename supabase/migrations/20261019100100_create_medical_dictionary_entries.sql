@@ -0,0 +1,61 @@
+-- Personal and practice-wide transcription corrections, merged with the built-in dictionary
+CREATE TABLE IF NOT EXISTS public.medical_dictionary_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  practice_id UUID REFERENCES public.practices(id) ON DELETE CASCADE, -- NULL for personal entries
+  heard TEXT NOT NULL CHECK (length(trim(heard)) > 0),
+  corrected TEXT NOT NULL CHECK (length(trim(corrected)) > 0),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'learned')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One correction per heard phrase within each dictionary
+CREATE UNIQUE INDEX IF NOT EXISTS idx_medical_dictionary_personal_heard
+ON public.medical_dictionary_entries(user_id, lower(heard))
+WHERE practice_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_medical_dictionary_practice_heard
+ON public.medical_dictionary_entries(practice_id, lower(heard))
+WHERE practice_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE public.medical_dictionary_entries ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view own and practice dictionary entries"
+ON public.medical_dictionary_entries
+FOR SELECT
+USING (
+  (practice_id IS NULL AND auth.uid() = user_id)
+  OR (practice_id IS NOT NULL AND public.is_practice_member(practice_id, auth.uid()))
+);
+
+CREATE POLICY "Users can insert own dictionary entries"
+ON public.medical_dictionary_entries
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (practice_id IS NULL OR public.is_practice_admin(practice_id, auth.uid()))
+);
+
+CREATE POLICY "Users can update own or practice dictionary entries"
+ON public.medical_dictionary_entries
+FOR UPDATE
+USING (
+  (practice_id IS NULL AND auth.uid() = user_id)
+  OR (practice_id IS NOT NULL AND public.is_practice_admin(practice_id, auth.uid()))
+);
+
+CREATE POLICY "Users can delete own or practice dictionary entries"
+ON public.medical_dictionary_entries
+FOR DELETE
+USING (
+  (practice_id IS NULL AND auth.uid() = user_id)
+  OR (practice_id IS NOT NULL AND public.is_practice_admin(practice_id, auth.uid()))
+);
+
+CREATE TRIGGER update_medical_dictionary_entries_updated_at
+BEFORE UPDATE ON public.medical_dictionary_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at();
@@ -0,0 +1,27 @@
+-- Encounter audio and timed transcript segments, for listening back while reviewing a note
+ALTER TABLE public.clinical_notes
+ADD COLUMN IF NOT EXISTS audio_path TEXT,
+ADD COLUMN IF NOT EXISTS transcript_segments JSONB;
+
+COMMENT ON COLUMN public.clinical_notes.audio_path IS 'Object path in the encounter-audio bucket: <user_id>/<note_id>.<ext>';
+COMMENT ON COLUMN public.clinical_notes.transcript_segments IS 'Speaker segments with start/end and optional word timings in ms from the start of the audio';
+
+-- Private bucket; each user's recordings live under a folder named after their user id
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('encounter-audio', 'encounter-audio', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view own encounter audio"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'encounter-audio' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can upload own encounter audio"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'encounter-audio' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete own encounter audio"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'encounter-audio' AND auth.uid()::text = (storage.foldername(name))[1]);
@@ -0,0 +1,7 @@
+-- Keep the transcript as recognized next to the corrected one, with every substitution and its review outcome
+ALTER TABLE public.clinical_notes
+ADD COLUMN IF NOT EXISTS raw_transcript TEXT,
+ADD COLUMN IF NOT EXISTS transcript_corrections JSONB;
+
+COMMENT ON COLUMN public.clinical_notes.raw_transcript IS 'Transcript before dictionary and AI medical-term corrections';
+COMMENT ON COLUMN public.clinical_notes.transcript_corrections IS 'Substitutions applied to raw_transcript: original, corrected, source (dictionary|ai) and status (pending|accepted|rejected)';
@@ -0,0 +1,7 @@
+-- Notes from non-English encounters are written in English; record what they were translated from
+ALTER TABLE public.clinical_notes
+ADD COLUMN IF NOT EXISTS source_language TEXT NOT NULL DEFAULT 'en',
+ADD COLUMN IF NOT EXISTS interpreter_used BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.clinical_notes.source_language IS 'ISO 639-1 code of the language spoken in the encounter; the transcript is kept in this language and generated_note is an English translation when it is not en';
+COMMENT ON COLUMN public.clinical_notes.interpreter_used IS 'Whether the encounter was conducted through a medical interpreter';
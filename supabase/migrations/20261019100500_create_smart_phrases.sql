@@ -0,0 +1,61 @@
+-- Personal and practice-wide dot phrases (".normexam") expanded in the transcript before note generation
+CREATE TABLE IF NOT EXISTS public.smart_phrases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  practice_id UUID REFERENCES public.practices(id) ON DELETE CASCADE, -- NULL for personal phrases
+  trigger TEXT NOT NULL CHECK (trigger ~ '^[a-z0-9_-]+$'), -- Typed after a dot, stored without it
+  description TEXT,
+  content TEXT NOT NULL CHECK (length(trim(content)) > 0), -- May contain {patient.*} variables
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One phrase per trigger within each library
+CREATE UNIQUE INDEX IF NOT EXISTS idx_smart_phrases_personal_trigger
+ON public.smart_phrases(user_id, trigger)
+WHERE practice_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_smart_phrases_practice_trigger
+ON public.smart_phrases(practice_id, trigger)
+WHERE practice_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE public.smart_phrases ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view own and practice smart phrases"
+ON public.smart_phrases
+FOR SELECT
+USING (
+  (practice_id IS NULL AND auth.uid() = user_id)
+  OR (practice_id IS NOT NULL AND public.is_practice_member(practice_id, auth.uid()))
+);
+
+CREATE POLICY "Users can insert own smart phrases"
+ON public.smart_phrases
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (practice_id IS NULL OR public.is_practice_admin(practice_id, auth.uid()))
+);
+
+CREATE POLICY "Users can update own or practice smart phrases"
+ON public.smart_phrases
+FOR UPDATE
+USING (
+  (practice_id IS NULL AND auth.uid() = user_id)
+  OR (practice_id IS NOT NULL AND public.is_practice_admin(practice_id, auth.uid()))
+);
+
+CREATE POLICY "Users can delete own or practice smart phrases"
+ON public.smart_phrases
+FOR DELETE
+USING (
+  (practice_id IS NULL AND auth.uid() = user_id)
+  OR (practice_id IS NOT NULL AND public.is_practice_admin(practice_id, auth.uid()))
+);
+
+CREATE TRIGGER update_smart_phrases_updated_at
+BEFORE UPDATE ON public.smart_phrases
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at();
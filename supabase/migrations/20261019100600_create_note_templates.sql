@@ -0,0 +1,58 @@
+-- Clinician-designed note templates, used in place of the fixed sections when the note format is "custom"
+CREATE TABLE IF NOT EXISTS public.note_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  practice_id UUID REFERENCES public.practices(id) ON DELETE CASCADE, -- NULL for personal templates
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  note_type TEXT CHECK (note_type IN ('hp', 'consult', 'progress')), -- NULL applies to every clinical note type
+  specialty TEXT, -- NULL applies to every specialty
+  sections JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(sections) = 'array'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.note_templates.sections IS 'Ordered sections: [{ "heading": string, "instructions": string, "required": boolean }]';
+
+CREATE INDEX IF NOT EXISTS idx_note_templates_user_id ON public.note_templates(user_id);
+CREATE INDEX IF NOT EXISTS idx_note_templates_practice_id ON public.note_templates(practice_id);
+
+-- Enable RLS
+ALTER TABLE public.note_templates ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view own and practice note templates"
+ON public.note_templates
+FOR SELECT
+USING (
+  (practice_id IS NULL AND auth.uid() = user_id)
+  OR (practice_id IS NOT NULL AND public.is_practice_member(practice_id, auth.uid()))
+);
+
+CREATE POLICY "Users can insert own note templates"
+ON public.note_templates
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (practice_id IS NULL OR public.is_practice_admin(practice_id, auth.uid()))
+);
+
+CREATE POLICY "Users can update own or practice note templates"
+ON public.note_templates
+FOR UPDATE
+USING (
+  (practice_id IS NULL AND auth.uid() = user_id)
+  OR (practice_id IS NOT NULL AND public.is_practice_admin(practice_id, auth.uid()))
+);
+
+CREATE POLICY "Users can delete own or practice note templates"
+ON public.note_templates
+FOR DELETE
+USING (
+  (practice_id IS NULL AND auth.uid() = user_id)
+  OR (practice_id IS NOT NULL AND public.is_practice_admin(practice_id, auth.uid()))
+);
+
+CREATE TRIGGER update_note_templates_updated_at
+BEFORE UPDATE ON public.note_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at();
@@ -0,0 +1,86 @@
+-- Every version of a note's text, so its evolution can be reviewed, compared and restored
+CREATE TABLE IF NOT EXISTS public.clinical_note_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Deferred so a note's first version can be recorded before the note row is written
+  note_id UUID NOT NULL REFERENCES public.clinical_notes(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+  version_number INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('ai_generation', 'manual_edit', 'section_regenerate', 'restore')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (note_id, version_number)
+);
+
+-- Written by the client alongside generated_note to say how the new text came about.
+-- Consumed by the versioning trigger and always reset to NULL, so an update that
+-- does not set it is recorded as a manual edit.
+ALTER TABLE public.clinical_notes
+ADD COLUMN IF NOT EXISTS edit_source TEXT
+CHECK (edit_source IN ('ai_generation', 'manual_edit', 'section_regenerate', 'restore'));
+
+COMMENT ON COLUMN public.clinical_notes.edit_source IS 'Write-only: source of the generated_note being written, recorded in clinical_note_versions';
+
+-- Enable RLS
+ALTER TABLE public.clinical_note_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are written only by the trigger and never changed
+CREATE POLICY "Users can view versions of own notes"
+ON public.clinical_note_versions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.clinical_notes
+    WHERE clinical_notes.id = clinical_note_versions.note_id
+      AND clinical_notes.user_id = auth.uid()
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.record_clinical_note_version(_note_id UUID, _content TEXT, _source TEXT, _fallback_user UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.clinical_note_versions (note_id, version_number, content, source, created_by)
+  SELECT _note_id, COALESCE(MAX(version_number), 0) + 1, _content, _source, COALESCE(auth.uid(), _fallback_user)
+  FROM public.clinical_note_versions
+  WHERE note_id = _note_id;
+END;
+$$;
+
+-- Record the new text before it is written, then clear edit_source on the row
+-- being written, so no second UPDATE (and no second round of triggers) is needed
+CREATE OR REPLACE FUNCTION public.version_clinical_note()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.generated_note IS NOT NULL THEN
+      PERFORM public.record_clinical_note_version(NEW.id, NEW.generated_note, COALESCE(NEW.edit_source, 'ai_generation'), NEW.user_id);
+    END IF;
+  ELSIF NEW.generated_note IS DISTINCT FROM OLD.generated_note AND NEW.generated_note IS NOT NULL THEN
+    PERFORM public.record_clinical_note_version(NEW.id, NEW.generated_note, COALESCE(NEW.edit_source, 'manual_edit'), NEW.user_id);
+  END IF;
+  NEW.edit_source := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER version_clinical_notes
+BEFORE INSERT OR UPDATE ON public.clinical_notes
+FOR EACH ROW
+EXECUTE FUNCTION public.version_clinical_note();
+
+-- Existing notes start with their current text as version 1
+INSERT INTO public.clinical_note_versions (note_id, version_number, content, source, created_by, created_at)
+SELECT id, 1, generated_note, 'ai_generation', user_id, created_at
+FROM public.clinical_notes
+WHERE generated_note IS NOT NULL
+ON CONFLICT (note_id, version_number) DO NOTHING;
+
+-- Only the triggers may record versions
+REVOKE EXECUTE ON FUNCTION public.record_clinical_note_version(UUID, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
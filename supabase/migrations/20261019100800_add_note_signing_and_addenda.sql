@@ -0,0 +1,165 @@
+-- Note signing: a signed note carries the signer's attestation and can no longer be
+-- changed or deleted on its own; later changes are recorded as signed addenda
+ALTER TABLE public.clinical_notes
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'pending_review', 'signed')),
+ADD COLUMN IF NOT EXISTS signed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS signed_by UUID,
+ADD COLUMN IF NOT EXISTS signer_name TEXT,
+ADD COLUMN IF NOT EXISTS signer_npi TEXT,
+ADD COLUMN IF NOT EXISTS signature_attestation TEXT;
+
+COMMENT ON COLUMN public.clinical_notes.status IS 'draft | pending_review | signed; setting signed fills the signature columns from the signer''s profile';
+COMMENT ON COLUMN public.clinical_notes.signature_attestation IS 'Attestation statement with the signer''s name, NPI and time of signing';
+
+CREATE TABLE IF NOT EXISTS public.clinical_note_addenda (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID NOT NULL REFERENCES public.clinical_notes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  content TEXT NOT NULL,
+  signed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  signer_name TEXT NOT NULL,
+  signer_npi TEXT NOT NULL,
+  signature_attestation TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_clinical_note_addenda_note ON public.clinical_note_addenda(note_id, signed_at);
+
+-- Enable RLS
+ALTER TABLE public.clinical_note_addenda ENABLE ROW LEVEL SECURITY;
+
+-- Addenda are written only by add_clinical_note_addendum and never changed
+CREATE POLICY "Users can view addenda of own notes"
+ON public.clinical_note_addenda
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.clinical_notes
+    WHERE clinical_notes.id = clinical_note_addenda.note_id
+      AND clinical_notes.user_id = auth.uid()
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.signature_attestation(_name TEXT, _npi TEXT, _signed_at TIMESTAMPTZ, _is_addendum BOOLEAN)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT format(
+    'I attest that I have personally reviewed this %s and that it is accurate and complete. Electronically signed by %s, NPI %s, on %s.',
+    CASE WHEN _is_addendum THEN 'addendum' ELSE 'note' END,
+    _name,
+    _npi,
+    to_char(_signed_at AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"')
+  );
+$$;
+
+-- Signing fills the signature from the signer's profile; a signed note is locked.
+-- Deleting its patient or its author still removes it: those deletes reach the note
+-- through ON DELETE CASCADE, whose referential-integrity trigger runs this one nested.
+CREATE OR REPLACE FUNCTION public.enforce_clinical_note_signature()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _name TEXT;
+  _npi TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status = 'signed' AND pg_trigger_depth() = 1 THEN
+      RAISE EXCEPTION 'Signed notes cannot be deleted';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'signed' THEN
+    RAISE EXCEPTION 'Signed notes cannot be changed; add an addendum instead';
+  END IF;
+
+  IF NEW.status = 'signed' THEN
+    IF TG_OP = 'INSERT' THEN
+      RAISE EXCEPTION 'Notes must be saved before they are signed';
+    END IF;
+    IF auth.uid() IS NULL OR auth.uid() <> NEW.user_id THEN
+      RAISE EXCEPTION 'Only the author of a note can sign it';
+    END IF;
+    IF COALESCE(btrim(NEW.generated_note), '') = '' THEN
+      RAISE EXCEPTION 'An empty note cannot be signed';
+    END IF;
+
+    SELECT btrim(full_name), btrim(npi_number) INTO _name, _npi
+    FROM public.profiles
+    WHERE user_id = auth.uid();
+
+    IF COALESCE(_name, '') = '' OR COALESCE(_npi, '') = '' THEN
+      RAISE EXCEPTION 'Add your full name and NPI to your profile before signing';
+    END IF;
+
+    NEW.signed_at := now();
+    NEW.signed_by := auth.uid();
+    NEW.signer_name := _name;
+    NEW.signer_npi := _npi;
+    NEW.signature_attestation := public.signature_attestation(_name, _npi, NEW.signed_at, false);
+  ELSE
+    NEW.signed_at := NULL;
+    NEW.signed_by := NULL;
+    NEW.signer_name := NULL;
+    NEW.signer_npi := NULL;
+    NEW.signature_attestation := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to fire before the other BEFORE triggers on clinical_notes
+CREATE TRIGGER lock_signed_clinical_notes
+BEFORE INSERT OR UPDATE OR DELETE ON public.clinical_notes
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_clinical_note_signature();
+
+CREATE OR REPLACE FUNCTION public.add_clinical_note_addendum(_note_id UUID, _content TEXT)
+RETURNS public.clinical_note_addenda
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status TEXT;
+  _name TEXT;
+  _npi TEXT;
+  _signed_at TIMESTAMPTZ := now();
+  _addendum public.clinical_note_addenda;
+BEGIN
+  SELECT status INTO _status
+  FROM public.clinical_notes
+  WHERE id = _note_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Note not found';
+  END IF;
+  IF _status <> 'signed' THEN
+    RAISE EXCEPTION 'Addenda can only be added to signed notes';
+  END IF;
+  IF COALESCE(btrim(_content), '') = '' THEN
+    RAISE EXCEPTION 'An addendum cannot be empty';
+  END IF;
+
+  SELECT btrim(full_name), btrim(npi_number) INTO _name, _npi
+  FROM public.profiles
+  WHERE user_id = auth.uid();
+
+  IF COALESCE(_name, '') = '' OR COALESCE(_npi, '') = '' THEN
+    RAISE EXCEPTION 'Add your full name and NPI to your profile before signing';
+  END IF;
+
+  INSERT INTO public.clinical_note_addenda (note_id, user_id, content, signed_at, signer_name, signer_npi, signature_attestation)
+  VALUES (_note_id, auth.uid(), btrim(_content), _signed_at, _name, _npi, public.signature_attestation(_name, _npi, _signed_at, true))
+  RETURNING * INTO _addendum;
+
+  RETURN _addendum;
+END;
+$$;
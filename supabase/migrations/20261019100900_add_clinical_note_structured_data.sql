@@ -0,0 +1,9 @@
+-- Structured clinical data extracted alongside the narrative note: vitals, labs,
+-- medications, allergies and problem list as typed JSON
+ALTER TABLE public.clinical_notes
+ADD COLUMN IF NOT EXISTS structured_data JSONB;
+
+COMMENT ON COLUMN public.clinical_notes.structured_data IS '{ vitals, labs[], medications[], allergies[], problems[] } extracted from the encounter when the note was generated';
+
+-- Notes that mention a medication or problem, for reconciliation and trending
+CREATE INDEX IF NOT EXISTS idx_clinical_notes_structured_data ON public.clinical_notes USING GIN (structured_data jsonb_path_ops);
@@ -0,0 +1,76 @@
+-- Transcript verification: statements in a generated note that the transcript does not
+-- support are flagged, and a note cannot be signed while any of them is unconfirmed
+ALTER TABLE public.clinical_notes
+ADD COLUMN IF NOT EXISTS verification JSONB;
+
+COMMENT ON COLUMN public.clinical_notes.verification IS '{ checkedAt, flags[] } where each flag is { id, section, statement, reasons[], source, status: unconfirmed | confirmed }';
+
+-- Signing also requires every flagged statement still in the note to be confirmed.
+-- A trigger of its own, so enforce_clinical_note_signature keeps its lock and delete rules
+CREATE OR REPLACE FUNCTION public.require_confirmed_verification_flags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'signed' AND OLD.status IS DISTINCT FROM 'signed' THEN
+    -- Flags whose statement was since edited out of the note no longer count
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(COALESCE(NEW.verification -> 'flags', '[]'::jsonb)) AS flag
+      WHERE COALESCE(flag ->> 'status', 'unconfirmed') <> 'confirmed'
+        AND COALESCE(flag ->> 'statement', '') <> ''
+        AND position(flag ->> 'statement' IN NEW.generated_note) > 0
+    ) THEN
+      RAISE EXCEPTION 'Confirm or remove the statements not supported by the transcript before signing';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to fire after lock_signed_clinical_notes and before the versioning trigger
+CREATE TRIGGER require_verified_clinical_note_signature
+BEFORE UPDATE ON public.clinical_notes
+FOR EACH ROW
+EXECUTE FUNCTION public.require_confirmed_verification_flags();
+
+-- Deleting a patient or user must still cascade to their signed notes, while deleting
+-- a signed note directly is refused. Checked against the live function on a throwaway
+-- parent and note table with the same ON DELETE CASCADE shape
+CREATE TEMP TABLE signature_check_parents (id INT PRIMARY KEY);
+CREATE TEMP TABLE signature_check_notes (
+  id INT PRIMARY KEY,
+  parent_id INT REFERENCES signature_check_parents(id) ON DELETE CASCADE,
+  status TEXT
+);
+CREATE TRIGGER lock_signed_notes
+BEFORE DELETE ON signature_check_notes
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_clinical_note_signature();
+
+DO $$
+DECLARE
+  _refused BOOLEAN := false;
+BEGIN
+  INSERT INTO signature_check_parents VALUES (1), (2);
+  INSERT INTO signature_check_notes VALUES (1, 1, 'signed'), (2, 2, 'signed');
+
+  BEGIN
+    DELETE FROM signature_check_notes WHERE id = 2;
+  EXCEPTION WHEN raise_exception THEN
+    _refused := true;
+  END;
+  IF NOT _refused THEN
+    RAISE EXCEPTION 'enforce_clinical_note_signature must refuse deleting a signed note';
+  END IF;
+
+  DELETE FROM signature_check_parents WHERE id = 1;
+  IF EXISTS (SELECT 1 FROM signature_check_notes WHERE id = 1) THEN
+    RAISE EXCEPTION 'enforce_clinical_note_signature must let cascaded deletes of signed notes through';
+  END IF;
+END;
+$$;
+
+DROP TABLE signature_check_notes, signature_check_parents;
@@ -0,0 +1,109 @@
+-- AI usage tracking: every model call an edge function makes is recorded in
+-- ai_generations, including failed and cancelled calls
+ALTER TABLE public.ai_generations
+ADD COLUMN IF NOT EXISTS function_name TEXT,
+ADD COLUMN IF NOT EXISTS provider TEXT,
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'success' CHECK (status IN ('success', 'error', 'cancelled')),
+ADD COLUMN IF NOT EXISTS error_message TEXT;
+
+COMMENT ON COLUMN public.ai_generations.function_name IS 'Edge function that made the call, e.g. generate-note-with-billing';
+COMMENT ON COLUMN public.ai_generations.provider IS 'cohere | lovable | gemini | mock';
+COMMENT ON COLUMN public.ai_generations.status IS 'success | error (after retries) | cancelled (client stopped a stream)';
+COMMENT ON COLUMN public.ai_generations.error_message IS 'Provider error for failed calls; never contains prompt text';
+COMMENT ON COLUMN public.ai_generations.note_id IS 'Note the call produced or revised; generation calls are linked once the note is saved';
+
+CREATE INDEX IF NOT EXISTS idx_ai_generations_created_at ON public.ai_generations(created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_generations_note ON public.ai_generations(note_id) WHERE note_id IS NOT NULL;
+
+-- Admins see usage across all users
+CREATE POLICY "Admins can view all ai_generations"
+ON public.ai_generations
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Link the calls that produced a note to it once the note is saved. Only the
+-- caller's own unlinked calls can be linked, and only to their own note
+CREATE OR REPLACE FUNCTION public.link_ai_generations(_note_id UUID, _generation_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _linked INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.clinical_notes WHERE id = _note_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Note not found';
+  END IF;
+
+  UPDATE public.ai_generations
+  SET note_id = _note_id
+  WHERE id = ANY(_generation_ids)
+    AND user_id = auth.uid()
+    AND note_id IS NULL;
+
+  GET DIAGNOSTICS _linked = ROW_COUNT;
+  RETURN _linked;
+END;
+$$;
+
+-- Usage per function and model over a period. Runs with the caller's rights:
+-- admins aggregate everyone's calls, other users their own
+CREATE OR REPLACE FUNCTION public.ai_usage_by_model(_from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS TABLE (
+  function_name TEXT,
+  provider TEXT,
+  model_used TEXT,
+  calls BIGINT,
+  failures BIGINT,
+  prompt_tokens BIGINT,
+  completion_tokens BIGINT,
+  p50_ms DOUBLE PRECISION,
+  p95_ms DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    coalesce(g.function_name, 'unknown'),
+    coalesce(g.provider, 'unknown'),
+    coalesce(g.model_used, 'unknown'),
+    count(*),
+    count(*) FILTER (WHERE g.status = 'error'),
+    coalesce(sum(g.prompt_tokens), 0),
+    coalesce(sum(g.completion_tokens), 0),
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY g.generation_time_ms) FILTER (WHERE g.status = 'success'),
+    percentile_cont(0.95) WITHIN GROUP (ORDER BY g.generation_time_ms) FILTER (WHERE g.status = 'success')
+  FROM public.ai_generations g
+  WHERE g.created_at >= _from AND g.created_at < _to
+  GROUP BY 1, 2, 3
+  ORDER BY 4 DESC;
+$$;
+
+-- Daily volume, failures and latency over a period, for trends
+CREATE OR REPLACE FUNCTION public.ai_usage_by_day(_from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS TABLE (
+  day DATE,
+  calls BIGINT,
+  failures BIGINT,
+  tokens BIGINT,
+  p50_ms DOUBLE PRECISION,
+  p95_ms DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (g.created_at AT TIME ZONE 'UTC')::date,
+    count(*),
+    count(*) FILTER (WHERE g.status = 'error'),
+    coalesce(sum(coalesce(g.prompt_tokens, 0) + coalesce(g.completion_tokens, 0)), 0),
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY g.generation_time_ms) FILTER (WHERE g.status = 'success'),
+    percentile_cont(0.95) WITHIN GROUP (ORDER BY g.generation_time_ms) FILTER (WHERE g.status = 'success')
+  FROM public.ai_generations g
+  WHERE g.created_at >= _from AND g.created_at < _to
+  GROUP BY 1
+  ORDER BY 1;
+$$;
@@ -0,0 +1,18 @@
+-- Discharge summaries: generated at discharge from the notes of the patient's
+-- stay and saved as their own note type, linked to the discharge day bill
+ALTER TYPE public.note_type ADD VALUE IF NOT EXISTS 'discharge';
+
+-- Start of the current stay; the summary covers the notes written since
+ALTER TABLE public.patients
+ADD COLUMN IF NOT EXISTS admitted_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+UPDATE public.patients SET admitted_at = created_at;
+
+COMMENT ON COLUMN public.patients.admitted_at IS 'Admission date of the current stay, from the face sheet when known, else when the patient was added';
+
+ALTER TABLE public.bills
+ADD COLUMN IF NOT EXISTS note_id UUID REFERENCES public.clinical_notes(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.bills.note_id IS 'Note documenting the billed service, e.g. the discharge summary for a 99238/99239 bill';
+
+CREATE INDEX IF NOT EXISTS idx_bills_note ON public.bills(note_id) WHERE note_id IS NOT NULL;